@@ -0,0 +1,210 @@
+// Relay for real-time script collaboration
+// Keeps each script's operation log and member table in memory and passes operations and presence between
+// editors. Merging happens in the browser; the relay only checks each operation against the room's members
+// and refuses it before it reaches the log, so every editor applies the same operations. If it restarts,
+// the first editor to rejoin a script sends their saved log and members and the room carries on from there.
+// There are no accounts: once a script has members, an editor proves who they are with the invite code the
+// owner gave them, and the codes never leave the relay. A member table is only taken from an owner it names
+// with a matching code, so whoever first brings a table to an empty room sets it; run the relay where only
+// your team can reach it.
+//
+//   npm run collab:relay              (listens on ws://localhost:4455)
+//   PORT=9000 npm run collab:relay
+
+import WebSocket from 'ws';
+
+const port = Number(process.env.PORT ?? 4455);
+const rooms = new Map();
+
+const getRoom = (name) => {
+  if (!rooms.has(name)) rooms.set(name, { log: [], ids: new Set(), clients: new Map(), members: [] });
+  return rooms.get(name);
+};
+
+// Permissions
+// Mirrors getRequiredPermission and checkPermission in src/utils/scriptCrdt.ts
+const getRequiredPermission = (op) => {
+  switch (op.kind) {
+    case 'add-comment':
+    case 'resolve-comment':
+    case 'add-reply':
+      return 'comment';
+    case 'set-status':
+      return op.status === 'approved' || op.status === 'final' ? 'approve' : 'write';
+    case 'sign-off':
+      return 'approve';
+    default:
+      return 'write';
+  }
+};
+
+// Rooms nobody has been invited to are open; otherwise the actor must hold the permission
+const checkPermission = (room, op) => {
+  if (room.members.length === 0) return null;
+
+  const action = getRequiredPermission(op);
+  const member = room.members.find(item => item.id === op.stamp.actor);
+  // Reviewers sign for themselves only
+  const allowed = member?.actions.includes(action) && (op.kind !== 'sign-off' || op.signoff?.reviewerId === op.stamp.actor);
+  return allowed ? null : { operation: op, actorName: member?.name ?? op.stamp.actor, missing: action };
+};
+
+const readMembers = (members) => Array.isArray(members)
+  ? members.filter(member => member && typeof member.id === 'string' && Array.isArray(member.actions))
+  : [];
+
+// Identity
+const hasCode = (member, inviteCode) => typeof member.inviteCode === 'string' && member.inviteCode.length > 0 && member.inviteCode === inviteCode;
+
+const isVerifiedOwner = (members, actor, inviteCode) => members.some(member =>
+  member.id === actor && member.role === 'owner' && hasCode(member, inviteCode)
+);
+
+const isVerified = (room, client) => room.members.length === 0 || room.members.some(member =>
+  member.id === client.actor && hasCode(member, client.inviteCode)
+);
+
+const getRefusal = (room, client) => room.members.some(member => member.id === client.actor)
+  ? 'The invite code does not match the one the owner set for this collaborator.'
+  : 'You are not a member of this script. Ask its owner to add you.';
+
+const publicMembers = (members) => members.map(({ inviteCode: _inviteCode, ...member }) => member);
+
+// Keeps first arrivals only; an editor re-sends unconfirmed operations after reconnecting. Live operations
+// must carry the sender's own actor; a seed is a saved log and holds everyone's.
+const appendOps = (room, ops, sender) => {
+  const result = { fresh: [], duplicate: [], rejected: [] };
+  ops.filter(op => op && typeof op.id === 'string' && op.stamp && typeof op.stamp.actor === 'string').forEach(op => {
+    if (room.ids.has(op.id)) {
+      result.duplicate.push(op);
+      return;
+    }
+
+    const problem = sender !== undefined && op.stamp.actor !== sender
+      ? { operation: op, actorName: op.stamp.actor, missing: getRequiredPermission(op) }
+      : checkPermission(room, op);
+    if (problem) {
+      result.rejected.push(problem);
+      return;
+    }
+
+    room.ids.add(op.id);
+    room.log.push(op);
+    result.fresh.push(op);
+  });
+  return result;
+};
+
+const send = (socket, message) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message, except) => {
+  room.clients.forEach((_client, socket) => {
+    if (socket !== except) send(socket, message);
+  });
+};
+
+// Editors the new table no longer vouches for are turned away
+const setMembers = (room, members) => {
+  room.members = members;
+  broadcast(room, { type: 'members', members: publicMembers(members) });
+  room.clients.forEach((client, socket) => {
+    if (isVerified(room, client)) return;
+    send(socket, { type: 'refused', reason: getRefusal(room, client) });
+    socket.close();
+  });
+};
+
+const server = new WebSocket.Server({ port });
+
+server.on('connection', (socket) => {
+  let room = null;
+  let roomName = null;
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    if (message.type === 'join') {
+      roomName = String(message.room);
+      room = getRoom(roomName);
+      const client = {
+        actor: String(message.actor),
+        inviteCode: typeof message.inviteCode === 'string' ? message.inviteCode : undefined,
+        presence: message.presence
+      };
+
+      // A verified owner's table replaces the room's; an open room has no owner yet to check against
+      const members = readMembers(message.members);
+      const canSetMembers = room.members.length === 0 || isVerifiedOwner(room.members, client.actor, client.inviteCode);
+      if (members.length > 0 && canSetMembers && isVerifiedOwner(members, client.actor, client.inviteCode)) {
+        setMembers(room, members);
+      }
+
+      if (!isVerified(room, client)) {
+        send(socket, { type: 'refused', reason: getRefusal(room, client) });
+        console.log(`${client.actor} was refused from ${roomName}`);
+        socket.close();
+        room = null;
+        return;
+      }
+      if (room.log.length === 0) appendOps(room, Array.isArray(message.seed) ? message.seed : []);
+
+      room.clients.set(socket, client);
+      send(socket, {
+        type: 'welcome',
+        ops: room.log,
+        members: publicMembers(room.members),
+        peers: Array.from(room.clients.values()).filter(client => client.actor !== message.actor).map(client => client.presence)
+      });
+      broadcast(room, { type: 'presence', presence: message.presence }, socket);
+      console.log(`${message.actor} joined ${roomName} (${room.clients.size} connected)`);
+      return;
+    }
+
+    if (!room) return;
+
+    const client = room.clients.get(socket);
+    if (!isVerified(room, client)) {
+      // The member table changed under this editor
+      send(socket, { type: 'refused', reason: getRefusal(room, client) });
+      socket.close();
+      return;
+    }
+
+    if (message.type === 'ops') {
+      // Echoed to the sender too, which is how it knows the operations are safe
+      const { fresh, duplicate, rejected } = appendOps(room, Array.isArray(message.ops) ? message.ops : [], client.actor);
+      if (fresh.length > 0) broadcast(room, { type: 'ops', ops: fresh });
+      if (duplicate.length > 0) send(socket, { type: 'ops', ops: duplicate });
+      if (rejected.length > 0) send(socket, { type: 'rejected', rejected });
+    } else if (message.type === 'members') {
+      // Only a verified owner can change the members, and the new table must still name them as one
+      const members = readMembers(message.members);
+      const canSetMembers = room.members.length === 0 || isVerifiedOwner(room.members, client.actor, client.inviteCode);
+      if (!canSetMembers || !isVerifiedOwner(members, client.actor, client.inviteCode)) {
+        send(socket, { type: 'members', members: publicMembers(room.members), refused: true });
+        return;
+      }
+      setMembers(room, members);
+      console.log(`${client.actor} changed the members of ${roomName} (${room.members.length})`);
+    } else if (message.type === 'presence') {
+      client.presence = message.presence;
+      broadcast(room, { type: 'presence', presence: message.presence }, socket);
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+    const client = room.clients.get(socket);
+    room.clients.delete(socket);
+    if (client) broadcast(room, { type: 'leave', actor: client.actor });
+  });
+});
+
+console.log(`Collaboration relay listening on ws://localhost:${port}`);
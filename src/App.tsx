@@ -1,5 +1,5 @@
-import React, { useState, useCallback } from 'react';
-import { Camera, Lightbulb, Music, MapPin, Calendar, Settings, Users, FileText, BookOpen, Heart, BarChart2 } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Camera, Lightbulb, Music, MapPin, Calendar, Settings, Users, FileText, BookOpen, Heart, BarChart2, PenTool, Film, Headphones } from 'lucide-react';
 import { Scene } from './types';
 import { SceneComposer } from './components/SceneComposer';
 import { ShotList } from './components/ShotList';
@@ -12,7 +12,22 @@ import { ResearchDashboard } from './components/ResearchDashboard';
 import { EmotionalArcDashboard } from './components/EmotionalArcDashboard';
 import { Document, DocumentAnalysis } from './types';
 import { ProductionDashboard } from './components/ProductionDashboard';
+import { ScriptDashboard } from './components/ScriptDashboard';
+import { MediaDashboard } from './components/MediaDashboard';
+import { AudioDashboard } from './components/audio/AudioDashboard';
+import { ProjectPicker } from './components/ProjectPicker';
+import { ProjectArchiveControls } from './components/ProjectArchiveControls';
 import { createNewProductionProject } from './utils/productionUtils';
+import { loadLatestProject, loadProject, loadWorkspace, saveProject, saveWorkspace } from './utils/projectRepository';
+import { useAutosave } from './hooks/useAutosave';
+import { ProductionProject } from './types/production';
+import { ArchiveImportReport } from './types/storage';
+import { DocumentaryProject, DocumentaryRecord } from './types/documentary';
+import { loadDocumentary, loadDocumentaryForProduction } from './utils/documentaryProject';
+
+const createDefaultProductionProject = () => {
+  return createNewProductionProject('Documentary Project', 'A comprehensive documentary production');
+};
 
 function App() {
   const [scene, setScene] = useState<Scene | null>(null);
@@ -20,7 +35,77 @@ function App() {
   const [shootDate, setShootDate] = useState(new Date());
   const [document, setDocument] = useState<Document | null>(null);
   const [documentAnalysis, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
-  const [productionProject, setProductionProject] = useState(createNewProductionProject('Documentary Project', 'A comprehensive documentary production'));
+  const [productionProject, setProductionProject] = useState<ProductionProject>(createDefaultProductionProject);
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+  const [documentaryRecord, setDocumentaryRecord] = useState<DocumentaryRecord | null>(null);
+  const [documentary, setDocumentary] = useState<DocumentaryProject | null>(null);
+
+  // Restore the last session before autosave is allowed to write anything
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const workspace = await loadWorkspace();
+        const productionId = workspace?.activeProjectIds.production;
+        const production = productionId
+          ? await loadProject('production', productionId)
+          : await loadLatestProject('production');
+
+        if (workspace) {
+          setScene(workspace.scene as Scene | null);
+          setDocument(workspace.document);
+          setDocumentAnalysis(workspace.documentAnalysis);
+          setActiveTab(workspace.activeTab);
+        }
+        if (production) setProductionProject(production);
+      } catch (error) {
+        console.error('Could not restore the saved workspace:', error);
+      } finally {
+        setWorkspaceLoaded(true);
+      }
+    };
+
+    restore();
+  }, []);
+
+  const workspace = useMemo(() => ({
+    activeProjectIds: { production: productionProject.id },
+    activeTab,
+    scene,
+    document,
+    documentAnalysis
+  }), [productionProject.id, activeTab, scene, document, documentAnalysis]);
+
+  const productionSave = useAutosave(
+    productionProject,
+    project => saveProject('production', project),
+    { enabled: workspaceLoaded }
+  );
+  const { saveNow: saveProductionNow } = productionSave;
+
+  // Each production belongs to a documentary that links it to research, scripts and media
+  useEffect(() => {
+    if (!workspaceLoaded || documentaryRecord?.productionProjectId === productionProject.id) return;
+
+    loadDocumentaryForProduction(productionProject)
+      .then(setDocumentaryRecord)
+      .catch(error => console.error('Could not load the documentary:', error));
+  }, [workspaceLoaded, documentaryRecord, productionProject]);
+
+  // Reload linked projects when returning to production, as other modules may have changed them
+  useEffect(() => {
+    if (!documentaryRecord || activeTab !== 'production') return;
+
+    loadDocumentary(documentaryRecord)
+      .then(setDocumentary)
+      .catch(error => console.error('Could not load linked projects:', error));
+  }, [documentaryRecord, activeTab]);
+
+  useAutosave(
+    documentaryRecord,
+    record => (record ? saveProject('documentaries', { ...record, title: productionProject.title, updatedAt: new Date() }) : Promise.resolve()),
+    { enabled: workspaceLoaded && documentaryRecord !== null }
+  );
+  const { saveNow: saveWorkspaceNow } = useAutosave(workspace, saveWorkspace, { enabled: workspaceLoaded });
 
   const handleSceneGenerated = useCallback((newScene: Scene) => {
     setScene(newScene);
@@ -40,14 +125,44 @@ function App() {
     setProductionProject(updatedProject);
   }, []);
 
+  const openProductionProject = useCallback(async (id: string) => {
+    await saveProductionNow();
+    const project = await loadProject('production', id);
+    if (project) setProductionProject(project);
+  }, [saveProductionNow]);
+
+  const createProductionProject = useCallback(async () => {
+    await saveProductionNow();
+    setProductionProject(createDefaultProductionProject());
+  }, [saveProductionNow]);
+
+  const flushSaves = useCallback(async () => {
+    await Promise.all([saveProductionNow(), saveWorkspaceNow()]);
+  }, [saveProductionNow, saveWorkspaceNow]);
+
+  const handleArchiveImported = useCallback(async (report: ArchiveImportReport) => {
+    if (report.workspace) {
+      setScene(report.workspace.scene as Scene | null);
+      setDocument(report.workspace.document);
+      setDocumentAnalysis(report.workspace.documentAnalysis);
+    }
+
+    const productionId = report.workspace?.activeProjectIds.production
+      ?? report.projects.find(project => project.kind === 'production')?.id;
+    if (productionId) await openProductionProject(productionId);
+  }, [openProductionProject]);
+
   const tabs = [
     { id: 'research', label: 'Research', icon: BookOpen },
     { id: 'emotions', label: 'Emotional Arc', icon: Heart },
+    { id: 'script', label: 'Script', icon: PenTool },
+    { id: 'media', label: 'Media', icon: Film },
+    { id: 'audio', label: 'Audio', icon: Headphones },
     { id: 'production', label: 'Production', icon: BarChart2 },
     { id: 'composer', label: 'Scene Composer', icon: Camera },
     { id: 'shots', label: 'Shot List', icon: Settings },
     { id: 'lighting', label: 'Lighting', icon: Lightbulb },
-    { id: 'audio', label: 'Audio', icon: Music },
+    { id: 'sound', label: 'Sound Design', icon: Music },
     { id: 'equipment', label: 'Equipment', icon: FileText },
     { id: 'location', label: 'Location', icon: MapPin },
     { id: 'callsheet', label: 'Call Sheet', icon: Calendar }
@@ -74,6 +189,22 @@ function App() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <ProjectArchiveControls
+                title={productionProject.title}
+                beforeExport={flushSaves}
+                onImported={handleArchiveImported}
+              />
+              {activeTab === 'production' && (
+                <ProjectPicker
+                  kind="production"
+                  currentId={productionProject.id}
+                  currentTitle={productionProject.title}
+                  saveStatus={productionSave.status}
+                  lastSavedAt={productionSave.lastSavedAt}
+                  onOpen={openProductionProject}
+                  onCreate={createProductionProject}
+                />
+              )}
               {scene && (
                 <>
                   <div className="text-sm text-slate-600 dark:text-slate-400">
@@ -95,7 +226,7 @@ function App() {
           <div className="flex space-x-1 overflow-x-auto">
             {tabs.map((tab) => {
               const Icon = tab.icon;
-              const isDisabled = (tab.id !== 'composer' && tab.id !== 'research' && tab.id !== 'emotions' && tab.id !== 'production') && !scene;
+              const isDisabled = (tab.id !== 'composer' && tab.id !== 'research' && tab.id !== 'emotions' && tab.id !== 'script' && tab.id !== 'media' && tab.id !== 'audio' && tab.id !== 'production') && !scene;
               
               return (
                 <button
@@ -139,9 +270,40 @@ function App() {
           />
         )}
         
+        {activeTab === 'script' && (
+          documentaryRecord ? (
+            <ScriptDashboard
+              key={documentaryRecord.id}
+              documentary={documentaryRecord}
+              onDocumentaryUpdate={setDocumentaryRecord}
+            />
+          ) : (
+            <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+              Loading documentary...
+            </div>
+          )
+        )}
+        
+        {activeTab === 'media' && (
+          documentaryRecord ? (
+            <MediaDashboard
+              key={documentaryRecord.id}
+              documentary={documentaryRecord}
+              onDocumentaryUpdate={setDocumentaryRecord}
+            />
+          ) : (
+            <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+              Loading documentary...
+            </div>
+          )
+        )}
+        
+        {activeTab === 'audio' && <AudioDashboard />}
+        
         {activeTab === 'production' && (
           <ProductionDashboard 
             project={productionProject}
+            documentary={documentary}
             onProjectUpdate={handleProjectUpdate}
           />
         )}
@@ -172,7 +334,7 @@ function App() {
               <LightingDesign scene={scene} onSceneUpdate={handleSceneUpdate} />
             )}
 
-            {activeTab === 'audio' && (
+            {activeTab === 'sound' && (
               <AudioDesign scene={scene} onSceneUpdate={handleSceneUpdate} />
             )}
 
@@ -0,0 +1,288 @@
+import React, { useState, useMemo } from 'react';
+import { GripVertical, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Script, ScriptElement, ElementType } from '../types/script';
+import {
+  AvColumn,
+  AvDropTarget,
+  AvRow,
+  buildAvRows,
+  formatTimecode,
+  getAvRowDrift,
+  getElementDuration,
+  insertAvRow,
+  insertInAvRow,
+  moveInAvColumn,
+  syncAvRowTiming
+} from '../utils/scriptLayout';
+
+interface AvScriptEditorProps {
+  script: Script;
+  selectedElement: string | null;
+  onSelectElement: (elementId: string) => void;
+  onContentChange: (content: ScriptElement[]) => void;
+  createElement: (type: ElementType) => ScriptElement;
+  confirmDelete: (elementId: string) => boolean;
+}
+
+const COLUMN_TYPES: Record<AvColumn, { type: ElementType; label: string }[]> = {
+  video: [
+    { type: 'b-roll', label: 'B-Roll' },
+    { type: 'action', label: 'Action' },
+    { type: 'title-card', label: 'Title Card' },
+    { type: 'lower-third', label: 'Lower Third' },
+    { type: 'transition', label: 'Transition' }
+  ],
+  audio: [
+    { type: 'voiceover', label: 'Voiceover' },
+    { type: 'interview-question', label: 'Interview Question' },
+    { type: 'interview-answer', label: 'Interview Answer' },
+    { type: 'music-cue', label: 'Music Cue' },
+    { type: 'sound-effect', label: 'Sound Effect' },
+    { type: 'character', label: 'Character' },
+    { type: 'dialogue', label: 'Dialogue' },
+    { type: 'parenthetical', label: 'Parenthetical' }
+  ]
+};
+
+const NEW_ELEMENT_DURATION = 5;
+
+export const AvScriptEditor: React.FC<AvScriptEditorProps> = ({
+  script,
+  selectedElement,
+  onSelectElement,
+  onContentChange,
+  createElement,
+  confirmDelete
+}) => {
+  const [dragging, setDragging] = useState<{ id: string; column: AvColumn } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rows = useMemo(() => buildAvRows(script.content), [script.content]);
+
+  const newElement = (type: ElementType): ScriptElement => ({
+    ...createElement(type),
+    timing: { estimatedDuration: NEW_ELEMENT_DURATION }
+  });
+
+  const updateElement = (elementId: string, updates: Partial<ScriptElement>) => {
+    onContentChange(script.content.map(element =>
+      element.id === elementId ? { ...element, ...updates } : element
+    ));
+  };
+
+  const deleteElement = (elementId: string) => {
+    if (!confirmDelete(elementId)) return;
+    onContentChange(
+      script.content
+        .filter(element => element.id !== elementId)
+        .map((element, index) => ({ ...element, order: index }))
+    );
+  };
+
+  const setDuration = (element: ScriptElement, value: string) => {
+    const seconds = Math.max(0, parseFloat(value) || 0);
+    updateElement(element.id, { timing: { ...element.timing, estimatedDuration: seconds } });
+  };
+
+  // Drag & drop
+  const allowDrop = (event: React.DragEvent, column: AvColumn, key: string) => {
+    if (dragging?.column !== column) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(key);
+  };
+
+  const drop = (event: React.DragEvent, column: AvColumn, target: AvDropTarget) => {
+    if (!dragging || dragging.column !== column) return;
+    event.preventDefault();
+    event.stopPropagation();
+    onContentChange(moveInAvColumn(script.content, dragging.id, target));
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const renderElement = (element: ScriptElement, row: AvRow, column: AvColumn) => (
+    <div
+      key={element.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDragging({ id: element.id, column });
+      }}
+      onDragEnd={endDrag}
+      onDragOver={(e) => allowDrop(e, column, element.id)}
+      onDrop={(e) => drop(e, column, { rowId: row.id, beforeId: element.id })}
+      onClick={() => onSelectElement(element.id)}
+      className={`
+        group relative p-2 rounded-lg border-2 transition-colors
+        ${dropTarget === element.id ? 'border-t-blue-500' : ''}
+        ${selectedElement === element.id
+          ? 'bg-blue-50 dark:bg-blue-950/20 border-blue-300 dark:border-blue-700'
+          : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-800'
+        }
+        ${dragging?.id === element.id ? 'opacity-50' : ''}
+      `}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center space-x-1">
+          <GripVertical className="w-3 h-3 text-slate-400 cursor-move" />
+          <select
+            value={element.type}
+            onChange={(e) => updateElement(element.id, { type: e.target.value as ElementType })}
+            className="text-xs bg-transparent text-slate-500 dark:text-slate-400 border-none p-0"
+          >
+            {COLUMN_TYPES[column].map(option => (
+              <option key={option.type} value={option.type}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-1">
+          <input
+            type="number"
+            min={0}
+            value={getElementDuration(element)}
+            onChange={(e) => setDuration(element, e.target.value)}
+            className="w-12 text-xs text-right bg-transparent text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700"
+            title="Duration in seconds"
+          />
+          <span className="text-xs text-slate-400">s</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              deleteElement(element.id);
+            }}
+            className="p-1 opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+            title="Delete"
+          >
+            <Trash2 className="w-3 h-3 text-red-500" />
+          </button>
+        </div>
+      </div>
+      <div
+        contentEditable
+        suppressContentEditableWarning
+        className={`
+          outline-none min-h-[1.5em] text-sm text-slate-900 dark:text-slate-100
+          ${element.formatting.bold ? 'font-bold' : ''}
+          ${element.formatting.italic ? 'italic' : ''}
+          ${element.formatting.underline ? 'underline' : ''}
+        `}
+        onBlur={(e) => updateElement(element.id, { content: e.currentTarget.textContent || '' })}
+        dangerouslySetInnerHTML={{ __html: element.content }}
+      />
+    </div>
+  );
+
+  const renderCell = (row: AvRow, column: AvColumn) => {
+    const key = `${row.id}:${column}`;
+    return (
+      <div
+        onDragOver={(e) => allowDrop(e, column, key)}
+        onDrop={(e) => drop(e, column, { rowId: row.id })}
+        className={`p-2 space-y-1 min-h-[4rem] ${dropTarget === key ? 'bg-blue-50 dark:bg-blue-950/20' : ''}`}
+      >
+        {row[column].map(element => renderElement(element, row, column))}
+        <button
+          onClick={() => onContentChange(insertInAvRow(script.content, row.id, newElement(COLUMN_TYPES[column][0].type)))}
+          className="flex items-center space-x-1 px-2 py-1 text-xs text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+        >
+          <Plus className="w-3 h-3" />
+          <span>{column === 'video' ? 'Visual' : 'Audio'}</span>
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-[6rem_1fr_1fr] bg-slate-100 dark:bg-slate-800 text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wide">
+        <div className="p-2">Time</div>
+        <div className="p-2 border-l border-slate-200 dark:border-slate-700">Video</div>
+        <div className="p-2 border-l border-slate-200 dark:border-slate-700">Audio</div>
+      </div>
+
+      {rows.map(row => {
+        if (row.heading) {
+          const heading = row.heading;
+          return (
+            <div
+              key={row.id}
+              onClick={() => onSelectElement(heading.id)}
+              className="flex items-center justify-between px-3 py-2 bg-slate-50 dark:bg-slate-800/50 border-t border-slate-200 dark:border-slate-700"
+            >
+              <div
+                contentEditable
+                suppressContentEditableWarning
+                className="flex-1 outline-none font-bold uppercase text-sm text-slate-900 dark:text-slate-100"
+                onBlur={(e) => updateElement(heading.id, { content: e.currentTarget.textContent || '' })}
+                dangerouslySetInnerHTML={{ __html: heading.content }}
+              />
+              <button
+                onClick={() => deleteElement(heading.id)}
+                className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                title="Delete"
+              >
+                <Trash2 className="w-3 h-3 text-red-500" />
+              </button>
+            </div>
+          );
+        }
+
+        const drift = getAvRowDrift(row);
+        return (
+          <div key={row.id} className="group/row grid grid-cols-[6rem_1fr_1fr] border-t border-slate-200 dark:border-slate-700">
+            <div className="p-2 text-xs text-slate-500 dark:text-slate-400 space-y-1">
+              <div className="font-mono">{formatTimecode(row.startTime)}</div>
+              <div>{Math.round(row.duration)}s</div>
+              {drift !== 0 && row.video.length > 0 && row.audio.length > 0 && (
+                <button
+                  onClick={() => onContentChange(syncAvRowTiming(script.content, row.id))}
+                  className="flex items-center space-x-1 text-amber-600 dark:text-amber-400 hover:underline"
+                  title="Match the picture to the audio"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  <span>{drift > 0 ? `Audio +${Math.round(drift)}s` : `Picture +${Math.round(-drift)}s`}</span>
+                </button>
+              )}
+              <button
+                onClick={() => onContentChange(insertAvRow(script.content, newElement('b-roll'), row.id))}
+                className="flex items-center space-x-1 opacity-0 group-hover/row:opacity-100 hover:text-slate-700 dark:hover:text-slate-200"
+                title="Add a row below"
+              >
+                <Plus className="w-3 h-3" />
+                <span>Row</span>
+              </button>
+            </div>
+            <div className="border-l border-slate-200 dark:border-slate-700">{renderCell(row, 'video')}</div>
+            <div className="border-l border-slate-200 dark:border-slate-700">{renderCell(row, 'audio')}</div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-center space-x-2 p-4 border-t border-slate-200 dark:border-slate-700">
+        <button
+          onClick={() => onContentChange(insertAvRow(script.content, newElement('b-roll')))}
+          className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Row</span>
+        </button>
+        <button
+          onClick={() => {
+            const heading = createElement('scene-heading');
+            onContentChange([...script.content, { ...heading, order: script.content.length }]);
+          }}
+          className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Scene</span>
+        </button>
+      </div>
+    </div>
+  );
+};
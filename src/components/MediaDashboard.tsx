@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { MediaFile } from '../types/media';
+import { DocumentaryRecord } from '../types/documentary';
+import { MediaUpload } from './MediaUpload';
+import { MediaLibrary } from './MediaLibrary';
+import { loadProject, saveProject } from '../utils/projectRepository';
+
+interface MediaDashboardProps {
+  documentary: DocumentaryRecord;
+  onDocumentaryUpdate: (record: DocumentaryRecord) => void;
+}
+
+// Each media file is saved as its own record, with the file itself in the blob store, and listed on the
+// documentary so storyboards and releases can refer to it
+export const MediaDashboard: React.FC<MediaDashboardProps> = ({
+  documentary,
+  onDocumentaryUpdate
+}) => {
+  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const [mediaLoaded, setMediaLoaded] = useState(false);
+  const [selectedMedia, setSelectedMedia] = useState<MediaFile[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mediaLoaded) return;
+
+    Promise.all(documentary.mediaFileIds.map(id => loadProject('media', id)))
+      .then(saved => setMediaFiles(saved.filter(file => file !== null)))
+      .catch(err => console.error('Could not load the media library:', err))
+      .finally(() => setMediaLoaded(true));
+  }, [mediaLoaded, documentary.mediaFileIds]);
+
+  const addMedia = async (media: MediaFile[]) => {
+    if (media.length === 0) return;
+    setIsSaving(true);
+
+    try {
+      await Promise.all(media.map(file => saveProject('media', file)));
+      setMediaFiles(current => [...current, ...media]);
+      onDocumentaryUpdate({ ...documentary, mediaFileIds: [...documentary.mediaFileIds, ...media.map(file => file.id)] });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The media files could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!mediaLoaded) {
+    return (
+      <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+        Loading media library...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <MediaUpload onMediaUpload={addMedia} isProcessing={isSaving} />
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <MediaLibrary
+        mediaFiles={mediaFiles}
+        onMediaSelect={(media) => setSelectedMedia([media])}
+        selectedMedia={selectedMedia}
+        onSelectionChange={setSelectedMedia}
+      />
+    </div>
+  );
+};
@@ -3,9 +3,10 @@ import {
   Calendar, Clock, DollarSign, Users, 
   Briefcase, MapPin, FileText, CheckSquare, 
   BarChart2, Film, Plus, Download, Settings,
-  AlertCircle, TrendingUp, Zap
+  AlertCircle, TrendingUp, Zap, ClipboardList
 } from 'lucide-react';
 import { ProductionProject, ProductionStats } from '../types/production';
+import { DocumentaryProject } from '../types/documentary';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 import { BudgetOverview } from './production/BudgetOverview';
 import { ScheduleOverview } from './production/ScheduleOverview';
@@ -15,24 +16,34 @@ import { MilestoneTracker } from './production/MilestoneTracker';
 import { ComplianceChecklist } from './production/ComplianceChecklist';
 import { DistributionPlanner } from './production/DistributionPlanner';
 import { DocumentManager } from './production/DocumentManager';
+import { LocationsOverview } from './production/LocationsOverview';
+import { BreakdownSheets } from './production/BreakdownSheets';
+import { saveProject } from '../utils/projectRepository';
+import { downloadArchive } from '../utils/projectArchive';
+import { createConverter, formatMoney } from '../utils/currency';
 
 interface ProductionDashboardProps {
   project: ProductionProject;
+  documentary?: DocumentaryProject | null; // Research, scripts and media linked to this production
   onProjectUpdate: (project: ProductionProject) => void;
 }
 
 export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
   project,
+  documentary = null,
   onProjectUpdate
 }) => {
   const [activeTab, setActiveTab] = useState('overview');
   const [isExporting, setIsExporting] = useState(false);
 
   const calculateStats = (): ProductionStats => {
-    // Budget stats
+    // Budget stats, in the base currency
+    const converter = createConverter(project);
     const totalBudget = project.budget.totalBudget;
     const spentBudget = project.budget.expenses.reduce((sum, expense) => 
-      expense.status === 'approved' || expense.status === 'reimbursed' ? sum + expense.amount : sum, 0);
+      expense.status === 'approved' || expense.status === 'reimbursed'
+        ? sum + converter.convert(expense.amount, expense.currency, expense.date)
+        : sum, 0);
     const remainingBudget = totalBudget - spentBudget;
     
     // Schedule stats
@@ -78,6 +89,8 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
     
     return {
       budget: {
+        currency: converter.base,
+        missingRates: Array.from(converter.missing),
         total: totalBudget,
         spent: spentBudget,
         remaining: remainingBudget,
@@ -126,20 +139,15 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
 
   const stats = calculateStats();
 
-  const exportProject = () => {
+  const exportProject = async () => {
     setIsExporting(true);
     
     try {
-      const projectData = JSON.stringify(project, null, 2);
-      const blob = new Blob([projectData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${project.title.replace(/\s+/g, '-').toLowerCase()}-production-${format(new Date(), 'yyyy-MM-dd')}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await saveProject('production', project);
+      await downloadArchive({
+        title: `${project.title} production ${format(new Date(), 'yyyy-MM-dd')}`,
+        selection: { production: [project.id] }
+      });
     } catch (error) {
       console.error('Export failed:', error);
     } finally {
@@ -161,6 +169,7 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
 
   const tabs = [
     { id: 'overview', label: 'Overview', icon: BarChart2 },
+    { id: 'breakdown', label: 'Breakdown', icon: ClipboardList },
     { id: 'schedule', label: 'Schedule', icon: Calendar },
     { id: 'budget', label: 'Budget', icon: DollarSign },
     { id: 'team', label: 'Team', icon: Users },
@@ -240,7 +249,7 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
               <div>
                 <div className="text-xs text-slate-500 dark:text-slate-500 mb-1">Budget Status</div>
                 <div className="text-sm font-medium text-slate-900 dark:text-slate-100">
-                  ${stats.budget.spent.toLocaleString()} / ${stats.budget.total.toLocaleString()}
+                  {formatMoney(stats.budget.spent, stats.budget.currency)} / {formatMoney(stats.budget.total, stats.budget.currency)}
                 </div>
               </div>
               
@@ -277,7 +286,7 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
             <DollarSign className="w-5 h-5 text-green-500" />
           </div>
           <div className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-1">
-            ${stats.budget.remaining.toLocaleString()}
+            {formatMoney(stats.budget.remaining, stats.budget.currency)}
           </div>
           <div className="text-sm text-slate-600 dark:text-slate-400">
             {Math.round(stats.budget.percentageUsed)}% used
@@ -471,7 +480,7 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
                 <span className="font-medium text-red-800 dark:text-red-200">Budget Alert</span>
               </div>
               <p className="mt-1 text-sm text-red-700 dark:text-red-300">
-                Budget usage is at {Math.round(stats.budget.percentageUsed)}%. Only ${stats.budget.remaining.toLocaleString()} remaining.
+                Budget usage is at {Math.round(stats.budget.percentageUsed)}%. Only {formatMoney(stats.budget.remaining, stats.budget.currency)} remaining.
               </p>
             </div>
           )}
@@ -603,13 +612,15 @@ export const ProductionDashboard: React.FC<ProductionDashboardProps> = ({
       {/* Tab Content */}
       <div>
         {activeTab === 'overview' && renderOverviewTab()}
-        {activeTab === 'schedule' && <ScheduleOverview project={project} onProjectUpdate={onProjectUpdate} />}
+        {activeTab === 'breakdown' && <BreakdownSheets project={project} documentary={documentary} onProjectUpdate={onProjectUpdate} />}
+        {activeTab === 'schedule' && <ScheduleOverview project={project} documentary={documentary} onProjectUpdate={onProjectUpdate} />}
         {activeTab === 'budget' && <BudgetOverview project={project} onProjectUpdate={onProjectUpdate} />}
-        {activeTab === 'team' && <TeamOverview project={project} onProjectUpdate={onProjectUpdate} />}
-        {activeTab === 'equipment' && <EquipmentOverview project={project} onProjectUpdate={onProjectUpdate} />}
+        {activeTab === 'team' && <TeamOverview project={project} documentary={documentary} onProjectUpdate={onProjectUpdate} />}
+        {activeTab === 'equipment' && <EquipmentOverview project={project} documentary={documentary} onProjectUpdate={onProjectUpdate} />}
         {activeTab === 'milestones' && <MilestoneTracker project={project} onProjectUpdate={onProjectUpdate} />}
         {activeTab === 'compliance' && <ComplianceChecklist project={project} onProjectUpdate={onProjectUpdate} />}
         {activeTab === 'distribution' && <DistributionPlanner project={project} onProjectUpdate={onProjectUpdate} />}
+        {activeTab === 'locations' && <LocationsOverview project={project} documentary={documentary} onProjectUpdate={onProjectUpdate} />}
         {activeTab === 'documents' && <DocumentManager project={project} onProjectUpdate={onProjectUpdate} />}
       </div>
     </div>
@@ -0,0 +1,174 @@
+import React, { useState, useRef } from 'react';
+import { AlertTriangle, Archive, CheckCircle, Loader, Upload, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ArchiveImportReport, ProjectKind } from '../types/storage';
+import { ARCHIVE_EXTENSION, downloadArchive, importArchive } from '../utils/projectArchive';
+
+interface ProjectArchiveControlsProps {
+  title: string;
+  beforeExport?: () => Promise<void>; // Flush unsaved changes so the archive is current
+  onImported: (report: ArchiveImportReport) => void;
+}
+
+const KIND_LABELS: Record<ProjectKind, string> = {
+  documentaries: 'Documentary',
+  production: 'Production',
+  research: 'Research',
+  audio: 'Audio',
+  scripts: 'Script',
+  media: 'Media library'
+};
+
+export const ProjectArchiveControls: React.FC<ProjectArchiveControlsProps> = ({
+  title,
+  beforeExport,
+  onImported
+}) => {
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [report, setReport] = useState<ArchiveImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportAll = async () => {
+    setBusy('export');
+    setError(null);
+
+    try {
+      await beforeExport?.();
+      await downloadArchive({ title });
+    } catch (err) {
+      console.error('Archive export failed:', err);
+      setError(err instanceof Error ? err.message : 'The archive could not be created.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy('import');
+    setError(null);
+
+    try {
+      const imported = await importArchive(file);
+      setReport(imported);
+      onImported(imported);
+    } catch (err) {
+      console.error('Archive import failed:', err);
+      setError(err instanceof Error ? err.message : 'The archive could not be imported.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${ARCHIVE_EXTENSION},application/zip`}
+        onChange={importFile}
+        className="hidden"
+      />
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="flex items-center space-x-1 px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+          title={`Open a ${ARCHIVE_EXTENSION} archive`}
+        >
+          {busy === 'import' ? <Loader className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          <span>Import</span>
+        </button>
+
+        <button
+          onClick={exportAll}
+          disabled={busy !== null}
+          className="flex items-center space-x-1 px-3 py-2 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50"
+          title={`Save everything as one ${ARCHIVE_EXTENSION} archive`}
+        >
+          {busy === 'export' ? <Loader className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+          <span>Export All</span>
+        </button>
+      </div>
+
+      {(report || error) && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+                {error ? 'Archive Problem' : 'Archive Imported'}
+              </h3>
+              <button
+                onClick={() => {
+                  setReport(null);
+                  setError(null);
+                }}
+                className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+              >
+                <X className="w-5 h-5 text-slate-500" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+              {error && (
+                <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {report && (
+                <>
+                  <div className="text-sm text-slate-600 dark:text-slate-400">
+                    <span className="font-medium text-slate-900 dark:text-slate-100">{report.title}</span>
+                    {' '}exported {format(report.createdAt, 'MMM d, yyyy HH:mm')}
+                  </div>
+
+                  <div className="space-y-2">
+                    {report.projects.map(project => (
+                      <div key={`${project.kind}:${project.id}`} className="flex items-start space-x-2 text-sm">
+                        <CheckCircle className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+                        <div>
+                          <div className="text-slate-900 dark:text-slate-100">
+                            {KIND_LABELS[project.kind]}: {project.title}
+                          </div>
+                          {project.originalId && (
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                              Given a new ID because a project with ID {project.originalId} already exists
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    {report.projects.length === 0 && (
+                      <div className="text-sm text-slate-500 dark:text-slate-400">No projects were restored.</div>
+                    )}
+                  </div>
+
+                  <div className="text-sm text-slate-600 dark:text-slate-400">
+                    {report.mediaCount} media file{report.mediaCount === 1 ? '' : 's'}
+                    {report.frameCount > 0 ? ` and ${report.frameCount} storyboard frame${report.frameCount === 1 ? '' : 's'}` : ''} restored
+                    {report.workspace ? '; scene and document analysis restored' : ''}
+                  </div>
+
+                  {report.warnings.length > 0 && (
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm space-y-1">
+                      {report.warnings.map((warning, index) => (
+                        <div key={index}>{warning}</div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertCircle, Check, ChevronDown, FolderOpen, Loader, Plus, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ProjectKind, ProjectSummary, SaveStatus } from '../types/storage';
+import { deleteProject, listProjects } from '../utils/projectRepository';
+
+interface ProjectPickerProps {
+  kind: ProjectKind;
+  currentId: string;
+  currentTitle: string;
+  saveStatus: SaveStatus;
+  lastSavedAt: Date | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  getDeleteWarning?: (id: string) => string | null; // What else still uses the project
+}
+
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  kind,
+  currentId,
+  currentTitle,
+  saveStatus,
+  lastSavedAt,
+  onOpen,
+  onCreate,
+  getDeleteWarning
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects(kind));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not list saved projects.');
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const openProject = (id: string) => {
+    setIsOpen(false);
+    if (id !== currentId) onOpen(id);
+  };
+
+  const createProject = () => {
+    setIsOpen(false);
+    onCreate();
+  };
+
+  const removeProject = async (summary: ProjectSummary) => {
+    const warning = getDeleteWarning?.(summary.id);
+    const question = `Delete "${summary.title}"${warning ? ' anyway' : ''}? This cannot be undone.`;
+    if (!window.confirm(warning ? `${warning}\n\n${question}` : question)) return;
+
+    try {
+      await deleteProject(kind, summary.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the project.');
+    }
+  };
+
+  const renderStatus = () => {
+    switch (saveStatus) {
+      case 'pending':
+      case 'saving':
+        return (
+          <span className="flex items-center space-x-1">
+            <Loader className="w-3 h-3 animate-spin" />
+            <span>Saving…</span>
+          </span>
+        );
+      case 'saved':
+        return (
+          <span className="flex items-center space-x-1 text-green-600 dark:text-green-400">
+            <Check className="w-3 h-3" />
+            <span>Saved {lastSavedAt ? formatDistanceToNow(lastSavedAt, { addSuffix: true }) : ''}</span>
+          </span>
+        );
+      case 'error':
+        return (
+          <span className="flex items-center space-x-1 text-red-600 dark:text-red-400">
+            <AlertCircle className="w-3 h-3" />
+            <span>Not saved</span>
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-sm"
+        title="Open a saved project"
+      >
+        <FolderOpen className="w-4 h-4 text-slate-500" />
+        <div className="text-left">
+          <div className="max-w-[12rem] truncate text-slate-900 dark:text-slate-100">{currentTitle}</div>
+          <div className="text-xs text-slate-500 dark:text-slate-400">{renderStatus()}</div>
+        </div>
+        <ChevronDown className="w-4 h-4 text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between p-3 border-b border-slate-200 dark:border-slate-700">
+            <span className="text-sm font-medium text-slate-900 dark:text-slate-100">Saved Projects</span>
+            <button
+              onClick={createProject}
+              className="flex items-center space-x-1 px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              <Plus className="w-3 h-3" />
+              <span>New</span>
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 dark:text-red-400">{error}</div>
+          )}
+
+          <div className="max-h-72 overflow-y-auto">
+            {projects.length === 0 && !error ? (
+              <div className="p-4 text-sm text-center text-slate-500 dark:text-slate-400">
+                No saved projects yet
+              </div>
+            ) : (
+              projects.map(summary => (
+                <div
+                  key={summary.id}
+                  className={`flex items-center justify-between px-3 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 ${
+                    summary.id === currentId ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                  }`}
+                >
+                  <button onClick={() => openProject(summary.id)} className="flex-1 min-w-0 text-left">
+                    <div className="text-sm truncate text-slate-900 dark:text-slate-100">{summary.title}</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      Edited {formatDistanceToNow(summary.updatedAt, { addSuffix: true })}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => removeProject(summary)}
+                    disabled={summary.id === currentId}
+                    className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-400"
+                    title={summary.id === currentId ? 'The open project cannot be deleted' : 'Delete project'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
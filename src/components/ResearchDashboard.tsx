@@ -14,35 +14,58 @@ import { ResearchTimeline } from './ResearchTimeline';
 import { AccuracyChecker } from './AccuracyChecker';
 import { CitationManager } from './CitationManager';
 import { ResearchMap } from './ResearchMap';
+import { ProjectPicker } from './ProjectPicker';
+import { loadLatestProject, loadProject, saveProject } from '../utils/projectRepository';
+import { downloadArchive } from '../utils/projectArchive';
+import { useAutosave } from '../hooks/useAutosave';
 
 interface ResearchDashboardProps {
   initialProject?: ResearchProject;
 }
 
+const createDefaultResearchProject = () => {
+  return createNewResearchProject('New Research Project', 'Research project description');
+};
+
 export const ResearchDashboard: React.FC<ResearchDashboardProps> = ({
   initialProject
 }) => {
-  const [project, setProject] = useState<ResearchProject>(
-    initialProject || createNewResearchProject('New Research Project', 'Research project description')
-  );
+  const [project, setProject] = useState<ResearchProject>(initialProject || createDefaultResearchProject);
+  const [projectLoaded, setProjectLoaded] = useState(Boolean(initialProject));
   const [activeTab, setActiveTab] = useState('sources');
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<any | null>(null);
   const [isSearching, setIsSearching] = useState(false);
 
+  // Pick up where the last session left off
   useEffect(() => {
-    // Auto-save project every 5 minutes
-    const saveInterval = setInterval(() => {
-      saveProject();
-    }, 5 * 60 * 1000);
-    
-    return () => clearInterval(saveInterval);
-  }, [project]);
+    if (initialProject) return;
+
+    loadLatestProject('research')
+      .then(saved => saved && setProject(saved))
+      .catch(error => console.error('Could not load the saved research project:', error))
+      .finally(() => setProjectLoaded(true));
+  }, [initialProject]);
+
+  const { status: saveStatus, lastSavedAt, saveNow } = useAutosave(
+    project,
+    current => saveProject('research', current),
+    { enabled: projectLoaded }
+  );
 
-  const saveProject = () => {
-    // In a real app, this would save to a database or file
-    console.log('Saving project:', project);
-    localStorage.setItem(`research-project-${project.id}`, JSON.stringify(project));
+  const openProject = async (id: string) => {
+    await saveNow();
+    const saved = await loadProject('research', id);
+    if (saved) {
+      setProject(saved);
+      setSearchResults(null);
+    }
+  };
+
+  const createProject = async () => {
+    await saveNow();
+    setProject(createDefaultResearchProject());
+    setSearchResults(null);
   };
 
   const handleSearch = () => {
@@ -105,17 +128,13 @@ export const ResearchDashboard: React.FC<ResearchDashboardProps> = ({
     });
   };
 
-  const exportProject = () => {
-    const projectData = JSON.stringify(project, null, 2);
-    const blob = new Blob([projectData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.title.replace(/\s+/g, '-').toLowerCase()}-research.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const exportProject = async () => {
+    try {
+      await saveNow();
+      await downloadArchive({ title: `${project.title} research`, selection: { research: [project.id] } });
+    } catch (error) {
+      console.error('Export failed:', error);
+    }
   };
 
   const tabs = [
@@ -185,8 +204,18 @@ export const ResearchDashboard: React.FC<ResearchDashboardProps> = ({
                 />
               </div>
               
+              <ProjectPicker
+                kind="research"
+                currentId={project.id}
+                currentTitle={project.title}
+                saveStatus={saveStatus}
+                lastSavedAt={lastSavedAt}
+                onOpen={openProject}
+                onCreate={createProject}
+              />
+
               <button
-                onClick={saveProject}
+                onClick={saveNow}
                 className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg"
                 title="Save Project"
               >
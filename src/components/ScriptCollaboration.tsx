@@ -3,7 +3,14 @@ import {
   Users, UserPlus, MessageSquare, Clock, Eye, 
   Lock, Unlock, Settings, Save, AlertCircle 
 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 import { Script, Collaborator, CollaboratorRole, Comment } from '../types/script';
+import { useCollaborationSession } from '../hooks/useCollaborationSession';
+import { getCommentsMentioning, isCommentOpen, parseMentions } from '../utils/scriptComments';
+import { ScriptLiveSession } from './ScriptLiveSession';
+import { ScriptCommentCard, MentionSuggestions } from './ScriptCommentCard';
+import { ScriptReviewPanel } from './ScriptReviewPanel';
+import { ScriptVersionHistory } from './ScriptVersionHistory';
 
 interface ScriptCollaborationProps {
   script: Script;
@@ -21,6 +28,12 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
   });
   const [newComment, setNewComment] = useState('');
   const [commentType, setCommentType] = useState<'general' | 'suggestion' | 'question'>('general');
+  const [commentFilter, setCommentFilter] = useState('all');
+  const { session, state: liveState, updateScript } = useCollaborationSession(script, onScriptUpdate);
+
+  const visibleComments = commentFilter === 'all' ? script.comments
+    : commentFilter === 'open' ? script.comments.filter(isCommentOpen)
+    : getCommentsMentioning(script, commentFilter);
 
   const addCollaborator = () => {
     if (!newCollaborator.name || !newCollaborator.email) return;
@@ -31,10 +44,11 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
       email: newCollaborator.email,
       role: newCollaborator.role,
       permissions: getPermissionsForRole(newCollaborator.role),
-      lastActive: new Date()
+      lastActive: new Date(),
+      inviteCode: uuidv4()
     };
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       collaborators: [...script.collaborators, collaborator],
       updatedAt: new Date()
@@ -86,15 +100,24 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
   };
 
   const removeCollaborator = (id: string) => {
-    onScriptUpdate({
+    updateScript({
       ...script,
       collaborators: script.collaborators.filter(c => c.id !== id),
       updatedAt: new Date()
     });
   };
 
+  // Collaborators added before invite codes existed cannot join a live session until they have one
+  const createInviteCode = (id: string) => {
+    updateScript({
+      ...script,
+      collaborators: script.collaborators.map(c => c.id === id ? { ...c, inviteCode: uuidv4() } : c),
+      updatedAt: new Date()
+    });
+  };
+
   const updateCollaboratorRole = (id: string, role: CollaboratorRole) => {
-    onScriptUpdate({
+    updateScript({
       ...script,
       collaborators: script.collaborators.map(c =>
         c.id === id
@@ -111,12 +134,13 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
     const comment: Comment = {
       id: `comment-${Date.now()}`,
       content: newComment,
-      author: 'Current User',
+      author: session?.actor.name ?? 'Current User',
       createdAt: new Date(),
-      type: commentType
+      type: commentType,
+      mentions: parseMentions(newComment, script.collaborators)
     };
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       comments: [...script.comments, comment],
       updatedAt: new Date()
@@ -125,16 +149,6 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
     setNewComment('');
   };
 
-  const resolveComment = (id: string) => {
-    onScriptUpdate({
-      ...script,
-      comments: script.comments.map(c =>
-        c.id === id ? { ...c, resolved: true } : c
-      ),
-      updatedAt: new Date()
-    });
-  };
-
   const getRoleColor = (role: CollaboratorRole): string => {
     switch (role) {
       case 'owner': return 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300';
@@ -144,15 +158,6 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
     }
   };
 
-  const getCommentTypeColor = (type: string): string => {
-    switch (type) {
-      case 'suggestion': return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300';
-      case 'question': return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300';
-      case 'approval': return 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300';
-      default: return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300';
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -199,6 +204,18 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
                     <div className="text-sm text-slate-600 dark:text-slate-400">
                       {collaborator.email}
                     </div>
+                    {collaborator.inviteCode ? (
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        Invite code: <code className="select-all">{collaborator.inviteCode}</code>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => createInviteCode(collaborator.id)}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Create invite code
+                      </button>
+                    )}
                   </div>
                 </div>
                 
@@ -312,83 +329,54 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
         </div>
       </div>
 
+      {/* Live Editing */}
+      <ScriptLiveSession script={script} session={session} state={liveState} />
+
+      {/* Review */}
+      <ScriptReviewPanel script={script} onScriptUpdate={updateScript} actingAs={session?.actor.id} />
+
       {/* Comments Section */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
-        <div className="flex items-center space-x-2 mb-6">
-          <MessageSquare className="w-5 h-5 text-slate-600 dark:text-slate-400" />
-          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
-            Comments & Feedback ({script.comments.length})
-          </h3>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <MessageSquare className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+              Comments & Feedback ({script.comments.length})
+            </h3>
+          </div>
+          <select
+            value={commentFilter}
+            onChange={(e) => setCommentFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            <option value="all">All comments</option>
+            <option value="open">Open only</option>
+            {script.collaborators.map(collaborator => (
+              <option key={collaborator.id} value={collaborator.id}>Mentioning {collaborator.name}</option>
+            ))}
+          </select>
         </div>
 
         {/* Comments List */}
-        {script.comments.length > 0 ? (
+        {visibleComments.length > 0 ? (
           <div className="space-y-4 mb-6">
-            {script.comments.map((comment) => (
-              <div
+            {visibleComments.map((comment) => (
+              <ScriptCommentCard
                 key={comment.id}
-                className={`p-4 rounded-lg border ${
-                  comment.resolved
-                    ? 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600'
-                    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
-                }`}
-              >
-                <div className="flex items-start justify-between mb-2">
-                  <div className="flex items-center space-x-2">
-                    <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center text-white text-xs font-medium">
-                      {comment.author.charAt(0)}
-                    </div>
-                    <div>
-                      <div className="font-medium text-slate-900 dark:text-slate-100">
-                        {comment.author}
-                      </div>
-                      <div className="text-xs text-slate-500 dark:text-slate-500">
-                        {comment.createdAt.toLocaleString()}
-                      </div>
-                    </div>
-                    <span className={`px-2 py-1 text-xs rounded-full ${getCommentTypeColor(comment.type)}`}>
-                      {comment.type}
-                    </span>
-                  </div>
-                  
-                  {!comment.resolved && (
-                    <button
-                      onClick={() => resolveComment(comment.id)}
-                      className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs rounded hover:bg-green-200 dark:hover:bg-green-900/50"
-                    >
-                      Resolve
-                    </button>
-                  )}
-                </div>
-                
-                <p className={`text-sm ${
-                  comment.resolved
-                    ? 'text-slate-500 dark:text-slate-500'
-                    : 'text-slate-700 dark:text-slate-300'
-                }`}>
-                  {comment.content}
-                </p>
-                
-                {comment.elementId && (
-                  <div className="mt-2 text-xs text-slate-500 dark:text-slate-500">
-                    Referring to: {script.content.find(e => e.id === comment.elementId)?.content.substring(0, 50)}...
-                  </div>
-                )}
-                
-                {comment.resolved && (
-                  <div className="mt-2 flex items-center space-x-1 text-xs text-green-600 dark:text-green-400">
-                    <CheckCircle className="w-3 h-3" />
-                    <span>Resolved</span>
-                  </div>
-                )}
-              </div>
+                script={script}
+                comment={comment}
+                author={session?.actor.name ?? 'Current User'}
+                onScriptUpdate={updateScript}
+              />
             ))}
           </div>
         ) : (
           <div className="text-center py-8 mb-6">
             <MessageSquare className="w-12 h-12 mx-auto text-slate-300 dark:text-slate-600 mb-3" />
             <p className="text-slate-500 dark:text-slate-400">
-              No comments yet. Add feedback to collaborate with your team.
+              {script.comments.length > 0
+                ? 'No comments match this filter.'
+                : 'No comments yet. Add feedback to collaborate with your team.'}
             </p>
           </div>
         )}
@@ -435,10 +423,11 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
             <textarea
               value={newComment}
               onChange={(e) => setNewComment(e.target.value)}
-              placeholder="Add your comment or feedback..."
+              placeholder="Add your comment or feedback, @ to mention someone..."
               className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
               rows={3}
             />
+            <MentionSuggestions text={newComment} collaborators={script.collaborators} onPick={setNewComment} />
             
             <div className="flex items-center justify-end">
               <button
@@ -453,6 +442,9 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
         </div>
       </div>
 
+      {/* Version History */}
+      <ScriptVersionHistory script={script} onScriptUpdate={updateScript} />
+
       {/* Collaboration Settings */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
         <div className="flex items-center space-x-2 mb-4">
@@ -509,9 +501,12 @@ export const ScriptCollaboration: React.FC<ScriptCollaborationProps> = ({
         <ul className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
           <li>• Assign clear roles to team members based on their responsibilities</li>
           <li>• Use specific comment types to distinguish between questions and suggestions</li>
+          <li>• Select text in the editor to comment on it or suggest a replacement the author can accept in one click</li>
           <li>• Resolve comments once they've been addressed to keep the workspace clean</li>
           <li>• Consider locking the script when finalizing to prevent accidental changes</li>
           <li>• Use version control to track major revisions and changes</li>
+          <li>• Branch the script for alternative cuts instead of duplicating it</li>
+          <li>• Keep editing when the connection drops; your changes merge with everyone else's when it returns</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Check, X, CheckCircle, CornerDownRight, Unlink, AlertCircle } from 'lucide-react';
+import { Collaborator, Comment, Script } from '../types/script';
+import {
+  acceptSuggestion,
+  addReply,
+  completeMention,
+  getMentionMatches,
+  rejectSuggestion,
+  resolveAnchor,
+  splitMentions
+} from '../utils/scriptComments';
+
+interface ScriptCommentCardProps {
+  script: Script;
+  comment: Comment;
+  author: string;
+  onScriptUpdate: (script: Script) => void;
+  onSelectAnchor?: (elementId: string) => void;
+}
+
+const TYPE_STYLES: Record<Comment['type'], string> = {
+  general: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  suggestion: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  question: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  approval: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300'
+};
+
+export const MentionText: React.FC<{ text: string; collaborators: Collaborator[] }> = ({ text, collaborators }) => (
+  <>
+    {splitMentions(text, collaborators).map((part, index) => part.collaboratorId ? (
+      <span key={index} className="px-1 rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 font-medium">
+        {part.text}
+      </span>
+    ) : (
+      <span key={index}>{part.text}</span>
+    ))}
+  </>
+);
+
+export const MentionSuggestions: React.FC<{
+  text: string;
+  collaborators: Collaborator[];
+  onPick: (text: string) => void;
+}> = ({ text, collaborators, onPick }) => {
+  const matches = getMentionMatches(text, collaborators);
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="mt-1 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 shadow-sm overflow-hidden">
+      {matches.map(collaborator => (
+        <button
+          key={collaborator.id}
+          onClick={() => onPick(completeMention(text, collaborator))}
+          className="block w-full px-3 py-1.5 text-left text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+        >
+          @{collaborator.name} <span className="text-xs text-slate-500">{collaborator.role}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const ScriptCommentCard: React.FC<ScriptCommentCardProps> = ({
+  script,
+  comment,
+  author,
+  onScriptUpdate,
+  onSelectAnchor
+}) => {
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const element = comment.anchor
+    ? script.content.find(item => item.id === comment.anchor!.elementId)
+    : script.content.find(item => item.id === comment.elementId);
+  const range = comment.anchor && element ? resolveAnchor(comment.anchor, element.content) : null;
+  const detached = !!comment.anchor && !range && comment.suggestion?.status !== 'accepted';
+  const suggestion = comment.suggestion;
+
+  const updateComment = (updated: Comment) => {
+    onScriptUpdate({
+      ...script,
+      comments: script.comments.map(item => item.id === updated.id ? updated : item),
+      updatedAt: new Date()
+    });
+  };
+
+  const run = (update: () => Script) => {
+    try {
+      onScriptUpdate(update());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
+  const sendReply = () => {
+    if (!reply.trim()) return;
+    updateComment(addReply(comment, reply.trim(), author, script.collaborators));
+    setReply('');
+  };
+
+  return (
+    <div
+      className={`p-4 rounded-lg border ${
+        comment.resolved
+          ? 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600'
+          : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
+      }`}
+    >
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center text-white text-xs font-medium">
+            {comment.author.charAt(0)}
+          </div>
+          <div>
+            <div className="font-medium text-slate-900 dark:text-slate-100">
+              {comment.author}
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-500">
+              {comment.createdAt.toLocaleString()}
+            </div>
+          </div>
+          <span className={`px-2 py-1 text-xs rounded-full ${TYPE_STYLES[comment.type]}`}>
+            {comment.type}
+          </span>
+        </div>
+
+        {!comment.resolved && suggestion?.status !== 'pending' && (
+          <button
+            onClick={() => updateComment({ ...comment, resolved: true })}
+            className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs rounded hover:bg-green-200 dark:hover:bg-green-900/50"
+          >
+            Resolve
+          </button>
+        )}
+      </div>
+
+      {/* What it is about */}
+      {comment.anchor && (
+        <button
+          onClick={() => onSelectAnchor?.(comment.anchor!.elementId)}
+          className="block w-full mb-2 pl-2 border-l-2 border-amber-400 text-left text-xs text-slate-600 dark:text-slate-400 italic"
+        >
+          {detached ? (
+            <span className="flex items-center space-x-1 not-italic text-red-600 dark:text-red-400">
+              <Unlink className="w-3 h-3" />
+              <span>The text this referred to was changed: "{comment.anchor.quote}"</span>
+            </span>
+          ) : (
+            `"${range && element ? element.content.slice(range.start, range.end) : comment.anchor.quote}"`
+          )}
+        </button>
+      )}
+      {!comment.anchor && element && (
+        <div className="mb-2 text-xs text-slate-500 dark:text-slate-500">
+          Referring to: {element.content.substring(0, 50)}...
+        </div>
+      )}
+
+      <p className={`text-sm ${comment.resolved ? 'text-slate-500 dark:text-slate-500' : 'text-slate-700 dark:text-slate-300'}`}>
+        <MentionText text={comment.content} collaborators={script.collaborators} />
+      </p>
+
+      {/* Suggested change */}
+      {suggestion && (
+        <div className="mt-3 p-2 rounded bg-slate-50 dark:bg-slate-900/40 text-sm">
+          <div>
+            <span className="bg-red-100 dark:bg-red-900/40 line-through">{suggestion.original}</span>
+            {' → '}
+            <span className="bg-green-100 dark:bg-green-900/40">{suggestion.replacement || '(remove)'}</span>
+          </div>
+          {suggestion.status === 'pending' ? (
+            <div className="flex items-center space-x-2 mt-2">
+              <button
+                onClick={() => run(() => acceptSuggestion(script, comment.id, author))}
+                disabled={detached}
+                className="flex items-center space-x-1 px-2 py-1 bg-green-500 text-white text-xs rounded hover:bg-green-600 disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" />
+                <span>Accept</span>
+              </button>
+              <button
+                onClick={() => run(() => rejectSuggestion(script, comment.id, author))}
+                className="flex items-center space-x-1 px-2 py-1 bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 text-xs rounded hover:bg-slate-300 dark:hover:bg-slate-500"
+              >
+                <X className="w-3 h-3" />
+                <span>Reject</span>
+              </button>
+            </div>
+          ) : (
+            <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              {suggestion.status === 'accepted' ? 'Accepted' : 'Rejected'}
+              {suggestion.decidedBy && ` by ${suggestion.decidedBy}`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-1 mt-2 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Thread */}
+      {comment.replies && comment.replies.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {comment.replies.map(item => (
+            <div key={item.id} className="flex items-start space-x-2 text-sm">
+              <CornerDownRight className="w-3 h-3 mt-1 text-slate-400" />
+              <div>
+                <span className="font-medium text-slate-900 dark:text-slate-100">{item.author}</span>
+                <span className="ml-2 text-xs text-slate-500">{item.createdAt.toLocaleString()}</span>
+                <p className="text-slate-700 dark:text-slate-300">
+                  <MentionText text={item.content} collaborators={script.collaborators} />
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {comment.resolved ? (
+        <div className="mt-2 flex items-center space-x-1 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle className="w-3 h-3" />
+          <span>Resolved</span>
+        </div>
+      ) : (
+        <div className="mt-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && getMentionMatches(reply, script.collaborators).length === 0 && sendReply()}
+              placeholder="Reply, @ to mention"
+              className="flex-1 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            />
+            <button
+              onClick={sendReply}
+              disabled={!reply.trim()}
+              className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Reply
+            </button>
+          </div>
+          <MentionSuggestions text={reply} collaborators={script.collaborators} onPick={setReply} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, Edit3, Users } from 'lucide-react';
+import { Script } from '../types/script';
+import { DocumentaryProject, DocumentaryRecord } from '../types/documentary';
+import { ScriptEditor } from './ScriptEditor';
+import { ScriptCollaboration } from './ScriptCollaboration';
+import { ScriptExporter } from './ScriptExporter';
+import { ProjectPicker } from './ProjectPicker';
+import { loadProject, saveProject } from '../utils/projectRepository';
+import { createNewScript } from '../utils/scriptGenerator';
+import { loadDocumentary } from '../utils/documentaryProject';
+import { formatDeletionImpact, getDeletionImpact } from '../utils/referenceChecker';
+import { useAutosave } from '../hooks/useAutosave';
+
+interface ScriptDashboardProps {
+  documentary: DocumentaryRecord;
+  onDocumentaryUpdate: (record: DocumentaryRecord) => void;
+}
+
+const createDefaultScript = () => {
+  return createNewScript('Untitled Script', 'Documentary script');
+};
+
+// Scripts are saved on their own and listed on the documentary, which is where production breakdowns find them
+export const ScriptDashboard: React.FC<ScriptDashboardProps> = ({
+  documentary,
+  onDocumentaryUpdate
+}) => {
+  const [script, setScript] = useState<Script>(createDefaultScript);
+  const [scriptLoaded, setScriptLoaded] = useState(false);
+  const [activeTab, setActiveTab] = useState('editor');
+  const [linked, setLinked] = useState<DocumentaryProject | null>(null);
+
+  // Open the documentary's first script
+  useEffect(() => {
+    if (scriptLoaded) return;
+
+    const scriptId = documentary.scriptIds[0];
+    if (!scriptId) {
+      setScriptLoaded(true);
+      return;
+    }
+
+    loadProject('scripts', scriptId)
+      .then(saved => saved && setScript(saved))
+      .catch(error => console.error('Could not load the saved script:', error))
+      .finally(() => setScriptLoaded(true));
+  }, [scriptLoaded, documentary.scriptIds]);
+
+  // Shooting days book this documentary's scenes, so deleting scenes or scripts is checked against them
+  useEffect(() => {
+    loadDocumentary(documentary)
+      .then(setLinked)
+      .catch(error => console.error('Could not load linked projects:', error));
+  }, [documentary]);
+
+  const graph = useMemo(() => linked && {
+    ...linked,
+    scripts: [...linked.scripts.filter(other => other.id !== script.id), script]
+  }, [linked, script]);
+
+  const getDeleteWarning = (id: string): string | null => {
+    const impact = graph && getDeletionImpact(graph, { type: 'script', id });
+    return impact && impact.references.length > 0 ? formatDeletionImpact(impact) : null;
+  };
+
+  const { status: saveStatus, lastSavedAt, saveNow } = useAutosave(
+    script,
+    current => saveProject('scripts', current),
+    { enabled: scriptLoaded }
+  );
+
+  // Any script opened here becomes part of the documentary
+  useEffect(() => {
+    if (!scriptLoaded || documentary.scriptIds.includes(script.id)) return;
+    onDocumentaryUpdate({ ...documentary, scriptIds: [...documentary.scriptIds, script.id] });
+  }, [scriptLoaded, script.id, documentary, onDocumentaryUpdate]);
+
+  const openScript = async (id: string) => {
+    await saveNow();
+    const saved = await loadProject('scripts', id);
+    if (saved) setScript(saved);
+  };
+
+  const createScript = async () => {
+    await saveNow();
+    setScript(createDefaultScript());
+  };
+
+  const tabs = [
+    { id: 'editor', label: 'Editor', icon: Edit3 },
+    { id: 'collaboration', label: 'Collaboration', icon: Users },
+    { id: 'export', label: 'Export', icon: Download }
+  ];
+
+  if (!scriptLoaded) {
+    return (
+      <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+        Loading script...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100">
+            {script.title}
+          </h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            {script.content.length} element{script.content.length === 1 ? '' : 's'} • {script.status}
+          </p>
+        </div>
+
+        <ProjectPicker
+          kind="scripts"
+          currentId={script.id}
+          currentTitle={script.title}
+          saveStatus={saveStatus}
+          lastSavedAt={lastSavedAt}
+          onOpen={openScript}
+          onCreate={createScript}
+          getDeleteWarning={getDeleteWarning}
+        />
+      </div>
+
+      {/* Tab Navigation */}
+      <div className="border-b border-slate-200 dark:border-slate-700">
+        <div className="flex space-x-1 overflow-x-auto">
+          {tabs.map((tab) => {
+            const Icon = tab.icon;
+
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`
+                  flex items-center space-x-2 px-6 py-4 text-sm font-medium rounded-t-lg transition-colors whitespace-nowrap
+                  ${activeTab === tab.id
+                    ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                    : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+                  }
+                `}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{tab.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Tab Content */}
+      <div>
+        {activeTab === 'editor' && (
+          <ScriptEditor
+            script={script}
+            onScriptUpdate={setScript}
+            collaborators={script.collaborators}
+            isCollaborative
+            documentary={graph}
+          />
+        )}
+        {activeTab === 'collaboration' && <ScriptCollaboration script={script} onScriptUpdate={setScript} />}
+        {activeTab === 'export' && <ScriptExporter script={script} />}
+      </div>
+    </div>
+  );
+};
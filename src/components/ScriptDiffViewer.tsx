@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { ArrowLeftRight, Check } from 'lucide-react';
+import { ElementDiffRow, ScriptElement } from '../types/script';
+import { alignVersions, diffWords } from '../utils/scriptVersioning';
+
+interface ScriptDiffViewerProps {
+  before: ScriptElement[];
+  after: ScriptElement[];
+  beforeLabel: string;
+  afterLabel: string;
+  showUnchanged?: boolean;
+  onTake?: (elementId: string, side: 'before' | 'after') => void; // Copies that side's element into the draft
+}
+
+const STATUS_STYLES: Record<ElementDiffRow['status'], { label: string; className: string }> = {
+  'unchanged': { label: '', className: '' },
+  'added': { label: 'Added', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  'deleted': { label: 'Deleted', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  'modified': { label: 'Modified', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  'moved': { label: 'Moved', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  'modified-moved': { label: 'Modified & moved', className: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300' }
+};
+
+export const ScriptDiffViewer: React.FC<ScriptDiffViewerProps> = ({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  showUnchanged = false,
+  onTake
+}) => {
+  const rows = useMemo(() => alignVersions(before, after), [before, after]);
+  const visibleRows = showUnchanged ? rows : rows.filter(row => row.status !== 'unchanged');
+
+  const renderSide = (row: ElementDiffRow, side: 'before' | 'after') => {
+    const element = side === 'before' ? row.before : row.after;
+    if (!element) {
+      return <div className="p-3 bg-slate-50 dark:bg-slate-900/40" />;
+    }
+
+    const words = row.before && row.after && row.before.content !== row.after.content
+      ? diffWords(row.before.content, row.after.content).filter(part => part.type !== (side === 'before' ? 'added' : 'removed'))
+      : [{ type: 'equal' as const, text: element.content }];
+
+    return (
+      <div className="group p-3">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs text-slate-500 dark:text-slate-400 capitalize">{element.type.replace('-', ' ')}</span>
+          {onTake && row.status !== 'unchanged' && (
+            <button
+              onClick={() => onTake(row.id, side)}
+              className="flex items-center space-x-1 px-2 py-0.5 text-xs text-slate-600 dark:text-slate-300 opacity-0 group-hover:opacity-100 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+              title={`Use the ${side === 'before' ? beforeLabel : afterLabel} version of this element in the draft`}
+            >
+              <Check className="w-3 h-3" />
+              <span>Use this</span>
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-slate-900 dark:text-slate-100 whitespace-pre-wrap">
+          {words.map((part, index) => (
+            <span
+              key={index}
+              className={
+                part.type === 'removed' ? 'bg-red-100 dark:bg-red-900/40 line-through' :
+                part.type === 'added' ? 'bg-green-100 dark:bg-green-900/40' : ''
+              }
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      </div>
+    );
+  };
+
+  if (visibleRows.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-slate-700 rounded-lg">
+        No differences between {beforeLabel} and {afterLabel}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-2 bg-slate-100 dark:bg-slate-700 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <div className="p-2">{beforeLabel}</div>
+        <div className="p-2 border-l border-slate-200 dark:border-slate-600">{afterLabel}</div>
+      </div>
+      <div className="max-h-[32rem] overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700">
+        {visibleRows.map(row => {
+          const status = STATUS_STYLES[row.status];
+          return (
+            <div key={row.id}>
+              {status.label && (
+                <div className="flex items-center space-x-2 px-3 pt-2">
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+                  {(row.status === 'moved' || row.status === 'modified-moved') && (
+                    <ArrowLeftRight className="w-3 h-3 text-slate-400" />
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-2">
+                {renderSide(row, 'before')}
+                <div className="border-l border-slate-200 dark:border-slate-700">{renderSide(row, 'after')}</div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
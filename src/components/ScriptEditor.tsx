@@ -2,29 +2,76 @@ import React, { useState, useRef, useEffect } from 'react';
 import { 
   Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight,
   Save, Download, Share2, MessageSquare, Users, Clock, Eye,
-  Plus, Trash2, Edit3, Copy, RotateCcw, Play, Pause
+  Plus, Trash2, Edit3, Copy, RotateCcw, Play, Pause, Upload, X, List, Columns
 } from 'lucide-react';
 import { Script, ScriptElement, ElementType, Collaborator, Comment } from '../types/script';
+import { DocumentaryProject } from '../types/documentary';
+import { getDefaultFormatting, importScreenplay } from '../utils/screenplayFormats';
+import { saveVersion } from '../utils/scriptVersioning';
+import { createAnchor, isCommentOpen, parseMentions, rebaseComments, resolveAnchor } from '../utils/scriptComments';
+import { formatDeletionImpact, getDeletionImpact } from '../utils/referenceChecker';
+import { useCollaborationSession } from '../hooks/useCollaborationSession';
+import { AvScriptEditor } from './AvScriptEditor';
+import { MentionSuggestions, ScriptCommentCard } from './ScriptCommentCard';
 
 interface ScriptEditorProps {
   script: Script;
   onScriptUpdate: (script: Script) => void;
   collaborators: Collaborator[];
   isCollaborative?: boolean;
+  documentary?: DocumentaryProject | null; // Linked projects, with this script's unsaved edits
 }
 
+interface TextSelection {
+  elementId: string;
+  start: number;
+  end: number;
+}
+
+// Character offsets of the selection within an element's text
+const getSelectionOffsets = (container: HTMLElement): { start: number; end: number } | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const before = range.cloneRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  return { start, end: start + range.toString().length };
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
 export const ScriptEditor: React.FC<ScriptEditorProps> = ({
   script,
   onScriptUpdate,
   collaborators,
-  isCollaborative = false
+  isCollaborative = false,
+  documentary = null
 }) => {
   const [selectedElement, setSelectedElement] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [showComments, setShowComments] = useState(false);
   const [newComment, setNewComment] = useState('');
+  const [commentType, setCommentType] = useState<'general' | 'suggestion' | 'question'>('general');
+  const [suggestedText, setSuggestedText] = useState('');
+  const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [viewMode, setViewMode] = useState<'linear' | 'two-column'>('linear');
   const editorRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { session, state: liveState, updateScript } = useCollaborationSession(script, onScriptUpdate);
+
+  const selectElement = (elementId: string | null) => {
+    setSelectedElement(elementId);
+    session?.setPresence(elementId);
+  };
 
   const elementTypes: { type: ElementType; label: string; shortcut: string }[] = [
     { type: 'scene-heading', label: 'Scene Heading', shortcut: 'Ctrl+1' },
@@ -39,23 +86,36 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
     const updatedElements = script.content.map(element =>
       element.id === elementId ? { ...element, ...updates } : element
     );
+    const before = script.content.find(element => element.id === elementId);
+    const after = updatedElements.find(element => element.id === elementId);
     
-    onScriptUpdate({
+    updateScript({
       ...script,
       content: updatedElements,
+      comments: before && after ? rebaseComments(script.comments, before, after) : script.comments,
+      updatedAt: new Date()
+    });
+  };
+
+  const createElement = (type: ElementType): ScriptElement => ({
+    id: `element-${Date.now()}`,
+    type,
+    content: getDefaultContent(type),
+    formatting: getDefaultFormatting(type),
+    order: script.content.length,
+    timing: type === 'voiceover' ? { estimatedDuration: 5 } : undefined
+  });
+
+  const updateContent = (content: ScriptElement[]) => {
+    updateScript({
+      ...script,
+      content,
       updatedAt: new Date()
     });
   };
 
   const addElement = (type: ElementType, afterElementId?: string) => {
-    const newElement: ScriptElement = {
-      id: `element-${Date.now()}`,
-      type,
-      content: getDefaultContent(type),
-      formatting: getDefaultFormatting(type),
-      order: script.content.length,
-      timing: type === 'voiceover' ? { estimatedDuration: 5 } : undefined
-    };
+    const newElement = createElement(type);
 
     let updatedElements;
     if (afterElementId) {
@@ -74,20 +134,28 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
       element.order = index;
     });
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       content: updatedElements,
       updatedAt: new Date()
     });
   };
 
+  // Deleting a scene that is booked on a shooting day needs confirming
+  const confirmDelete = (elementId: string): boolean => {
+    const impact = documentary && getDeletionImpact(documentary, { type: 'script-element', id: elementId });
+    if (!impact || impact.references.length === 0) return true;
+    return window.confirm(`${formatDeletionImpact(impact)}\n\nDelete it anyway?`);
+  };
+
   const deleteElement = (elementId: string) => {
+    if (!confirmDelete(elementId)) return;
     const updatedElements = script.content.filter(el => el.id !== elementId);
     updatedElements.forEach((element, index) => {
       element.order = index;
     });
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       content: updatedElements,
       updatedAt: new Date()
@@ -116,7 +184,7 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
       element.order = index;
     });
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       content: updatedElements,
       updatedAt: new Date()
@@ -143,17 +211,30 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
     return defaults[type] || 'New element';
   };
 
-  const getDefaultFormatting = (type: ElementType) => {
-    const formatting = {
-      'scene-heading': { bold: true, fontSize: 12, alignment: 'left' as const },
-      'action': { fontSize: 12, alignment: 'left' as const },
-      'character': { bold: true, fontSize: 12, alignment: 'center' as const, indent: 20 },
-      'dialogue': { fontSize: 12, alignment: 'left' as const, indent: 10 },
-      'voiceover': { italic: true, fontSize: 12, alignment: 'left' as const },
-      'transition': { bold: true, fontSize: 12, alignment: 'right' as const },
-      'parenthetical': { italic: true, fontSize: 10, alignment: 'center' as const }
-    };
-    return formatting[type] || { fontSize: 12, alignment: 'left' as const };
+  const importScript = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importScreenplay(await file.text(), file.name);
+      if (imported.elements.length === 0) {
+        setImportWarnings(imported.warnings);
+        return;
+      }
+      if (script.content.length > 0 && !window.confirm(`Replace the current script with ${file.name}?`)) return;
+
+      updateScript({
+        ...script,
+        title: imported.title || script.title,
+        description: imported.description || script.description,
+        content: imported.elements,
+        updatedAt: new Date()
+      });
+      setImportWarnings(imported.warnings);
+    } catch (error) {
+      setImportWarnings([error instanceof Error ? error.message : `${file.name} could not be read.`]);
+    }
   };
 
   const getElementStyle = (element: ScriptElement) => {
@@ -172,24 +253,63 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
   const addComment = (elementId?: string) => {
     if (!newComment.trim()) return;
 
+    const anchorElement = textSelection && script.content.find(element => element.id === textSelection.elementId);
+    const anchor = anchorElement ? createAnchor(anchorElement, textSelection!.start, textSelection!.end) : undefined;
+
     const comment: Comment = {
       id: `comment-${Date.now()}`,
-      elementId,
-      content: newComment,
-      author: 'Current User',
+      elementId: anchor?.elementId ?? elementId,
+      content: newComment.trim(),
+      author: session?.actor.name ?? 'Current User',
       createdAt: new Date(),
-      type: 'general'
+      type: commentType,
+      anchor,
+      mentions: parseMentions(newComment, script.collaborators),
+      suggestion: anchor && commentType === 'suggestion'
+        ? { original: anchor.quote, replacement: suggestedText, status: 'pending' }
+        : undefined
     };
 
-    onScriptUpdate({
+    updateScript({
       ...script,
       comments: [...script.comments, comment],
       updatedAt: new Date()
     });
 
     setNewComment('');
+    setSuggestedText('');
+    setTextSelection(null);
+  };
+
+  const captureSelection = (elementId: string, container: HTMLElement) => {
+    const offsets = getSelectionOffsets(container);
+    if (offsets) setTextSelection({ elementId, ...offsets });
   };
 
+  // Text under open comments is highlighted
+  const getContentHtml = (element: ScriptElement): string => {
+    const ranges = script.comments
+      .filter(comment => comment.anchor?.elementId === element.id && isCommentOpen(comment))
+      .map(comment => resolveAnchor(comment.anchor!, element.content))
+      .filter((range): range is { start: number; end: number } => !!range && range.end > range.start)
+      .sort((a, b) => a.start - b.start);
+
+    let html = '';
+    let position = 0;
+    ranges.forEach(range => {
+      const start = Math.max(range.start, position);
+      if (range.end <= start) return;
+      html += escapeHtml(element.content.slice(position, start));
+      html += `<mark class="bg-amber-100 dark:bg-amber-900/40 text-inherit rounded-sm">${escapeHtml(element.content.slice(start, range.end))}</mark>`;
+      position = range.end;
+    });
+    return html + escapeHtml(element.content.slice(position));
+  };
+
+  const selectionQuote = textSelection
+    ? script.content.find(element => element.id === textSelection.elementId)?.content.slice(textSelection.start, textSelection.end)
+    : undefined;
+
   const playScript = () => {
     setIsPlaying(true);
     // Simulate script playback
@@ -265,6 +385,24 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             </div>
 
             <div className="flex items-center space-x-2">
+              {/* Layout */}
+              <div className="flex items-center bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+                <button
+                  onClick={() => setViewMode('linear')}
+                  className={`p-1.5 rounded ${viewMode === 'linear' ? 'bg-white dark:bg-slate-700 shadow-sm' : ''}`}
+                  title="Screenplay view"
+                >
+                  <List className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setViewMode('two-column')}
+                  className={`p-1.5 rounded ${viewMode === 'two-column' ? 'bg-white dark:bg-slate-700 shadow-sm' : ''}`}
+                  title="Two-column audio/visual view"
+                >
+                  <Columns className="w-4 h-4" />
+                </button>
+              </div>
+
               {/* Playback Controls */}
               <button
                 onClick={isPlaying ? () => setIsPlaying(false) : playScript}
@@ -279,6 +417,25 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
               </div>
 
               {/* Collaboration */}
+              {liveState && (
+                <div
+                  className="flex items-center -space-x-2"
+                  title={liveState.status === 'connected' ? 'Editing live' : 'Offline; edits will sync on reconnect'}
+                >
+                  <div className={`w-2 h-2 mr-3 rounded-full ${liveState.status === 'connected' ? 'bg-green-500' : 'bg-amber-500'}`} />
+                  {liveState.peers.map(peer => (
+                    <div
+                      key={peer.actor}
+                      className="w-7 h-7 rounded-full flex items-center justify-center text-white text-xs font-medium border-2 border-white dark:border-slate-900"
+                      style={{ backgroundColor: peer.color }}
+                      title={peer.name}
+                    >
+                      {peer.name.charAt(0)}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {isCollaborative && (
                 <button
                   onClick={() => setShowComments(!showComments)}
@@ -290,7 +447,25 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
               )}
 
               {/* Actions */}
-              <button className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".fdx,.fountain,.spmd,.txt"
+                onChange={importScript}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded"
+                title="Import Final Draft or Fountain"
+              >
+                <Upload className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updateScript(saveVersion(script, { description: 'Saved from the editor', author: session?.actor.name ?? 'Current User' }))}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded"
+                title="Save a version"
+              >
                 <Save className="w-4 h-4" />
               </button>
               <button className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded">
@@ -303,9 +478,22 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
           </div>
         </div>
 
+        {importWarnings.length > 0 && (
+          <div className="flex items-start justify-between mx-4 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+            <div className="space-y-1">
+              {importWarnings.map((warning, index) => (
+                <div key={index}>{warning}</div>
+              ))}
+            </div>
+            <button onClick={() => setImportWarnings([])} className="p-1 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Script Content */}
         <div className="flex-1 overflow-y-auto p-8">
-          <div className="max-w-4xl mx-auto space-y-4" ref={editorRef}>
+          <div className={`${viewMode === 'two-column' ? 'max-w-6xl' : 'max-w-4xl'} mx-auto space-y-4`} ref={editorRef}>
             {/* Script Header */}
             <div className="text-center mb-8">
               <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-2">
@@ -324,7 +512,18 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             </div>
 
             {/* Script Elements */}
-            {script.content.map((element, index) => (
+            {viewMode === 'two-column' && (
+              <AvScriptEditor
+                script={script}
+                selectedElement={selectedElement}
+                onSelectElement={selectElement}
+                onContentChange={updateContent}
+                createElement={createElement}
+                confirmDelete={confirmDelete}
+              />
+            )}
+
+            {viewMode === 'linear' && script.content.map((element, index) => (
               <div
                 key={element.id}
                 className={`
@@ -334,7 +533,7 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                     : 'hover:bg-slate-50 dark:hover:bg-slate-800 border-2 border-transparent'
                   }
                 `}
-                onClick={() => setSelectedElement(element.id)}
+                onClick={() => selectElement(element.id)}
               >
                 {/* Element Controls */}
                 <div className="absolute -left-12 top-4 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -372,6 +571,21 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                   </div>
                 </div>
 
+                {/* Who else is here */}
+                {liveState?.peers.some(peer => peer.elementId === element.id) && (
+                  <div className="absolute -top-2 right-4 flex space-x-1">
+                    {liveState.peers.filter(peer => peer.elementId === element.id).map(peer => (
+                      <span
+                        key={peer.actor}
+                        className="px-2 py-0.5 text-xs text-white rounded-full"
+                        style={{ backgroundColor: peer.color }}
+                      >
+                        {peer.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
                 {/* Element Type Badge */}
                 <div className="absolute -top-2 left-4">
                   <span className="px-2 py-1 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs rounded-full">
@@ -388,7 +602,9 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
                   onBlur={(e) => {
                     updateElement(element.id, { content: e.currentTarget.textContent || '' });
                   }}
-                  dangerouslySetInnerHTML={{ __html: element.content }}
+                  onMouseUp={(e) => captureSelection(element.id, e.currentTarget)}
+                  onKeyUp={(e) => captureSelection(element.id, e.currentTarget)}
+                  dangerouslySetInnerHTML={{ __html: getContentHtml(element) }}
                 />
 
                 {/* Timing Info */}
@@ -409,15 +625,17 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
             ))}
 
             {/* Add Element at End */}
-            <div className="text-center py-8">
-              <button
-                onClick={() => addElement('action')}
-                className="flex items-center space-x-2 px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 mx-auto"
-              >
-                <Plus className="w-4 h-4" />
-                <span>Add New Element</span>
-              </button>
-            </div>
+            {viewMode === 'linear' && (
+              <div className="text-center py-8">
+                <button
+                  onClick={() => addElement('action')}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 mx-auto"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add New Element</span>
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -442,38 +660,57 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({
           {/* Comments List */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
             {script.comments.map((comment) => (
-              <div key={comment.id} className="bg-white dark:bg-slate-700 rounded-lg p-3">
-                <div className="flex items-center space-x-2 mb-2">
-                  <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-xs">
-                    {comment.author.charAt(0)}
-                  </div>
-                  <span className="text-sm font-medium text-slate-900 dark:text-slate-100">
-                    {comment.author}
-                  </span>
-                  <span className="text-xs text-slate-500 dark:text-slate-500">
-                    {comment.createdAt.toLocaleDateString()}
-                  </span>
-                </div>
-                <p className="text-sm text-slate-700 dark:text-slate-300">
-                  {comment.content}
-                </p>
-              </div>
+              <ScriptCommentCard
+                key={comment.id}
+                script={script}
+                comment={comment}
+                author={session?.actor.name ?? 'Current User'}
+                onScriptUpdate={updateScript}
+                onSelectAnchor={selectElement}
+              />
             ))}
           </div>
 
           {/* Add Comment */}
-          <div className="p-4 border-t border-slate-200 dark:border-slate-700">
+          <div className="p-4 border-t border-slate-200 dark:border-slate-700 space-y-2">
+            {selectionQuote && (
+              <div className="flex items-start justify-between pl-2 border-l-2 border-amber-400 text-xs text-slate-600 dark:text-slate-400 italic">
+                <span>On "{selectionQuote}"</span>
+                <button onClick={() => setTextSelection(null)} className="p-0.5 hover:bg-slate-200 dark:hover:bg-slate-700 rounded">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+            <select
+              value={commentType}
+              onChange={(e) => setCommentType(e.target.value as typeof commentType)}
+              className="w-full px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm"
+            >
+              <option value="general">Comment</option>
+              <option value="question">Question</option>
+              <option value="suggestion">Suggest a change</option>
+            </select>
+            {commentType === 'suggestion' && selectionQuote && (
+              <input
+                type="text"
+                value={suggestedText}
+                onChange={(e) => setSuggestedText(e.target.value)}
+                placeholder="Replace the selected text with…"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm"
+              />
+            )}
             <textarea
               value={newComment}
               onChange={(e) => setNewComment(e.target.value)}
-              placeholder="Add a comment..."
+              placeholder={selectionQuote ? 'Comment on the selected text, @ to mention' : 'Select text to comment on it, @ to mention'}
               className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm resize-none"
               rows={3}
             />
+            <MentionSuggestions text={newComment} collaborators={script.collaborators} onPick={setNewComment} />
             <button
               onClick={() => addComment(selectedElement || undefined)}
               disabled={!newComment.trim()}
-              className="mt-2 w-full px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              className="w-full px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
             >
               Add Comment
             </button>
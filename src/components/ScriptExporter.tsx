@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { Download, FileText, FileImage, Printer, Settings, Eye, Share2 } from 'lucide-react';
-import { Script, ExportOptions, ExportFormat } from '../types/script';
+import { Script, ScriptElement, ExportOptions, ExportFormat, CustomFormatting, Margins } from '../types/script';
 import jsPDF from 'jspdf';
+import { serializeFdx, serializeFountain } from '../utils/screenplayFormats';
+import { createScriptDocx, DEFAULT_CUSTOM_FORMATTING, DOCX_MIME_TYPE } from '../utils/docxExport';
+import { buildAvRows, formatTimecode } from '../utils/scriptLayout';
 
 interface ScriptExporterProps {
   script: Script;
@@ -16,7 +19,10 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
     includeRevisions: false,
     includeTimecodes: true,
     pageNumbers: true,
-    watermark: ''
+    watermark: '',
+    layout: 'screenplay',
+    sceneNumbers: false,
+    customFormatting: DEFAULT_CUSTOM_FORMATTING
   });
   const [isExporting, setIsExporting] = useState(false);
 
@@ -37,9 +43,15 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
         case 'pdf':
           await exportToPDF();
           break;
-        case 'docx':
         case 'fountain':
+          downloadFile(serializeFountain(script), 'fountain', 'text/plain');
+          break;
         case 'fdx':
+          downloadFile(serializeFdx(script), 'fdx', 'application/xml');
+          break;
+        case 'docx':
+          downloadFile(createScriptDocx(script, exportOptions), 'docx', DOCX_MIME_TYPE);
+          break;
         case 'html':
         case 'txt':
           exportToText();
@@ -52,6 +64,117 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
     }
   };
 
+  const pageSetup = exportOptions.customFormatting ?? DEFAULT_CUSTOM_FORMATTING;
+
+  const updatePageSetup = (updates: Partial<CustomFormatting>) => {
+    setExportOptions({ ...exportOptions, customFormatting: { ...pageSetup, ...updates } });
+  };
+
+  // Two-column audio/visual table; rows carry on across pages line by line
+  const drawAvTable = (pdf: jsPDF, startY: number) => {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 20;
+    const lineHeight = 5;
+    const padding = 2;
+    const timeWidth = exportOptions.includeTimecodes ? 22 : 0;
+    const tableWidth = pageWidth - 2 * margin;
+    const columnWidth = (tableWidth - timeWidth) / 2;
+    const videoX = margin + timeWidth;
+    const audioX = videoX + columnWidth;
+    let y = startY;
+
+    const drawColumnRules = (top: number, bottom: number) => {
+      [margin, ...(timeWidth ? [videoX] : []), audioX, margin + tableWidth].forEach(x => pdf.line(x, top, x, bottom));
+    };
+
+    const drawHeader = () => {
+      pdf.setFillColor(231, 230, 230);
+      pdf.rect(margin, y, tableWidth, 7, 'FD');
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(9);
+      if (timeWidth) pdf.text('TIME', margin + padding, y + 5);
+      pdf.text('VIDEO', videoX + padding, y + 5);
+      pdf.text('AUDIO', audioX + padding, y + 5);
+      drawColumnRules(y, y + 7);
+      y += 7;
+    };
+
+    const ensureSpace = (height: number) => {
+      if (y + height <= pageHeight - margin) return;
+      pdf.line(margin, y, margin + tableWidth, y);
+      pdf.addPage();
+      y = margin;
+      if (exportOptions.pageNumbers) {
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(8);
+        pdf.text(`Page ${pdf.getNumberOfPages()}`, pageWidth - margin, 10);
+      }
+      drawHeader();
+    };
+
+    const drawCellLine = (line: { text: string; style: string } | undefined, x: number) => {
+      if (!line?.text) return;
+      pdf.setFont('helvetica', line.style);
+      pdf.text(line.text, x + padding, y + 4);
+    };
+
+    const cellLines = (elements: ScriptElement[]) => elements.flatMap((element, index) => {
+      const style = element.formatting.bold ? 'bold' : element.formatting.italic ? 'italic' : 'normal';
+      pdf.setFont('helvetica', style);
+      const lines: string[] = pdf.splitTextToSize(element.content, columnWidth - 2 * padding);
+      return [...(index > 0 ? [{ text: '', style }] : []), ...lines.map(text => ({ text, style }))];
+    });
+
+    pdf.setDrawColor(166, 166, 166);
+    pdf.setTextColor(0, 0, 0);
+    drawHeader();
+
+    buildAvRows(script.content).forEach(row => {
+      if (row.heading) {
+        ensureSpace(lineHeight + 2 * padding);
+        pdf.setFillColor(242, 242, 242);
+        pdf.rect(margin, y, tableWidth, lineHeight + 2 * padding, 'FD');
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(10);
+        pdf.text(row.heading.content.toUpperCase(), margin + padding, y + padding + 4);
+        y += lineHeight + 2 * padding;
+        return;
+      }
+
+      pdf.setFontSize(10);
+      const video = cellLines(row.video);
+      const audio = cellLines(row.audio);
+      const lineCount = Math.max(video.length, audio.length, 1);
+
+      ensureSpace(lineHeight + padding);
+      pdf.line(margin, y, margin + tableWidth, y);
+      y += padding;
+
+      for (let i = 0; i < lineCount; i++) {
+        ensureSpace(lineHeight);
+        pdf.setFontSize(10);
+        drawColumnRules(y - (i === 0 ? padding : 0), y + lineHeight);
+        drawCellLine(video[i], videoX);
+        drawCellLine(audio[i], audioX);
+        if (i === 0 && timeWidth) {
+          pdf.setFont('helvetica', 'normal');
+          pdf.setFontSize(8);
+          pdf.setTextColor(100, 100, 100);
+          pdf.text(formatTimecode(row.startTime), margin + padding, y + 4);
+          pdf.setTextColor(0, 0, 0);
+        }
+        y += lineHeight;
+      }
+
+      drawColumnRules(y, y + padding);
+      y += padding;
+    });
+
+    pdf.line(margin, y, margin + tableWidth, y);
+    pdf.setFont('helvetica', 'normal');
+  };
+
   const exportToPDF = async () => {
     const pdf = new jsPDF();
     const pageWidth = pdf.internal.pageSize.getWidth();
@@ -69,65 +192,69 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
     yPosition += 20;
 
     // Content
-    pdf.setFontSize(12);
-    for (const element of script.content) {
-      // Check if we need a new page
-      if (yPosition > 250) {
-        pdf.addPage();
-        yPosition = margin;
+    if (exportOptions.layout === 'two-column') {
+      drawAvTable(pdf, yPosition);
+    } else {
+      pdf.setFontSize(12);
+      for (const element of script.content) {
+        // Check if we need a new page
+        if (yPosition > 250) {
+          pdf.addPage();
+          yPosition = margin;
         
-        if (exportOptions.pageNumbers) {
-          pdf.setFontSize(8);
-          pdf.text(`Page ${pdf.getNumberOfPages()}`, pageWidth - margin, 10);
-          pdf.setFontSize(12);
+          if (exportOptions.pageNumbers) {
+            pdf.setFontSize(8);
+            pdf.text(`Page ${pdf.getNumberOfPages()}`, pageWidth - margin, 10);
+            pdf.setFontSize(12);
+          }
         }
-      }
 
-      // Element type
-      pdf.setFontSize(8);
-      pdf.setTextColor(100, 100, 100);
-      pdf.text(element.type.toUpperCase().replace('-', ' '), margin, yPosition);
-      yPosition += 5;
+        // Element type
+        pdf.setFontSize(8);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(element.type.toUpperCase().replace('-', ' '), margin, yPosition);
+        yPosition += 5;
       
-      // Element content
-      pdf.setFontSize(12);
-      pdf.setTextColor(0, 0, 0);
+        // Element content
+        pdf.setFontSize(12);
+        pdf.setTextColor(0, 0, 0);
       
-      // Apply formatting
-      if (element.formatting.bold) pdf.setFont(undefined, 'bold');
-      else if (element.formatting.italic) pdf.setFont(undefined, 'italic');
-      else pdf.setFont(undefined, 'normal');
+        // Apply formatting
+        if (element.formatting.bold) pdf.setFont(undefined, 'bold');
+        else if (element.formatting.italic) pdf.setFont(undefined, 'italic');
+        else pdf.setFont(undefined, 'normal');
       
-      // Handle alignment
-      const textX = element.formatting.alignment === 'center' ? pageWidth / 2 :
-                    element.formatting.alignment === 'right' ? pageWidth - margin :
-                    margin + (element.formatting.indent || 0);
+        // Handle alignment
+        const textX = element.formatting.alignment === 'center' ? pageWidth / 2 :
+                      element.formatting.alignment === 'right' ? pageWidth - margin :
+                      margin + (element.formatting.indent || 0);
       
-      const textOptions = element.formatting.alignment === 'center' || element.formatting.alignment === 'right' 
-        ? { align: element.formatting.alignment } 
-        : undefined;
+        const textOptions = element.formatting.alignment === 'center' || element.formatting.alignment === 'right' 
+          ? { align: element.formatting.alignment } 
+          : undefined;
       
-      // Split text to fit page width
-      const maxWidth = pageWidth - (2 * margin) - (element.formatting.indent || 0);
-      const textLines = pdf.splitTextToSize(element.content, maxWidth);
+        // Split text to fit page width
+        const maxWidth = pageWidth - (2 * margin) - (element.formatting.indent || 0);
+        const textLines = pdf.splitTextToSize(element.content, maxWidth);
       
-      pdf.text(textLines, textX, yPosition, textOptions);
-      yPosition += (textLines.length * 7) + 5;
+        pdf.text(textLines, textX, yPosition, textOptions);
+        yPosition += (textLines.length * 7) + 5;
       
-      // Add timecode if enabled
-      if (exportOptions.includeTimecodes && element.timing?.estimatedDuration) {
-        pdf.setFontSize(8);
-        pdf.setTextColor(100, 100, 100);
-        pdf.text(`Duration: ${element.timing.estimatedDuration}s`, margin, yPosition);
-        yPosition += 5;
-      }
+        // Add timecode if enabled
+        if (exportOptions.includeTimecodes && element.timing?.estimatedDuration) {
+          pdf.setFontSize(8);
+          pdf.setTextColor(100, 100, 100);
+          pdf.text(`Duration: ${element.timing.estimatedDuration}s`, margin, yPosition);
+          yPosition += 5;
+        }
       
-      // Reset font
-      pdf.setFont(undefined, 'normal');
-      pdf.setTextColor(0, 0, 0);
+        // Reset font
+        pdf.setFont(undefined, 'normal');
+        pdf.setTextColor(0, 0, 0);
       
-      // Add spacing between elements
-      yPosition += 5;
+        // Add spacing between elements
+        yPosition += 5;
+      }
     }
 
     // Add watermark if specified
@@ -149,6 +276,18 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
     pdf.save(`${script.title.replace(/\s+/g, '_')}.pdf`);
   };
 
+  const downloadFile = (content: BlobPart, extension: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${script.title.replace(/\s+/g, '_')}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const exportToText = () => {
     let content = `${script.title.toUpperCase()}\n\n`;
     content += `${script.description}\n\n`;
@@ -165,15 +304,7 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
       content += '\n';
     });
 
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${script.title.replace(/\s+/g, '_')}.${exportOptions.format === 'txt' ? 'txt' : 'fountain'}`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(content, exportOptions.format === 'txt' ? 'txt' : 'fountain', 'text/plain');
   };
 
   const shareScript = async () => {
@@ -324,7 +455,32 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
                 />
                 <span className="text-sm text-slate-700 dark:text-slate-300">Include Page Numbers</span>
               </label>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={exportOptions.sceneNumbers || false}
+                  onChange={(e) => setExportOptions({ ...exportOptions, sceneNumbers: e.target.checked })}
+                  className="rounded border-slate-300 dark:border-slate-600"
+                />
+                <span className="text-sm text-slate-700 dark:text-slate-300">Number Scenes</span>
+              </label>
             </div>
+
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mt-6 mb-3">
+              Layout
+            </h4>
+            <select
+              value={exportOptions.layout || 'screenplay'}
+              onChange={(e) => setExportOptions({ ...exportOptions, layout: e.target.value as ExportOptions['layout'] })}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            >
+              <option value="screenplay">Screenplay</option>
+              <option value="two-column">Two-column audio/visual</option>
+            </select>
+            <p className="text-xs text-slate-500 dark:text-slate-500 mt-2">
+              Audio/visual puts b-roll and action on the left, voiceover, interviews and music on the right
+            </p>
           </div>
           
           <div>
@@ -343,6 +499,96 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
             </p>
           </div>
         </div>
+
+        {exportOptions.format === 'docx' && (
+          <div className="mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+              Page Setup
+            </h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <label className="text-sm text-slate-700 dark:text-slate-300">
+                <span className="block mb-1">Font</span>
+                <select
+                  value={pageSetup.fontFamily}
+                  onChange={(e) => updatePageSetup({ fontFamily: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                >
+                  <option value="Courier New">Courier New</option>
+                  <option value="Courier Prime">Courier Prime</option>
+                  <option value="Arial">Arial</option>
+                  <option value="Times New Roman">Times New Roman</option>
+                </select>
+              </label>
+              <label className="text-sm text-slate-700 dark:text-slate-300">
+                <span className="block mb-1">Size (pt)</span>
+                <input
+                  type="number"
+                  min={8}
+                  max={24}
+                  value={pageSetup.fontSize}
+                  onChange={(e) => updatePageSetup({ fontSize: parseInt(e.target.value) || DEFAULT_CUSTOM_FORMATTING.fontSize })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                />
+              </label>
+              <label className="text-sm text-slate-700 dark:text-slate-300">
+                <span className="block mb-1">Line Spacing</span>
+                <select
+                  value={pageSetup.lineSpacing}
+                  onChange={(e) => updatePageSetup({ lineSpacing: parseFloat(e.target.value) })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                >
+                  <option value={1}>Single</option>
+                  <option value={1.5}>1.5 lines</option>
+                  <option value={2}>Double</option>
+                </select>
+              </label>
+              {(['top', 'bottom', 'left', 'right'] as (keyof Margins)[]).map(side => (
+                <label key={side} className="text-sm text-slate-700 dark:text-slate-300">
+                  <span className="block mb-1 capitalize">{side} margin (in)</span>
+                  <input
+                    type="number"
+                    min={0.25}
+                    max={3}
+                    step={0.25}
+                    value={pageSetup.margins[side]}
+                    onChange={(e) => updatePageSetup({
+                      margins: { ...pageSetup.margins, [side]: parseFloat(e.target.value) || 0 }
+                    })}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={pageSetup.headerFooter.includeTitle}
+                  onChange={(e) => updatePageSetup({ headerFooter: { ...pageSetup.headerFooter, includeTitle: e.target.checked } })}
+                  className="rounded border-slate-300 dark:border-slate-600"
+                />
+                <span className="text-sm text-slate-700 dark:text-slate-300">Title in header</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={pageSetup.headerFooter.includeDate}
+                  onChange={(e) => updatePageSetup({ headerFooter: { ...pageSetup.headerFooter, includeDate: e.target.checked } })}
+                  className="rounded border-slate-300 dark:border-slate-600"
+                />
+                <span className="text-sm text-slate-700 dark:text-slate-300">Date in footer</span>
+              </label>
+              <input
+                type="text"
+                value={pageSetup.headerFooter.customText || ''}
+                onChange={(e) => updatePageSetup({ headerFooter: { ...pageSetup.headerFooter, customText: e.target.value } })}
+                placeholder="Header text, e.g. CONFIDENTIAL"
+                className="flex-1 min-w-48 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Preview */}
@@ -414,6 +660,7 @@ export const ScriptExporter: React.FC<ScriptExporterProps> = ({
           <li>• Include timecodes for production planning and scheduling</li>
           <li>• Add a watermark for drafts shared outside your organization</li>
           <li>• Final Draft (FDX) format is the industry standard for professional production</li>
+          <li>• Broadcasters usually ask for the two-column audio/visual layout as a Word document</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Radio, Wifi, WifiOff, AlertCircle, ShieldAlert } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Collaborator, Script } from '../types/script';
+import { ConnectionStatus } from '../types/collaboration';
+import { CollaborationSession, CollaborationState, startCollaborationSession } from '../utils/collaborationSession';
+import { DEFAULT_RELAY_URL, createWebSocketTransport } from '../utils/collaborationTransport';
+
+interface ScriptLiveSessionProps {
+  script: Script;
+  session: CollaborationSession | null;
+  state: CollaborationState | null;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, { label: string; className: string }> = {
+  connected: { label: 'Live', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  connecting: { label: 'Connecting…', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  offline: { label: 'Offline', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' }
+};
+
+// Scripts without collaborators are open to anyone, so there is no one to sign in as
+const createGuest = (): Collaborator => ({
+  id: `guest-${uuidv4()}`,
+  name: 'Guest',
+  email: '',
+  role: 'editor',
+  permissions: [],
+  lastActive: new Date()
+});
+
+export const ScriptLiveSession: React.FC<ScriptLiveSessionProps> = ({ script, session, state }) => {
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const [actorId, setActorId] = useState(script.collaborators[0]?.id ?? '');
+  const [inviteCode, setInviteCode] = useState(script.collaborators[0]?.inviteCode ?? '');
+
+  const chooseActor = (id: string) => {
+    setActorId(id);
+    // Only the owner's copy of the script knows the codes
+    setInviteCode(script.collaborators.find(collaborator => collaborator.id === id)?.inviteCode ?? '');
+  };
+
+  const connect = () => {
+    const actor = script.collaborators.find(collaborator => collaborator.id === actorId) ?? createGuest();
+    startCollaborationSession({
+      script,
+      actor,
+      inviteCode: inviteCode.trim() || undefined,
+      transport: createWebSocketTransport(relayUrl.trim())
+    });
+  };
+
+  const status = state ? STATUS_LABELS[state.status] : null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Radio className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Live Editing
+          </h3>
+          {status && (
+            <span className={`px-2 py-0.5 text-xs rounded-full ${status.className}`}>{status.label}</span>
+          )}
+        </div>
+
+        {session ? (
+          <button
+            onClick={() => session.disconnect()}
+            className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+          >
+            <WifiOff className="w-4 h-4" />
+            <span>Leave Session</span>
+          </button>
+        ) : (
+          <button
+            onClick={connect}
+            disabled={!relayUrl.trim()}
+            className="flex items-center space-x-2 px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Wifi className="w-4 h-4" />
+            <span>Start Session</span>
+          </button>
+        )}
+      </div>
+
+      {!session && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Relay server
+            </label>
+            <input
+              type="text"
+              value={relayUrl}
+              onChange={(e) => setRelayUrl(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+              placeholder={DEFAULT_RELAY_URL}
+            />
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Run <code>npm run collab:relay</code> to host one.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Edit as
+            </label>
+            {script.collaborators.length > 0 ? (
+              <>
+                <select
+                  value={actorId}
+                  onChange={(e) => chooseActor(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                >
+                  {script.collaborators.map(collaborator => (
+                    <option key={collaborator.id} value={collaborator.id}>
+                      {collaborator.name} ({collaborator.role})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className="w-full mt-2 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                  placeholder="Invite code"
+                />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  The relay only lets you edit as this collaborator with their invite code, which the owner finds under Collaborators.
+                </p>
+              </>
+            ) : (
+              <p className="px-3 py-2 text-sm text-slate-600 dark:text-slate-400">
+                Guest. Add collaborators to control who may edit.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {session && state && (
+        <div className="space-y-4">
+          <div className="text-sm text-slate-600 dark:text-slate-400">
+            Editing as <span className="font-medium text-slate-900 dark:text-slate-100">{session.actor.name}</span>
+            {state.pending > 0 && (
+              <span> • {state.pending} change{state.pending === 1 ? '' : 's'} waiting to sync</span>
+            )}
+          </div>
+
+          {state.notice && (
+            <div className="flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{state.notice}</span>
+            </div>
+          )}
+
+          {/* Who is here */}
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Also editing ({state.peers.length})
+            </h4>
+            {state.peers.length > 0 ? (
+              <div className="space-y-2">
+                {state.peers.map(peer => {
+                  const element = script.content.find(item => item.id === peer.elementId);
+                  return (
+                    <div key={peer.actor} className="flex items-center space-x-3 text-sm">
+                      <div
+                        className="w-7 h-7 rounded-full flex items-center justify-center text-white text-xs font-medium"
+                        style={{ backgroundColor: peer.color }}
+                      >
+                        {peer.name.charAt(0)}
+                      </div>
+                      <span className="font-medium text-slate-900 dark:text-slate-100">{peer.name}</span>
+                      <span className="text-slate-500 dark:text-slate-400 truncate">
+                        {element ? `in "${element.content.substring(0, 40)}"` : 'browsing'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Nobody else is connected.</p>
+            )}
+          </div>
+
+          {/* Refused edits */}
+          {state.rejected.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Refused edits
+              </h4>
+              <div className="space-y-1">
+                {state.rejected.map(rejected => (
+                  <div key={rejected.operation.id} className="flex items-center space-x-2 text-xs text-red-700 dark:text-red-300">
+                    <ShieldAlert className="w-3 h-3" />
+                    <span>
+                      {rejected.actorName} tried to {rejected.operation.kind.replace('-', ' ')} without {rejected.missing} permission
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, CheckCircle, XCircle, Clock, RefreshCw, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Script, ScriptStatus } from '../types/script';
+import { getEligibleReviewers, getReviewProgress, requestReview, signOffReview } from '../utils/scriptComments';
+
+interface ScriptReviewPanelProps {
+  script: Script;
+  onScriptUpdate: (script: Script) => void;
+  actingAs?: string; // Collaborator ID of whoever is signed in to the live session
+}
+
+const STATUS_STYLES: Record<ScriptStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+  review: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  final: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+  archived: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+export const ScriptReviewPanel: React.FC<ScriptReviewPanelProps> = ({ script, onScriptUpdate, actingAs }) => {
+  const eligible = getEligibleReviewers(script);
+  const progress = getReviewProgress(script);
+  const review = script.review;
+
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const requester = script.collaborators.find(collaborator => collaborator.id === actingAs)?.name ?? 'Current User';
+  // Sign-offs are only taken from whoever is signed in to the live session, never picked from a list
+  const signer = actingAs && review?.reviewerIds.includes(actingAs) ? actingAs : null;
+
+  const run = (update: () => Script) => {
+    try {
+      onScriptUpdate(update());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
+  const toggleReviewer = (id: string) => {
+    setReviewerIds(reviewerIds.includes(id) ? reviewerIds.filter(item => item !== id) : [...reviewerIds, id]);
+  };
+
+  const signOff = (decision: 'approved' | 'changes-requested') => {
+    if (!signer) return;
+    run(() => signOffReview(script, signer, decision, note));
+    setNote('');
+  };
+
+  const reviewerState = (id: string) => {
+    if (progress?.approved.includes(id)) return { icon: CheckCircle, label: 'Approved', className: 'text-green-600 dark:text-green-400' };
+    if (progress?.stale.includes(id)) return { icon: RefreshCw, label: 'Script changed since sign-off', className: 'text-amber-600 dark:text-amber-400' };
+    if (progress?.changesRequested.includes(id)) return { icon: XCircle, label: 'Changes requested', className: 'text-red-600 dark:text-red-400' };
+    return { icon: Clock, label: 'Waiting', className: 'text-slate-500 dark:text-slate-400' };
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Review & Approval
+          </h3>
+        </div>
+        <span className={`px-2 py-1 text-xs rounded-full capitalize ${STATUS_STYLES[script.status]}`}>
+          {script.status}
+        </span>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Reviewers and their sign-offs */}
+      {review && progress && (
+        <div className="space-y-2 mb-6">
+          <div className="text-xs text-slate-500 dark:text-slate-400">
+            Requested by {review.requestedBy} {formatDistanceToNow(review.requestedAt, { addSuffix: true })}
+            {review.completedAt && ` • approved ${formatDistanceToNow(review.completedAt, { addSuffix: true })}`}
+          </div>
+          {review.reviewerIds.map(id => {
+            const reviewer = script.collaborators.find(collaborator => collaborator.id === id);
+            const state = reviewerState(id);
+            const signoff = review.signoffs.find(item => item.reviewerId === id);
+            return (
+              <div key={id} className="flex items-start justify-between p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <div>
+                  <div className="font-medium text-sm text-slate-900 dark:text-slate-100">
+                    {reviewer?.name ?? 'Removed collaborator'}
+                  </div>
+                  {signoff?.note && (
+                    <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">"{signoff.note}"</p>
+                  )}
+                </div>
+                <div className={`flex items-center space-x-1 text-sm ${state.className}`}>
+                  <state.icon className="w-4 h-4" />
+                  <span>{state.label}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Draft: ask for review */}
+      {script.status === 'draft' && (
+        eligible.length > 0 ? (
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Required reviewers
+            </h4>
+            <div className="flex flex-wrap gap-3 mb-4">
+              {eligible.map(collaborator => (
+                <label key={collaborator.id} className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={reviewerIds.includes(collaborator.id)}
+                    onChange={() => toggleReviewer(collaborator.id)}
+                  />
+                  <span>{collaborator.name}</span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={() => run(() => requestReview(script, reviewerIds, requester))}
+              disabled={reviewerIds.length === 0}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send for Review
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Add a collaborator who can approve (an owner or reviewer) before sending the script for review.
+          </p>
+        )
+      )}
+
+      {/* In review: sign off */}
+      {script.status === 'review' && review && (
+        <div className="space-y-3">
+          {signer ? (
+            <>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note for the team (optional)"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+              />
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => signOff('approved')}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Approve as {requester}</span>
+                </button>
+                <button
+                  onClick={() => signOff('changes-requested')}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+                >
+                  <XCircle className="w-4 h-4" />
+                  <span>Request Changes</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {actingAs
+                ? `${requester} is not one of the reviewers on this script.`
+                : 'Join the live session as one of the reviewers to sign off.'}
+            </p>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            The script is approved once every required reviewer has approved it as it stands. Edits after a sign-off ask that reviewer to look again.
+          </p>
+        </div>
+      )}
+
+      {script.status === 'approved' && (
+        <button
+          onClick={() => onScriptUpdate({ ...script, status: 'draft', updatedAt: new Date() })}
+          className="px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+        >
+          Reopen as Draft
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useState, useMemo } from 'react';
+import { GitBranch, History, RotateCcw, Save, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Script, ScriptVersion, VersionChange } from '../types/script';
+import {
+  createBranch,
+  getBranchHistory,
+  getBranches,
+  getCurrentBranch,
+  getVersion,
+  hasUnsavedChanges,
+  restoreVersion,
+  saveVersion,
+  switchBranch,
+  takeElement
+} from '../utils/scriptVersioning';
+import { ScriptDiffViewer } from './ScriptDiffViewer';
+
+interface ScriptVersionHistoryProps {
+  script: Script;
+  onScriptUpdate: (script: Script) => void;
+  author?: string;
+}
+
+const summarizeChanges = (changes: VersionChange[]): string => {
+  const counts = new Map<VersionChange['type'], number>();
+  changes.forEach(change => counts.set(change.type, (counts.get(change.type) ?? 0) + 1));
+  const parts = Array.from(counts, ([type, count]) => `${count} ${type}`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+export const ScriptVersionHistory: React.FC<ScriptVersionHistoryProps> = ({
+  script,
+  onScriptUpdate,
+  author = 'Current User'
+}) => {
+  const [description, setDescription] = useState('');
+  const [newBranchName, setNewBranchName] = useState('');
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<'previous' | 'draft'>('previous');
+  const [error, setError] = useState<string | null>(null);
+
+  const branches = getBranches(script);
+  const currentBranch = getCurrentBranch(script);
+  const history = useMemo(() => getBranchHistory(script, currentBranch.name), [script, currentBranch.name]);
+  const unsaved = useMemo(() => hasUnsavedChanges(script), [script]);
+  const selectedVersion = getVersion(script, selectedVersionId);
+
+  const run = (update: () => Script) => {
+    try {
+      onScriptUpdate(update());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
+  const saveCurrent = () => {
+    run(() => saveVersion(script, { description: description.trim() || 'Saved draft', author }));
+    setDescription('');
+  };
+
+  const addBranch = () => {
+    run(() => createBranch(script, newBranchName, author));
+    setNewBranchName('');
+  };
+
+  // The draft is saved first, so restoring never loses work
+  const restore = (version: ScriptVersion) => {
+    run(() => restoreVersion(saveVersion(script, { description: `Saved before restoring ${version.version}`, author }), version.id, author));
+  };
+
+  // What the selected version changed, or how the draft differs from it
+  const comparison = useMemo(() => {
+    if (!selectedVersion?.snapshot) return null;
+    if (compareWith === 'draft') {
+      return { before: selectedVersion.snapshot, after: script.content, beforeLabel: selectedVersion.version, afterLabel: 'Current draft' };
+    }
+    const parent = getVersion(script, selectedVersion.parentId ?? null);
+    return {
+      before: parent?.snapshot ?? [],
+      after: selectedVersion.snapshot,
+      beforeLabel: parent?.version ?? 'Empty script',
+      afterLabel: selectedVersion.version
+    };
+  }, [compareWith, script, selectedVersion]);
+
+  const takeIntoDraft = (elementId: string, side: 'before' | 'after') => {
+    if (!comparison) return;
+    const source = side === 'before' ? comparison.before : comparison.after;
+    onScriptUpdate({ ...script, content: takeElement(script.content, elementId, source), updatedAt: new Date() });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Version History
+          </h3>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <GitBranch className="w-4 h-4 text-slate-500" />
+          <select
+            value={currentBranch.name}
+            onChange={(e) => run(() => switchBranch(script, e.target.value, author))}
+            className="px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            {branches.map(branch => (
+              <option key={branch.name} value={branch.name}>{branch.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newBranchName}
+            onChange={(e) => setNewBranchName(e.target.value)}
+            placeholder="New cut, e.g. broadcast-52"
+            className="px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+          <button
+            onClick={addBranch}
+            disabled={!newBranchName.trim()}
+            className="px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+          >
+            Branch
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Save */}
+      <div className="flex items-center space-x-2 mb-6">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder={unsaved ? 'Describe what changed' : 'No changes since the last version'}
+          disabled={!unsaved}
+          className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 disabled:opacity-50"
+        />
+        <button
+          onClick={saveCurrent}
+          disabled={!unsaved}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Version</span>
+        </button>
+      </div>
+
+      {/* Versions */}
+      {history.length === 0 ? (
+        <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+          <History className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No versions saved on {currentBranch.name} yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2 mb-6">
+          {history.map(version => (
+            <div
+              key={version.id}
+              onClick={() => setSelectedVersionId(version.id === selectedVersionId ? null : version.id)}
+              className={`
+                flex items-center justify-between p-3 rounded-lg cursor-pointer border
+                ${version.id === selectedVersionId
+                  ? 'border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-950/20'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }
+              `}
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-slate-900 dark:text-slate-100">{version.version}</span>
+                  {(version.branch ?? currentBranch.name) !== currentBranch.name && (
+                    <span className="px-2 py-0.5 text-xs bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-full">
+                      from {version.branch}
+                    </span>
+                  )}
+                  {version.id === currentBranch.headVersionId && (
+                    <span className="px-2 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-full">
+                      latest
+                    </span>
+                  )}
+                  <span className="text-sm text-slate-600 dark:text-slate-400">{version.description}</span>
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {version.createdBy} • {formatDistanceToNow(version.createdAt, { addSuffix: true })} • {summarizeChanges(version.changes)}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  restore(version);
+                }}
+                disabled={!version.snapshot}
+                className="flex items-center space-x-1 px-3 py-1 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 rounded disabled:opacity-50"
+                title="Make this version the draft again"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Restore</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Diff */}
+      {selectedVersion && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Changes in {selectedVersion.version}
+            </h4>
+            <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-lg p-1 text-sm">
+              <button
+                onClick={() => setCompareWith('previous')}
+                className={`px-3 py-1 rounded ${compareWith === 'previous' ? 'bg-white dark:bg-slate-600 shadow-sm' : ''}`}
+              >
+                Against previous
+              </button>
+              <button
+                onClick={() => setCompareWith('draft')}
+                className={`px-3 py-1 rounded ${compareWith === 'draft' ? 'bg-white dark:bg-slate-600 shadow-sm' : ''}`}
+              >
+                Against draft
+              </button>
+            </div>
+          </div>
+
+          {comparison ? (
+            <ScriptDiffViewer
+              before={comparison.before}
+              after={comparison.after}
+              beforeLabel={comparison.beforeLabel}
+              afterLabel={comparison.afterLabel}
+              onTake={takeIntoDraft}
+            />
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              This version was recorded without its content, so it cannot be compared.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -469,7 +469,7 @@ export const AccessibilityTools: React.FC<AccessibilityToolsProps> = ({
             <input
               type="checkbox"
               className="rounded border-slate-300 dark:border-slate-600 text-indigo-600"
-              checked={file?.analysis.loudness.integrated <= -14}
+              checked={Boolean(selectedFile?.analysis.loudness && selectedFile.analysis.loudness.integrated <= -14)}
               readOnly
             />
             <div className="flex-1">
@@ -481,7 +481,7 @@ export const AccessibilityTools: React.FC<AccessibilityToolsProps> = ({
               </div>
             </div>
             <div className="text-sm text-slate-500 dark:text-slate-500">
-              {file?.analysis.loudness.integrated <= -14 ? 'Complete' : 'Incomplete'}
+              {!selectedFile?.analysis.loudness ? 'Could not measure' : selectedFile.analysis.loudness.integrated <= -14 ? 'Complete' : 'Incomplete'}
             </div>
           </div>
           
@@ -489,7 +489,7 @@ export const AccessibilityTools: React.FC<AccessibilityToolsProps> = ({
             <input
               type="checkbox"
               className="rounded border-slate-300 dark:border-slate-600 text-indigo-600"
-              checked={file?.analysis.clarity.articulation >= 0.7}
+              checked={(selectedFile?.analysis.clarity.articulation ?? 0) >= 0.7}
               readOnly
             />
             <div className="flex-1">
@@ -501,7 +501,7 @@ export const AccessibilityTools: React.FC<AccessibilityToolsProps> = ({
               </div>
             </div>
             <div className="text-sm text-slate-500 dark:text-slate-500">
-              {file?.analysis.clarity.articulation >= 0.7 ? 'Complete' : 'Incomplete'}
+              {(selectedFile?.analysis.clarity.articulation ?? 0) >= 0.7 ? 'Complete' : 'Incomplete'}
             </div>
           </div>
         </div>
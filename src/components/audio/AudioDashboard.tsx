@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { 
-  Mic, Music, Waveform, Upload, 
+  Mic, Music, AudioWaveform as Waveform, Upload, 
   Download, Settings, FileAudio, Play, 
   Pause, BarChart2, MessageSquare, Sliders,
   Volume2, Headphones, Zap, AlertTriangle
@@ -16,54 +16,69 @@ import { VoiceCoach } from './VoiceCoach';
 import { AccessibilityTools } from './AccessibilityTools';
 import { MixingConsole } from './MixingConsole';
 import { SoundEffectGenerator } from './SoundEffectGenerator';
+import { ProjectPicker } from '../ProjectPicker';
+import { loadLatestProject, loadProject, saveProject } from '../../utils/projectRepository';
+import { downloadArchive } from '../../utils/projectArchive';
+import { useAutosave } from '../../hooks/useAutosave';
 
 interface AudioDashboardProps {
   initialProject?: AudioProject;
 }
 
+const createNewAudioProject = (): AudioProject => ({
+  id: `audio-${Date.now()}`,
+  title: 'New Audio Project',
+  description: 'Audio processing and enhancement project',
+  files: [],
+  transcriptions: [],
+  musicRecommendations: [],
+  soundEffectRecommendations: [],
+  mixingRecommendations: [],
+  voiceCoachingTips: [],
+  accessibilityFeatures: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
 export const AudioDashboard: React.FC<AudioDashboardProps> = ({
   initialProject
 }) => {
-  const [project, setProject] = useState<AudioProject>(
-    initialProject || {
-      id: 'default-project',
-      title: 'New Audio Project',
-      description: 'Audio processing and enhancement project',
-      files: [],
-      transcriptions: [],
-      musicRecommendations: [],
-      soundEffectRecommendations: [],
-      mixingRecommendations: [],
-      voiceCoachingTips: [],
-      accessibilityFeatures: [],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }
-  );
-  
+  const [project, setProject] = useState<AudioProject>(initialProject || createNewAudioProject);
+  const [projectLoaded, setProjectLoaded] = useState(Boolean(initialProject));
   const [activeTab, setActiveTab] = useState('files');
   const [selectedFile, setSelectedFile] = useState<AudioFile | null>(null);
   const [processingJobs, setProcessingJobs] = useState<ProcessingJob[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
 
+  // Pick up where the last session left off
   useEffect(() => {
-    // Auto-save project every 30 seconds
-    const saveInterval = setInterval(() => {
-      saveProject();
-    }, 30000);
-    
-    return () => clearInterval(saveInterval);
-  }, [project]);
+    if (initialProject) return;
 
-  const saveProject = () => {
-    // In a real app, this would save to a database or file
-    console.log('Saving project:', project);
-    localStorage.setItem('audio-project', JSON.stringify(project));
-    
-    setProject({
-      ...project,
-      updatedAt: new Date()
-    });
+    loadLatestProject('audio')
+      .then(saved => saved && setProject(saved))
+      .catch(error => console.error('Could not load the saved audio project:', error))
+      .finally(() => setProjectLoaded(true));
+  }, [initialProject]);
+
+  const { status: saveStatus, lastSavedAt, saveNow } = useAutosave(
+    project,
+    current => saveProject('audio', { ...current, updatedAt: new Date() }),
+    { enabled: projectLoaded }
+  );
+
+  const openProject = async (id: string) => {
+    await saveNow();
+    const saved = await loadProject('audio', id);
+    if (saved) {
+      setProject(saved);
+      setSelectedFile(null);
+    }
+  };
+
+  const createProject = async () => {
+    await saveNow();
+    setProject(createNewAudioProject());
+    setSelectedFile(null);
   };
 
   const handleFileUpload = async (files: File[]) => {
@@ -147,6 +162,16 @@ export const AudioDashboard: React.FC<AudioDashboardProps> = ({
     setSelectedFile(updatedFile);
   };
 
+  const addFile = (newFile: AudioFile) => {
+    setProject(prev => ({
+      ...prev,
+      files: [...prev.files, newFile],
+      updatedAt: new Date()
+    }));
+    
+    setSelectedFile(newFile);
+  };
+
   const deleteFile = (fileId: string) => {
     setProject(prev => ({
       ...prev,
@@ -167,17 +192,13 @@ export const AudioDashboard: React.FC<AudioDashboardProps> = ({
     }));
   };
 
-  const exportProject = () => {
-    const projectData = JSON.stringify(project, null, 2);
-    const blob = new Blob([projectData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.title.replace(/\s+/g, '-').toLowerCase()}-audio-project.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const exportProject = async () => {
+    try {
+      await saveNow();
+      await downloadArchive({ title: `${project.title} audio project`, selection: { audio: [project.id] } });
+    } catch (error) {
+      console.error('Export failed:', error);
+    }
   };
 
   const tabs = [
@@ -216,8 +237,18 @@ export const AudioDashboard: React.FC<AudioDashboardProps> = ({
                 {project.files.length} file{project.files.length !== 1 ? 's' : ''}
               </div>
               
+              <ProjectPicker
+                kind="audio"
+                currentId={project.id}
+                currentTitle={project.title}
+                saveStatus={saveStatus}
+                lastSavedAt={lastSavedAt}
+                onOpen={openProject}
+                onCreate={createProject}
+              />
+
               <button
-                onClick={saveProject}
+                onClick={saveNow}
                 className="px-3 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600"
               >
                 Save Project
@@ -339,6 +370,7 @@ export const AudioDashboard: React.FC<AudioDashboardProps> = ({
           <TranscriptionEditor 
             file={selectedFile}
             onFileUpdate={updateFile}
+            onFileCreate={addFile}
           />
         )}
         
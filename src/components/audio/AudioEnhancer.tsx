@@ -1,13 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Sliders, AudioWaveform as Waveform, Play, Pause, Download, RotateCcw, Check, X, AlertTriangle, Zap, Volume2, Settings, Loader2 } from 'lucide-react';
+import { Sliders, AudioWaveform as Waveform, Play, Pause, Download, RotateCcw, Check, X, AlertTriangle, Zap, Volume2, Settings, Loader2, Clock } from 'lucide-react';
 import { AudioFile, AudioIssue, AudioEnhancement } from '../../types/audio';
 import { 
   applyNoiseReduction, 
   applyEQ, 
   applyCompression, 
   normalizeAudio,
-  enhanceAudio
+  EnhancementResult
 } from '../../utils/audioProcessor';
+import { LoudnessReport } from './LoudnessReport';
 
 interface AudioEnhancerProps {
   file: AudioFile;
@@ -33,6 +34,7 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
   const [currentTime, setCurrentTime] = useState(0);
   const [isBeforeAfterMode, setIsBeforeAfterMode] = useState(false);
   const [playingVersion, setPlayingVersion] = useState<'before' | 'after'>('after');
+  const [enhancedAudio, setEnhancedAudio] = useState<Blob | null>(null);
   
   const audioRef = useRef<HTMLAudioElement>(null);
   const beforeAudioRef = useRef<HTMLAudioElement>(null);
@@ -108,21 +110,23 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
     }, 300);
     
     try {
-      // Get the audio file from the URL
-      const response = await fetch(file.url);
+      // Start from the unprocessed source, so applying again replaces the last run instead of stacking on it
+      const response = await fetch(file.originalUrl ?? file.url);
       const blob = await response.blob();
       const audioFile = new File([blob], file.name, { type: file.format });
       
-      // Apply enhancements
-      const enhancements = [];
+      // Apply enhancements, each one processing the output of the previous step
+      const enhancements: AudioEnhancement[] = [];
+      let processedAudio: Blob = audioFile;
       
       // Noise reduction
       if (enhancementSettings.noiseReduction > 0) {
         const noiseReduction = await applyNoiseReduction(
-          audioFile, 
+          processedAudio, 
           enhancementSettings.noiseReduction
         );
-        enhancements.push(noiseReduction);
+        enhancements.push(noiseReduction.enhancement);
+        processedAudio = noiseReduction.audio;
       }
       
       // EQ
@@ -133,44 +137,42 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
           { frequency: 5000, gain: enhancementSettings.eqHigh, q: 0.7 }
         ];
         
-        const eq = await applyEQ(audioFile, eqBands);
-        enhancements.push(eq);
+        const eq = await applyEQ(processedAudio, eqBands);
+        enhancements.push(eq.enhancement);
+        processedAudio = eq.audio;
       }
       
       // Compression
       if (enhancementSettings.compression > 0) {
         const compressionAmount = enhancementSettings.compression / 100;
-        const compression = await applyCompression(audioFile, {
+        const compression = await applyCompression(processedAudio, {
           threshold: -24 - (compressionAmount * 12),
           ratio: 1 + (compressionAmount * 5),
           attack: 20,
           release: 150,
           makeupGain: compressionAmount * 6
         });
-        enhancements.push(compression);
+        enhancements.push(compression.enhancement);
+        processedAudio = compression.audio;
       }
       
       // Normalization
       const normalization = await normalizeAudio(
-        audioFile, 
+        processedAudio, 
         enhancementSettings.normalization
       );
-      enhancements.push(normalization);
-      
-      // Apply all enhancements to the audio file
-      const enhancedAudio = await enhanceAudio(audioFile, enhancements.map(e => ({
-        type: e.type,
-        parameters: e.parameters
-      })));
+      enhancements.push(normalization.enhancement);
       
       // Create a URL for the enhanced audio
-      const enhancedUrl = URL.createObjectURL(enhancedAudio);
+      setEnhancedAudio(normalization.audio);
+      const enhancedUrl = URL.createObjectURL(normalization.audio);
       
       // Update the file with the enhancements
       const updatedFile: AudioFile = {
         ...file,
         url: enhancedUrl,
-        enhancements: [...file.enhancements, ...enhancements],
+        originalUrl: file.originalUrl ?? file.url,
+        enhancements,
         updatedAt: new Date()
       };
       
@@ -217,14 +219,14 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
       const audioFile = new File([blob], file.name, { type: file.format });
       
       // Apply appropriate enhancement based on issue type
-      let enhancement: AudioEnhancement | null = null;
+      let result: EnhancementResult | null = null;
       
       switch (issue.type) {
         case 'noise':
-          enhancement = await applyNoiseReduction(audioFile, 70);
+          result = await applyNoiseReduction(audioFile, 70);
           break;
         case 'clipping':
-          enhancement = await applyCompression(audioFile, {
+          result = await applyCompression(audioFile, {
             threshold: -3,
             ratio: 20,
             attack: 0,
@@ -233,41 +235,39 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
           });
           break;
         case 'sibilance':
-          enhancement = await applyEQ(audioFile, [
+          result = await applyEQ(audioFile, [
             { frequency: 5000, gain: -6, q: 1.5 },
             { frequency: 8000, gain: -4, q: 1.5 }
           ]);
           break;
         case 'plosive':
-          enhancement = await applyEQ(audioFile, [
+          result = await applyEQ(audioFile, [
             { frequency: 80, gain: -8, q: 1.5 }
           ]);
           break;
         case 'hum':
-          enhancement = await applyEQ(audioFile, [
+          result = await applyEQ(audioFile, [
             { frequency: 50, gain: -24, q: 5 },
             { frequency: 100, gain: -12, q: 5 }
           ]);
           break;
         default:
           // Apply general enhancement
-          enhancement = await normalizeAudio(audioFile, -14);
+          result = await normalizeAudio(audioFile, -14);
       }
       
-      if (enhancement) {
-        // Apply the enhancement to the audio file
-        const enhancedAudio = await enhanceAudio(audioFile, [{
-          type: enhancement.type,
-          parameters: enhancement.parameters
-        }]);
+      if (result) {
+        const { enhancement } = result;
         
         // Create a URL for the enhanced audio
-        const enhancedUrl = URL.createObjectURL(enhancedAudio);
+        setEnhancedAudio(result.audio);
+        const enhancedUrl = URL.createObjectURL(result.audio);
         
         // Update the file with the enhancement
         const updatedFile: AudioFile = {
           ...file,
           url: enhancedUrl,
+          originalUrl: file.originalUrl ?? file.url,
           enhancements: [...file.enhancements, enhancement],
           analysis: {
             ...file.analysis,
@@ -292,6 +292,17 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
     }
   };
 
+  const downloadEnhancedAudio = () => {
+    if (!enhancedAudio) return;
+    
+    const url = URL.createObjectURL(enhancedAudio);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${file.name.replace(/\.[^/.]+$/, '')}_enhanced.wav`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -331,7 +342,7 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
       
       {isBeforeAfterMode && (
         <>
-          <audio ref={beforeAudioRef} src={file.url} className="hidden" />
+          <audio ref={beforeAudioRef} src={file.originalUrl ?? file.url} className="hidden" />
           <audio ref={afterAudioRef} src={file.url} className="hidden" />
         </>
       )}
@@ -361,6 +372,17 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
             <span>Before/After</span>
           </button>
           
+          {enhancedAudio && (
+            <button
+              onClick={downloadEnhancedAudio}
+              disabled={isProcessing}
+              className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          )}
+          
           <button
             onClick={applyEnhancements}
             disabled={isProcessing}
@@ -524,6 +546,9 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({
         </div>
       )}
 
+      {/* Loudness Compliance */}
+      <LoudnessReport file={file} />
+
       {/* Audio Issues */}
       {file.analysis.issues.length > 0 && (
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
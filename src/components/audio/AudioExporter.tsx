@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Download, FileAudio, Loader2 } from 'lucide-react';
+import { AudioFile, ExportOptions } from '../../types/audio';
+import { exportAudio } from '../../utils/audioProcessor';
+import { QUALITY_SETTINGS } from '../../utils/audioEncoders';
+
+interface AudioExporterProps {
+  file: AudioFile;
+}
+
+const FORMAT_LABELS: Record<ExportOptions['format'], string> = {
+  wav: 'WAV',
+  flac: 'FLAC',
+  mp3: 'MP3',
+  ogg: 'Ogg Vorbis'
+};
+
+const getQualityLabel = (format: ExportOptions['format'], quality: ExportOptions['quality']): string => {
+  switch (format) {
+    case 'wav':
+    case 'flac':
+      return `${QUALITY_SETTINGS[format][quality]}-bit`;
+    case 'mp3':
+      return `${QUALITY_SETTINGS.mp3[quality]} kbps`;
+    case 'ogg':
+      return `VBR q${QUALITY_SETTINGS.ogg[quality]}`;
+    default:
+      return quality;
+  }
+};
+
+export const AudioExporter: React.FC<AudioExporterProps> = ({ file }) => {
+  const [format, setFormat] = useState<ExportOptions['format']>('wav');
+  const [quality, setQuality] = useState<ExportOptions['quality']>('high');
+  const [includeEnhancements, setIncludeEnhancements] = useState(true);
+  const [normalizeLoudness, setNormalizeLoudness] = useState(false);
+  const [targetLoudness, setTargetLoudness] = useState(-16);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const blob = await exportAudio(file, {
+        format,
+        quality,
+        includeEnhancements,
+        normalizeLoudness,
+        targetLoudness
+      }, setProgress);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${file.name.replace(/\.[^/.]+$/, '')}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Audio export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export the audio.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <FileAudio className="w-5 h-5 text-indigo-500" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Export Audio
+          </h3>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex items-center space-x-2 px-3 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50 text-sm"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          <span>{isExporting ? `Exporting ${Math.round(progress * 100)}%` : 'Export'}</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <label className="block font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Format
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportOptions['format'])}
+            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            {(Object.keys(FORMAT_LABELS) as ExportOptions['format'][]).map(key => (
+              <option key={key} value={key}>{FORMAT_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Quality
+          </label>
+          <select
+            value={quality}
+            onChange={(e) => setQuality(e.target.value as ExportOptions['quality'])}
+            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            {(['low', 'medium', 'high'] as const).map(level => (
+              <option key={level} value={level}>
+                {level.charAt(0).toUpperCase() + level.slice(1)} ({getQualityLabel(format, level)})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center space-x-2 text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={includeEnhancements}
+            onChange={(e) => setIncludeEnhancements(e.target.checked)}
+            disabled={!file.originalUrl}
+            className="rounded border-slate-300 dark:border-slate-600"
+          />
+          <span>Include applied enhancements</span>
+        </label>
+
+        <div className="flex items-center space-x-2 text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={normalizeLoudness}
+            onChange={(e) => setNormalizeLoudness(e.target.checked)}
+            className="rounded border-slate-300 dark:border-slate-600"
+          />
+          <span>Normalize to</span>
+          <input
+            type="number"
+            value={targetLoudness}
+            onChange={(e) => setTargetLoudness(Number(e.target.value))}
+            disabled={!normalizeLoudness}
+            step={1}
+            min={-36}
+            max={-6}
+            className="w-20 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 disabled:opacity-50"
+          />
+          <span>LUFS</span>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+        Title, artist, album and recording notes from the file metadata are written as ID3 or Vorbis comment tags.
+      </p>
+    </div>
+  );
+};
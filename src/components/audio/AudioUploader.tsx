@@ -2,7 +2,8 @@ import React, { useState, useCallback } from 'react';
 import { 
   Upload, FileAudio, X, Loader2, 
   Play, Pause, Trash2, BarChart2, 
-  Waveform, AlertTriangle, CheckCircle
+  AudioWaveform as Waveform, AlertTriangle, CheckCircle,
+  MessageSquare, Sliders, Music
 } from 'lucide-react';
 import { AudioFile, ProcessingJob } from '../../types/audio';
 import { format } from 'date-fns';
@@ -317,7 +318,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
                     <div>
                       <div className="text-xs text-slate-500 dark:text-slate-500 mb-1">Loudness</div>
                       <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                        {file.analysis.loudness.integrated.toFixed(1)} LUFS
+                        {file.analysis.loudness ? `${file.analysis.loudness.integrated.toFixed(1)} LUFS` : 'Could not measure'}
                       </div>
                     </div>
                     
@@ -376,7 +377,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
             Upload your first audio file to start processing and enhancing
           </p>
           <button
-            onClick={() => document.querySelector('input[type="file"]')?.click()}
+            onClick={() => document.querySelector<HTMLInputElement>('input[type="file"]')?.click()}
             className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 mx-auto"
           >
             <Upload className="w-4 h-4" />
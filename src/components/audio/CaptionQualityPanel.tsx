@@ -0,0 +1,291 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { AlertTriangle, Check, Play, Upload, Wand2, X } from 'lucide-react';
+import { AudioFile, CaptionProfile, TranscriptionSegment } from '../../types/audio';
+import {
+  CAPTION_PROFILES,
+  CaptionDiffEntry,
+  autoFixCaptions,
+  diffCaptions,
+  getCaptionLineOptions,
+  getCaptionProfile,
+  lintCaptions,
+  parseShotChanges
+} from '../../utils/captionLinter';
+import { getCaptionLines } from '../../utils/subtitleFormats';
+
+interface CaptionQualityPanelProps {
+  file: AudioFile;
+  segments: TranscriptionSegment[];
+  maxLineLength: number;
+  maxLinesPerCaption: number;
+  onProfileChange: (profile: CaptionProfile) => void;
+  onSegmentsChange: (segments: TranscriptionSegment[]) => void;
+  onPlaySegment: (segment: TranscriptionSegment) => void;
+  onFileUpdate: (file: AudioFile) => void;
+}
+
+interface DiffHunk {
+  unchanged: number;
+  removed: TranscriptionSegment[];
+  added: TranscriptionSegment[];
+}
+
+// Groups diff entries into runs of changes, each preceded by the number of unchanged captions before it
+const groupHunks = (entries: CaptionDiffEntry[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk = { unchanged: 0, removed: [], added: [] };
+
+  entries.forEach(entry => {
+    if (entry.type === 'unchanged') {
+      if (current.removed.length > 0 || current.added.length > 0) {
+        hunks.push(current);
+        current = { unchanged: 0, removed: [], added: [] };
+      }
+      current.unchanged++;
+    } else {
+      current[entry.type].push(entry.segment);
+    }
+  });
+
+  if (current.removed.length > 0 || current.added.length > 0) hunks.push(current);
+  return hunks;
+};
+
+const formatTimecode = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(3);
+  return `${mins}:${secs.padStart(6, '0')}`;
+};
+
+export const CaptionQualityPanel: React.FC<CaptionQualityPanelProps> = ({
+  file,
+  segments,
+  maxLineLength,
+  maxLinesPerCaption,
+  onProfileChange,
+  onSegmentsChange,
+  onPlaySegment,
+  onFileUpdate
+}) => {
+  const [profileId, setProfileId] = useState(CAPTION_PROFILES[0].id);
+  const [proposal, setProposal] = useState<TranscriptionSegment[] | null>(null);
+  const [shotChangeError, setShotChangeError] = useState<string | null>(null);
+  const shotChangeInputRef = useRef<HTMLInputElement>(null);
+
+  // The export options can tighten or relax the profile's line limits
+  const profile = useMemo<CaptionProfile>(() => ({
+    ...getCaptionProfile(profileId),
+    maxLineLength,
+    maxLines: maxLinesPerCaption
+  }), [profileId, maxLineLength, maxLinesPerCaption]);
+
+  const shotChanges = useMemo(() => file.shotChanges ?? [], [file.shotChanges]);
+  const issues = useMemo(() => lintCaptions(segments, profile, shotChanges), [segments, profile, shotChanges]);
+  const proposedIssues = useMemo(
+    () => (proposal ? lintCaptions(proposal, profile, shotChanges) : []),
+    [proposal, profile, shotChanges]
+  );
+  const hunks = useMemo(
+    () => (proposal ? groupHunks(diffCaptions([...segments].sort((a, b) => a.startTime - b.startTime), proposal)) : []),
+    [proposal, segments]
+  );
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const changeProfile = (id: string) => {
+    setProfileId(id);
+    setProposal(null);
+    onProfileChange(getCaptionProfile(id));
+  };
+
+  const importShotChanges = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const shotFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!shotFile) return;
+
+    const times = parseShotChanges(await shotFile.text(), profile.frameRate);
+    if (times.length === 0) {
+      setShotChangeError(`No shot changes found in ${shotFile.name}. Use an EDL or one timecode per line.`);
+      return;
+    }
+
+    setShotChangeError(null);
+    setProposal(null);
+    onFileUpdate({ ...file, shotChanges: times });
+  };
+
+  const applyProposal = () => {
+    if (!proposal) return;
+    onSegmentsChange(proposal);
+    setProposal(null);
+  };
+
+  const renderCaption = (segment: TranscriptionSegment, tone: 'removed' | 'added') => (
+    <div
+      key={segment.id}
+      className={`p-2 rounded text-sm ${
+        tone === 'removed'
+          ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          : 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+      }`}
+    >
+      <div className="font-mono text-xs opacity-75 mb-1">
+        {formatTimecode(segment.startTime)} → {formatTimecode(segment.endTime)}
+      </div>
+      {getCaptionLines(segment, getCaptionLineOptions(profile)).map((line, i) => (
+        <div key={i}>{line}</div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg p-6 space-y-4">
+      <input
+        ref={shotChangeInputRef}
+        type="file"
+        accept=".edl,.txt,.csv"
+        onChange={importShotChanges}
+        className="hidden"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+          Caption Check
+        </h3>
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={profileId}
+            onChange={(e) => changeProfile(e.target.value)}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm"
+          >
+            {CAPTION_PROFILES.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+
+          <button
+            onClick={() => shotChangeInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+            title="Import shot changes from an EDL or a timecode list"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Shot Changes</span>
+          </button>
+
+          <button
+            onClick={() => setProposal(autoFixCaptions(segments, profile, shotChanges))}
+            disabled={issues.length === 0}
+            className="flex items-center space-x-1 px-3 py-2 text-sm bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>Auto-fix</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs text-slate-500 dark:text-slate-400">
+        {profile.description}{' '}
+        {shotChanges.length > 0
+          ? `${shotChanges.length} shot change${shotChanges.length === 1 ? '' : 's'} loaded.`
+          : 'Import shot changes to check caption timing against picture cuts.'}
+      </div>
+
+      {shotChangeError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {shotChangeError}
+        </div>
+      )}
+
+      {proposal ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm">
+            <span className="text-slate-700 dark:text-slate-300">
+              {hunks.length === 0
+                ? 'Auto-fix found nothing it can change.'
+                : `${segments.length} captions become ${proposal.length}; issues go from ${issues.length} to ${proposedIssues.length}.`}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setProposal(null)}
+                className="flex items-center space-x-1 px-3 py-1 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+              >
+                <X className="w-4 h-4" />
+                <span>Discard</span>
+              </button>
+              <button
+                onClick={applyProposal}
+                disabled={hunks.length === 0}
+                className="flex items-center space-x-1 px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                <span>Apply Changes</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {hunks.map((hunk, index) => (
+              <div key={index} className="space-y-2">
+                {hunk.unchanged > 0 && (
+                  <div className="text-xs text-center text-slate-400 dark:text-slate-500">
+                    {hunk.unchanged} unchanged caption{hunk.unchanged === 1 ? '' : 's'}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">{hunk.removed.map(segment => renderCaption(segment, 'removed'))}</div>
+                  <div className="space-y-1">{hunk.added.map(segment => renderCaption(segment, 'added'))}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="text-sm text-slate-600 dark:text-slate-400">
+            {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+          </div>
+
+          {issues.length > 0 ? (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {issues.map(issue => {
+                const segment = segments.find(s => s.id === issue.segmentId);
+
+                return (
+                  <div
+                    key={issue.id}
+                    className={`flex items-center justify-between p-2 rounded-lg text-sm ${
+                      issue.severity === 'error'
+                        ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                        : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      {segment && <span className="font-mono">{formatTimecode(segment.startTime)}</span>}
+                      <span className="truncate">{issue.message}</span>
+                    </div>
+                    {segment && (
+                      <button
+                        onClick={() => onPlaySegment(segment)}
+                        className="p-1 hover:bg-white/50 dark:hover:bg-slate-700 rounded"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2 text-sm text-green-600 dark:text-green-400">
+              <Check className="w-4 h-4" />
+              <span>All captions meet the {profile.name} rules</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
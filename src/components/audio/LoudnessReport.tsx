@@ -0,0 +1,222 @@
+import React, { useState, useMemo } from 'react';
+import { Gauge, Download, FileText, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { AudioFile, LoudnessMeasurement } from '../../types/audio';
+import { measureFileLoudness } from '../../utils/audioProcessor';
+import {
+  DELIVERY_SPECS,
+  checkCompliance,
+  formatLoudness
+} from '../../utils/loudnessMeter';
+import { exportComplianceReportJson, exportComplianceReportPdf } from '../../utils/loudnessReport';
+
+interface LoudnessReportProps {
+  file: AudioFile;
+}
+
+export const LoudnessReport: React.FC<LoudnessReportProps> = ({ file }) => {
+  const [specId, setSpecId] = useState(DELIVERY_SPECS[0].id);
+  const [measurement, setMeasurement] = useState<LoudnessMeasurement | null>(null);
+  const [measuredUrl, setMeasuredUrl] = useState<string | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A measurement only describes the audio it was taken from
+  const isStale = measuredUrl !== null && measuredUrl !== file.url;
+
+  const report = useMemo(() => {
+    const spec = DELIVERY_SPECS.find(s => s.id === specId);
+    if (!measurement || !spec) return null;
+    return checkCompliance(measurement, spec, file.name);
+  }, [measurement, specId, file.name]);
+
+  const measure = async () => {
+    setIsMeasuring(true);
+    setError(null);
+
+    try {
+      const response = await fetch(file.url);
+      const blob = await response.blob();
+      const result = await measureFileLoudness(blob);
+
+      if (result) {
+        setMeasurement(result);
+        setMeasuredUrl(file.url);
+      } else {
+        setError('This audio format could not be decoded for measurement.');
+      }
+    } catch (err) {
+      console.error('Loudness measurement failed:', err);
+      setError('Failed to load the audio for measurement.');
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  const exportJson = () => {
+    if (!report) return;
+
+    const url = URL.createObjectURL(exportComplianceReportJson(report));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${file.name.replace(/\.[^/.]+$/, '')}-loudness-${report.spec.id}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const exportPdf = () => {
+    if (!report) return;
+
+    exportComplianceReportPdf(report).save(`${file.name.replace(/\.[^/.]+$/, '')}-loudness-${report.spec.id}.pdf`);
+  };
+
+  const getUnit = (checkId: string): string => {
+    if (checkId === 'true-peak') return 'dBTP';
+    if (checkId === 'loudness-range') return 'LU';
+    return 'LUFS';
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-5 h-5 text-indigo-500" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Loudness Compliance
+          </h3>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={specId}
+            onChange={(e) => setSpecId(e.target.value)}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm"
+          >
+            {DELIVERY_SPECS.map(spec => (
+              <option key={spec.id} value={spec.id}>{spec.name}</option>
+            ))}
+          </select>
+
+          <button
+            onClick={measure}
+            disabled={isMeasuring}
+            className="flex items-center space-x-2 px-3 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50 text-sm"
+          >
+            {isMeasuring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gauge className="w-4 h-4" />}
+            <span>{isMeasuring ? 'Measuring...' : measurement ? 'Re-measure' : 'Measure'}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!report && !error && (
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Measure integrated, short-term and momentary loudness, loudness range and true peak (ITU-R BS.1770)
+          and check them against a delivery specification.
+        </p>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          {isStale && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+              The audio has changed since this measurement. Re-measure before delivering.
+            </div>
+          )}
+
+          <div className={`
+            flex items-center justify-between p-4 rounded-lg
+            ${report.passed
+              ? 'bg-green-50 dark:bg-green-900/20'
+              : 'bg-red-50 dark:bg-red-900/20'
+            }
+          `}>
+            <div className="flex items-center space-x-2">
+              {report.passed ? (
+                <CheckCircle className="w-5 h-5 text-green-500" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-500" />
+              )}
+              <span className={`font-medium ${report.passed ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                {report.passed ? 'Passes' : 'Fails'} {report.spec.name}
+              </span>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={exportJson}
+                className="flex items-center space-x-1 px-3 py-1 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-600 text-sm"
+              >
+                <Download className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+              <button
+                onClick={exportPdf}
+                className="flex items-center space-x-1 px-3 py-1 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-600 text-sm"
+              >
+                <FileText className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {report.checks.map(check => (
+              <div key={check.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm">
+                <div className="flex items-center space-x-2">
+                  {check.passed ? (
+                    <CheckCircle className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-500" />
+                  )}
+                  <span className="text-slate-900 dark:text-slate-100">{check.label}</span>
+                </div>
+                <div className="text-right">
+                  <span className="font-medium text-slate-900 dark:text-slate-100">
+                    {formatLoudness(check.measured, getUnit(check.id))}
+                  </span>
+                  <span className="ml-2 text-slate-500 dark:text-slate-400">
+                    required {check.requirement}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+              <div className="text-slate-500 dark:text-slate-400">Max momentary</div>
+              <div className="font-medium text-slate-900 dark:text-slate-100">
+                {formatLoudness(report.measurement.maxMomentary, 'LUFS')}
+              </div>
+            </div>
+            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+              <div className="text-slate-500 dark:text-slate-400">Max short-term</div>
+              <div className="font-medium text-slate-900 dark:text-slate-100">
+                {formatLoudness(report.measurement.maxShortTerm, 'LUFS')}
+              </div>
+            </div>
+            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+              <div className="text-slate-500 dark:text-slate-400">Loudness range</div>
+              <div className="font-medium text-slate-900 dark:text-slate-100">
+                {formatLoudness(report.measurement.loudnessRange, 'LU')}
+              </div>
+            </div>
+            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+              <div className="text-slate-500 dark:text-slate-400">Sample peak</div>
+              <div className="font-medium text-slate-900 dark:text-slate-100">
+                {formatLoudness(report.measurement.samplePeak, 'dBFS')}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Sliders, AudioWaveform as Waveform, BarChart2, Download, Settings, Zap, Volume2, Loader2, Check, AlertTriangle } from 'lucide-react';
 import { AudioFile, MixingRecommendation } from '../../types/audio';
 import { generateMixingRecommendations } from '../../utils/audioProcessor';
+import { LoudnessReport } from './LoudnessReport';
+import { AudioExporter } from './AudioExporter';
 
 interface MixingConsoleProps {
   file: AudioFile;
@@ -164,54 +166,60 @@ export const MixingConsole: React.FC<MixingConsoleProps> = ({
               Loudness
             </h4>
             
-            <div className="space-y-3">
-              <div>
-                <div className="flex items-center justify-between text-sm mb-1">
-                  <span className="text-slate-600 dark:text-slate-400">Integrated</span>
-                  <span className="font-medium text-slate-900 dark:text-slate-100">
-                    {file.analysis.loudness.integrated.toFixed(1)} LUFS
-                  </span>
-                </div>
-                <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-indigo-500 rounded-full" 
-                    style={{ width: `${Math.min(100, Math.max(0, (file.analysis.loudness.integrated + 24) / 24 * 100))}%` }}
-                  />
+            {file.analysis.loudness ? (
+              <div className="space-y-3">
+                <div>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-slate-600 dark:text-slate-400">Integrated</span>
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {file.analysis.loudness.integrated.toFixed(1)} LUFS
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-indigo-500 rounded-full" 
+                      style={{ width: `${Math.min(100, Math.max(0, (file.analysis.loudness.integrated + 24) / 24 * 100))}%` }}
+                    />
+                  </div>
                 </div>
-              </div>
               
-              <div>
-                <div className="flex items-center justify-between text-sm mb-1">
-                  <span className="text-slate-600 dark:text-slate-400">True Peak</span>
-                  <span className="font-medium text-slate-900 dark:text-slate-100">
-                    {file.analysis.loudness.truePeak.toFixed(1)} dBTP
-                  </span>
-                </div>
-                <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
-                  <div 
-                    className={`h-full rounded-full ${
-                      file.analysis.loudness.truePeak > -1 ? 'bg-red-500' : 'bg-indigo-500'
-                    }`}
-                    style={{ width: `${Math.min(100, Math.max(0, (file.analysis.loudness.truePeak + 20) / 20 * 100))}%` }}
-                  />
+                <div>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-slate-600 dark:text-slate-400">True Peak</span>
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {file.analysis.loudness.truePeak.toFixed(1)} dBTP
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
+                    <div 
+                      className={`h-full rounded-full ${
+                        file.analysis.loudness.truePeak > -1 ? 'bg-red-500' : 'bg-indigo-500'
+                      }`}
+                      style={{ width: `${Math.min(100, Math.max(0, (file.analysis.loudness.truePeak + 20) / 20 * 100))}%` }}
+                    />
+                  </div>
                 </div>
-              </div>
               
-              <div>
-                <div className="flex items-center justify-between text-sm mb-1">
-                  <span className="text-slate-600 dark:text-slate-400">Loudness Range</span>
-                  <span className="font-medium text-slate-900 dark:text-slate-100">
-                    {file.analysis.loudness.loudnessRange.toFixed(1)} LU
-                  </span>
-                </div>
-                <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-indigo-500 rounded-full" 
-                    style={{ width: `${Math.min(100, Math.max(0, file.analysis.loudness.loudnessRange / 20 * 100))}%` }}
-                  />
+                <div>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-slate-600 dark:text-slate-400">Loudness Range</span>
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {file.analysis.loudness.loudnessRange.toFixed(1)} LU
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-indigo-500 rounded-full" 
+                      style={{ width: `${Math.min(100, Math.max(0, file.analysis.loudness.loudnessRange / 20 * 100))}%` }}
+                    />
+                  </div>
                 </div>
               </div>
-            </div>
+            ) : (
+              <div className="text-sm text-slate-500 dark:text-slate-400">
+                Could not measure loudness for this file
+              </div>
+            )}
           </div>
           
           {/* Spectrum */}
@@ -324,6 +332,12 @@ export const MixingConsole: React.FC<MixingConsoleProps> = ({
         </div>
       </div>
 
+      {/* Loudness Compliance */}
+      <LoudnessReport file={file} />
+
+      {/* Export */}
+      <AudioExporter file={file} />
+
       {/* Mixing Recommendations */}
       {isGenerating ? (
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
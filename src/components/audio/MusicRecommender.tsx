@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { 
   Music, Search, Play, Pause, 
   Download, Plus, Filter, Clock, 
-  Heart, Zap, Volume2, Loader2
+  Heart, Zap, Volume2, Loader2, Trash2
 } from 'lucide-react';
 import { AudioProject, MusicRecommendation } from '../../types/audio';
 import { generateMusicRecommendations } from '../../utils/audioProcessor';
@@ -322,14 +322,14 @@ export const MusicRecommender: React.FC<MusicRecommenderProps> = ({
                   </div>
                   
                   <div className="mb-3">
-                    <div className="text-xs text-slate-500 dark:text-slate-500 mb-1">Key Instruments</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-500 mb-1">Tags</div>
                     <div className="flex flex-wrap gap-1">
-                      {recommendation.instruments.map((instrument, index) => (
+                      {recommendation.tags.map((tag, index) => (
                         <span 
                           key={index}
                           className="px-2 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded text-xs"
                         >
-                          {instrument}
+                          {tag}
                         </span>
                       ))}
                     </div>
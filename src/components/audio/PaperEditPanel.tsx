@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import { Scissors, RotateCcw, Loader2, Play } from 'lucide-react';
+import { AudioFile, TranscriptionSegment, Speaker } from '../../types/audio';
+import { renderAudioEdit } from '../../utils/audioProcessor';
+import { buildCutList, getCutDuration } from '../../utils/audioEditing';
+
+interface PaperEditPanelProps {
+  file: AudioFile;
+  segments: TranscriptionSegment[];
+  speakers: Speaker[];
+  onSegmentsChange: (segments: TranscriptionSegment[]) => void;
+  onPlayRange: (startTime: number, endTime: number) => void;
+  onFileCreate?: (file: AudioFile) => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${mins}:${secs.padStart(4, '0')}`;
+};
+
+export const PaperEditPanel: React.FC<PaperEditPanelProps> = ({
+  file,
+  segments,
+  speakers,
+  onSegmentsChange,
+  onPlayRange,
+  onFileCreate
+}) => {
+  const [crossfadeMs, setCrossfadeMs] = useState(10);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cuts = useMemo(() => buildCutList(segments), [segments]);
+  const removedDuration = getCutDuration(cuts);
+  const hasWordTimings = segments.some(segment => segment.words.length > 0);
+
+  const toggleWord = (segmentId: string, wordIndex: number) => {
+    onSegmentsChange(segments.map(segment => {
+      if (segment.id !== segmentId) return segment;
+      return {
+        ...segment,
+        words: segment.words.map((word, i) => i === wordIndex ? { ...word, deleted: !word.deleted } : word)
+      };
+    }));
+  };
+
+  const restoreAll = () => {
+    onSegmentsChange(segments.map(segment => ({
+      ...segment,
+      words: segment.words.map(word => ({ ...word, deleted: false }))
+    })));
+  };
+
+  const renderEdit = async () => {
+    setIsRendering(true);
+    setError(null);
+
+    try {
+      const editedFile = await renderAudioEdit(file, { crossfadeMs });
+      onFileCreate?.(editedFile);
+    } catch (err) {
+      console.error('Rendering the edit failed:', err);
+      setError('Failed to render the edited audio.');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  if (!hasWordTimings) {
+    return (
+      <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+        This transcription has no word timings. Re-transcribe the audio to edit it by text.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+        <div className="text-sm text-slate-700 dark:text-slate-300">
+          <span className="font-medium">{cuts.length}</span> cut{cuts.length === 1 ? '' : 's'},{' '}
+          <span className="font-medium">{formatTime(removedDuration)}</span> removed,{' '}
+          edited length <span className="font-medium">{formatTime(Math.max(0, file.duration - removedDuration))}</span>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+            <span>Crossfade</span>
+            <input
+              type="number"
+              value={crossfadeMs}
+              onChange={(e) => setCrossfadeMs(Math.max(0, Number(e.target.value)))}
+              min={0}
+              max={200}
+              step={5}
+              className="w-20 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            />
+            <span>ms</span>
+          </label>
+
+          <button
+            onClick={restoreAll}
+            disabled={cuts.length === 0}
+            className="flex items-center space-x-1 px-3 py-2 text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Restore All</span>
+          </button>
+
+          <button
+            onClick={renderEdit}
+            disabled={cuts.length === 0 || isRendering || !onFileCreate}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50"
+          >
+            {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
+            <span>{isRendering ? 'Rendering...' : 'Render Edit'}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Click words to strike them from the edit; click again to restore them. The rendered file is added to the project
+        with its transcript shifted to match.
+      </p>
+
+      <div className="space-y-4">
+        {segments.map(segment => {
+          const speaker = speakers.find(s => s.id === segment.speakerId);
+
+          return (
+            <div key={segment.id} className="flex space-x-3">
+              <div className="w-28 flex-shrink-0 text-xs text-slate-500 dark:text-slate-400">
+                <div className="font-medium" style={{ color: speaker?.color }}>
+                  {speaker?.name || 'Unknown Speaker'}
+                </div>
+                <div>{formatTime(segment.startTime)}</div>
+              </div>
+
+              <p className="flex-1 leading-7 text-slate-700 dark:text-slate-300">
+                {segment.words.map((word, i) => (
+                  <span
+                    key={i}
+                    onClick={() => toggleWord(segment.id, i)}
+                    title={`${formatTime(word.startTime)} - ${formatTime(word.endTime)}`}
+                    className={`
+                      cursor-pointer rounded px-0.5
+                      ${word.deleted
+                        ? 'line-through text-red-500 bg-red-50 dark:bg-red-900/20'
+                        : 'hover:bg-indigo-50 dark:hover:bg-indigo-950/30'
+                      }
+                    `}
+                  >
+                    {word.text}
+                  </span>
+                )).reduce<React.ReactNode[]>((nodes, node, i) => (i === 0 ? [node] : [...nodes, ' ', node]), [])}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {cuts.length > 0 && (
+        <div>
+          <h4 className="font-medium text-slate-900 dark:text-slate-100 mb-2">Cut List</h4>
+          <div className="space-y-2">
+            {cuts.map((cut, index) => (
+              <div key={cut.id} className="flex items-center justify-between p-2 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-slate-500 dark:text-slate-400">{index + 1}</span>
+                  <span className="font-mono text-slate-700 dark:text-slate-300">
+                    {formatTime(cut.startTime)} - {formatTime(cut.endTime)}
+                  </span>
+                  <span className="truncate text-slate-600 dark:text-slate-400 line-through">{cut.text}</span>
+                </div>
+                <button
+                  onClick={() => onPlayRange(Math.max(0, cut.startTime - 2), cut.startTime)}
+                  className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                  title="Play the lead-in to this cut"
+                >
+                  <Play className="w-4 h-4 text-slate-700 dark:text-slate-300" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
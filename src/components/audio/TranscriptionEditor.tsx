@@ -3,20 +3,30 @@ import {
   MessageSquare, Mic, Play, Pause, 
   Download, Edit3, Trash2, Plus, 
   Save, Check, X, User, Clock,
-  FileText, Settings, Loader2
+  FileText, Settings, Loader2, Scissors,
+  Upload
 } from 'lucide-react';
-import { AudioFile, TranscriptionSegment, Speaker } from '../../types/audio';
-import { transcribeAudio, generateSubtitles } from '../../utils/audioProcessor';
+import { AudioFile, TranscriptionSegment, Speaker, TranscriptionSettings } from '../../types/audio';
+import { transcribeAudio, generateSubtitles, loadAlignmentEnvelope } from '../../utils/audioProcessor';
+import { loadTranscriptionSettings, saveTranscriptionSettings } from '../../utils/transcriptionProviders';
+import { AlignmentEnvelope, alignSegmentText } from '../../utils/transcriptAlignment';
+import { buildCutList } from '../../utils/audioEditing';
+import { getDroppedStyling, importSubtitles, serializeSubtitles } from '../../utils/subtitleFormats';
+import { TranscriptionSettingsPanel } from './TranscriptionSettingsPanel';
+import { PaperEditPanel } from './PaperEditPanel';
+import { CaptionQualityPanel } from './CaptionQualityPanel';
 import { format } from 'date-fns';
 
 interface TranscriptionEditorProps {
   file: AudioFile;
   onFileUpdate: (file: AudioFile) => void;
+  onFileCreate?: (file: AudioFile) => void;
 }
 
 export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   file,
-  onFileUpdate
+  onFileUpdate,
+  onFileCreate
 }) => {
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptionProgress, setTranscriptionProgress] = useState(0);
@@ -27,7 +37,13 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [activeTab, setActiveTab] = useState('segments');
-  const [exportFormat, setExportFormat] = useState<'srt' | 'vtt' | 'txt'>('srt');
+  const [settings, setSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<'srt' | 'vtt' | 'ass' | 'txt'>(
+    file.transcription?.subtitleSource?.format ?? 'srt'
+  );
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [exportOptions, setExportOptions] = useState({
     includeSpeakerNames: true,
     maxLineLength: 42,
@@ -36,6 +52,10 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   
   const audioRef = useRef<HTMLAudioElement>(null);
   const progressInterval = useRef<number | null>(null);
+  const alignmentEnvelope = useRef<{ url: string; envelope: AlignmentEnvelope | null } | null>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+
+  const subtitleSource = file.transcription?.subtitleSource;
 
   useEffect(() => {
     return () => {
@@ -57,11 +77,17 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     };
   }, []);
 
+  const updateSettings = (updated: TranscriptionSettings) => {
+    setSettings(updated);
+    saveTranscriptionSettings(updated);
+  };
+
   const startTranscription = async () => {
     setIsTranscribing(true);
     setTranscriptionProgress(0);
+    setTranscriptionError(null);
     
-    // Simulate progress updates
+    // Providers that cannot report progress still show activity
     progressInterval.current = window.setInterval(() => {
       setTranscriptionProgress(prev => {
         const newProgress = prev + (1 + Math.random() * 2);
@@ -76,25 +102,26 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
       const audioFile = new File([blob], file.name, { type: file.format });
       
       // Transcribe the audio
-      const result = await transcribeAudio(audioFile, {
-        language: 'en',
-        speakerDiarization: true,
-        punctuation: true
+      const result = await transcribeAudio(audioFile, settings.options, progress => {
+        setTranscriptionProgress(prev => Math.max(prev, progress * 95));
       });
       
       setSegments(result.segments);
       setSpeakers(result.speakers);
       
       // Update the file with the transcription
+      const words = result.segments.flatMap(segment => segment.words);
       const updatedFile: AudioFile = {
         ...file,
         transcription: {
           id: `transcription-${Date.now()}`,
           segments: result.segments,
           speakers: result.speakers,
-          language: 'en',
-          accuracy: 0.85,
-          wordCount: result.segments.reduce((count, segment) => count + segment.text.split(' ').length, 0),
+          language: result.language,
+          accuracy: words.length > 0
+            ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+            : 0,
+          wordCount: words.length,
           duration: file.duration,
           createdAt: new Date(),
           updatedAt: new Date()
@@ -105,6 +132,7 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
       setTranscriptionProgress(100);
     } catch (error) {
       console.error('Transcription failed:', error);
+      setTranscriptionError(error instanceof Error ? error.message : 'Transcription failed.');
     } finally {
       if (progressInterval.current) {
         clearInterval(progressInterval.current);
@@ -114,14 +142,60 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     }
   };
 
-  const updateSegment = (segmentId: string, text: string) => {
-    const updatedSegments = segments.map(segment => 
-      segment.id === segmentId ? { ...segment, text, edited: true } : segment
-    );
+  const importCaptions = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const captionFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!captionFile) return;
     
+    try {
+      const result = importSubtitles(await captionFile.text(), captionFile.name, speakers);
+      if (result.segments.length === 0) {
+        setTranscriptionError(`No captions found in ${captionFile.name}.`);
+        return;
+      }
+      
+      setSegments(result.segments);
+      setSpeakers(result.speakers);
+      setImportWarnings(result.warnings);
+      setExportFormat(result.format);
+      setTranscriptionError(null);
+      
+      // Imported captions replace the transcription and remember the file they came from
+      const words = result.segments.flatMap(segment => segment.words);
+      const updatedFile: AudioFile = {
+        ...file,
+        transcription: {
+          id: `transcription-${Date.now()}`,
+          segments: result.segments,
+          speakers: result.speakers,
+          language: file.transcription?.language ?? settings.options.language ?? 'en',
+          accuracy: 1,
+          wordCount: words.length,
+          duration: file.duration,
+          subtitleSource: result.source,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      };
+      
+      onFileUpdate(updatedFile);
+    } catch (error) {
+      console.error('Caption import failed:', error);
+      setTranscriptionError(`Could not read ${captionFile.name} as SRT, WebVTT or ASS captions.`);
+    }
+  };
+
+  const getAlignmentEnvelope = async (): Promise<AlignmentEnvelope | null> => {
+    if (alignmentEnvelope.current?.url !== file.url) {
+      alignmentEnvelope.current = { url: file.url, envelope: await loadAlignmentEnvelope(file) };
+    }
+    return alignmentEnvelope.current.envelope;
+  };
+
+  const updateSegments = (updatedSegments: TranscriptionSegment[]) => {
     setSegments(updatedSegments);
     
-    // Update the file with the new transcription
+    // Update the file with the new transcription and the cut list it implies
     if (file.transcription) {
       const updatedFile: AudioFile = {
         ...file,
@@ -129,13 +203,45 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
           ...file.transcription,
           segments: updatedSegments,
           updatedAt: new Date()
-        }
+        },
+        cutList: buildCutList(updatedSegments)
       };
       
       onFileUpdate(updatedFile);
     }
   };
 
+  const updateSegment = async (segmentId: string, text: string) => {
+    // Re-align the edited text so every word keeps a start and end time
+    const envelope = await getAlignmentEnvelope();
+    const updatedSegments = segments.map(segment => 
+      segment.id === segmentId
+        ? { ...segment, text, words: alignSegmentText(segment, text, envelope ?? undefined), edited: true }
+        : segment
+    );
+    
+    updateSegments(updatedSegments);
+  };
+
+  const playRange = (startTime: number, endTime: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    
+    audio.currentTime = startTime;
+    audio.play();
+    setIsPlaying(true);
+    
+    const checkTime = () => {
+      if (audio.currentTime >= endTime) {
+        audio.pause();
+        setIsPlaying(false);
+        audio.removeEventListener('timeupdate', checkTime);
+      }
+    };
+    
+    audio.addEventListener('timeupdate', checkTime);
+  };
+
   const updateSpeaker = (speakerId: string, updates: Partial<Speaker>) => {
     const updatedSpeakers = speakers.map(speaker => 
       speaker.id === speakerId ? { ...speaker, ...updates } : speaker
@@ -159,23 +265,7 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const deleteSegment = (segmentId: string) => {
-    const updatedSegments = segments.filter(segment => segment.id !== segmentId);
-    
-    setSegments(updatedSegments);
-    
-    // Update the file with the new transcription
-    if (file.transcription) {
-      const updatedFile: AudioFile = {
-        ...file,
-        transcription: {
-          ...file.transcription,
-          segments: updatedSegments,
-          updatedAt: new Date()
-        }
-      };
-      
-      onFileUpdate(updatedFile);
-    }
+    updateSegments(segments.filter(segment => segment.id !== segmentId));
   };
 
   const addSegment = (afterSegmentId: string) => {
@@ -231,7 +321,14 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     try {
       let content = '';
       
-      if (exportFormat === 'srt' || exportFormat === 'vtt') {
+      if (subtitleSource && subtitleSource.format === exportFormat) {
+        // Write back into the imported file so untouched cues keep their styling and timing
+        const dropped = getDroppedStyling(segments, subtitleSource);
+        if (dropped.length > 0 && !window.confirm(
+          `${dropped.length} edited caption${dropped.length === 1 ? ' has' : 's have'} inline styling tags that will be removed on export. Export anyway?`
+        )) return;
+        content = serializeSubtitles(segments, speakers, subtitleSource, exportOptions);
+      } else if (exportFormat === 'srt' || exportFormat === 'vtt' || exportFormat === 'ass') {
         content = await generateSubtitles(segments, {
           format: exportFormat,
           includeSpeakerNames: exportOptions.includeSpeakerNames,
@@ -520,6 +617,16 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                 <span className="text-sm text-slate-700 dark:text-slate-300">VTT (Web Subtitles)</span>
               </label>
               
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={exportFormat === 'ass'}
+                  onChange={() => setExportFormat('ass')}
+                  className="text-indigo-600"
+                />
+                <span className="text-sm text-slate-700 dark:text-slate-300">ASS (Styled Subtitles)</span>
+              </label>
+              
               <label className="flex items-center space-x-2">
                 <input
                   type="radio"
@@ -530,6 +637,11 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                 <span className="text-sm text-slate-700 dark:text-slate-300">Plain Text</span>
               </label>
             </div>
+            {subtitleSource && subtitleSource.format === exportFormat && (
+              <div className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                Exports into {subtitleSource.fileName}: unedited captions keep their original timing, styling and numbering.
+              </div>
+            )}
           </div>
           
           <div>
@@ -593,6 +705,21 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
         </div>
       </div>
       
+      <CaptionQualityPanel
+        file={file}
+        segments={segments}
+        maxLineLength={exportOptions.maxLineLength}
+        maxLinesPerCaption={exportOptions.maxLinesPerCaption}
+        onProfileChange={(profile) => setExportOptions({
+          ...exportOptions,
+          maxLineLength: profile.maxLineLength,
+          maxLinesPerCaption: profile.maxLines
+        })}
+        onSegmentsChange={updateSegments}
+        onPlaySegment={playSegment}
+        onFileUpdate={onFileUpdate}
+      />
+      
       <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg p-6">
         <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
           Transcription Statistics
@@ -642,6 +769,13 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   return (
     <div className="space-y-6">
       <audio ref={audioRef} src={file.url} className="hidden" />
+      <input
+        ref={captionInputRef}
+        type="file"
+        accept=".srt,.vtt,.ass,.ssa"
+        onChange={importCaptions}
+        className="hidden"
+      />
       
       <div className="flex items-center justify-between">
         <div>
@@ -654,6 +788,27 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
         </div>
         
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`p-2 rounded-lg ${
+              showSettings
+                ? 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400'
+                : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+            }`}
+            title="Transcription settings"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+
+          <button
+            onClick={() => captionInputRef.current?.click()}
+            disabled={isTranscribing}
+            className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Import Captions</span>
+          </button>
+
           {segments.length > 0 && (
             <button
               onClick={() => setActiveTab('export')}
@@ -677,6 +832,32 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
         </div>
       </div>
 
+      {showSettings && (
+        <TranscriptionSettingsPanel settings={settings} onSettingsChange={updateSettings} />
+      )}
+
+      {transcriptionError && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-xl text-sm">
+          {transcriptionError}
+        </div>
+      )}
+
+      {importWarnings.length > 0 && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 rounded-xl text-sm">
+          <div className="flex items-center justify-between">
+            <span>Some of the caption file could not be read:</span>
+            <button onClick={() => setImportWarnings([])} className="p-1 rounded hover:bg-amber-100 dark:hover:bg-amber-900/30">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {importWarnings.map((warning, i) => (
+              <li key={i}>• {warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Transcription Progress */}
       {isTranscribing && (
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
@@ -719,7 +900,7 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
             No Transcription Available
           </h3>
           <p className="text-sm text-slate-500 dark:text-slate-500 mb-6">
-            Start the transcription process to convert audio to text
+            Start the transcription process to convert audio to text, or import an SRT, WebVTT or ASS caption file
           </p>
           <button
             onClick={startTranscription}
@@ -766,6 +947,20 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                 <span>Speakers</span>
               </button>
               
+              <button
+                onClick={() => setActiveTab('edit')}
+                className={`
+                  flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+                  ${activeTab === 'edit'
+                    ? 'text-indigo-600 dark:text-indigo-400 border-b-2 border-indigo-500 bg-indigo-50 dark:bg-indigo-950/20'
+                    : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+                  }
+                `}
+              >
+                <Scissors className="w-4 h-4" />
+                <span>Paper Edit</span>
+              </button>
+              
               <button
                 onClick={() => setActiveTab('export')}
                 className={`
@@ -786,6 +981,16 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
           <div className="p-6">
             {activeTab === 'segments' && renderSegmentsTab()}
             {activeTab === 'speakers' && renderSpeakersTab()}
+            {activeTab === 'edit' && (
+              <PaperEditPanel
+                file={file}
+                segments={segments}
+                speakers={speakers}
+                onSegmentsChange={updateSegments}
+                onPlayRange={playRange}
+                onFileCreate={onFileCreate}
+              />
+            )}
             {activeTab === 'export' && renderExportTab()}
           </div>
         </div>
@@ -803,6 +1008,7 @@ export const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
           <li>• Add new segments for missed content</li>
           <li>• Export in SRT format for video editing software</li>
           <li>• Export in VTT format for web videos</li>
+          <li>• Import existing captions to check and correct them against the audio</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,197 @@
+import React from 'react';
+import { Settings } from 'lucide-react';
+import { TranscriptionOptions, TranscriptionSettings } from '../../types/audio';
+import { getTranscriptionProviders } from '../../utils/transcriptionProviders';
+
+interface TranscriptionSettingsPanelProps {
+  settings: TranscriptionSettings;
+  onSettingsChange: (settings: TranscriptionSettings) => void;
+}
+
+const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ru', name: 'Russian' }
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm';
+
+export const TranscriptionSettingsPanel: React.FC<TranscriptionSettingsPanelProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  const providers = getTranscriptionProviders();
+  const activeProvider = providers.find(provider => provider.id === settings.providerId);
+
+  const updateOptions = (updates: Partial<TranscriptionOptions>) => {
+    onSettingsChange({ ...settings, options: { ...settings.options, ...updates } });
+  };
+
+  const updateWhisper = (updates: Partial<TranscriptionSettings['whisper']>) => {
+    onSettingsChange({ ...settings, whisper: { ...settings.whisper, ...updates } });
+  };
+
+  const updateCognitiveServices = (updates: Partial<TranscriptionSettings['cognitiveServices']>) => {
+    onSettingsChange({ ...settings, cognitiveServices: { ...settings.cognitiveServices, ...updates } });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Settings className="w-5 h-5 text-indigo-500" />
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+          Transcription Settings
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Provider
+          </label>
+          <select
+            value={settings.providerId}
+            onChange={(e) => onSettingsChange({ ...settings, providerId: e.target.value })}
+            className={inputClassName}
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+          {activeProvider && (
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{activeProvider.description}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Language
+          </label>
+          <select
+            value={settings.options.language ?? 'en'}
+            onChange={(e) => updateOptions({ language: e.target.value })}
+            className={inputClassName}
+          >
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.providerId === 'whisper-http' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Endpoint URL
+              </label>
+              <input
+                type="url"
+                value={settings.whisper.endpoint}
+                onChange={(e) => updateWhisper({ endpoint: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Model
+              </label>
+              <input
+                type="text"
+                value={settings.whisper.model}
+                onChange={(e) => updateWhisper({ model: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                API key (optional)
+              </label>
+              <input
+                type="password"
+                value={settings.whisper.apiKey ?? ''}
+                onChange={(e) => updateWhisper({ apiKey: e.target.value || undefined })}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+
+        {settings.providerId === 'cognitive-services' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Region
+              </label>
+              <input
+                type="text"
+                value={settings.cognitiveServices.region}
+                onChange={(e) => updateCognitiveServices({ region: e.target.value })}
+                placeholder="westus2"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Subscription key
+              </label>
+              <input
+                type="password"
+                value={settings.cognitiveServices.subscriptionKey}
+                onChange={(e) => updateCognitiveServices({ subscriptionKey: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-4 text-sm text-slate-700 dark:text-slate-300">
+        {(!activeProvider || activeProvider.capabilities.diarization) && (
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.options.speakerDiarization ?? false}
+              onChange={(e) => updateOptions({ speakerDiarization: e.target.checked })}
+              className="rounded border-slate-300 dark:border-slate-600"
+            />
+            <span>Identify speakers</span>
+          </label>
+        )}
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.options.punctuation ?? true}
+            onChange={(e) => updateOptions({ punctuation: e.target.checked })}
+            className="rounded border-slate-300 dark:border-slate-600"
+          />
+          <span>Punctuation</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.options.filterProfanity ?? false}
+            onChange={(e) => updateOptions({ filterProfanity: e.target.checked })}
+            className="rounded border-slate-300 dark:border-slate-600"
+          />
+          <span>Mask profanity</span>
+        </label>
+      </div>
+
+      {activeProvider && !activeProvider.capabilities.diarization && (
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          This provider does not separate speakers; all segments are assigned to one speaker.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { ClipboardList, Wand2, CalendarPlus, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { BreakdownItem, ProductionProject, ScriptBreakdown } from '../../types/production';
+import { DocumentaryProject } from '../../types/documentary';
+import {
+  BreakdownDraftSummary,
+  applyBreakdownToProduction,
+  generateBreakdown,
+  getBreakdownItems,
+  removeBreakdownItem
+} from '../../utils/scriptBreakdown';
+import { formatTimecode } from '../../utils/scriptLayout';
+
+interface BreakdownSheetsProps {
+  project: ProductionProject;
+  documentary: DocumentaryProject | null;
+  onProjectUpdate: (project: ProductionProject) => void;
+}
+
+const CATEGORIES: { id: BreakdownItem['category']; label: string; className: string }[] = [
+  { id: 'interview-subject', label: 'Interview subjects', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  { id: 'b-roll', label: 'B-roll', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  { id: 'archival', label: 'Archival', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  { id: 'music', label: 'Music cues', className: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300' },
+  { id: 'prop', label: 'Props', className: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300' }
+];
+
+export const BreakdownSheets: React.FC<BreakdownSheetsProps> = ({
+  project,
+  documentary,
+  onProjectUpdate
+}) => {
+  const scripts = documentary?.scripts ?? [];
+  const breakdown = project.breakdown ?? null;
+
+  const [selectedId, setSelectedId] = useState(breakdown?.scriptId ?? '');
+  const [startDate, setStartDate] = useState('');
+  const [summary, setSummary] = useState<BreakdownDraftSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scripts arrive once the documentary has loaded, so fall back to the first one until one is picked
+  const script = scripts.find(item => item.id === selectedId) ?? scripts[0];
+  const scriptId = script?.id ?? '';
+  const breakdownScript = scripts.find(item => item.id === breakdown?.scriptId);
+  const outdated = !!breakdown && !!breakdownScript && breakdownScript.updatedAt > breakdown.generatedAt;
+
+  const run = (update: () => ProductionProject) => {
+    try {
+      onProjectUpdate(update());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
+  const updateBreakdown = (updated: ScriptBreakdown) => {
+    onProjectUpdate({ ...project, breakdown: updated, updatedAt: new Date() });
+  };
+
+  const generate = () => {
+    if (!script) return;
+    run(() => {
+      if (script.content.length === 0) throw new Error(`"${script.title}" has no content to break down yet.`);
+      return { ...project, breakdown: generateBreakdown(script), updatedAt: new Date() };
+    });
+    setSummary(null);
+  };
+
+  const draft = () => {
+    if (!breakdown) return;
+    const result = applyBreakdownToProduction(project, breakdown, {
+      startDate: startDate ? new Date(`${startDate}T00:00:00`) : undefined
+    });
+    onProjectUpdate(result.project);
+    setSummary(result.summary);
+  };
+
+  const totals = breakdown
+    ? CATEGORIES.map(category => ({ ...category, count: getBreakdownItems(breakdown, category.id).length }))
+    : [];
+  const locationCount = breakdown
+    ? new Set(breakdown.sheets.filter(sheet => sheet.locationName).map(sheet => sheet.locationName.toLowerCase())).size
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Source script */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <ClipboardList className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">Script Breakdown</h3>
+        </div>
+
+        {scripts.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Write or import a Fountain or Final Draft script on the Script tab first. Its scenes are broken down
+            into locations, interview subjects, b-roll, props, music cues and archival material.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={scriptId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+            >
+              {scripts.map(item => (
+                <option key={item.id} value={item.id}>{item.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={generate}
+              disabled={!script}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Wand2 className="w-4 h-4" />
+              <span>{breakdown?.scriptId === scriptId ? 'Regenerate' : 'Break Down Script'}</span>
+            </button>
+            {breakdown && (
+              <span className="text-sm text-slate-500 dark:text-slate-400">
+                "{breakdown.scriptTitle}" broken down {format(breakdown.generatedAt, 'MMM d, yyyy h:mm a')}
+              </span>
+            )}
+          </div>
+        )}
+
+        {outdated && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>The script has changed since this breakdown. Regenerate it to pick up the changes.</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      {breakdown && (
+        <>
+          {/* Totals and drafting */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+              <div>
+                <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{locationCount}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Locations</div>
+              </div>
+              {totals.map(total => (
+                <div key={total.id}>
+                  <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{total.count}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{total.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  First shooting day
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                />
+              </div>
+              <button
+                onClick={draft}
+                className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                <span>Draft Production Entries</span>
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              Adds locations and shooting days for unscheduled scenes, licenses for music cues and archival material,
+              and releases for interview subjects. Anything the production already has is left as it is.
+            </p>
+
+            {summary && (
+              <div className="flex items-center space-x-2 mt-4 p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-lg text-sm">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  Added {summary.locations} location{summary.locations === 1 ? '' : 's'}, {summary.shootingDays} shooting
+                  day{summary.shootingDays === 1 ? '' : 's'}, {summary.licenses} license{summary.licenses === 1 ? '' : 's'} and{' '}
+                  {summary.releases} release{summary.releases === 1 ? '' : 's'}.
+                  {summary.scheduledScenes > 0 && ` ${summary.scheduledScenes} scene${summary.scheduledScenes === 1 ? ' was' : 's were'} already scheduled.`}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* Sheets */}
+          <div className="space-y-4">
+            {breakdown.sheets.map(sheet => (
+              <div key={sheet.id} className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h4 className="font-medium text-slate-900 dark:text-slate-100">
+                      {sheet.sceneNumber > 0 && `${sheet.sceneNumber}. `}{sheet.heading}
+                    </h4>
+                    <div className="flex items-center space-x-3 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      {sheet.locationName && <span>{sheet.locationName}</span>}
+                      {sheet.setting !== 'unspecified' && <span className="capitalize">{sheet.setting}</span>}
+                      {sheet.timeOfDay && <span>{sheet.timeOfDay}</span>}
+                    </div>
+                  </div>
+                  <span className="text-sm font-mono text-slate-600 dark:text-slate-400">
+                    {formatTimecode(sheet.screenTime)}
+                  </span>
+                </div>
+
+                {sheet.items.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">Nothing to prepare for this scene.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {CATEGORIES.map(category => {
+                      const items = sheet.items.filter(item => item.category === category.id);
+                      if (items.length === 0) return null;
+
+                      return (
+                        <div key={category.id} className="flex items-start space-x-3">
+                          <span className="w-32 flex-shrink-0 text-xs font-medium text-slate-500 dark:text-slate-400 pt-1">
+                            {category.label}
+                          </span>
+                          <div className="flex flex-wrap gap-2">
+                            {items.map(item => (
+                              <span key={item.id} className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${category.className}`}>
+                                <span>{item.name}</span>
+                                <button
+                                  onClick={() => updateBreakdown(removeBreakdownItem(breakdown, sheet.id, item.id))}
+                                  className="opacity-60 hover:opacity-100"
+                                  title="Not needed"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,30 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { 
   DollarSign, Plus, Download, Filter, 
   TrendingUp, PieChart, FileText, Edit3, 
-  Trash2, Check, X, Search
+  Trash2, Check, X, Search, AlertCircle, Table, Users, Coins, Upload, Receipt, Paperclip, BookOpen, Ban
 } from 'lucide-react';
-import { ProductionProject, Budget, BudgetCategory, BudgetItem, Expense } from '../../types/production';
+import {
+  ProductionProject, Budget, BudgetCategory, BudgetItem, BudgetSection, Expense, ExchangeRate, LaborRules,
+  AccountingExport, AccountingFormat, AccountingSettings, AccountMapping
+} from '../../types/production';
 import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  BUDGET_SECTIONS, getCategorySection, recalculateBudget, summarizeBudget, forecastBudget,
+  getTopSheet, getTopSheetRows, exportTopSheetCsv, exportTopSheetPdf
+} from '../../utils/budgetEngine';
+import { estimateLabor, applyLaborToBudget } from '../../utils/laborCost';
+import {
+  addRates, createConverter, exportCurrencyReportCsv, formatConverted, formatMoney as formatCurrency,
+  getCurrencyReport, importRatesCsv
+} from '../../utils/currency';
+import { canApproveReceipt, getReceiptIssues, scanReceipts } from '../../utils/receiptOcr';
+import {
+  ACCOUNTING_FORMATS, ExportRange, createAccountingExport, getAccountingSettings, getAccountMapping,
+  getExportCandidates, getLockedChanges, setAccountMapping, voidAccountingExport
+} from '../../utils/accountingExport';
+import { CurrencySelect } from './CurrencySelect';
 
 interface BudgetOverviewProps {
   project: ProductionProject;
@@ -26,9 +44,24 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
   const [newExpense, setNewExpense] = useState<Partial<Expense>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
+  const [newRate, setNewRate] = useState<Partial<ExchangeRate>>({});
+  const [currencyMessage, setCurrencyMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const rateInputRef = useRef<HTMLInputElement>(null);
+  const [receiptProgress, setReceiptProgress] = useState<{ index: number; total: number; progress: number } | null>(null);
+  const [receiptMessage, setReceiptMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const [draggingReceipt, setDraggingReceipt] = useState(false);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+  const [accountingFormat, setAccountingFormat] = useState<AccountingFormat>('general-ledger');
+  const [accountingRange, setAccountingRange] = useState<ExportRange>({});
+  const [accountingMessage, setAccountingMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const converter = createConverter(project);
+  // Receipt scans outlast renders, so their results are merged into whichever project is current when they finish
+  const latestProject = useRef(project);
+  latestProject.current = project;
 
+  // Spent and remaining amounts are always derived from the expenses
   const updateBudget = (updates: Partial<Budget>) => {
-    const updatedBudget = { ...project.budget, ...updates };
+    const updatedBudget = recalculateBudget({ ...project.budget, ...updates }, converter.convert);
     onProjectUpdate({
       ...project,
       budget: updatedBudget
@@ -45,48 +78,26 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
       allocatedAmount: newCategory.allocatedAmount || 0,
       spentAmount: 0,
       remainingAmount: newCategory.allocatedAmount || 0,
-      items: []
+      items: [],
+      section: newCategory.section,
+      fringeRate: newCategory.fringeRate
     };
     
-    updateBudget({
-      categories: [...project.budget.categories, category],
-      allocatedBudget: project.budget.allocatedBudget + (newCategory.allocatedAmount || 0)
-    });
+    updateBudget({ categories: [...project.budget.categories, category] });
     
     setNewCategory({});
   };
 
   const updateCategory = (id: string, updates: Partial<BudgetCategory>) => {
-    const category = project.budget.categories.find(c => c.id === id);
-    if (!category) return;
-    
-    const oldAllocated = category.allocatedAmount;
-    const newAllocated = updates.allocatedAmount !== undefined ? updates.allocatedAmount : oldAllocated;
-    
-    const updatedCategories = project.budget.categories.map(c => 
-      c.id === id ? { 
-        ...c, 
-        ...updates,
-        remainingAmount: (updates.allocatedAmount || c.allocatedAmount) - c.spentAmount
-      } : c
-    );
-    
     updateBudget({
-      categories: updatedCategories,
-      allocatedBudget: project.budget.allocatedBudget - oldAllocated + newAllocated
+      categories: project.budget.categories.map(c => c.id === id ? { ...c, ...updates } : c)
     });
     
     setEditingCategory(null);
   };
 
   const deleteCategory = (id: string) => {
-    const category = project.budget.categories.find(c => c.id === id);
-    if (!category) return;
-    
-    updateBudget({
-      categories: project.budget.categories.filter(c => c.id !== id),
-      allocatedBudget: project.budget.allocatedBudget - category.allocatedAmount
-    });
+    updateBudget({ categories: project.budget.categories.filter(c => c.id !== id) });
   };
 
   const addItem = (categoryId: string) => {
@@ -101,6 +112,7 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
       description: newItem.description || '',
       estimatedCost: newItem.estimatedCost || 0,
       actualCost: 0,
+      currency: newItem.currency,
       quantity: newItem.quantity || 1,
       unit: newItem.unit || 'item',
       status: 'planned',
@@ -147,6 +159,7 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
       itemId: newExpense.itemId,
       date: newExpense.date || new Date(),
       amount: newExpense.amount || 0,
+      currency: newExpense.currency,
       description: newExpense.description || '',
       paymentMethod: newExpense.paymentMethod || 'credit card',
       paidBy: newExpense.paidBy || '',
@@ -154,98 +167,32 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
       notes: newExpense.notes || ''
     };
     
-    // Update category spent amount
-    const updatedCategories = project.budget.categories.map(c => 
-      c.id === expense.categoryId ? { 
-        ...c, 
-        spentAmount: c.spentAmount + expense.amount,
-        remainingAmount: c.allocatedAmount - (c.spentAmount + expense.amount)
-      } : c
-    );
-    
-    updateBudget({ 
-      expenses: [...project.budget.expenses, expense],
-      categories: updatedCategories
-    });
+    updateBudget({ expenses: [...project.budget.expenses, expense] });
     
     setNewExpense({});
   };
 
   const updateExpense = (id: string, updates: Partial<Expense>) => {
     const expense = project.budget.expenses.find(e => e.id === id);
-    if (!expense) return;
-    
-    // If amount or category changed, update category spent amounts
-    let updatedCategories = [...project.budget.categories];
-    
-    if (updates.amount !== undefined && updates.amount !== expense.amount) {
-      // Update old category
-      updatedCategories = updatedCategories.map(c => 
-        c.id === expense.categoryId ? { 
-          ...c, 
-          spentAmount: c.spentAmount - expense.amount,
-          remainingAmount: c.allocatedAmount - (c.spentAmount - expense.amount)
-        } : c
-      );
-      
-      // Update new category if changed
-      const newCategoryId = updates.categoryId || expense.categoryId;
-      updatedCategories = updatedCategories.map(c => 
-        c.id === newCategoryId ? { 
-          ...c, 
-          spentAmount: c.spentAmount + (updates.amount || 0),
-          remainingAmount: c.allocatedAmount - (c.spentAmount + (updates.amount || 0))
-        } : c
-      );
-    } else if (updates.categoryId !== undefined && updates.categoryId !== expense.categoryId) {
-      // Move expense amount from old category to new one
-      updatedCategories = updatedCategories.map(c => {
-        if (c.id === expense.categoryId) {
-          return { 
-            ...c, 
-            spentAmount: c.spentAmount - expense.amount,
-            remainingAmount: c.allocatedAmount - (c.spentAmount - expense.amount)
-          };
-        } else if (c.id === updates.categoryId) {
-          return { 
-            ...c, 
-            spentAmount: c.spentAmount + expense.amount,
-            remainingAmount: c.allocatedAmount - (c.spentAmount + expense.amount)
-          };
-        }
-        return c;
-      });
+    const locked = expense ? getLockedChanges(expense, updates) : [];
+    if (locked.length > 0) {
+      alert(`This expense has been exported to accounting. Void the export before changing its ${locked.join(', ')}.`);
+      return;
     }
-    
-    const updatedExpenses = project.budget.expenses.map(e => 
-      e.id === id ? { ...e, ...updates } : e
-    );
-    
-    updateBudget({ 
-      expenses: updatedExpenses,
-      categories: updatedCategories
+
+    updateBudget({
+      expenses: project.budget.expenses.map(e => e.id === id ? { ...e, ...updates } : e)
     });
     
     setEditingExpense(null);
   };
 
   const deleteExpense = (id: string) => {
-    const expense = project.budget.expenses.find(e => e.id === id);
-    if (!expense) return;
-    
-    // Update category spent amount
-    const updatedCategories = project.budget.categories.map(c => 
-      c.id === expense.categoryId ? { 
-        ...c, 
-        spentAmount: c.spentAmount - expense.amount,
-        remainingAmount: c.allocatedAmount - (c.spentAmount - expense.amount)
-      } : c
-    );
-    
-    updateBudget({ 
-      expenses: project.budget.expenses.filter(e => e.id !== id),
-      categories: updatedCategories
-    });
+    if (project.budget.expenses.find(e => e.id === id)?.exportId) {
+      alert('This expense has been exported to accounting. Void the export before deleting it.');
+      return;
+    }
+    updateBudget({ expenses: project.budget.expenses.filter(e => e.id !== id) });
   };
 
   const approveExpense = (id: string) => {
@@ -260,6 +207,54 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
     updateExpense(id, { status: 'rejected' });
   };
 
+  // Each readable receipt becomes a pending expense in the approval queue
+  const scanReceiptFiles = async (files: File[]) => {
+    if (files.length === 0 || receiptProgress) return;
+    setReceiptMessage(null);
+    setReceiptProgress({ index: 0, total: files.length, progress: 0 });
+
+    try {
+      const results = await scanReceipts(project, files, (index, progress) => {
+        setReceiptProgress({ index, total: files.length, progress });
+      });
+      const proposed = results.flatMap(result => result.expense ?? []);
+      const failed = results.filter(result => result.error);
+      if (proposed.length > 0) {
+        const current = latestProject.current;
+        onProjectUpdate({
+          ...current,
+          budget: recalculateBudget(
+            { ...current.budget, expenses: [...current.budget.expenses, ...proposed] },
+            createConverter(current).convert
+          )
+        });
+      }
+      setReceiptMessage({
+        text: [
+          `${proposed.length} receipt${proposed.length === 1 ? '' : 's'} read and queued for approval.`,
+          ...failed.map(result => `${result.fileName}: ${result.error}`)
+        ].join(' '),
+        failed: proposed.length === 0
+      });
+    } catch (err) {
+      setReceiptMessage({ text: err instanceof Error ? err.message : 'The receipts could not be read.', failed: true });
+    } finally {
+      setReceiptProgress(null);
+    }
+  };
+
+  const selectReceipts = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    scanReceiptFiles(files);
+  };
+
+  const dropReceipts = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDraggingReceipt(false);
+    scanReceiptFiles(Array.from(event.dataTransfer.files));
+  };
+
   const exportBudget = () => {
     const budgetData = JSON.stringify(project.budget, null, 2);
     const blob = new Blob([budgetData], { type: 'application/json' });
@@ -273,12 +268,181 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const summary = summarizeBudget(project.budget, converter.convert);
+  const forecast = forecastBudget(project);
+  const labor = estimateLabor(project);
+  const itemVariances = new Map(summary.items.map(item => [item.itemId, item]));
+  const receiptQueue = project.budget.expenses
+    .filter(expense => expense.status === 'pending' && expense.receipt)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const formatMoney = (amount: number): string => formatCurrency(amount, converter.base);
+
   const filteredExpenses = project.budget.expenses.filter(expense => {
     const matchesSearch = expense.description.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesCategory = filterCategory === 'all' || expense.categoryId === filterCategory;
     return matchesSearch && matchesCategory;
   });
 
+  const updateLaborRule = (key: keyof LaborRules, value: number) => {
+    if (Number.isNaN(value)) return;
+    updateBudget({ laborRules: { ...labor.rules, [key]: value } });
+  };
+
+  const applyLabor = () => {
+    updateBudget(applyLaborToBudget(project, labor));
+  };
+
+  // Rates and the base currency change what every amount is worth, so the stored totals are derived again
+  const updateCurrency = (updates: Pick<ProductionProject, 'currency' | 'exchangeRates'>) => {
+    const next = { ...project, ...updates };
+    onProjectUpdate({ ...next, budget: recalculateBudget(next.budget, createConverter(next).convert) });
+  };
+
+  const addRate = () => {
+    try {
+      const result = addRates(project.exchangeRates ?? [], [{
+        currency: (newRate.currency ?? '').trim().toUpperCase(),
+        quote: newRate.quote ?? converter.base,
+        rate: newRate.rate ?? NaN,
+        date: newRate.date ?? new Date()
+      }]);
+      updateCurrency({ exchangeRates: result.rates });
+      setNewRate({});
+      setCurrencyMessage(result.replaced > 0 ? { text: 'Replaced the rate already set for that day.', failed: false } : null);
+    } catch (err) {
+      setCurrencyMessage({ text: err instanceof Error ? err.message : 'The rate could not be added.', failed: true });
+    }
+  };
+
+  const deleteRate = (id: string) => {
+    updateCurrency({ exchangeRates: (project.exchangeRates ?? []).filter(rate => rate.id !== id) });
+  };
+
+  const importRates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importRatesCsv(project.exchangeRates ?? [], await file.text(), converter.base, file.name);
+      updateCurrency({ exchangeRates: result.rates });
+      setCurrencyMessage({
+        text: [
+          `${result.added} rate${result.added === 1 ? '' : 's'} imported from ${file.name}` +
+            (result.replaced > 0 ? `, ${result.replaced} replacing rates for the same day` : '') + '.',
+          ...result.errors.slice(0, 5),
+          result.errors.length > 5 && `${result.errors.length - 5} more rows were skipped.`
+        ].filter(Boolean).join(' '),
+        failed: result.added + result.replaced === 0
+      });
+    } catch (err) {
+      setCurrencyMessage({ text: err instanceof Error ? err.message : 'The rates could not be imported.', failed: true });
+    }
+  };
+
+  const downloadCurrencyReport = () => {
+    const blob = exportCurrencyReportCsv(getCurrencyReport(project));
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.title.replace(/\s+/g, '-').toLowerCase()}-currencies.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const updateAccountMapping = (categoryId: string, updates: Partial<AccountMapping>) => {
+    updateBudget({ accounting: setAccountMapping(project.budget, categoryId, updates) });
+  };
+
+  const updateOffsetAccount = (updates: Partial<AccountingSettings['offsetAccount']>) => {
+    const settings = getAccountingSettings(project.budget);
+    updateBudget({ accounting: { ...settings, offsetAccount: { ...settings.offsetAccount, ...updates } } });
+  };
+
+  // The expenses are flagged as exported together with the download so that they never go out twice
+  const exportAccounting = () => {
+    try {
+      const result = createAccountingExport(project, accountingFormat, accountingRange);
+      const url = URL.createObjectURL(result.blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.record.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      updateBudget(result.budget);
+      setAccountingMessage({
+        text: `${result.record.expenseIds.length} expense${result.record.expenseIds.length === 1 ? '' : 's'} exported to ${result.record.fileName}.`,
+        failed: false
+      });
+    } catch (err) {
+      setAccountingMessage({ text: err instanceof Error ? err.message : 'The expenses could not be exported.', failed: true });
+    }
+  };
+
+  const voidExport = (record: AccountingExport) => {
+    if (!window.confirm(`Void ${record.fileName}? Its ${record.expenseIds.length} expenses will be exported again next time.`)) return;
+    updateBudget(voidAccountingExport(project.budget, record.id));
+  };
+
+  const downloadTopSheetCsv = () => {
+    const blob = exportTopSheetCsv(getTopSheet(project));
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.title.replace(/\s+/g, '-').toLowerCase()}-top-sheet.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadTopSheetPdf = () => {
+    exportTopSheetPdf(getTopSheet(project)).save(`${project.title.replace(/\s+/g, '-').toLowerCase()}-top-sheet.pdf`);
+  };
+
+  // Cumulative spend against the even plan, with the projection from today
+  const renderBurnChart = () => {
+    const width = 600;
+    const height = 160;
+    const { series } = forecast;
+    const first = series[0].date.getTime();
+    const span = Math.max(1, series[series.length - 1].date.getTime() - first);
+    const top = Math.max(1, project.budget.totalBudget, ...series.map(point => Math.max(point.planned, point.forecast ?? 0, point.actual ?? 0)));
+    const toPoint = (date: Date, value: number) =>
+      `${((date.getTime() - first) / span) * width},${height - (value / top) * height}`;
+    const path = (values: (number | null)[]) => series
+      .flatMap((point, index) => values[index] === null ? [] : [toPoint(point.date, values[index]!)])
+      .join(' ');
+    const budgetY = height - (project.budget.totalBudget / top) * height;
+
+    return (
+      <div className="mt-6">
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+          <line x1={0} x2={width} y1={budgetY} y2={budgetY} strokeDasharray="4 4" className="stroke-slate-300 dark:stroke-slate-600" />
+          <polyline points={path(series.map(point => point.planned))} fill="none" strokeWidth={1.5} className="stroke-slate-400" />
+          <polyline points={path(series.map(point => point.actual))} fill="none" strokeWidth={2} className="stroke-blue-500" />
+          <polyline points={path(series.map(point => point.forecast))} fill="none" strokeWidth={2} strokeDasharray="6 4" className={forecast.variance < 0 ? 'stroke-red-500' : 'stroke-green-500'} />
+        </svg>
+        <div className="flex justify-between mt-1 text-xs text-slate-500 dark:text-slate-400">
+          <span>{format(series[0].date, 'MMM d')}</span>
+          <div className="flex items-center space-x-4">
+            <span className="text-slate-400">— Plan</span>
+            <span className="text-blue-500">— Actual</span>
+            <span className={forecast.variance < 0 ? 'text-red-500' : 'text-green-500'}>- - Forecast</span>
+            <span>- - Budget</span>
+          </div>
+          <span>{format(series[series.length - 1].date, 'MMM d')}</span>
+        </div>
+      </div>
+    );
+  };
+
   const renderSummaryTab = () => (
     <div className="space-y-6">
       {/* Budget Overview */}
@@ -298,13 +462,13 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
           </div>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <div className="text-sm font-medium text-blue-700 dark:text-blue-300 mb-1">
               Total Budget
             </div>
             <div className="text-2xl font-bold text-blue-900 dark:text-blue-100">
-              ${project.budget.totalBudget.toLocaleString()}
+              {formatMoney(summary.total)}
             </div>
           </div>
           
@@ -313,11 +477,13 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
               Spent
             </div>
             <div className="text-2xl font-bold text-green-900 dark:text-green-100">
-              ${project.budget.expenses.reduce((sum, expense) => 
-                expense.status === 'approved' || expense.status === 'reimbursed' 
-                  ? sum + expense.amount 
-                  : sum, 0).toLocaleString()}
+              {formatMoney(summary.spent)}
             </div>
+            {summary.committed > 0 && (
+              <div className="text-xs text-green-700 dark:text-green-300 mt-1">
+                + {formatMoney(summary.committed)} awaiting approval
+              </div>
+            )}
           </div>
           
           <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
@@ -325,13 +491,47 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
               Remaining
             </div>
             <div className="text-2xl font-bold text-amber-900 dark:text-amber-100">
-              ${(project.budget.totalBudget - project.budget.expenses.reduce((sum, expense) => 
-                expense.status === 'approved' || expense.status === 'reimbursed' 
-                  ? sum + expense.amount 
-                  : sum, 0)).toLocaleString()}
+              {formatMoney(summary.remaining)}
+            </div>
+          </div>
+
+          <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
+            <div className="text-sm font-medium text-purple-700 dark:text-purple-300 mb-1">
+              Contingency Left
+            </div>
+            <div className="text-2xl font-bold text-purple-900 dark:text-purple-100">
+              {formatMoney(summary.contingency.remaining)}
+            </div>
+            <div className="text-xs text-purple-700 dark:text-purple-300 mt-1">
+              {formatMoney(summary.contingency.used)} of {formatMoney(summary.contingency.amount)} drawn by overruns
             </div>
           </div>
         </div>
+
+        {converter.missing.size > 0 && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>
+              No exchange rate to {converter.base} for {Array.from(converter.missing).join(', ')}; add one on the Currency tab.
+            </span>
+          </div>
+        )}
+
+        {labor.overAllocation > 0 && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>
+              Crew labor on the current schedule is {formatMoney(labor.overAllocation)} over its {formatMoney(labor.allocation ?? 0)} allocation.
+            </span>
+          </div>
+        )}
+
+        {summary.overBudget > 0 && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>Category overruns exceed the contingency by {formatMoney(summary.overBudget)}.</span>
+          </div>
+        )}
         
         <div className="mt-6">
           <div className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -339,20 +539,8 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
           </div>
           <div className="w-full h-4 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
             <div 
-              className={`h-full ${
-                project.budget.expenses.reduce((sum, expense) => 
-                  expense.status === 'approved' || expense.status === 'reimbursed' 
-                    ? sum + expense.amount 
-                    : sum, 0) / project.budget.totalBudget > 0.9 
-                  ? 'bg-red-500' 
-                  : 'bg-blue-500'
-              }`}
-              style={{ 
-                width: `${Math.min(100, (project.budget.expenses.reduce((sum, expense) => 
-                  expense.status === 'approved' || expense.status === 'reimbursed' 
-                    ? sum + expense.amount 
-                    : sum, 0) / project.budget.totalBudget) * 100)}%` 
-              }}
+              className={`h-full ${summary.spent / summary.total > 0.9 ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, (summary.spent / summary.total) * 100)}%` }}
             />
           </div>
           <div className="flex justify-between mt-1 text-xs text-slate-500 dark:text-slate-400">
@@ -363,6 +551,57 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
         </div>
       </div>
 
+      {/* Forecast */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <TrendingUp className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">Forecast</h3>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <div className={`text-2xl font-bold ${forecast.variance < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-slate-100'}`}>
+              {formatMoney(forecast.forecastFinal)}
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">Final cost at the current burn rate</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(forecast.bottomUp)}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">Final cost from estimates and actuals</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+              {forecast.shootDayCost !== null ? formatMoney(forecast.shootDayCost) : '—'}
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              Per shooting day • {forecast.remainingShootDays} to go
+            </div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(forecast.dailyBurn)}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              Per other day • {forecast.remainingDays} days left
+            </div>
+          </div>
+        </div>
+
+        <div className={`flex items-center space-x-2 p-3 rounded-lg text-sm ${
+          forecast.variance < 0
+            ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+            : 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+        }`}>
+          {forecast.variance < 0 ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+          <span>
+            {forecast.variance < 0
+              ? `Heading ${formatMoney(-forecast.variance)} over budget` +
+                (forecast.exhaustionDate ? `; the money runs out around ${format(forecast.exhaustionDate, 'MMM d, yyyy')}.` : '.')
+              : `On track to finish ${formatMoney(forecast.variance)} under budget.`}
+          </span>
+        </div>
+
+        {forecast.series.length > 1 && renderBurnChart()}
+      </div>
+
       {/* Budget Categories */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -384,81 +623,78 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
               <tr className="border-b border-slate-200 dark:border-slate-700">
                 <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Category</th>
                 <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Allocated</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Estimated</th>
                 <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Spent</th>
                 <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Remaining</th>
                 <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Usage</th>
               </tr>
             </thead>
             <tbody>
-              {project.budget.categories.map(category => (
-                <tr key={category.id} className="border-b border-slate-200 dark:border-slate-700">
-                  <td className="px-4 py-3 text-sm font-medium text-slate-900 dark:text-slate-100">
-                    {category.name}
-                  </td>
-                  <td className="px-4 py-3 text-sm text-right text-slate-700 dark:text-slate-300">
-                    ${category.allocatedAmount.toLocaleString()}
-                  </td>
-                  <td className="px-4 py-3 text-sm text-right text-slate-700 dark:text-slate-300">
-                    ${category.spentAmount.toLocaleString()}
-                  </td>
-                  <td className="px-4 py-3 text-sm text-right text-slate-700 dark:text-slate-300">
-                    ${category.remainingAmount.toLocaleString()}
-                  </td>
-                  <td className="px-4 py-3 text-right">
-                    <div className="flex items-center justify-end space-x-2">
-                      <div className="w-20 h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
-                        <div 
-                          className={`h-full ${
-                            category.spentAmount / category.allocatedAmount > 0.9 
-                              ? 'bg-red-500' 
-                              : category.spentAmount / category.allocatedAmount > 0.7 
-                              ? 'bg-amber-500' 
-                              : 'bg-green-500'
-                          }`}
-                          style={{ 
-                            width: `${Math.min(100, (category.spentAmount / category.allocatedAmount) * 100)}%` 
-                          }}
-                        />
+              {summary.categories.map(category => {
+                const usage = category.allocated > 0 ? category.spent / category.allocated : 0;
+                return (
+                  <tr key={category.categoryId} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-4 py-3 text-sm font-medium text-slate-900 dark:text-slate-100">
+                      {category.name}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-700 dark:text-slate-300">
+                      {formatMoney(category.allocated)}
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right ${
+                      category.estimate > category.allocated ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-300'
+                    }`}>
+                      {category.estimate > 0 ? formatMoney(category.estimate) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-700 dark:text-slate-300">
+                      {formatMoney(category.spent)}
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right ${
+                      category.remaining < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-300'
+                    }`}>
+                      {formatMoney(category.remaining)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <div className="w-20 h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                          <div 
+                            className={`h-full ${usage > 0.9 ? 'bg-red-500' : usage > 0.7 ? 'bg-amber-500' : 'bg-green-500'}`}
+                            style={{ width: `${Math.min(100, usage * 100)}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          {Math.round(usage * 100)}%
+                        </span>
                       </div>
-                      <span className="text-xs text-slate-500 dark:text-slate-400">
-                        {Math.round((category.spentAmount / category.allocatedAmount) * 100)}%
-                      </span>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
             <tfoot>
               <tr className="bg-slate-50 dark:bg-slate-700">
                 <td className="px-4 py-3 text-sm font-bold text-slate-900 dark:text-slate-100">Total</td>
                 <td className="px-4 py-3 text-sm font-bold text-right text-slate-900 dark:text-slate-100">
-                  ${project.budget.categories.reduce((sum, cat) => sum + cat.allocatedAmount, 0).toLocaleString()}
+                  {formatMoney(summary.allocated)}
+                </td>
+                <td className="px-4 py-3 text-sm font-bold text-right text-slate-900 dark:text-slate-100">
+                  {formatMoney(summary.categories.reduce((sum, category) => sum + category.estimate, 0))}
                 </td>
                 <td className="px-4 py-3 text-sm font-bold text-right text-slate-900 dark:text-slate-100">
-                  ${project.budget.categories.reduce((sum, cat) => sum + cat.spentAmount, 0).toLocaleString()}
+                  {formatMoney(summary.spent)}
                 </td>
                 <td className="px-4 py-3 text-sm font-bold text-right text-slate-900 dark:text-slate-100">
-                  ${project.budget.categories.reduce((sum, cat) => sum + cat.remainingAmount, 0).toLocaleString()}
+                  {formatMoney(summary.allocated - summary.spent)}
                 </td>
                 <td className="px-4 py-3 text-right">
                   <div className="flex items-center justify-end space-x-2">
                     <div className="w-20 h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
                       <div 
-                        className={`h-full ${
-                          project.budget.categories.reduce((sum, cat) => sum + cat.spentAmount, 0) / 
-                          project.budget.categories.reduce((sum, cat) => sum + cat.allocatedAmount, 0) > 0.9 
-                            ? 'bg-red-500' 
-                            : 'bg-blue-500'
-                        }`}
-                        style={{ 
-                          width: `${Math.min(100, (project.budget.categories.reduce((sum, cat) => sum + cat.spentAmount, 0) / 
-                            project.budget.categories.reduce((sum, cat) => sum + cat.allocatedAmount, 0)) * 100)}%` 
-                        }}
+                        className={`h-full ${summary.allocated > 0 && summary.spent / summary.allocated > 0.9 ? 'bg-red-500' : 'bg-blue-500'}`}
+                        style={{ width: `${summary.allocated > 0 ? Math.min(100, (summary.spent / summary.allocated) * 100) : 0}%` }}
                       />
                     </div>
                     <span className="text-xs text-slate-500 dark:text-slate-400">
-                      {Math.round((project.budget.categories.reduce((sum, cat) => sum + cat.spentAmount, 0) / 
-                        project.budget.categories.reduce((sum, cat) => sum + cat.allocatedAmount, 0)) * 100)}%
+                      {summary.allocated > 0 ? Math.round((summary.spent / summary.allocated) * 100) : 0}%
                     </span>
                   </div>
                 </td>
@@ -513,7 +749,7 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                         {category?.name || 'Unknown'}
                       </td>
                       <td className="px-4 py-3 text-sm text-right font-medium text-slate-900 dark:text-slate-100">
-                        ${expense.amount.toLocaleString()}
+                        {formatConverted(expense.amount, expense.currency, converter, expense.date)}
                       </td>
                       <td className="px-4 py-3 text-center">
                         <span className={`px-2 py-1 text-xs rounded-full ${
@@ -577,6 +813,37 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
               step="0.01"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Top Sheet Section
+            </label>
+            <select
+              value={newCategory.section || ''}
+              onChange={(e) => setNewCategory({ ...newCategory, section: (e.target.value || undefined) as BudgetSection | undefined })}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            >
+              <option value="">Detect from name</option>
+              {BUDGET_SECTIONS.map(section => (
+                <option key={section.id} value={section.id}>{section.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Fringes (%)
+            </label>
+            <input
+              type="number"
+              value={newCategory.fringeRate ?? ''}
+              onChange={(e) => setNewCategory({ ...newCategory, fringeRate: e.target.value ? parseFloat(e.target.value) : undefined })}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              placeholder="e.g., 18 for payroll taxes and benefits"
+              min="0"
+              step="0.1"
+            />
+          </div>
           
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -633,6 +900,26 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                         min="0"
                         step="0.01"
                       />
+
+                      <select
+                        value={newCategory.section ?? getCategorySection(category)}
+                        onChange={(e) => setNewCategory({ ...newCategory, section: e.target.value as BudgetSection })}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                      >
+                        {BUDGET_SECTIONS.map(section => (
+                          <option key={section.id} value={section.id}>{section.label}</option>
+                        ))}
+                      </select>
+
+                      <input
+                        type="number"
+                        value={newCategory.fringeRate !== undefined ? newCategory.fringeRate : category.fringeRate ?? ''}
+                        onChange={(e) => setNewCategory({ ...newCategory, fringeRate: e.target.value ? parseFloat(e.target.value) : 0 })}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                        placeholder="Fringes (%)"
+                        min="0"
+                        step="0.1"
+                      />
                     </div>
                     
                     <textarea
@@ -669,8 +956,16 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                           {category.name}
                         </h4>
                         <span className="text-sm text-slate-500 dark:text-slate-400">
-                          ${category.allocatedAmount.toLocaleString()} allocated
+                          {formatMoney(category.allocatedAmount)} allocated
                         </span>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-slate-200 text-slate-700 dark:bg-slate-600 dark:text-slate-300">
+                          {BUDGET_SECTIONS.find(section => section.id === getCategorySection(category))?.label}
+                        </span>
+                        {!!category.fringeRate && (
+                          <span className="text-xs text-slate-500 dark:text-slate-400">
+                            +{category.fringeRate}% fringes
+                          </span>
+                        )}
                       </div>
                       
                       {category.description && (
@@ -741,15 +1036,23 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                       <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
                         Estimated Cost*
                       </label>
-                      <input
-                        type="number"
-                        value={newItem.estimatedCost || ''}
-                        onChange={(e) => setNewItem({ ...newItem, estimatedCost: parseFloat(e.target.value) })}
-                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm"
-                        placeholder="0.00"
-                        min="0"
-                        step="0.01"
-                      />
+                      <div className="flex space-x-2">
+                        <input
+                          type="number"
+                          value={newItem.estimatedCost || ''}
+                          onChange={(e) => setNewItem({ ...newItem, estimatedCost: parseFloat(e.target.value) })}
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm"
+                          placeholder="0.00"
+                          min="0"
+                          step="0.01"
+                        />
+                        <CurrencySelect
+                          project={project}
+                          value={newItem.currency}
+                          onChange={(currency) => setNewItem({ ...newItem, currency })}
+                          className="text-sm"
+                        />
+                      </div>
                     </div>
                     
                     <div>
@@ -827,134 +1130,149 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                           <th className="px-2 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400">Est. Cost</th>
                           <th className="px-2 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400">Actual</th>
                           <th className="px-2 py-2 text-center text-xs font-medium text-slate-500 dark:text-slate-400">Qty</th>
+                          <th className="px-2 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400">Variance</th>
                           <th className="px-2 py-2 text-center text-xs font-medium text-slate-500 dark:text-slate-400">Status</th>
                           <th className="px-2 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400">Actions</th>
                         </tr>
                       </thead>
                       <tbody>
-                        {category.items.map(item => (
-                          <tr key={item.id} className="border-b border-slate-200 dark:border-slate-700">
-                            {editingItem === item.id ? (
-                              <>
-                                <td className="px-2 py-2">
-                                  <input
-                                    type="text"
-                                    value={newItem.name !== undefined ? newItem.name : item.name}
-                                    onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
-                                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                                  />
-                                </td>
-                                <td className="px-2 py-2">
-                                  <input
-                                    type="number"
-                                    value={newItem.estimatedCost !== undefined ? newItem.estimatedCost : item.estimatedCost}
-                                    onChange={(e) => setNewItem({ ...newItem, estimatedCost: parseFloat(e.target.value) })}
-                                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                                    min="0"
-                                    step="0.01"
-                                  />
-                                </td>
-                                <td className="px-2 py-2">
-                                  <input
-                                    type="number"
-                                    value={newItem.actualCost !== undefined ? newItem.actualCost : item.actualCost}
-                                    onChange={(e) => setNewItem({ ...newItem, actualCost: parseFloat(e.target.value) })}
-                                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                                    min="0"
-                                    step="0.01"
-                                  />
-                                </td>
-                                <td className="px-2 py-2">
-                                  <input
-                                    type="number"
-                                    value={newItem.quantity !== undefined ? newItem.quantity : item.quantity}
-                                    onChange={(e) => setNewItem({ ...newItem, quantity: parseInt(e.target.value) })}
-                                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                                    min="1"
-                                  />
-                                </td>
-                                <td className="px-2 py-2">
-                                  <select
-                                    value={newItem.status !== undefined ? newItem.status : item.status}
-                                    onChange={(e) => setNewItem({ ...newItem, status: e.target.value as any })}
-                                    className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                                  >
-                                    <option value="planned">Planned</option>
-                                    <option value="approved">Approved</option>
-                                    <option value="purchased">Purchased</option>
-                                    <option value="paid">Paid</option>
-                                  </select>
-                                </td>
-                                <td className="px-2 py-2 text-right">
-                                  <div className="flex justify-end space-x-1">
-                                    <button
-                                      onClick={() => {
-                                        updateItem(category.id, item.id, newItem);
-                                        setNewItem({});
-                                      }}
-                                      className="p-1 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50"
-                                    >
-                                      <Check className="w-3 h-3" />
-                                    </button>
-                                    <button
-                                      onClick={() => {
-                                        setEditingItem(null);
-                                        setNewItem({});
-                                      }}
-                                      className="p-1 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
-                                    >
-                                      <X className="w-3 h-3" />
-                                    </button>
-                                  </div>
-                                </td>
-                              </>
-                            ) : (
-                              <>
-                                <td className="px-2 py-2 text-xs text-slate-700 dark:text-slate-300">
-                                  {item.name}
-                                </td>
-                                <td className="px-2 py-2 text-xs text-right text-slate-700 dark:text-slate-300">
-                                  ${item.estimatedCost.toLocaleString()}
-                                </td>
-                                <td className="px-2 py-2 text-xs text-right text-slate-700 dark:text-slate-300">
-                                  ${item.actualCost.toLocaleString()}
-                                </td>
-                                <td className="px-2 py-2 text-xs text-center text-slate-700 dark:text-slate-300">
-                                  {item.quantity} {item.unit}
-                                </td>
-                                <td className="px-2 py-2 text-center">
-                                  <span className={`px-2 py-0.5 text-xs rounded-full ${
-                                    item.status === 'approved' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' :
-                                    item.status === 'purchased' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300' :
-                                    item.status === 'paid' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
-                                    'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300'
-                                  }`}>
-                                    {item.status}
-                                  </span>
-                                </td>
-                                <td className="px-2 py-2 text-right">
-                                  <div className="flex justify-end space-x-1">
-                                    <button
-                                      onClick={() => {
-                                        setEditingItem(item.id);
-                                        setNewItem({});
-                                      }}
-                                      className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
-                                    >
-                                      <Edit3 className="w-3 h-3 text-slate-500" />
-                                    </button>
-                                    <button
-                                      onClick={() => deleteItem(category.id, item.id)}
-                                      className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                        {category.items.map(item => {
+                          const variance = itemVariances.get(item.id);
+                          return (
+                            <tr key={item.id} className="border-b border-slate-200 dark:border-slate-700">
+                              {editingItem === item.id ? (
+                                <>
+                                  <td className="px-2 py-2">
+                                    <input
+                                      type="text"
+                                      value={newItem.name !== undefined ? newItem.name : item.name}
+                                      onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+                                      className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                                    />
+                                  </td>
+                                  <td className="px-2 py-2">
+                                    <input
+                                      type="number"
+                                      value={newItem.estimatedCost !== undefined ? newItem.estimatedCost : item.estimatedCost}
+                                      onChange={(e) => setNewItem({ ...newItem, estimatedCost: parseFloat(e.target.value) })}
+                                      className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                                      min="0"
+                                      step="0.01"
+                                    />
+                                  </td>
+                                  <td className="px-2 py-2">
+                                    <input
+                                      type="number"
+                                      value={newItem.actualCost !== undefined ? newItem.actualCost : item.actualCost}
+                                      onChange={(e) => setNewItem({ ...newItem, actualCost: parseFloat(e.target.value) })}
+                                      className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                                      min="0"
+                                      step="0.01"
+                                    />
+                                  </td>
+                                  <td className="px-2 py-2">
+                                    <input
+                                      type="number"
+                                      value={newItem.quantity !== undefined ? newItem.quantity : item.quantity}
+                                      onChange={(e) => setNewItem({ ...newItem, quantity: parseInt(e.target.value) })}
+                                      className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                                      min="1"
+                                    />
+                                  </td>
+                                  <td className="px-2 py-2" />
+                                  <td className="px-2 py-2">
+                                    <select
+                                      value={newItem.status !== undefined ? newItem.status : item.status}
+                                      onChange={(e) => setNewItem({ ...newItem, status: e.target.value as any })}
+                                      className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                                     >
-                                      <Trash2 className="w-3 h-3 text-red-500" />
-                                    </button>
-                                  </div>
-                                </td>
-                              </>
-                            )}
-                          </tr>
-                        ))}
+                                      <option value="planned">Planned</option>
+                                      <option value="approved">Approved</option>
+                                      <option value="purchased">Purchased</option>
+                                      <option value="paid">Paid</option>
+                                    </select>
+                                  </td>
+                                  <td className="px-2 py-2 text-right">
+                                    <div className="flex justify-end space-x-1">
+                                      <button
+                                        onClick={() => {
+                                          updateItem(category.id, item.id, newItem);
+                                          setNewItem({});
+                                        }}
+                                        className="p-1 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50"
+                                      >
+                                        <Check className="w-3 h-3" />
+                                      </button>
+                                      <button
+                                        onClick={() => {
+                                          setEditingItem(null);
+                                          setNewItem({});
+                                        }}
+                                        className="p-1 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    </div>
+                                  </td>
+                                </>
+                              ) : (
+                                <>
+                                  <td className="px-2 py-2 text-xs text-slate-700 dark:text-slate-300">
+                                    {item.name}
+                                  </td>
+                                  <td className="px-2 py-2 text-xs text-right text-slate-700 dark:text-slate-300">
+                                    {formatConverted(item.estimatedCost, item.currency, converter)}
+                                  </td>
+                                  <td className="px-2 py-2 text-xs text-right text-slate-700 dark:text-slate-300">
+                                    {formatConverted(item.actualCost, item.currency, converter)}
+                                  </td>
+                                  <td className="px-2 py-2 text-xs text-center text-slate-700 dark:text-slate-300">
+                                    {item.quantity} {item.unit}
+                                  </td>
+                                  <td
+                                    className={`px-2 py-2 text-xs text-right ${
+                                      !variance?.hasActual ? 'text-slate-400 dark:text-slate-500' :
+                                      variance.variance < 0 ? 'text-red-600 dark:text-red-400' :
+                                      'text-green-600 dark:text-green-400'
+                                    }`}
+                                    title={variance && `Estimated ${formatMoney(variance.estimate)}, actual ${formatMoney(variance.actual)}`}
+                                  >
+                                    {variance?.hasActual ? formatMoney(variance.variance) : '—'}
+                                  </td>
+                                  <td className="px-2 py-2 text-center">
+                                    <span className={`px-2 py-0.5 text-xs rounded-full ${
+                                      item.status === 'approved' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' :
+                                      item.status === 'purchased' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300' :
+                                      item.status === 'paid' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
+                                      'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300'
+                                    }`}>
+                                      {item.status}
+                                    </span>
+                                  </td>
+                                  <td className="px-2 py-2 text-right">
+                                    <div className="flex justify-end space-x-1">
+                                      <button
+                                        onClick={() => {
+                                          setEditingItem(item.id);
+                                          setNewItem({});
+                                        }}
+                                        className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                                      >
+                                        <Edit3 className="w-3 h-3 text-slate-500" />
+                                      </button>
+                                      <button
+                                        onClick={() => deleteItem(category.id, item.id)}
+                                        className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                                      >
+                                        <Trash2 className="w-3 h-3 text-red-500" />
+                                      </button>
+                                    </div>
+                                  </td>
+                                </>
+                              )}
+                            </tr>
+                          );
+                        })}
                       </tbody>
                     </table>
                   </div>
@@ -1003,15 +1321,22 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Amount*
             </label>
-            <input
-              type="number"
-              value={newExpense.amount || ''}
-              onChange={(e) => setNewExpense({ ...newExpense, amount: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newExpense.amount || ''}
+                onChange={(e) => setNewExpense({ ...newExpense, amount: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newExpense.currency}
+                onChange={(currency) => setNewExpense({ ...newExpense, currency })}
+              />
+            </div>
           </div>
           
           <div>
@@ -1179,6 +1504,7 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                               type="date"
                               value={newExpense.date ? format(newExpense.date, 'yyyy-MM-dd') : format(expense.date, 'yyyy-MM-dd')}
                               onChange={(e) => setNewExpense({ ...newExpense, date: new Date(e.target.value) })}
+                              disabled={!!expense.exportId}
                               className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                             />
                           </td>
@@ -1194,6 +1520,7 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                             <select
                               value={newExpense.categoryId !== undefined ? newExpense.categoryId : expense.categoryId}
                               onChange={(e) => setNewExpense({ ...newExpense, categoryId: e.target.value })}
+                              disabled={!!expense.exportId}
                               className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                             >
                               {project.budget.categories.map(category => (
@@ -1202,14 +1529,24 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                             </select>
                           </td>
                           <td className="px-4 py-3">
-                            <input
-                              type="number"
-                              value={newExpense.amount !== undefined ? newExpense.amount : expense.amount}
-                              onChange={(e) => setNewExpense({ ...newExpense, amount: parseFloat(e.target.value) })}
-                              className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                              min="0"
-                              step="0.01"
-                            />
+                            <div className="flex space-x-1">
+                              <input
+                                type="number"
+                                value={newExpense.amount !== undefined ? newExpense.amount : expense.amount}
+                                onChange={(e) => setNewExpense({ ...newExpense, amount: parseFloat(e.target.value) })}
+                                disabled={!!expense.exportId}
+                                className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                                min="0"
+                                step="0.01"
+                              />
+                              <CurrencySelect
+                                project={project}
+                                value={newExpense.currency ?? expense.currency}
+                                onChange={(currency) => setNewExpense({ ...newExpense, currency })}
+                                disabled={!!expense.exportId}
+                                className="!px-1 !py-1 text-xs"
+                              />
+                            </div>
                           </td>
                           <td className="px-4 py-3">
                             <input
@@ -1260,13 +1597,34 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                             {format(expense.date, 'MMM d, yyyy')}
                           </td>
                           <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
-                            {expense.description}
+                            <div className="flex items-center space-x-1">
+                              <span>{expense.description}</span>
+                              {expense.receipt && (
+                                <a
+                                  href={expense.receipt}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+                                  title={expense.receiptName ?? 'Receipt'}
+                                >
+                                  <Paperclip className="w-3 h-3" />
+                                </a>
+                              )}
+                              {expense.exportId && (
+                                <span
+                                  className="px-1.5 text-xs rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300"
+                                  title="Sent to accounting"
+                                >
+                                  exported
+                                </span>
+                              )}
+                            </div>
                           </td>
                           <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
                             {category?.name || 'Unknown'}
                           </td>
                           <td className="px-4 py-3 text-sm text-right font-medium text-slate-900 dark:text-slate-100">
-                            ${expense.amount.toLocaleString()}
+                            {formatConverted(expense.amount, expense.currency, converter, expense.date)}
                           </td>
                           <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
                             {expense.paidBy}
@@ -1313,8 +1671,9 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
                               </button>
                               <button
                                 onClick={() => deleteExpense(expense.id)}
-                                className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
-                                title="Delete"
+                                disabled={!!expense.exportId}
+                                className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded disabled:opacity-50"
+                                title={expense.exportId ? 'Void the export to delete this expense' : 'Delete'}
                               >
                                 <Trash2 className="w-3 h-3 text-red-500" />
                               </button>
@@ -1338,40 +1697,1045 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
     </div>
   );
 
-  return (
-    <div className="space-y-6">
-      {/* Tab Navigation */}
-      <div className="border-b border-slate-200 dark:border-slate-700">
-        <div className="flex space-x-1">
-          <button
-            onClick={() => setActiveTab('summary')}
-            className={`
-              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
-              ${activeTab === 'summary'
-                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
-                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
-              }
-            `}
-          >
-            <PieChart className="w-4 h-4" />
-            <span>Summary</span>
-          </button>
-          
-          <button
-            onClick={() => setActiveTab('categories')}
-            className={`
-              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
-              ${activeTab === 'categories'
-                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
-                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
-              }
-            `}
-          >
-            <FileText className="w-4 h-4" />
-            <span>Categories</span>
-          </button>
-          
-          <button
+  const renderLaborTab = () => {
+    const rules: { key: keyof LaborRules; label: string; step: string }[] = [
+      { key: 'dayHours', label: 'Straight-time hours', step: '0.5' },
+      { key: 'overtimeMultiplier', label: 'Overtime ×', step: '0.1' },
+      { key: 'doubleTimeAfter', label: 'Double time after (h)', step: '0.5' },
+      { key: 'doubleTimeMultiplier', label: 'Double time ×', step: '0.1' },
+      { key: 'mealIntervalHours', label: 'Meal due every (h)', step: '0.5' },
+      { key: 'mealBreakMinutes', label: 'Meal break (min)', step: '5' },
+      { key: 'mealPenalty', label: 'Meal penalty ($ per ½ h)', step: '1' }
+    ];
+    const team = new Map(project.team.map(member => [member.id, member]));
+
+    return (
+      <div className="space-y-6">
+        {/* Labor Summary */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+                Crew Labor
+              </h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Estimated from team rates and the call and wrap times of {labor.days.length} shooting day{labor.days.length === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button
+              onClick={applyLabor}
+              disabled={labor.members.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Check className="w-4 h-4" />
+              <span>Update Crew Category</span>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(labor.total)}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                Total, with {formatMoney(labor.fringes)} fringes at {labor.fringeRate}%
+              </div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(labor.overtime)}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Overtime and double time</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(labor.mealPenalties)}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Meal penalties</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatMoney(labor.kit + labor.flatFees)}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Kit rentals and project fees</div>
+            </div>
+          </div>
+
+          {labor.allocation === null ? (
+            <div className="flex items-center space-x-2 p-3 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>There is no Crew category yet; updating it will add one.</span>
+            </div>
+          ) : (
+            <div className={`flex items-center space-x-2 p-3 rounded-lg text-sm ${
+              labor.overAllocation > 0
+                ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                : 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+            }`}>
+              {labor.overAllocation > 0 ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+              <span>
+                {labor.overAllocation > 0
+                  ? `Labor before fringes is ${formatMoney(labor.overAllocation)} over the ${formatMoney(labor.allocation)} crew allocation.`
+                  : `Labor before fringes fits within the ${formatMoney(labor.allocation)} crew allocation.`}
+              </span>
+            </div>
+          )}
+
+          {labor.phases.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {labor.phases.map(phase => (
+                <span key={phase.phaseId ?? 'none'} className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-full">
+                  {phase.name}: {formatMoney(phase.total)} over {phase.days} day{phase.days === 1 ? '' : 's'}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Payroll Rules */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+            Payroll Rules
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {rules.map(rule => (
+              <div key={rule.key}>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  {rule.label}
+                </label>
+                <input
+                  type="number"
+                  value={labor.rules[rule.key]}
+                  onChange={(e) => updateLaborRule(rule.key, parseFloat(e.target.value))}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                  min="0"
+                  step={rule.step}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">
+            Fringes use the rate set on the Crew category. Lunch is assumed to be on time, so penalties start when a day runs past the second meal.
+          </p>
+        </div>
+
+        {/* By Shooting Day */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+            By Shooting Day
+          </h3>
+          {labor.days.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Date</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Crew</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Hours</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Wages</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Overtime</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Meals</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Kit</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {labor.days.map(day => (
+                    <tr key={day.shootingDayId} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">{format(day.date, 'EEE, MMM d')}</td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">
+                        {day.members.map(entry => team.get(entry.memberId)?.name).join(', ') || '—'}
+                      </td>
+                      <td className={`px-4 py-2 text-sm text-right ${
+                        day.hours > labor.rules.dayHours ? 'text-amber-600 dark:text-amber-400' : 'text-slate-700 dark:text-slate-300'
+                      }`}>
+                        {Math.round(day.hours * 10) / 10}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{formatMoney(day.wages - day.overtime - day.mealPenalties)}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{day.overtime > 0 ? formatMoney(day.overtime) : '—'}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{day.mealPenalties > 0 ? formatMoney(day.mealPenalties) : '—'}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{day.kit > 0 ? formatMoney(day.kit) : '—'}</td>
+                      <td className="px-4 py-2 text-sm text-right font-medium text-slate-900 dark:text-slate-100">{formatMoney(day.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              No shooting days scheduled yet
+            </div>
+          )}
+        </div>
+
+        {/* By Crew Member */}
+        {labor.members.length > 0 && (
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+              By Crew Member
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Member</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Days</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Wages</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Kit</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Fringes</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {labor.members.map(member => (
+                    <tr key={member.memberId} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-2 text-sm">
+                        <div className="text-slate-900 dark:text-slate-100">{member.name}</div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">{member.role}</div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{member.days}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">
+                        {formatMoney(member.wages + member.flatFee)}
+                        {member.flatFee > 0 && <div className="text-xs text-slate-500 dark:text-slate-400">project fee</div>}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{member.kit > 0 ? formatMoney(member.kit) : '—'}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{member.fringes > 0 ? formatMoney(member.fringes) : '—'}</td>
+                      <td className="px-4 py-2 text-sm text-right font-medium text-slate-900 dark:text-slate-100">{formatMoney(member.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderCurrencyTab = () => {
+    const report = getCurrencyReport(project);
+    const rates = [...(project.exchangeRates ?? [])]
+      .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.getTime() - a.date.getTime());
+    const foreign = report.entries.filter(entry => entry.currency !== report.base);
+
+    return (
+      <div className="space-y-6">
+        <input
+          ref={rateInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={importRates}
+          className="hidden"
+        />
+
+        {/* Base Currency and Rates */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+                Exchange Rates
+              </h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Amounts are converted at the latest rate on or before their date
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+                <span>Base currency</span>
+                <CurrencySelect
+                  project={project}
+                  value={report.base}
+                  onChange={(currency) => updateCurrency({ currency })}
+                />
+              </label>
+              <button
+                onClick={() => rateInputRef.current?.click()}
+                className="flex items-center space-x-2 px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+                title="CSV with date, currency and rate columns, and optionally quote"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import CSV</span>
+              </button>
+            </div>
+          </div>
+
+          {report.missing.length > 0 && (
+            <div className="flex items-center space-x-2 mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>
+                No rate to {report.base} for {report.missing.join(', ')}; those amounts are counted at face value.
+              </span>
+            </div>
+          )}
+
+          {currencyMessage && (
+            <div className={`flex items-center justify-between mb-4 p-3 rounded-lg text-sm ${
+              currencyMessage.failed
+                ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                : 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+            }`}>
+              <span>{currencyMessage.text}</span>
+              <button onClick={() => setCurrencyMessage(null)} className="p-1 rounded hover:bg-black/5">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">1 unit of</label>
+              <input
+                type="text"
+                value={newRate.currency || ''}
+                onChange={(e) => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })}
+                className="w-24 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="EUR"
+                maxLength={3}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">is worth</label>
+              <input
+                type="number"
+                value={newRate.rate ?? ''}
+                onChange={(e) => setNewRate({ ...newRate, rate: e.target.value ? parseFloat(e.target.value) : undefined })}
+                className="w-32 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="1.08"
+                min="0"
+                step="0.0001"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">in</label>
+              <CurrencySelect
+                project={project}
+                value={newRate.quote}
+                onChange={(quote) => setNewRate({ ...newRate, quote })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">from</label>
+              <input
+                type="date"
+                value={format(newRate.date ?? new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setNewRate({ ...newRate, date: e.target.value ? new Date(`${e.target.value}T00:00`) : undefined })}
+                className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </div>
+            <button
+              onClick={addRate}
+              disabled={!newRate.currency || !newRate.rate}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Rate</span>
+            </button>
+          </div>
+
+          {rates.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Pair</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Rate</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">From</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Source</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map(rate => (
+                    <tr key={rate.id} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">{rate.currency} → {rate.quote}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{rate.rate}</td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">{format(rate.date, 'MMM d, yyyy')}</td>
+                      <td className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400">{rate.source ?? 'Entered by hand'}</td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => deleteRate(rate.id)}
+                          className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              No exchange rates yet
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">
+            The total budget, contingency and category allocations are in the base currency and are not converted when it changes.
+          </p>
+        </div>
+
+        {/* Conversion Report */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+              Amounts by Currency
+            </h3>
+            <button
+              onClick={downloadCurrencyReport}
+              disabled={report.entries.length === 0}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {report.totals.map(total => (
+              <span key={total.currency} className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-full">
+                {formatCurrency(total.amount, total.currency)}
+                {total.currency !== report.base && ` ≈ ${formatMoney(total.converted)}`}
+                <span className="text-slate-500 dark:text-slate-400"> • {total.entries}</span>
+              </span>
+            ))}
+          </div>
+
+          {foreign.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Source</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Description</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Date</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Amount</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Rate</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">In {report.base}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {foreign.map((entry, index) => (
+                    <tr key={index} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400">{entry.source}</td>
+                      <td className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">{entry.description}</td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">{format(entry.date, 'MMM d, yyyy')}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{formatCurrency(entry.amount, entry.currency, 2)}</td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{entry.rate ?? '—'}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${
+                        entry.rate === null ? 'text-amber-600 dark:text-amber-400' : 'text-slate-900 dark:text-slate-100'
+                      }`}>
+                        {formatMoney(entry.converted)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              Everything is in {report.base}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderReceiptsTab = () => {
+    const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm';
+
+    return (
+      <div className="space-y-6">
+        <input
+          ref={receiptInputRef}
+          type="file"
+          accept="image/*,application/pdf"
+          multiple
+          onChange={selectReceipts}
+          className="hidden"
+        />
+
+        {/* Capture */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="mb-4">
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+              Receipt Capture
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Receipts are read on this device; the vendor, date, total and tax become a pending expense
+            </p>
+          </div>
+
+          <div
+            onClick={() => !receiptProgress && receiptInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDraggingReceipt(true);
+            }}
+            onDragLeave={() => setDraggingReceipt(false)}
+            onDrop={dropReceipts}
+            className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg text-center ${
+              receiptProgress ? 'cursor-wait' : 'cursor-pointer'
+            } ${
+              draggingReceipt
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+            }`}
+          >
+            <Upload className="w-8 h-8 text-slate-400 mb-2" />
+            {receiptProgress ? (
+              <div className="w-full max-w-sm">
+                <div className="text-sm text-slate-700 dark:text-slate-300 mb-2">
+                  Reading receipt {receiptProgress.index + 1} of {receiptProgress.total}...
+                </div>
+                <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${((receiptProgress.index + receiptProgress.progress) / receiptProgress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Drop receipt images or PDFs here, or click to choose
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  The first scan downloads the OCR language data
+                </div>
+              </>
+            )}
+          </div>
+
+          {receiptMessage && (
+            <div className={`flex items-center justify-between mt-4 p-3 rounded-lg text-sm ${
+              receiptMessage.failed
+                ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                : 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+            }`}>
+              <span>{receiptMessage.text}</span>
+              <button onClick={() => setReceiptMessage(null)} className="p-1 rounded hover:bg-black/5">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Approval Queue */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+            Approval Queue
+          </h3>
+
+          {receiptQueue.length > 0 ? (
+            <div className="space-y-4">
+              {receiptQueue.map(expense => {
+                const issues = getReceiptIssues(expense, project.budget.expenses);
+                const isImage = !/\.pdf$/i.test(expense.receiptName ?? '');
+
+                return (
+                  <div key={expense.id} className="flex flex-col md:flex-row gap-4 p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <a
+                      href={expense.receipt}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-shrink-0 flex items-center justify-center w-full md:w-32 h-40 bg-slate-100 dark:bg-slate-700 rounded overflow-hidden"
+                      title={expense.receiptName}
+                    >
+                      {isImage ? (
+                        <img src={expense.receipt} alt={expense.receiptName ?? 'Receipt'} className="object-cover w-full h-full" />
+                      ) : (
+                        <FileText className="w-10 h-10 text-slate-400" />
+                      )}
+                    </a>
+
+                    <div className="flex-1 space-y-3">
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Vendor</label>
+                          <input
+                            type="text"
+                            value={expense.vendor ?? ''}
+                            onChange={(e) => updateExpense(expense.id, { vendor: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Date</label>
+                          <input
+                            type="date"
+                            value={format(expense.date, 'yyyy-MM-dd')}
+                            onChange={(e) => e.target.value && updateExpense(expense.id, { date: new Date(`${e.target.value}T00:00`) })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Category</label>
+                          <select
+                            value={expense.categoryId}
+                            onChange={(e) => updateExpense(expense.id, { categoryId: e.target.value })}
+                            className={inputClass}
+                          >
+                            <option value="">Select category</option>
+                            {project.budget.categories.map(category => (
+                              <option key={category.id} value={category.id}>
+                                {category.name}
+                                {category.id === expense.receiptScan?.suggestedCategoryId ? ' (suggested)' : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Total</label>
+                          <div className="flex space-x-1">
+                            <input
+                              type="number"
+                              value={expense.amount || ''}
+                              onChange={(e) => updateExpense(expense.id, { amount: parseFloat(e.target.value) || 0 })}
+                              className={inputClass}
+                              min="0"
+                              step="0.01"
+                            />
+                            <CurrencySelect
+                              project={project}
+                              value={expense.currency}
+                              onChange={(currency) => updateExpense(expense.id, { currency })}
+                              className="!px-1 !py-1 text-sm"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Tax</label>
+                          <input
+                            type="number"
+                            value={expense.tax ?? ''}
+                            onChange={(e) => updateExpense(expense.id, { tax: e.target.value ? parseFloat(e.target.value) : undefined })}
+                            className={inputClass}
+                            min="0"
+                            step="0.01"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Description</label>
+                          <input
+                            type="text"
+                            value={expense.description}
+                            onChange={(e) => updateExpense(expense.id, { description: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+
+                      {issues.length > 0 && (
+                        <div className="flex items-start space-x-2 p-2 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded text-xs">
+                          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                          <span>{issues.join('. ')}.</span>
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between">
+                        {expense.receiptScan ? (
+                          <details className="text-xs text-slate-500 dark:text-slate-400">
+                            <summary className="cursor-pointer">
+                              Scanned text ({Math.round(expense.receiptScan.confidence)}% confidence)
+                            </summary>
+                            <pre className="mt-2 p-2 max-h-40 overflow-auto whitespace-pre-wrap bg-slate-50 dark:bg-slate-900 rounded">
+                              {expense.receiptScan.text}
+                            </pre>
+                          </details>
+                        ) : <span />}
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => rejectExpense(expense.id)}
+                            className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
+                          >
+                            <X className="w-3 h-3" />
+                            <span>Reject</span>
+                          </button>
+                          <button
+                            onClick={() => approveExpense(expense.id)}
+                            disabled={!canApproveReceipt(expense)}
+                            className="flex items-center space-x-1 px-3 py-1 text-sm bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={canApproveReceipt(expense) ? 'Approve expense' : 'Set a category and total first'}
+                          >
+                            <Check className="w-3 h-3" />
+                            <span>Approve</span>
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              No receipts waiting for approval
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAccountingTab = () => {
+    const settings = getAccountingSettings(project.budget);
+    const candidates = getExportCandidates(project.budget, accountingRange);
+    const readyTotal = candidates.ready.reduce((total, expense) => total + converter.convert(expense.amount, expense.currency, expense.date), 0);
+    const exports = [...settings.exports].sort((a, b) => b.exportedAt.getTime() - a.exportedAt.getTime());
+    const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm';
+
+    return (
+      <div className="space-y-6">
+        {/* Export */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="mb-4">
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+              Accounting Export
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Approved and reimbursed expenses that have not been sent yet
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Format</label>
+              <select
+                value={accountingFormat}
+                onChange={(e) => setAccountingFormat(e.target.value as AccountingFormat)}
+                className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              >
+                {(Object.keys(ACCOUNTING_FORMATS) as AccountingFormat[]).map(id => (
+                  <option key={id} value={id}>{ACCOUNTING_FORMATS[id].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">From</label>
+              <input
+                type="date"
+                value={accountingRange.from ? format(accountingRange.from, 'yyyy-MM-dd') : ''}
+                onChange={(e) => setAccountingRange({ ...accountingRange, from: e.target.value ? new Date(`${e.target.value}T00:00`) : undefined })}
+                className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">To</label>
+              <input
+                type="date"
+                value={accountingRange.to ? format(accountingRange.to, 'yyyy-MM-dd') : ''}
+                onChange={(e) => setAccountingRange({ ...accountingRange, to: e.target.value ? new Date(`${e.target.value}T00:00`) : undefined })}
+                className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </div>
+            <button
+              onClick={exportAccounting}
+              disabled={candidates.ready.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export</span>
+            </button>
+          </div>
+
+          <div className="text-sm text-slate-600 dark:text-slate-400">
+            {candidates.ready.length} expense{candidates.ready.length === 1 ? '' : 's'} ready, totaling {formatMoney(readyTotal)}
+            {candidates.exported.length > 0 && `; ${candidates.exported.length} in this range already exported`}
+          </div>
+
+          {accountingMessage && (
+            <div className={`flex items-center justify-between mt-4 p-3 rounded-lg text-sm ${
+              accountingMessage.failed
+                ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                : 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+            }`}>
+              <span>{accountingMessage.text}</span>
+              <button onClick={() => setAccountingMessage(null)} className="p-1 rounded hover:bg-black/5">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Chart of Accounts */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+            Chart of Accounts
+          </h3>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700">
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Category</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Account Code</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Account Name</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Xero Tax Type</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {project.budget.categories.map(category => {
+                  const mapping = getAccountMapping(project.budget, category.id);
+                  return (
+                    <tr key={category.id}>
+                      <td className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">{category.name}</td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="text"
+                          value={mapping?.code ?? ''}
+                          onChange={(e) => updateAccountMapping(category.id, { code: e.target.value })}
+                          className={inputClass}
+                          placeholder="6100"
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="text"
+                          value={mapping?.name ?? ''}
+                          onChange={(e) => updateAccountMapping(category.id, { name: e.target.value })}
+                          className={inputClass}
+                          placeholder={category.name}
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="text"
+                          value={mapping?.taxType ?? ''}
+                          onChange={(e) => updateAccountMapping(category.id, { taxType: e.target.value || undefined })}
+                          className={inputClass}
+                          placeholder="From the receipt"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="bg-slate-50 dark:bg-slate-700/50">
+                  <td className="px-4 py-2 text-sm font-medium text-slate-900 dark:text-slate-100">Offset account (credited)</td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={settings.offsetAccount.code}
+                      onChange={(e) => updateOffsetAccount({ code: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={settings.offsetAccount.name}
+                      onChange={(e) => updateOffsetAccount({ name: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-4 py-2" />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Export Log */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+            Export Log
+          </h3>
+
+          {exports.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Exported</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Format</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Range</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Expenses</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Total</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">File</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {exports.map(record => (
+                    <tr key={record.id} className={record.voidedAt ? 'opacity-60' : ''}>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">
+                        <div>{format(record.exportedAt, 'MMM d, yyyy h:mm a')}</div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">{record.exportedBy}</div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">{ACCOUNTING_FORMATS[record.format].label}</td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">
+                        {record.from ? format(record.from, 'MMM d, yyyy') : 'Start'} – {record.to ? format(record.to, 'MMM d, yyyy') : 'Today'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{record.expenseIds.length}</td>
+                      <td className="px-4 py-2 text-sm text-right font-medium text-slate-900 dark:text-slate-100">
+                        {formatCurrency(record.total, record.currency)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">{record.fileName}</td>
+                      <td className="px-4 py-2 text-right">
+                        {record.voidedAt ? (
+                          <span className="text-xs text-slate-500 dark:text-slate-400">
+                            Voided {format(record.voidedAt, 'MMM d, yyyy')}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => voidExport(record)}
+                            className="p-1 text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                            title="Void this export so its expenses can be exported again"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              Nothing has been exported yet
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTopSheetTab = () => {
+    const topSheet = getTopSheet(project);
+    const headroom = topSheet.approvedBudget - topSheet.grandTotal.budget;
+
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+              Top Sheet
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Budget against actuals by account, with fringes, overhead and contingency
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+              <span>Overhead %</span>
+              <input
+                type="number"
+                value={project.budget.overheadRate ?? ''}
+                onChange={(e) => updateBudget({ overheadRate: e.target.value ? parseFloat(e.target.value) : undefined })}
+                className="w-20 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                min="0"
+                step="0.5"
+              />
+            </label>
+            <button
+              onClick={downloadTopSheetCsv}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+            >
+              <Download className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={downloadTopSheetPdf}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+            >
+              <Download className="w-4 h-4" />
+              <span>PDF</span>
+            </button>
+          </div>
+        </div>
+
+        {topSheet.sections.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700">
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Acct</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-500 dark:text-slate-400">Description</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Budget</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Actual</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-500 dark:text-slate-400">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {getTopSheetRows(topSheet).map(({ line, kind }, index) => kind === 'heading' ? (
+                  <tr key={index}>
+                    <td colSpan={5} className="px-4 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                      {line.name}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr
+                    key={index}
+                    className={kind === 'total'
+                      ? 'bg-slate-50 dark:bg-slate-700 font-semibold'
+                      : 'border-b border-slate-100 dark:border-slate-700/50'}
+                  >
+                    <td className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400">{line.account}</td>
+                    <td className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">{line.name}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{formatMoney(line.budget)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-700 dark:text-slate-300">{formatMoney(line.actual)}</td>
+                    <td className={`px-4 py-2 text-sm text-right ${
+                      line.variance < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-300'
+                    }`}>
+                      {formatMoney(line.variance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {headroom !== 0 && (
+              <div className={`flex items-center space-x-2 mt-4 p-3 rounded-lg text-sm ${
+                headroom < 0
+                  ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                  : 'bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+              }`}>
+                <AlertCircle className="w-4 h-4" />
+                <span>
+                  {headroom < 0
+                    ? `The top sheet totals ${formatMoney(-headroom)} more than the approved budget of ${formatMoney(topSheet.approvedBudget)}.`
+                    : `${formatMoney(headroom)} of the approved budget of ${formatMoney(topSheet.approvedBudget)} is not allocated to any account.`}
+                </span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            No budget categories defined yet
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Tab Navigation */}
+      <div className="border-b border-slate-200 dark:border-slate-700">
+        <div className="flex space-x-1">
+          <button
+            onClick={() => setActiveTab('summary')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'summary'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <PieChart className="w-4 h-4" />
+            <span>Summary</span>
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('categories')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'categories'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <FileText className="w-4 h-4" />
+            <span>Categories</span>
+          </button>
+          
+          <button
             onClick={() => setActiveTab('expenses')}
             className={`
               flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
@@ -1384,6 +2748,81 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
             <DollarSign className="w-4 h-4" />
             <span>Expenses</span>
           </button>
+          
+          <button
+            onClick={() => setActiveTab('labor')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'labor'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <Users className="w-4 h-4" />
+            <span>Labor</span>
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('currency')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'currency'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <Coins className="w-4 h-4" />
+            <span>Currency</span>
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('receipts')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'receipts'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <Receipt className="w-4 h-4" />
+            <span>Receipts</span>
+            {receiptQueue.length > 0 && (
+              <span className="px-1.5 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                {receiptQueue.length}
+              </span>
+            )}
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('accounting')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'accounting'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <BookOpen className="w-4 h-4" />
+            <span>Accounting</span>
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('top-sheet')}
+            className={`
+              flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+              ${activeTab === 'top-sheet'
+                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }
+            `}
+          >
+            <Table className="w-4 h-4" />
+            <span>Top Sheet</span>
+          </button>
         </div>
       </div>
 
@@ -1392,6 +2831,11 @@ export const BudgetOverview: React.FC<BudgetOverviewProps> = ({
         {activeTab === 'summary' && renderSummaryTab()}
         {activeTab === 'categories' && renderCategoriesTab()}
         {activeTab === 'expenses' && renderExpensesTab()}
+        {activeTab === 'labor' && renderLaborTab()}
+        {activeTab === 'currency' && renderCurrencyTab()}
+        {activeTab === 'receipts' && renderReceiptsTab()}
+        {activeTab === 'accounting' && renderAccountingTab()}
+        {activeTab === 'top-sheet' && renderTopSheetTab()}
       </div>
     </div>
   );
@@ -7,6 +7,8 @@ import {
 import { ProductionProject, LegalCompliance, Release, Permit, License, ComplianceItem } from '../../types/production';
 import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { createConverter, formatConverted } from '../../utils/currency';
+import { CurrencySelect } from './CurrencySelect';
 
 interface ComplianceChecklistProps {
   project: ProductionProject;
@@ -29,6 +31,7 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
   const [filterCompleted, setFilterCompleted] = useState('all');
+  const converter = createConverter(project);
 
   const updateCompliance = (updates: Partial<LegalCompliance>) => {
     onProjectUpdate({
@@ -131,6 +134,7 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
       locations: newPermit.locations || [],
       restrictions: newPermit.restrictions || [],
       cost: newPermit.cost || 0,
+      currency: newPermit.currency,
       status: newPermit.status || 'not-applied',
       document: newPermit.document,
       notes: newPermit.notes || ''
@@ -172,6 +176,7 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
       territory: newLicense.territory || 'Worldwide',
       usage: newLicense.usage || '',
       cost: newLicense.cost || 0,
+      currency: newLicense.currency,
       status: newLicense.status || 'needed',
       document: newLicense.document,
       notes: newLicense.notes || ''
@@ -927,15 +932,22 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Cost
             </label>
-            <input
-              type="number"
-              value={newPermit.cost || ''}
-              onChange={(e) => setNewPermit({ ...newPermit, cost: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newPermit.cost || ''}
+                onChange={(e) => setNewPermit({ ...newPermit, cost: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newPermit.currency}
+                onChange={(currency) => setNewPermit({ ...newPermit, currency })}
+              />
+            </div>
           </div>
           
           <div className="md:col-span-3">
@@ -1151,7 +1163,7 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
                       Cost
                     </div>
                     <div className="text-sm text-slate-700 dark:text-slate-300">
-                      ${permit.cost.toLocaleString()}
+                      {formatConverted(permit.cost, permit.currency, converter, permit.issuedDate)}
                     </div>
                   </div>
                 )}
@@ -1285,15 +1297,22 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Cost
             </label>
-            <input
-              type="number"
-              value={newLicense.cost || ''}
-              onChange={(e) => setNewLicense({ ...newLicense, cost: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newLicense.cost || ''}
+                onChange={(e) => setNewLicense({ ...newLicense, cost: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newLicense.currency}
+                onChange={(currency) => setNewLicense({ ...newLicense, currency })}
+              />
+            </div>
           </div>
           
           <div>
@@ -1507,7 +1526,7 @@ export const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
                         Cost
                       </div>
                       <div className="text-sm text-slate-700 dark:text-slate-300">
-                        ${license.cost.toLocaleString()}
+                        {formatConverted(license.cost, license.currency, converter, license.acquiredDate)}
                       </div>
                     </div>
                   )}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { CurrencyCode, ProductionProject } from '../../types/production';
+import { getBaseCurrency, getProjectCurrencies } from '../../utils/currency';
+
+interface CurrencySelectProps {
+  project: ProductionProject;
+  value?: CurrencyCode;
+  onChange: (currency: CurrencyCode) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Amounts without a currency are in the base currency, which is what the select shows for them
+export const CurrencySelect: React.FC<CurrencySelectProps> = ({ project, value, onChange, className = '', disabled }) => {
+  const base = getBaseCurrency(project);
+
+  return (
+    <select
+      value={value ?? base}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={`px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 ${className}`}
+      title="Currency"
+    >
+      {getProjectCurrencies(project).map(currency => (
+        <option key={currency} value={currency}>{currency}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlertTriangle, Trash2, X } from 'lucide-react';
+import { DeletionImpact } from '../../types/documentary';
+
+interface DeletionWarningProps {
+  impact: DeletionImpact;
+  onKeep: () => void;
+  onDelete: () => void;
+}
+
+// Shown in place of deleting when something else still uses the entity
+export const DeletionWarning: React.FC<DeletionWarningProps> = ({
+  impact,
+  onKeep,
+  onDelete
+}) => (
+  <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+    <div className="flex items-start space-x-2 text-sm text-red-700 dark:text-red-300">
+      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-medium">{impact.message}</p>
+        <ul className="mt-1 space-y-0.5">
+          {impact.references.map(reference => (
+            <li key={`${reference.from.type}:${reference.from.id}`}>• {reference.fromLabel}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+    <div className="flex justify-end space-x-2 mt-3">
+      <button
+        onClick={onKeep}
+        className="flex items-center space-x-1 px-3 py-1 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+      >
+        <X className="w-4 h-4" />
+        <span>Keep</span>
+      </button>
+      <button
+        onClick={onDelete}
+        className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Delete Anyway</span>
+      </button>
+    </div>
+  </div>
+);
@@ -7,6 +7,8 @@ import {
 import { ProductionProject, DistributionPlan, DistributionPlatform, FilmFestival, MarketingAsset, DistributionMilestone } from '../../types/production';
 import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { createConverter, formatConverted, formatMoney } from '../../utils/currency';
+import { CurrencySelect } from './CurrencySelect';
 
 interface DistributionPlannerProps {
   project: ProductionProject;
@@ -29,6 +31,9 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState('all');
   const [filterStatus, setFilterStatus] = useState('all');
+  const converter = createConverter(project);
+  const festivalFees = project.distribution.festivals
+    .reduce((sum, f) => sum + converter.convert(f.submissionFee, f.currency, f.submissionDeadline), 0);
 
   const updateDistribution = (updates: Partial<DistributionPlan>) => {
     onProjectUpdate({
@@ -89,6 +94,7 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
       notificationDate: newFestival.notificationDate,
       eventDate: newFestival.eventDate,
       submissionFee: newFestival.submissionFee || 0,
+      currency: newFestival.currency,
       status: newFestival.status || 'planned',
       notes: newFestival.notes || ''
     };
@@ -372,10 +378,10 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
             </div>
             <div className="flex items-center justify-between">
               <div className="text-sm text-slate-600 dark:text-slate-400">
-                {project.distribution.festivals.length} festivals × ${project.distribution.festivals.reduce((sum, f) => sum + f.submissionFee, 0) / Math.max(1, project.distribution.festivals.length)} avg fee
+                {project.distribution.festivals.length} festivals × {formatMoney(festivalFees / Math.max(1, project.distribution.festivals.length), converter.base)} avg fee
               </div>
               <div className="font-medium text-slate-900 dark:text-slate-100">
-                ${project.distribution.festivals.reduce((sum, f) => sum + f.submissionFee, 0).toLocaleString()}
+                {formatMoney(festivalFees, converter.base)}
               </div>
             </div>
           </div>
@@ -389,7 +395,7 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
                 {project.distribution.marketingAssets.length} assets
               </div>
               <div className="font-medium text-slate-900 dark:text-slate-100">
-                ${Math.round(project.distribution.budget * 0.4).toLocaleString()}
+                {formatMoney(Math.round(project.distribution.budget * 0.4), converter.base)}
               </div>
             </div>
           </div>
@@ -403,7 +409,7 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
                 {project.distribution.platforms.length} platforms
               </div>
               <div className="font-medium text-slate-900 dark:text-slate-100">
-                ${Math.round(project.distribution.budget * 0.3).toLocaleString()}
+                {formatMoney(Math.round(project.distribution.budget * 0.3), converter.base)}
               </div>
             </div>
           </div>
@@ -417,7 +423,7 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
                 Contingency & miscellaneous
               </div>
               <div className="font-medium text-slate-900 dark:text-slate-100">
-                ${Math.max(0, project.distribution.budget - project.distribution.festivals.reduce((sum, f) => sum + f.submissionFee, 0) - Math.round(project.distribution.budget * 0.7)).toLocaleString()}
+                {formatMoney(Math.max(0, project.distribution.budget - festivalFees - Math.round(project.distribution.budget * 0.7)), converter.base)}
               </div>
             </div>
           </div>
@@ -585,21 +591,35 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Projected Revenue
             </label>
-            <input
-              type="number"
-              value={newPlatform.revenue?.projected || ''}
-              onChange={(e) => setNewPlatform({ 
-                ...newPlatform, 
-                revenue: { 
-                  ...newPlatform.revenue, 
-                  projected: parseFloat(e.target.value) 
-                } 
-              })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newPlatform.revenue?.projected || ''}
+                onChange={(e) => setNewPlatform({
+                  ...newPlatform,
+                  revenue: {
+                    ...newPlatform.revenue,
+                    projected: parseFloat(e.target.value)
+                  }
+                })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newPlatform.revenue?.currency}
+                onChange={(currency) => setNewPlatform({
+                  ...newPlatform,
+                  revenue: {
+                    projected: newPlatform.revenue?.projected ?? 0,
+                    actual: newPlatform.revenue?.actual ?? 0,
+                    currency
+                  }
+                })}
+              />
+            </div>
           </div>
           
           <div>
@@ -826,13 +846,13 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
                     <div className="flex items-center space-x-4 text-sm">
                       {platform.revenue.projected > 0 && (
                         <div className="text-slate-700 dark:text-slate-300">
-                          Projected: ${platform.revenue.projected.toLocaleString()}
+                          Projected: {formatConverted(platform.revenue.projected, platform.revenue.currency, converter)}
                         </div>
                       )}
                       
                       {platform.revenue.actual > 0 && (
                         <div className="text-green-600 dark:text-green-400">
-                          Actual: ${platform.revenue.actual.toLocaleString()}
+                          Actual: {formatConverted(platform.revenue.actual, platform.revenue.currency, converter)}
                         </div>
                       )}
                     </div>
@@ -951,15 +971,22 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Submission Fee
             </label>
-            <input
-              type="number"
-              value={newFestival.submissionFee || ''}
-              onChange={(e) => setNewFestival({ ...newFestival, submissionFee: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newFestival.submissionFee || ''}
+                onChange={(e) => setNewFestival({ ...newFestival, submissionFee: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newFestival.currency}
+                onChange={(currency) => setNewFestival({ ...newFestival, currency })}
+              />
+            </div>
           </div>
           
           <div>
@@ -1191,7 +1218,7 @@ export const DistributionPlanner: React.FC<DistributionPlannerProps> = ({
                         Submission Fee
                       </div>
                       <div className="text-sm text-slate-700 dark:text-slate-300">
-                        ${festival.submissionFee.toLocaleString()}
+                        {formatConverted(festival.submissionFee, festival.currency, converter, festival.submissionDeadline)}
                       </div>
                     </div>
                   )}
@@ -1,20 +1,27 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   Briefcase, Plus, Edit3, Trash2, Check, 
   X, Filter, Search, Download, Calendar,
   AlertCircle, Settings, Package, Shield
 } from 'lucide-react';
 import { ProductionProject, EquipmentItem, EquipmentPackage, EquipmentRental, InsurancePolicy } from '../../types/production';
+import { DeletionImpact, DocumentaryProject } from '../../types/documentary';
 import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { createConverter, formatConverted } from '../../utils/currency';
+import { getDeletionImpact, withProduction } from '../../utils/referenceChecker';
+import { CurrencySelect } from './CurrencySelect';
+import { DeletionWarning } from './DeletionWarning';
 
 interface EquipmentOverviewProps {
   project: ProductionProject;
+  documentary: DocumentaryProject | null;
   onProjectUpdate: (project: ProductionProject) => void;
 }
 
 export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
   project,
+  documentary,
   onProjectUpdate
 }) => {
   const [activeTab, setActiveTab] = useState('inventory');
@@ -29,6 +36,9 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
   const [filterStatus, setFilterStatus] = useState('all');
+  const [pendingDelete, setPendingDelete] = useState<DeletionImpact | null>(null);
+  const converter = createConverter(project);
+  const graph = useMemo(() => withProduction(documentary, project), [documentary, project]);
 
   const updateEquipment = (updates: Partial<ProductionProject['equipment']>) => {
     onProjectUpdate({
@@ -79,10 +89,22 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
     setEditingItem(null);
   };
 
+  const requestDelete = (id: string) => {
+    const impact = getDeletionImpact(graph, { type: 'equipment-item', id });
+    if (!impact) return;
+
+    if (impact.references.length === 0) {
+      deleteEquipmentItem(id);
+    } else {
+      setPendingDelete(impact);
+    }
+  };
+
   const deleteEquipmentItem = (id: string) => {
     updateEquipment({
       items: project.equipment.items.filter(item => item.id !== id)
     });
+    setPendingDelete(null);
   };
 
   const addEquipmentPackage = () => {
@@ -131,6 +153,7 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
       endDate: newRental.endDate || new Date(),
       cost: newRental.cost || 0,
       deposit: newRental.deposit,
+      currency: newRental.currency,
       insuranceRequired: newRental.insuranceRequired || false,
       status: newRental.status || 'planned',
       confirmationNumber: newRental.confirmationNumber,
@@ -177,6 +200,7 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
       startDate: newInsurance.startDate || new Date(),
       endDate: newInsurance.endDate || new Date(),
       cost: newInsurance.cost || 0,
+      currency: newInsurance.currency,
       deductible: newInsurance.deductible || 0,
       coveredItems: newInsurance.coveredItems || [],
       documents: [],
@@ -489,146 +513,159 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
             </thead>
             <tbody>
               {filteredItems.map(item => (
-                <tr key={item.id} className="border-b border-slate-200 dark:border-slate-700">
-                  {editingItem === item.id ? (
-                    <>
-                      <td className="px-4 py-3">
-                        <input
-                          type="text"
-                          value={newItem.name !== undefined ? newItem.name : item.name}
-                          onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                        />
-                      </td>
-                      <td className="px-4 py-3">
-                        <input
-                          type="text"
-                          value={newItem.category !== undefined ? newItem.category : item.category}
-                          onChange={(e) => setNewItem({ ...newItem, category: e.target.value })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                          list="categories"
-                        />
-                      </td>
-                      <td className="px-4 py-3">
-                        <input
-                          type="text"
-                          value={newItem.model !== undefined ? newItem.model : item.model}
-                          onChange={(e) => setNewItem({ ...newItem, model: e.target.value })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                        />
-                      </td>
-                      <td className="px-4 py-3">
-                        <select
-                          value={newItem.status !== undefined ? newItem.status : item.status}
-                          onChange={(e) => setNewItem({ ...newItem, status: e.target.value as any })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                        >
-                          <option value="available">Available</option>
-                          <option value="in-use">In Use</option>
-                          <option value="maintenance">Maintenance</option>
-                          <option value="lost">Lost</option>
-                          <option value="damaged">Damaged</option>
-                        </select>
-                      </td>
-                      <td className="px-4 py-3">
-                        <select
-                          value={newItem.condition !== undefined ? newItem.condition : item.condition}
-                          onChange={(e) => setNewItem({ ...newItem, condition: e.target.value as any })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                        >
-                          <option value="excellent">Excellent</option>
-                          <option value="good">Good</option>
-                          <option value="fair">Fair</option>
-                          <option value="poor">Poor</option>
-                        </select>
-                      </td>
-                      <td className="px-4 py-3">
-                        <select
-                          value={newItem.owner !== undefined ? newItem.owner : item.owner}
-                          onChange={(e) => setNewItem({ ...newItem, owner: e.target.value as any })}
-                          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
-                        >
-                          <option value="owned">Owned</option>
-                          <option value="rented">Rented</option>
-                          <option value="borrowed">Borrowed</option>
-                        </select>
-                      </td>
-                      <td className="px-4 py-3 text-right">
-                        <div className="flex justify-end space-x-1">
-                          <button
-                            onClick={() => {
-                              updateEquipmentItem(item.id, newItem);
-                              setNewItem({});
-                            }}
-                            className="p-1 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50"
-                          >
-                            <Check className="w-3 h-3" />
-                          </button>
-                          <button
-                            onClick={() => {
-                              setEditingItem(null);
-                              setNewItem({});
-                            }}
-                            className="p-1 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
+                <React.Fragment key={item.id}>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    {editingItem === item.id ? (
+                      <>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={newItem.name !== undefined ? newItem.name : item.name}
+                            onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={newItem.category !== undefined ? newItem.category : item.category}
+                            onChange={(e) => setNewItem({ ...newItem, category: e.target.value })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                            list="categories"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={newItem.model !== undefined ? newItem.model : item.model}
+                            onChange={(e) => setNewItem({ ...newItem, model: e.target.value })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={newItem.status !== undefined ? newItem.status : item.status}
+                            onChange={(e) => setNewItem({ ...newItem, status: e.target.value as any })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                           >
-                            <X className="w-3 h-3" />
-                          </button>
-                        </div>
-                      </td>
-                    </>
-                  ) : (
-                    <>
-                      <td className="px-4 py-3">
-                        <div className="font-medium text-slate-900 dark:text-slate-100">
-                          {item.name}
-                        </div>
-                        {item.serialNumber && (
-                          <div className="text-xs text-slate-500 dark:text-slate-400">
-                            S/N: {item.serialNumber}
-                          </div>
-                        )}
-                      </td>
-                      <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
-                        {item.category}
-                      </td>
-                      <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
-                        {item.manufacturer} {item.model}
-                      </td>
-                      <td className="px-4 py-3 text-center">
-                        <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(item.status)}`}>
-                          {item.status.replace('-', ' ')}
-                        </span>
-                      </td>
-                      <td className="px-4 py-3 text-center">
-                        <span className={`px-2 py-1 text-xs rounded-full ${getConditionColor(item.condition)}`}>
-                          {item.condition}
-                        </span>
-                      </td>
-                      <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300 capitalize">
-                        {item.owner}
-                      </td>
-                      <td className="px-4 py-3 text-right">
-                        <div className="flex justify-end space-x-1">
-                          <button
-                            onClick={() => {
-                              setEditingItem(item.id);
-                              setNewItem({});
-                            }}
-                            className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                            <option value="available">Available</option>
+                            <option value="in-use">In Use</option>
+                            <option value="maintenance">Maintenance</option>
+                            <option value="lost">Lost</option>
+                            <option value="damaged">Damaged</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={newItem.condition !== undefined ? newItem.condition : item.condition}
+                            onChange={(e) => setNewItem({ ...newItem, condition: e.target.value as any })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                           >
-                            <Edit3 className="w-3 h-3 text-slate-500" />
-                          </button>
-                          <button
-                            onClick={() => deleteEquipmentItem(item.id)}
-                            className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                            <option value="excellent">Excellent</option>
+                            <option value="good">Good</option>
+                            <option value="fair">Fair</option>
+                            <option value="poor">Poor</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={newItem.owner !== undefined ? newItem.owner : item.owner}
+                            onChange={(e) => setNewItem({ ...newItem, owner: e.target.value as any })}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-xs"
                           >
-                            <Trash2 className="w-3 h-3 text-red-500" />
-                          </button>
-                        </div>
+                            <option value="owned">Owned</option>
+                            <option value="rented">Rented</option>
+                            <option value="borrowed">Borrowed</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <div className="flex justify-end space-x-1">
+                            <button
+                              onClick={() => {
+                                updateEquipmentItem(item.id, newItem);
+                                setNewItem({});
+                              }}
+                              className="p-1 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50"
+                            >
+                              <Check className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setEditingItem(null);
+                                setNewItem({});
+                              }}
+                              className="p-1 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-4 py-3">
+                          <div className="font-medium text-slate-900 dark:text-slate-100">
+                            {item.name}
+                          </div>
+                          {item.serialNumber && (
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                              S/N: {item.serialNumber}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                          {item.category}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                          {item.manufacturer} {item.model}
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(item.status)}`}>
+                            {item.status.replace('-', ' ')}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className={`px-2 py-1 text-xs rounded-full ${getConditionColor(item.condition)}`}>
+                            {item.condition}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300 capitalize">
+                          {item.owner}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <div className="flex justify-end space-x-1">
+                            <button
+                              onClick={() => {
+                                setEditingItem(item.id);
+                                setNewItem({});
+                              }}
+                              className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                            >
+                              <Edit3 className="w-3 h-3 text-slate-500" />
+                            </button>
+                            <button
+                              onClick={() => requestDelete(item.id)}
+                              className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                            >
+                              <Trash2 className="w-3 h-3 text-red-500" />
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                  {pendingDelete?.target.ref.id === item.id && (
+                    <tr className="border-b border-slate-200 dark:border-slate-700">
+                      <td colSpan={7} className="px-4 pb-3">
+                        <DeletionWarning
+                          impact={pendingDelete}
+                          onKeep={() => setPendingDelete(null)}
+                          onDelete={() => deleteEquipmentItem(item.id)}
+                        />
                       </td>
-                    </>
+                    </tr>
                   )}
-                </tr>
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -959,15 +996,22 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Cost
             </label>
-            <input
-              type="number"
-              value={newRental.cost || ''}
-              onChange={(e) => setNewRental({ ...newRental, cost: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newRental.cost || ''}
+                onChange={(e) => setNewRental({ ...newRental, cost: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newRental.currency}
+                onChange={(currency) => setNewRental({ ...newRental, currency })}
+              />
+            </div>
           </div>
           
           <div>
@@ -1183,7 +1227,7 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
                         {rental.cost > 0 && (
                           <div className="flex items-center space-x-1">
                             <DollarSign className="w-3 h-3" />
-                            <span>${rental.cost.toLocaleString()}</span>
+                            <span>{formatConverted(rental.cost, rental.currency, converter, rental.startDate)}</span>
                           </div>
                         )}
                       </div>
@@ -1368,15 +1412,22 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               Cost
             </label>
-            <input
-              type="number"
-              value={newInsurance.cost || ''}
-              onChange={(e) => setNewInsurance({ ...newInsurance, cost: parseFloat(e.target.value) })}
-              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={newInsurance.cost || ''}
+                onChange={(e) => setNewInsurance({ ...newInsurance, cost: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+              <CurrencySelect
+                project={project}
+                value={newInsurance.currency}
+                onChange={(currency) => setNewInsurance({ ...newInsurance, currency })}
+              />
+            </div>
           </div>
           
           <div>
@@ -1558,7 +1609,7 @@ export const EquipmentOverview: React.FC<EquipmentOverviewProps> = ({
                       Cost
                     </div>
                     <div className="text-sm text-slate-700 dark:text-slate-300">
-                      ${policy.cost.toLocaleString()}
+                      {formatConverted(policy.cost, policy.currency, converter, policy.startDate)}
                     </div>
                   </div>
                   
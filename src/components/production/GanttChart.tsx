@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { addDays, differenceInCalendarDays, format, isWeekend } from 'date-fns';
+import { ScheduleAnalysis, ScheduleItem, ScheduleItemKind } from '../../utils/dependencyGraph';
+
+interface GanttChartProps {
+  analysis: ScheduleAnalysis;
+  kinds: ScheduleItemKind[];
+  onMove: (id: string, start: Date) => void;
+  onResize?: (id: string, end: Date) => void;
+}
+
+interface Drag {
+  id: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  days: number;
+}
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 40;
+const PADDING_DAYS = 3;
+
+export const GanttChart: React.FC<GanttChartProps> = ({ analysis, kinds, onMove, onResize }) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragging = drag !== null;
+
+  const items = analysis.items
+    .filter(item => kinds.includes(item.kind))
+    .sort((a, b) => a.group.localeCompare(b.group) || a.start.getTime() - b.start.getTime());
+
+  // The window listeners read the latest drag and callbacks without being re-added on every move
+  const latest = useRef({ drag, items, onMove, onResize });
+  latest.current = { drag, items, onMove, onResize };
+
+  const rows = new Map(items.map((item, index) => [item.id, index]));
+  const cyclic = new Set(analysis.cycles.flat());
+
+  // Release outside the chart still counts
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const current = latest.current.drag;
+      if (current) setDrag({ ...current, days: Math.round((event.clientX - current.originX) / DAY_WIDTH) });
+    };
+    const handleUp = () => {
+      const { drag: current, items: shown, onMove: move, onResize: resize } = latest.current;
+      setDrag(null);
+      const item = current && shown.find(candidate => candidate.id === current.id);
+      if (!current || !item || current.days === 0) return;
+      if (current.mode === 'move') move(item.id, addDays(item.start, current.days));
+      else resize?.(item.id, addDays(item.end, current.days));
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [dragging]);
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+        <p>Nothing to chart yet</p>
+      </div>
+    );
+  }
+
+  const starts = items.map(item => item.start.getTime());
+  const ends = items.map(item => (analysis.timings.get(item.id)?.latestFinish ?? item.end).getTime());
+  const rangeStart = addDays(new Date(Math.min(...starts)), -PADDING_DAYS);
+  const totalDays = differenceInCalendarDays(new Date(Math.max(...ends)), rangeStart) + PADDING_DAYS * 2;
+  const dates = Array.from({ length: totalDays }, (_, index) => addDays(rangeStart, index));
+  const width = totalDays * DAY_WIDTH;
+  const height = items.length * ROW_HEIGHT;
+
+  const x = (date: Date) => differenceInCalendarDays(date, rangeStart) * DAY_WIDTH;
+
+  // Where an item is drawn, including an unfinished drag
+  const getSpan = (item: ScheduleItem): { start: Date; end: Date } => {
+    if (drag?.id !== item.id) return { start: item.start, end: item.end };
+    if (drag.mode === 'move') return { start: addDays(item.start, drag.days), end: addDays(item.end, drag.days) };
+    const end = addDays(item.end, drag.days);
+    return { start: item.start, end: end < item.start ? item.start : end };
+  };
+
+  const startDrag = (event: React.PointerEvent, item: ScheduleItem, mode: Drag['mode']) => {
+    if (item.completed) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDrag({ id: item.id, mode, originX: event.clientX, days: 0 });
+  };
+
+  return (
+    <div className="flex border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      {/* Titles */}
+      <div className="w-56 flex-shrink-0 border-r border-slate-200 dark:border-slate-700">
+        <div style={{ height: HEADER_HEIGHT }} className="border-b border-slate-200 dark:border-slate-700" />
+        {items.map(item => (
+          <div
+            key={item.id}
+            style={{ height: ROW_HEIGHT }}
+            className="flex flex-col justify-center px-3 border-b border-slate-100 dark:border-slate-700/50"
+          >
+            <div className="text-sm text-slate-900 dark:text-slate-100 truncate">{item.title}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400 truncate">{item.group}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      <div className="flex-1 overflow-x-auto">
+        <div style={{ width }} className="relative select-none">
+          <div style={{ height: HEADER_HEIGHT }} className="flex border-b border-slate-200 dark:border-slate-700">
+            {dates.map(date => (
+              <div
+                key={date.getTime()}
+                style={{ width: DAY_WIDTH }}
+                className={`flex-shrink-0 text-center text-[10px] leading-tight pt-1 text-slate-500 dark:text-slate-400 ${
+                  isWeekend(date) ? 'bg-slate-50 dark:bg-slate-900/40' : ''
+                }`}
+              >
+                <div className="h-3">{date.getDate() === 1 || date.getTime() === dates[0].getTime() ? format(date, 'MMM') : ''}</div>
+                <div>{format(date, 'd')}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ height }} className="relative">
+            {/* Weekend shading and row lines */}
+            {dates.filter(isWeekend).map(date => (
+              <div
+                key={date.getTime()}
+                style={{ left: x(date), width: DAY_WIDTH, height }}
+                className="absolute top-0 bg-slate-50 dark:bg-slate-900/40"
+              />
+            ))}
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                style={{ top: (index + 1) * ROW_HEIGHT - 1 }}
+                className="absolute left-0 right-0 border-b border-slate-100 dark:border-slate-700/50"
+              />
+            ))}
+
+            {/* Dependencies */}
+            <svg width={width} height={height} className="absolute top-0 left-0 pointer-events-none">
+              {items.flatMap(item => item.dependencies
+                .filter(id => rows.has(id))
+                .map(id => {
+                  const before = items[rows.get(id)!];
+                  const fromX = x(getSpan(before).end) + (before.kind === 'task' ? DAY_WIDTH : DAY_WIDTH / 2);
+                  const fromY = rows.get(id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                  const toX = x(getSpan(item).start) + (item.kind === 'task' ? 0 : DAY_WIDTH / 2);
+                  const toY = rows.get(item.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                  const critical = analysis.timings.get(id)?.critical && analysis.timings.get(item.id)?.critical;
+                  const broken = cyclic.has(id) && cyclic.has(item.id);
+                  const bend = Math.max(fromX + 8, toX - 8);
+                  return (
+                    <path
+                      key={`${id}-${item.id}`}
+                      d={`M ${fromX} ${fromY} H ${bend} V ${toY} H ${toX}`}
+                      fill="none"
+                      strokeWidth={1.5}
+                      strokeDasharray={broken ? '4 3' : undefined}
+                      className={broken ? 'stroke-amber-500' : critical ? 'stroke-red-400' : 'stroke-slate-400'}
+                    />
+                  );
+                }))}
+            </svg>
+
+            {/* Bars */}
+            {items.map((item, index) => {
+              const timing = analysis.timings.get(item.id);
+              const span = getSpan(item);
+              const top = index * ROW_HEIGHT;
+              const colour = item.completed
+                ? 'bg-green-500'
+                : cyclic.has(item.id)
+                  ? 'bg-amber-500'
+                  : timing?.critical ? 'bg-red-500' : 'bg-blue-500';
+              const title = `${item.title}: ${format(span.start, 'MMM d')}${item.kind === 'task' ? ` – ${format(span.end, 'MMM d')}` : ''}` +
+                (timing ? ` • ${timing.critical ? 'critical' : `${timing.slack} day${timing.slack === 1 ? '' : 's'} of slack`}` : '');
+
+              return (
+                <React.Fragment key={item.id}>
+                  {/* Slack */}
+                  {timing && timing.slack > 0 && !drag && (
+                    <div
+                      style={{ left: x(item.end) + (item.kind === 'task' ? DAY_WIDTH : 0), width: timing.slack * DAY_WIDTH, top: top + ROW_HEIGHT / 2 - 2 }}
+                      className="absolute h-1 rounded bg-slate-300 dark:bg-slate-600"
+                    />
+                  )}
+
+                  {item.kind === 'task' ? (
+                    <div
+                      style={{
+                        left: x(span.start),
+                        width: (differenceInCalendarDays(span.end, span.start) + 1) * DAY_WIDTH,
+                        top: top + 8
+                      }}
+                      className={`absolute h-5 rounded ${colour} ${item.completed ? 'cursor-default' : 'cursor-grab'} shadow-sm`}
+                      onPointerDown={(event) => startDrag(event, item, 'move')}
+                      title={title}
+                    >
+                      {onResize && !item.completed && (
+                        <div
+                          className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r bg-black/20"
+                          onPointerDown={(event) => startDrag(event, item, 'resize')}
+                        />
+                      )}
+                    </div>
+                  ) : (
+                    <div
+                      style={{ left: x(span.start) + DAY_WIDTH / 2 - 7, top: top + ROW_HEIGHT / 2 - 7 }}
+                      className={`absolute w-3.5 h-3.5 rotate-45 ${colour} ${item.completed ? 'cursor-default' : 'cursor-grab'}`}
+                      onPointerDown={(event) => startDrag(event, item, 'move')}
+                      title={title}
+                    />
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
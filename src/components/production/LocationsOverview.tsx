@@ -0,0 +1,248 @@
+import React, { useState, useMemo } from 'react';
+import { AlertTriangle, Calendar, MapPin, Plus, Trash2 } from 'lucide-react';
+import { ProductionProject, Location } from '../../types/production';
+import { DeletionImpact, DocumentaryProject } from '../../types/documentary';
+import { findDanglingReferences, getDeletionImpact, withProduction } from '../../utils/referenceChecker';
+import { downloadCalendar } from '../../utils/icalendar';
+import { createConverter, formatConverted } from '../../utils/currency';
+import { CurrencySelect } from './CurrencySelect';
+import { DeletionWarning } from './DeletionWarning';
+import { v4 as uuidv4 } from 'uuid';
+
+interface LocationsOverviewProps {
+  project: ProductionProject;
+  documentary: DocumentaryProject | null;
+  onProjectUpdate: (project: ProductionProject) => void;
+}
+
+export const LocationsOverview: React.FC<LocationsOverviewProps> = ({
+  project,
+  documentary,
+  onProjectUpdate
+}) => {
+  const [newLocation, setNewLocation] = useState<Partial<Location>>({});
+  const [pendingDelete, setPendingDelete] = useState<DeletionImpact | null>(null);
+  const converter = createConverter(project);
+
+  // The documentary as it stands with this production's unsaved edits
+  const graph = useMemo(() => withProduction(documentary, project), [documentary, project]);
+
+  const brokenLocationLinks = useMemo(
+    () => findDanglingReferences(graph).filter(reference => reference.to.type === 'location'),
+    [graph]
+  );
+
+  const addLocation = () => {
+    if (!newLocation.name) return;
+
+    const location: Location = {
+      id: uuidv4(),
+      name: newLocation.name,
+      address: newLocation.address || '',
+      type: newLocation.type || 'exterior',
+      latitude: newLocation.latitude,
+      longitude: newLocation.longitude,
+      contactPerson: { name: '', email: '', phone: '' },
+      permitRequired: newLocation.permitRequired || false,
+      permitStatus: newLocation.permitRequired ? 'not-applied' : undefined,
+      features: [],
+      limitations: [],
+      availableDates: [],
+      cost: newLocation.cost || 0,
+      currency: newLocation.currency,
+      photos: [],
+      notes: newLocation.notes || ''
+    };
+
+    onProjectUpdate({ ...project, locations: [...project.locations, location] });
+    setNewLocation({});
+  };
+
+  const requestDelete = (id: string) => {
+    const impact = getDeletionImpact(graph, { type: 'location', id });
+    if (!impact) return;
+
+    if (impact.references.length === 0) {
+      deleteLocation(id);
+    } else {
+      setPendingDelete(impact);
+    }
+  };
+
+  const deleteLocation = (id: string) => {
+    onProjectUpdate({ ...project, locations: project.locations.filter(location => location.id !== id) });
+    setPendingDelete(null);
+  };
+
+  const countShootingDays = (id: string) => {
+    return project.schedule.shootingDays.filter(day => day.locationId === id).length;
+  };
+
+  return (
+    <div className="space-y-6">
+      {brokenLocationLinks.length > 0 && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl">
+          <div className="flex items-center space-x-2 mb-2 text-amber-800 dark:text-amber-300 font-medium">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{brokenLocationLinks.length} link{brokenLocationLinks.length === 1 ? '' : 's'} to deleted locations</span>
+          </div>
+          <ul className="text-sm text-amber-700 dark:text-amber-300 space-y-1">
+            {brokenLocationLinks.map((reference, index) => (
+              <li key={index}>{reference.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Add Location */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">Add Location</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            value={newLocation.name || ''}
+            onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+            placeholder="Location name"
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+          <input
+            type="text"
+            value={newLocation.address || ''}
+            onChange={(e) => setNewLocation({ ...newLocation, address: e.target.value })}
+            placeholder="Address"
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+          <select
+            value={newLocation.type || 'exterior'}
+            onChange={(e) => setNewLocation({ ...newLocation, type: e.target.value as Location['type'] })}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            <option value="exterior">Exterior</option>
+            <option value="interior">Interior</option>
+            <option value="studio">Studio</option>
+            <option value="mixed">Mixed</option>
+          </select>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={newLocation.cost ?? ''}
+              onChange={(e) => setNewLocation({ ...newLocation, cost: parseFloat(e.target.value) || 0 })}
+              placeholder="Cost"
+              className="flex-1 min-w-0 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+            />
+            <CurrencySelect
+              project={project}
+              value={newLocation.currency}
+              onChange={(currency) => setNewLocation({ ...newLocation, currency })}
+            />
+          </div>
+          <input
+            type="number"
+            step={0.0001}
+            value={newLocation.latitude ?? ''}
+            onChange={(e) => setNewLocation({ ...newLocation, latitude: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+            placeholder="Latitude (for daylight)"
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+          <input
+            type="number"
+            step={0.0001}
+            value={newLocation.longitude ?? ''}
+            onChange={(e) => setNewLocation({ ...newLocation, longitude: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+            placeholder="Longitude"
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+        </div>
+        <div className="flex items-center justify-between mt-4">
+          <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={newLocation.permitRequired || false}
+              onChange={(e) => setNewLocation({ ...newLocation, permitRequired: e.target.checked })}
+            />
+            <span>Permit required</span>
+          </label>
+          <button
+            onClick={addLocation}
+            disabled={!newLocation.name}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Location</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Locations */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+          Locations ({project.locations.length})
+        </h3>
+
+        {project.locations.length === 0 ? (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <MapPin className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>No locations added yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {project.locations.map(location => {
+              const days = countShootingDays(location.id);
+
+              return (
+                <div key={location.id} className="border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <MapPin className="w-4 h-4 text-slate-500" />
+                        <h4 className="font-medium text-slate-900 dark:text-slate-100">{location.name}</h4>
+                        <span className="px-2 py-0.5 text-xs bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-full capitalize">
+                          {location.type}
+                        </span>
+                      </div>
+                      {location.address && (
+                        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{location.address}</p>
+                      )}
+                      <div className="flex items-center space-x-4 mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        <span>{days} shooting day{days === 1 ? '' : 's'}</span>
+                        <span>{formatConverted(location.cost, location.currency, converter, location.availableDates[0]?.startDate)}</span>
+                        {location.permitRequired && (
+                          <span className="capitalize">Permit: {location.permitStatus?.replace('-', ' ') ?? 'not applied'}</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => downloadCalendar(project, { type: 'location', locationId: location.id })}
+                        disabled={days === 0}
+                        className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded disabled:opacity-40"
+                        title="Export the shoots here (.ics)"
+                      >
+                        <Calendar className="w-4 h-4 text-slate-500" />
+                      </button>
+                      <button
+                        onClick={() => requestDelete(location.id)}
+                        className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                        title="Delete location"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {pendingDelete?.target.ref.id === location.id && (
+                    <DeletionWarning
+                      impact={pendingDelete}
+                      onKeep={() => setPendingDelete(null)}
+                      onDelete={() => deleteLocation(location.id)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
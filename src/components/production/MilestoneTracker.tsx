@@ -7,6 +7,8 @@ import {
 import { ProductionProject, Milestone } from '../../types/production';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { Reschedule, analyzeDependencies, rescheduleItem } from '../../utils/dependencyGraph';
+import { GanttChart } from './GanttChart';
 
 interface MilestoneTrackerProps {
   project: ProductionProject;
@@ -22,6 +24,7 @@ export const MilestoneTracker: React.FC<MilestoneTrackerProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterPriority, setFilterPriority] = useState('all');
+  const [timelineError, setTimelineError] = useState<string | null>(null);
 
   const updateMilestones = (milestones: Milestone[]) => {
     onProjectUpdate({
@@ -70,6 +73,15 @@ export const MilestoneTracker: React.FC<MilestoneTrackerProps> = ({
     });
   };
 
+  const runTimeline = (update: () => Reschedule) => {
+    try {
+      onProjectUpdate({ ...update().project, updatedAt: new Date() });
+      setTimelineError(null);
+    } catch (err) {
+      setTimelineError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
   const exportMilestones = () => {
     const milestonesData = JSON.stringify(project.milestones, null, 2);
     const blob = new Blob([milestonesData], { type: 'application/json' });
@@ -500,6 +512,27 @@ export const MilestoneTracker: React.FC<MilestoneTrackerProps> = ({
         </div>
       )}
 
+      {/* Timeline */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-1">
+          Timeline
+        </h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+          Production and distribution milestones. Drag one to a new date; milestones that depend on it move along.
+        </p>
+        {timelineError && (
+          <div className="flex items-center space-x-2 mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>{timelineError}</span>
+          </div>
+        )}
+        <GanttChart
+          analysis={analyzeDependencies(project)}
+          kinds={['milestone', 'distribution']}
+          onMove={(id, start) => runTimeline(() => rescheduleItem(project, id, start))}
+        />
+      </div>
+
       {/* All Milestones */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
         <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
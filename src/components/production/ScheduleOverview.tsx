@@ -1,27 +1,1053 @@
-Here's the fixed version with all missing closing brackets added:
+import React, { useMemo, useState } from 'react';
+import {
+  Calendar, Plus, Trash2, Pin, PinOff, Wand2, AlertTriangle,
+  CheckCircle, RotateCcw, Sun, Moon, MapPin, Layers, GanttChartSquare, X, Download
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ProductionPhase,
+  ProductionProject,
+  ScheduleConflict,
+  ScheduleSettings,
+  ShootingDay,
+  Task
+} from '../../types/production';
+import { DocumentaryProject } from '../../types/documentary';
+import {
+  detectScheduleConflicts,
+  getDaylight,
+  getDefaultScheduleSettings,
+  getScheduleRange,
+  optimizeSchedule
+} from '../../utils/scheduleOptimizer';
+import {
+  Reschedule,
+  addDependency,
+  analyzeDependencies,
+  removeDependency,
+  rescheduleItem,
+  resizeTask
+} from '../../utils/dependencyGraph';
+import { downloadCalendar } from '../../utils/icalendar';
+import { getLaborWarning } from '../../utils/laborCost';
+import { GanttChart } from './GanttChart';
 
-```typescript
-// Add missing closing bracket for renderCalendarTab
-  );
+interface ScheduleOverviewProps {
+  project: ProductionProject;
+  documentary?: DocumentaryProject | null; // For the headings of scheduled scenes
+  onProjectUpdate: (project: ProductionProject) => void;
+}
+
+const SEVERITY_STYLES: Record<ScheduleConflict['severity'], string> = {
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  low: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300'
 };
 
-// Add missing closing bracket for renderPhasesTab
+const SEVERITY_ORDER: ScheduleConflict['severity'][] = ['high', 'medium', 'low'];
+
+const toInputDate = (date?: Date): string => (date ? format(date, 'yyyy-MM-dd') : '');
+const fromInputDate = (value: string): Date | undefined => (value ? new Date(`${value}T00:00:00`) : undefined);
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100';
+
+export const ScheduleOverview: React.FC<ScheduleOverviewProps> = ({
+  project,
+  documentary = null,
+  onProjectUpdate
+}) => {
+  const [activeTab, setActiveTab] = useState('shooting');
+  const [settings, setSettings] = useState<ScheduleSettings>(() => getDefaultScheduleSettings(project));
+  const [result, setResult] = useState<string | null>(null);
+  const [newDay, setNewDay] = useState<{ date: string; locationId: string }>({ date: '', locationId: '' });
+  const [newPhase, setNewPhase] = useState<Partial<ProductionPhase>>({});
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [newTask, setNewTask] = useState<Partial<Task> & { phaseId?: string }>({});
+  const [pendingDependencies, setPendingDependencies] = useState<Record<string, string>>({});
+  const [taskMessage, setTaskMessage] = useState<string | null>(null);
+  const [laborWarning, setLaborWarning] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = getScheduleRange(project, settings);
+  const days = [...project.schedule.shootingDays].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const conflicts = project.schedule.conflicts;
+  const unresolved = conflicts.filter(conflict => conflict.status === 'unresolved');
+  const analysis = useMemo(() => analyzeDependencies(project), [project]);
+  const itemTitles = new Map(analysis.items.map(item => [item.id, item.title]));
+
+  // Scene headings from the breakdown, falling back to the scripts themselves
+  const sceneLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    (documentary?.scripts ?? []).forEach(script => script.content
+      .filter(element => element.type === 'scene-heading')
+      .forEach(element => labels.set(element.id, element.content)));
+    (project.breakdown?.sheets ?? []).forEach(sheet => {
+      if (sheet.headingElementId) labels.set(sheet.headingElementId, `${sheet.sceneNumber}. ${sheet.heading}`);
+    });
+    return labels;
+  }, [documentary, project.breakdown]);
+
+  const getLocationName = (id: string) => project.locations.find(location => location.id === id)?.name ?? 'No location';
+
+  // Every change to the days rechecks the schedule and what it costs in crew labor
+  const updateShootingDays = (shootingDays: ShootingDay[]) => {
+    const next = { ...project, schedule: { ...project.schedule, shootingDays }, updatedAt: new Date() };
+    setLaborWarning(getLaborWarning(project, next));
+    onProjectUpdate({ ...next, schedule: { ...next.schedule, conflicts: detectScheduleConflicts(next, settings) } });
+  };
+
+  const updateDay = (id: string, updates: Partial<ShootingDay>) => {
+    updateShootingDays(project.schedule.shootingDays.map(day => day.id === id ? { ...day, ...updates } : day));
+  };
+
+  const updateSetting = <K extends keyof ScheduleSettings>(key: K, value: ScheduleSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  const toggleInSetting = (key: 'crew' | 'equipment', id: string) => {
+    const current = settings[key];
+    updateSetting(key, current.includes(id) ? current.filter(item => item !== id) : [...current, id]);
+  };
+
+  const optimize = () => {
+    const optimized = optimizeSchedule(project, settings);
+    setLaborWarning(getLaborWarning(project, optimized.project));
+    onProjectUpdate(optimized.project);
+    const remaining = optimized.project.schedule.conflicts.filter(conflict => conflict.status === 'unresolved').length;
+    setResult(
+      `Planned ${optimized.scenes} scene${optimized.scenes === 1 ? '' : 's'} over ${optimized.days} day${optimized.days === 1 ? '' : 's'}` +
+      `${optimized.kept > 0 ? `, keeping ${optimized.kept} pinned or finished day${optimized.kept === 1 ? '' : 's'}` : ''}. ` +
+      (remaining > 0 ? `${remaining} conflict${remaining === 1 ? '' : 's'} could not be avoided.` : 'No conflicts.')
+    );
+  };
+
+  const addDay = () => {
+    const date = fromInputDate(newDay.date);
+    if (!date || !newDay.locationId) return;
+
+    const [hours, minutes] = settings.callTime.split(':').map(value => parseInt(value, 10) || 0);
+    const callTime = new Date(date);
+    callTime.setHours(hours, minutes);
+
+    updateShootingDays([...project.schedule.shootingDays, {
+      id: uuidv4(),
+      date,
+      locationId: newDay.locationId,
+      callTime,
+      wrapTime: new Date(callTime.getTime() + settings.maxDayHours * 60 * 60 * 1000),
+      scenes: [],
+      crew: [...settings.crew],
+      equipment: [...settings.equipment],
+      status: 'planned',
+      notes: ''
+    }]);
+    setNewDay({ date: '', locationId: '' });
+  };
+
+  const updateConflict = (id: string, updates: Partial<ScheduleConflict>) => {
+    onProjectUpdate({
+      ...project,
+      schedule: {
+        ...project.schedule,
+        conflicts: conflicts.map(conflict => conflict.id === id ? { ...conflict, ...updates } : conflict)
+      }
+    });
+  };
+
+  const recheck = () => {
+    onProjectUpdate({ ...project, schedule: { ...project.schedule, conflicts: detectScheduleConflicts(project, settings) } });
+  };
+
+  const addPhase = () => {
+    if (!newPhase.name || !newPhase.startDate || !newPhase.endDate) return;
+
+    const phase: ProductionPhase = {
+      id: uuidv4(),
+      name: newPhase.name,
+      type: newPhase.type || 'production',
+      startDate: newPhase.startDate,
+      endDate: newPhase.endDate,
+      status: 'planned',
+      tasks: [],
+      milestoneIds: [],
+      notes: ''
+    };
+
+    onProjectUpdate({ ...project, schedule: { ...project.schedule, phases: [...project.schedule.phases, phase] } });
+    setNewPhase({});
+  };
+
+  const deletePhase = (id: string) => {
+    onProjectUpdate({
+      ...project,
+      schedule: { ...project.schedule, phases: project.schedule.phases.filter(phase => phase.id !== id) }
+    });
+  };
+
+  // Dependency edits can push later work; say what moved
+  const run = (update: () => Reschedule) => {
+    try {
+      const { project: updated, moved } = update();
+      onProjectUpdate({ ...updated, updatedAt: new Date() });
+      setTaskMessage(moved.length > 0
+        ? `Pushed ${moved.map(id => `"${itemTitles.get(id) ?? id}"`).join(', ')} later to keep ${moved.length === 1 ? 'its' : 'their'} dependencies.`
+        : null
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+  };
+
+  const addTask = () => {
+    const phase = project.schedule.phases.find(item => item.id === newTask.phaseId);
+    if (!phase || !newTask.title || !newTask.startDate || !newTask.dueDate) return;
+
+    const task: Task = {
+      id: uuidv4(),
+      title: newTask.title,
+      description: '',
+      assignedTo: [],
+      startDate: newTask.startDate,
+      dueDate: newTask.dueDate < newTask.startDate ? newTask.startDate : newTask.dueDate,
+      duration: 0,
+      status: 'not-started',
+      priority: newTask.priority || 'medium',
+      dependencies: [],
+      progress: 0,
+      notes: '',
+      attachments: []
+    };
+    const withTask: ProductionProject = {
+      ...project,
+      schedule: {
+        ...project.schedule,
+        phases: project.schedule.phases.map(item => item.id === phase.id ? { ...item, tasks: [...item.tasks, task] } : item)
+      }
+    };
+
+    run(() => newTask.dependencies?.[0]
+      ? addDependency(withTask, task.id, newTask.dependencies[0])
+      : { project: withTask, moved: [] }
+    );
+    setNewTask({ phaseId: phase.id });
+  };
+
+  const updateTask = (id: string, updates: Partial<Task>) => {
+    onProjectUpdate({
+      ...project,
+      schedule: {
+        ...project.schedule,
+        phases: project.schedule.phases.map(phase => ({
+          ...phase,
+          tasks: phase.tasks.map(task => task.id === id ? { ...task, ...updates } : task)
+        }))
+      },
+      updatedAt: new Date()
+    });
+  };
+
+  const deleteTask = (id: string) => {
+    onProjectUpdate({
+      ...project,
+      schedule: {
+        ...project.schedule,
+        phases: project.schedule.phases.map(phase => ({
+          ...phase,
+          tasks: phase.tasks
+            .filter(task => task.id !== id)
+            .map(task => ({ ...task, dependencies: task.dependencies.filter(dependency => dependency !== id) }))
+        }))
+      },
+      updatedAt: new Date()
+    });
+  };
+
+  const linkDependency = (id: string) => {
+    const dependency = pendingDependencies[id];
+    if (!dependency) return;
+    run(() => addDependency(project, id, dependency));
+    setPendingDependencies({ ...pendingDependencies, [id]: '' });
+  };
+
+  const renderShootingDaysTab = () => (
+    <div className="space-y-6">
+      {laborWarning && (
+        <div className="flex items-center justify-between p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{laborWarning}</span>
+          </div>
+          <button onClick={() => setLaborWarning(null)} className="p-1 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Optimizer */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">Schedule Optimizer</h3>
+          <button
+            onClick={optimize}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>Optimize Schedule</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">First day</label>
+            <input
+              type="date"
+              value={toInputDate(settings.startDate ?? range.start)}
+              onChange={(e) => updateSetting('startDate', fromInputDate(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Last day</label>
+            <input
+              type="date"
+              value={toInputDate(settings.endDate ?? range.end)}
+              onChange={(e) => updateSetting('endDate', fromInputDate(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Call time</label>
+            <input
+              type="time"
+              value={settings.callTime}
+              onChange={(e) => updateSetting('callTime', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Max hours per day</label>
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={settings.maxDayHours}
+              onChange={(e) => updateSetting('maxDayHours', parseFloat(e.target.value) || 1)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Company move (minutes)</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.companyMoveMinutes}
+              onChange={(e) => updateSetting('companyMoveMinutes', parseInt(e.target.value, 10) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Moves per day</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.maxCompanyMoves}
+              onChange={(e) => updateSetting('maxCompanyMoves', parseInt(e.target.value, 10) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Latitude</label>
+            <input
+              type="number"
+              min={-90}
+              max={90}
+              step={0.1}
+              value={settings.latitude}
+              onChange={(e) => updateSetting('latitude', parseFloat(e.target.value) || 0)}
+              className={inputClass}
+              title="Used for daylight at locations without coordinates"
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300 mt-6">
+            <input
+              type="checkbox"
+              checked={settings.weekdaysOnly}
+              onChange={(e) => updateSetting('weekdaysOnly', e.target.checked)}
+            />
+            <span>Weekdays only</span>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Crew on every day</h4>
+            {project.team.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No team members yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {project.team.map(member => (
+                  <button
+                    key={member.id}
+                    onClick={() => toggleInSetting('crew', member.id)}
+                    className={`px-2 py-1 text-xs rounded-full ${settings.crew.includes(member.id)
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}
+                  >
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Equipment on every day</h4>
+            {project.equipment.items.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No equipment yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {project.equipment.items.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => toggleInSetting('equipment', item.id)}
+                    className={`px-2 py-1 text-xs rounded-full ${settings.equipment.includes(item.id)
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}
+                  >
+                    {item.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+          Scenes come from the script breakdown. Pinned and completed days stay as they are; every other day is rebuilt.
+        </p>
+
+        {result && (
+          <div className="flex items-center space-x-2 mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg text-sm">
+            <CheckCircle className="w-4 h-4" />
+            <span>{result}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Add a day by hand */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">Add Shooting Day</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={newDay.date}
+            onChange={(e) => setNewDay({ ...newDay, date: e.target.value })}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          />
+          <select
+            value={newDay.locationId}
+            onChange={(e) => setNewDay({ ...newDay, locationId: e.target.value })}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+          >
+            <option value="">Location…</option>
+            {project.locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addDay}
+            disabled={!newDay.date || !newDay.locationId}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Day</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Days */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+            Shooting Days ({days.length})
+          </h3>
+          <button
+            onClick={() => downloadCalendar(project, { type: 'project' })}
+            className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+            title="Shoots, tasks, milestones, festival deadlines and distribution dates as an .ics calendar"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export Calendar</span>
+          </button>
+        </div>
+
+        {days.length === 0 ? (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <Calendar className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>No shooting days yet. Break down a script, then optimize the schedule.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {days.map(day => {
+              const location = project.locations.find(item => item.id === day.locationId);
+              const daylight = day.weatherForecast
+                ? { sunrise: day.weatherForecast.sunrise, sunset: day.weatherForecast.sunset }
+                : getDaylight(day.date, location?.latitude ?? settings.latitude, location?.longitude);
+              const dayConflicts = unresolved.filter(conflict => conflict.affectedItems.includes(day.id));
+
+              return (
+                <div
+                  key={day.id}
+                  className={`border rounded-lg p-4 ${day.pinned
+                    ? 'border-blue-300 dark:border-blue-700'
+                    : 'border-slate-200 dark:border-slate-700'}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h4 className="font-medium text-slate-900 dark:text-slate-100">
+                          {format(day.date, 'EEEE, MMMM d, yyyy')}
+                        </h4>
+                        {dayConflicts.length > 0 && (
+                          <span className="flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>{dayConflicts.length}</span>
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        <span className="flex items-center space-x-1">
+                          <MapPin className="w-3 h-3" />
+                          <span>{getLocationName(day.locationId)}</span>
+                        </span>
+                        <span>Call {format(day.callTime, 'HH:mm')} • Wrap {format(day.wrapTime, 'HH:mm')}</span>
+                        <span className="flex items-center space-x-1">
+                          <Sun className="w-3 h-3" />
+                          <span>{format(daylight.sunrise, 'HH:mm')}</span>
+                          <Moon className="w-3 h-3 ml-1" />
+                          <span>{format(daylight.sunset, 'HH:mm')}</span>
+                        </span>
+                        <span>{day.crew.length} crew • {day.equipment.length} items</span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={day.status}
+                        onChange={(e) => updateDay(day.id, { status: e.target.value as ShootingDay['status'] })}
+                        className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                      >
+                        <option value="planned">Planned</option>
+                        <option value="confirmed">Confirmed</option>
+                        <option value="completed">Completed</option>
+                        <option value="cancelled">Cancelled</option>
+                      </select>
+                      <button
+                        onClick={() => updateDay(day.id, { pinned: !day.pinned })}
+                        className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+                        title={day.pinned ? 'Unpin: let the optimizer move this day' : 'Pin: keep this day when optimizing'}
+                      >
+                        {day.pinned
+                          ? <Pin className="w-4 h-4 text-blue-500" />
+                          : <PinOff className="w-4 h-4 text-slate-400" />}
+                      </button>
+                      <button
+                        onClick={() => updateShootingDays(project.schedule.shootingDays.filter(item => item.id !== day.id))}
+                        className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                        title="Delete day"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {day.scenes.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                      {day.scenes.map(id => (
+                        <li key={id}>{sceneLabels.get(id) ?? 'Scene no longer in the script'}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {dayConflicts.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-xs text-red-700 dark:text-red-300">
+                      {dayConflicts.map(conflict => (
+                        <li key={conflict.id}>• {conflict.description}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
   );
-};
 
-// Add missing closing bracket for renderTasksTab
+  const renderConflictsTab = () => (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+          Schedule Conflicts ({unresolved.length} unresolved)
+        </h3>
+        <button
+          onClick={recheck}
+          className="flex items-center space-x-2 px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Recheck</span>
+        </button>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+          <CheckCircle className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No conflicts in the current schedule</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {[...conflicts]
+            .sort((a, b) =>
+              Number(a.status === 'resolved') - Number(b.status === 'resolved') ||
+              SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+              a.startDate.getTime() - b.startDate.getTime())
+            .map(conflict => (
+              <div
+                key={conflict.id}
+                className={`p-4 rounded-lg border border-slate-200 dark:border-slate-700 ${conflict.status === 'resolved' ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${SEVERITY_STYLES[conflict.severity]}`}>
+                      {conflict.severity}
+                    </span>
+                    <div>
+                      <div className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">{conflict.type}</div>
+                      <p className="text-sm text-slate-800 dark:text-slate-200">{conflict.description}</p>
+                      {conflict.resolution && (
+                        <p className="mt-1 text-xs text-green-700 dark:text-green-300">Resolution: {conflict.resolution}</p>
+                      )}
+                    </div>
+                  </div>
+                  {conflict.status === 'resolved' && (
+                    <button
+                      onClick={() => updateConflict(conflict.id, { status: 'unresolved' })}
+                      className="px-2 py-1 text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded hover:bg-slate-200 dark:hover:bg-slate-600"
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </div>
+
+                {conflict.status === 'unresolved' && (
+                  <div className="flex items-center space-x-2 mt-3">
+                    <input
+                      type="text"
+                      value={resolutions[conflict.id] ?? ''}
+                      onChange={(e) => setResolutions({ ...resolutions, [conflict.id]: e.target.value })}
+                      placeholder="How it was handled (optional)"
+                      className="flex-1 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                    />
+                    <button
+                      onClick={() => updateConflict(conflict.id, { status: 'resolved', resolution: resolutions[conflict.id]?.trim() || undefined })}
+                      className="px-2 py-1 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded hover:bg-green-200 dark:hover:bg-green-900/50"
+                    >
+                      Accept
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
   );
-};
 
-// Add missing closing bracket for renderShootingDaysTab
+  const renderPhasesTab = () => (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">Add Phase</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <input
+            type="text"
+            value={newPhase.name || ''}
+            onChange={(e) => setNewPhase({ ...newPhase, name: e.target.value })}
+            placeholder="Phase name"
+            className={inputClass}
+          />
+          <select
+            value={newPhase.type || 'production'}
+            onChange={(e) => setNewPhase({ ...newPhase, type: e.target.value as ProductionPhase['type'] })}
+            className={inputClass}
+          >
+            <option value="pre-production">Pre-production</option>
+            <option value="production">Production</option>
+            <option value="post-production">Post-production</option>
+            <option value="distribution">Distribution</option>
+          </select>
+          <input
+            type="date"
+            value={toInputDate(newPhase.startDate)}
+            onChange={(e) => setNewPhase({ ...newPhase, startDate: fromInputDate(e.target.value) })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={toInputDate(newPhase.endDate)}
+            onChange={(e) => setNewPhase({ ...newPhase, endDate: fromInputDate(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={addPhase}
+            disabled={!newPhase.name || !newPhase.startDate || !newPhase.endDate}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Phase</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
+          Phases ({project.schedule.phases.length})
+        </h3>
+        {project.schedule.phases.length === 0 ? (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <Layers className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>No phases added yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {[...project.schedule.phases]
+              .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+              .map(phase => (
+                <div key={phase.id} className="flex items-center justify-between border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+                  <div>
+                    <h4 className="font-medium text-slate-900 dark:text-slate-100">{phase.name}</h4>
+                    <div className="flex items-center space-x-4 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      <span className="capitalize">{phase.type.replace('-', ' ')}</span>
+                      <span>{format(phase.startDate, 'MMM d')} – {format(phase.endDate, 'MMM d, yyyy')}</span>
+                      <span className="capitalize">{phase.status.replace('-', ' ')}</span>
+                      <span>{phase.tasks.length} task{phase.tasks.length === 1 ? '' : 's'}</span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => deletePhase(phase.id)}
+                    className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                    title="Delete phase"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    </div>
   );
-};
 
-// Add missing closing bracket for ScheduleOverview component
-};
+  const renderTasksTab = () => {
+    const tasks = project.schedule.phases.flatMap(phase => phase.tasks.map(task => ({ task, phase })));
+    const cyclic = new Set(analysis.cycles.flat());
+
+    return (
+      <div className="space-y-6">
+        {/* Summary */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2">
+              <GanttChartSquare className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100">Critical Path</h3>
+            </div>
+            {analysis.finish && (
+              <span className="text-sm text-slate-500 dark:text-slate-400">
+                Finishes {format(analysis.finish, 'MMM d, yyyy')}
+              </span>
+            )}
+          </div>
+
+          {analysis.criticalPath.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Add tasks and link them to see which ones decide when the production finishes.
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {analysis.criticalPath.map((id, index) => (
+                <React.Fragment key={id}>
+                  {index > 0 && <span className="text-slate-400">→</span>}
+                  <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                    {itemTitles.get(id)}
+                  </span>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          {analysis.cycles.map(cycle => (
+            <div key={cycle.join()} className="flex items-center space-x-2 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {cycle.map(id => `"${itemTitles.get(id)}"`).join(', ')} wait on each other, so none of them can be scheduled.
+                Remove one of their dependencies.
+              </span>
+            </div>
+          ))}
+
+          {analysis.missing.length > 0 && (
+            <div className="flex items-center space-x-2 mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {Array.from(new Set(analysis.missing.map(entry => `"${itemTitles.get(entry.id)}"`))).join(', ')} wait
+                on items that no longer exist. Those dependencies are ignored.
+              </span>
+            </div>
+          )}
+
+          {taskMessage && (
+            <div className="flex items-center space-x-2 mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg text-sm">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{taskMessage}</span>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 mt-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
 
-// Add missing closing bracket for export statement
-export { ScheduleOverview };
-```
+        {/* Gantt */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-1">Timeline</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+            Drag a bar to move it, or its right edge to change how long it takes. Nothing can start before what it
+            waits on finishes, and anything waiting on a moved task is pushed along with it.
+          </p>
+          <GanttChart
+            analysis={analysis}
+            kinds={['task', 'milestone']}
+            onMove={(id, start) => run(() => rescheduleItem(project, id, start))}
+            onResize={(id, end) => run(() => resizeTask(project, id, end))}
+          />
+        </div>
 
-The file was missing several closing brackets for the render methods and component definitions. I've added them in the appropriate places to properly close all the function and component blocks.
\ No newline at end of file
+        {/* Add task */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">Add Task</h3>
+          {project.schedule.phases.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Tasks belong to a phase. Add a phase first.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <select
+                  value={newTask.phaseId || ''}
+                  onChange={(e) => setNewTask({ ...newTask, phaseId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select phase</option>
+                  {project.schedule.phases.map(phase => (
+                    <option key={phase.id} value={phase.id}>{phase.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={newTask.title || ''}
+                  onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
+                  placeholder="Task title"
+                  className={inputClass}
+                />
+                <select
+                  value={newTask.priority || 'medium'}
+                  onChange={(e) => setNewTask({ ...newTask, priority: e.target.value as Task['priority'] })}
+                  className={inputClass}
+                >
+                  <option value="low">Low priority</option>
+                  <option value="medium">Medium priority</option>
+                  <option value="high">High priority</option>
+                  <option value="critical">Critical priority</option>
+                </select>
+                <input
+                  type="date"
+                  value={toInputDate(newTask.startDate)}
+                  onChange={(e) => setNewTask({ ...newTask, startDate: fromInputDate(e.target.value) })}
+                  className={inputClass}
+                />
+                <input
+                  type="date"
+                  value={toInputDate(newTask.dueDate)}
+                  onChange={(e) => setNewTask({ ...newTask, dueDate: fromInputDate(e.target.value) })}
+                  className={inputClass}
+                />
+                <select
+                  value={newTask.dependencies?.[0] || ''}
+                  onChange={(e) => setNewTask({ ...newTask, dependencies: e.target.value ? [e.target.value] : [] })}
+                  className={inputClass}
+                >
+                  <option value="">Waits on nothing</option>
+                  {analysis.items.filter(item => item.kind !== 'distribution').map(item => (
+                    <option key={item.id} value={item.id}>Waits on {item.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-end mt-4">
+                <button
+                  onClick={addTask}
+                  disabled={!newTask.phaseId || !newTask.title || !newTask.startDate || !newTask.dueDate}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add Task</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Tasks and their dependencies */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">Tasks ({tasks.length})</h3>
+          {tasks.length === 0 ? (
+            <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+              <GanttChartSquare className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No tasks added yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {tasks
+                .sort((a, b) => a.task.startDate.getTime() - b.task.startDate.getTime())
+                .map(({ task, phase }) => {
+                  const timing = analysis.timings.get(task.id);
+                  return (
+                    <div key={task.id} className="border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-medium text-slate-900 dark:text-slate-100">{task.title}</h4>
+                          <div className="flex items-center space-x-4 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                            <span>{phase.name}</span>
+                            <span>{format(task.startDate, 'MMM d')} – {format(task.dueDate, 'MMM d, yyyy')}</span>
+                            {cyclic.has(task.id) ? (
+                              <span className="text-amber-600 dark:text-amber-400">In a dependency cycle</span>
+                            ) : timing && task.status !== 'completed' && (
+                              <span className={timing.critical ? 'text-red-600 dark:text-red-400' : ''}>
+                                {timing.critical ? 'Critical' : `${timing.slack} day${timing.slack === 1 ? '' : 's'} of slack`}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={task.status}
+                            onChange={(e) => updateTask(task.id, { status: e.target.value as Task['status'] })}
+                            className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                          >
+                            <option value="not-started">Not started</option>
+                            <option value="in-progress">In progress</option>
+                            <option value="blocked">Blocked</option>
+                            <option value="delayed">Delayed</option>
+                            <option value="completed">Completed</option>
+                          </select>
+                          <button
+                            onClick={() => deleteTask(task.id)}
+                            className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+                            title="Delete task"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2 mt-3">
+                        <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Waits on</span>
+                        {task.dependencies.map(id => (
+                          <span key={id} className="flex items-center space-x-1 px-2 py-1 text-xs rounded-full bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300">
+                            <span>{itemTitles.get(id) ?? 'Missing item'}</span>
+                            <button
+                              onClick={() => onProjectUpdate({ ...removeDependency(project, task.id, id), updatedAt: new Date() })}
+                              className="opacity-60 hover:opacity-100"
+                              title="Remove dependency"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                        <select
+                          value={pendingDependencies[task.id] || ''}
+                          onChange={(e) => setPendingDependencies({ ...pendingDependencies, [task.id]: e.target.value })}
+                          className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                        >
+                          <option value="">Add dependency</option>
+                          {analysis.items
+                            .filter(item => item.id !== task.id && !task.dependencies.includes(item.id))
+                            .map(item => (
+                              <option key={item.id} value={item.id}>{item.title}</option>
+                            ))}
+                        </select>
+                        <button
+                          onClick={() => linkDependency(task.id)}
+                          disabled={!pendingDependencies[task.id]}
+                          className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                          Link
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const tabs = [
+    { id: 'shooting', label: 'Shooting Days', icon: Calendar },
+    { id: 'conflicts', label: `Conflicts${unresolved.length > 0 ? ` (${unresolved.length})` : ''}`, icon: AlertTriangle },
+    { id: 'phases', label: 'Phases', icon: Layers },
+    { id: 'tasks', label: 'Tasks & Gantt', icon: GanttChartSquare }
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Tab Navigation */}
+      <div className="border-b border-slate-200 dark:border-slate-700">
+        <div className="flex space-x-1">
+          {tabs.map(tab => {
+            const Icon = tab.icon;
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`
+                  flex items-center space-x-2 px-4 py-3 text-sm font-medium rounded-t-lg
+                  ${activeTab === tab.id
+                    ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                    : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+                  }
+                `}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{tab.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Tab Content */}
+      <div>
+        {activeTab === 'shooting' && renderShootingDaysTab()}
+        {activeTab === 'conflicts' && renderConflictsTab()}
+        {activeTab === 'phases' && renderPhasesTab()}
+        {activeTab === 'tasks' && renderTasksTab()}
+      </div>
+    </div>
+  );
+};
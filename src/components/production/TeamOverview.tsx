@@ -1,20 +1,28 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { 
   Users, Plus, Edit3, Trash2, Check, 
   X, Filter, Search, Download, Mail, 
-  Phone, Clock, DollarSign, Calendar
+  Phone, Clock, DollarSign, Calendar, Upload, AlertCircle
 } from 'lucide-react';
 import { ProductionProject, TeamMember } from '../../types/production';
-import { format } from 'date-fns';
+import { DeletionImpact, DocumentaryProject } from '../../types/documentary';
+import { format, startOfDay } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { downloadCalendar, importAvailability } from '../../utils/icalendar';
+import { formatMoney, getBaseCurrency } from '../../utils/currency';
+import { getDeletionImpact, withProduction } from '../../utils/referenceChecker';
+import { CurrencySelect } from './CurrencySelect';
+import { DeletionWarning } from './DeletionWarning';
 
 interface TeamOverviewProps {
   project: ProductionProject;
+  documentary: DocumentaryProject | null;
   onProjectUpdate: (project: ProductionProject) => void;
 }
 
 export const TeamOverview: React.FC<TeamOverviewProps> = ({
   project,
+  documentary,
   onProjectUpdate
 }) => {
   const [activeTab, setActiveTab] = useState('team');
@@ -22,6 +30,11 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
   const [newMember, setNewMember] = useState<Partial<TeamMember>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [filterDepartment, setFilterDepartment] = useState('all');
+  const [calendarMemberId, setCalendarMemberId] = useState<string | null>(null);
+  const [calendarResult, setCalendarResult] = useState<{ memberId: string; message: string; failed: boolean } | null>(null);
+  const calendarInputRef = useRef<HTMLInputElement>(null);
+  const [pendingDelete, setPendingDelete] = useState<DeletionImpact | null>(null);
+  const graph = useMemo(() => withProduction(documentary, project), [documentary, project]);
 
   const updateTeam = (team: TeamMember[]) => {
     onProjectUpdate({
@@ -42,8 +55,10 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
       phone: newMember.phone || '',
       rate: {
         amount: newMember.rate?.amount || 0,
-        unit: newMember.rate?.unit || 'daily'
+        unit: newMember.rate?.unit || 'daily',
+        currency: newMember.rate?.currency
       },
+      kitRental: newMember.kitRental || undefined,
       availability: {
         startDate: newMember.availability?.startDate || project.startDate,
         endDate: newMember.availability?.endDate || project.endDate,
@@ -67,8 +82,20 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
     setEditingMember(null);
   };
 
+  const requestDelete = (id: string) => {
+    const impact = getDeletionImpact(graph, { type: 'team-member', id });
+    if (!impact) return;
+
+    if (impact.references.length === 0) {
+      deleteTeamMember(id);
+    } else {
+      setPendingDelete(impact);
+    }
+  };
+
   const deleteTeamMember = (id: string) => {
     updateTeam(project.team.filter(member => member.id !== id));
+    setPendingDelete(null);
   };
 
   const exportTeam = () => {
@@ -84,6 +111,48 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const chooseCalendar = (memberId: string) => {
+    setCalendarMemberId(memberId);
+    calendarInputRef.current?.click();
+  };
+
+  const importCalendar = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    const member = project.team.find(item => item.id === calendarMemberId);
+    if (!file || !member) return;
+
+    try {
+      const result = importAvailability(member, await file.text(), file.name);
+      updateTeam(project.team.map(item => item.id === member.id ? result.member : item));
+      setCalendarResult({
+        memberId: member.id,
+        message: [
+          `${result.added} unavailable day${result.added === 1 ? '' : 's'} imported from ${file.name}` +
+            (result.removed > 0 ? `, replacing ${result.removed} from the last import` : '') + '.',
+          result.skipped > 0 && `${result.skipped} day${result.skipped === 1 ? ' was' : 's were'} already set by hand and left alone.`,
+          ...result.warnings
+        ].filter(Boolean).join(' '),
+        failed: false
+      });
+    } catch (err) {
+      setCalendarResult({
+        memberId: member.id,
+        message: err instanceof Error ? err.message : 'The calendar could not be imported.',
+        failed: true
+      });
+    }
+  };
+
+  // Upcoming days off, from the calendar import or set by hand
+  const getUnavailableDays = (member: TeamMember): Date[] => {
+    const today = startOfDay(new Date());
+    return member.availability.exceptions
+      .filter(exception => !exception.available && exception.date >= today)
+      .map(exception => exception.date)
+      .sort((a, b) => a.getTime() - b.getTime());
+  };
+
   const departments = Array.from(new Set(project.team.map(member => member.department)));
 
   const filteredTeam = project.team.filter(member => {
@@ -95,6 +164,14 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
 
   const renderTeamTab = () => (
     <div className="space-y-6">
+      <input
+        ref={calendarInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={importCalendar}
+        className="hidden"
+      />
+
       {/* Add Team Member Form */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
         <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-4">
@@ -211,8 +288,35 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                 <option value="weekly">Weekly</option>
                 <option value="project">Project</option>
               </select>
+              <CurrencySelect
+                project={project}
+                value={newMember.rate?.currency}
+                onChange={(currency) => setNewMember({
+                  ...newMember,
+                  rate: {
+                    amount: newMember.rate?.amount || 0,
+                    unit: newMember.rate?.unit || 'daily',
+                    currency
+                  }
+                })}
+              />
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Kit Rental (per shooting day)
+            </label>
+            <input
+              type="number"
+              value={newMember.kitRental || ''}
+              onChange={(e) => setNewMember({ ...newMember, kitRental: parseFloat(e.target.value) })}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              placeholder="0.00"
+              min="0"
+              step="0.01"
+            />
+          </div>
           
           <div>
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -337,6 +441,18 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                         list="departments"
                       />
                     </div>
+
+                    <div>
+                      <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">Kit Rental (per shooting day)</label>
+                      <input
+                        type="number"
+                        value={newMember.kitRental !== undefined ? newMember.kitRental : member.kitRental ?? ''}
+                        onChange={(e) => setNewMember({ ...newMember, kitRental: e.target.value ? parseFloat(e.target.value) : 0 })}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm"
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
                   </div>
                   
                   <div className="flex justify-end space-x-2">
@@ -375,6 +491,22 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                       </div>
                       
                       <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => downloadCalendar(project, { type: 'member', memberId: member.id })}
+                          className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                          title="Export their shoots, tasks and milestones (.ics)"
+                        >
+                          <Calendar className="w-4 h-4 text-slate-500" />
+                        </button>
+
+                        <button
+                          onClick={() => chooseCalendar(member.id)}
+                          className="p-1 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+                          title="Import busy days from their calendar (.ics)"
+                        >
+                          <Upload className="w-4 h-4 text-slate-500" />
+                        </button>
+
                         <button
                           onClick={() => {
                             setEditingMember(member.id);
@@ -386,13 +518,21 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                         </button>
                         
                         <button
-                          onClick={() => deleteTeamMember(member.id)}
+                          onClick={() => requestDelete(member.id)}
                           className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
                         >
                           <Trash2 className="w-4 h-4 text-red-500" />
                         </button>
                       </div>
                     </div>
+
+                    {pendingDelete?.target.ref.id === member.id && (
+                      <DeletionWarning
+                        impact={pendingDelete}
+                        onKeep={() => setPendingDelete(null)}
+                        onDelete={() => deleteTeamMember(member.id)}
+                      />
+                    )}
                   </div>
                   
                   <div className="p-4">
@@ -404,7 +544,13 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                         
                         {member.rate.amount > 0 && (
                           <span className="px-2 py-1 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-full">
-                            ${member.rate.amount}/{member.rate.unit}
+                            {formatMoney(member.rate.amount, member.rate.currency ?? getBaseCurrency(project), 2)}/{member.rate.unit}
+                          </span>
+                        )}
+
+                        {!!member.kitRental && (
+                          <span className="px-2 py-1 text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-full">
+                            {formatMoney(member.kitRental, member.rate.currency ?? getBaseCurrency(project), 2)}/day kit
                           </span>
                         )}
                       </div>
@@ -445,6 +591,30 @@ export const TeamOverview: React.FC<TeamOverviewProps> = ({
                           {member.notes}
                         </div>
                       )}
+
+                      {getUnavailableDays(member).length > 0 && (
+                        <div className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-400">
+                          <Clock className="w-4 h-4 text-slate-400" />
+                          <span>
+                            Unavailable {getUnavailableDays(member).slice(0, 3).map(date => format(date, 'MMM d')).join(', ')}
+                            {getUnavailableDays(member).length > 3 && ` and ${getUnavailableDays(member).length - 3} more`}
+                          </span>
+                        </div>
+                      )}
+
+                      {calendarResult?.memberId === member.id && (
+                        <div className={`flex items-start space-x-2 p-2 rounded-lg text-xs ${
+                          calendarResult.failed
+                            ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                            : 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                        }`}>
+                          {calendarResult.failed ? <AlertCircle className="w-4 h-4 flex-shrink-0" /> : <Check className="w-4 h-4 flex-shrink-0" />}
+                          <span>{calendarResult.message}</span>
+                          <button onClick={() => setCalendarResult(null)} className="opacity-60 hover:opacity-100">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </>
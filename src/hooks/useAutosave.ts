@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SaveStatus } from '../types/storage';
+
+interface AutosaveOptions {
+  delayMs?: number;
+  enabled?: boolean; // Hold off until saved state has been loaded, so defaults never overwrite it
+}
+
+export interface AutosaveState {
+  status: SaveStatus;
+  lastSavedAt: Date | null;
+  error: string | null;
+  saveNow: () => Promise<void>;
+}
+
+// Saves `value` a short while after it stops changing, and flushes pending changes when the page is
+// hidden or the component unmounts
+export const useAutosave = <T>(
+  value: T,
+  save: (value: T) => Promise<void>,
+  { delayMs = 1000, enabled = true }: AutosaveOptions = {}
+): AutosaveState => {
+  const [status, setStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveRef = useRef(save);
+  const valueRef = useRef(value);
+  const isPending = useRef(false);
+
+  useEffect(() => {
+    saveRef.current = save;
+    valueRef.current = value;
+  });
+
+  const saveNow = useCallback(async () => {
+    isPending.current = false;
+    setStatus('saving');
+
+    try {
+      await saveRef.current(valueRef.current);
+      setStatus('saved');
+      setLastSavedAt(new Date());
+      setError(null);
+    } catch (err) {
+      console.error('Autosave failed:', err);
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Saving failed.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    isPending.current = true;
+    setStatus('pending');
+    const timer = window.setTimeout(saveNow, delayMs);
+
+    return () => clearTimeout(timer);
+  }, [value, enabled, delayMs, saveNow]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (isPending.current) saveNow();
+    };
+
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [saveNow]);
+
+  return { status, lastSavedAt, error, saveNow };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Script } from '../types/script';
+import {
+  CollaborationSession,
+  CollaborationState,
+  getCollaborationSession,
+  subscribeToSessions
+} from '../utils/collaborationSession';
+
+export interface CollaborationSessionState {
+  session: CollaborationSession | null;
+  state: CollaborationState | null;
+  updateScript: (script: Script) => void; // Use in place of onScriptUpdate so edits reach the other editors
+}
+
+// Follows the live session for a script, if one is running, and pushes other people's edits into it
+export const useCollaborationSession = (
+  script: Script,
+  onScriptUpdate: (script: Script) => void
+): CollaborationSessionState => {
+  const [session, setSession] = useState(() => getCollaborationSession(script.id));
+  const [state, setState] = useState<CollaborationState | null>(() => session?.getState() ?? null);
+
+  const scriptRef = useRef(script);
+  const onScriptUpdateRef = useRef(onScriptUpdate);
+
+  useEffect(() => {
+    scriptRef.current = script;
+    onScriptUpdateRef.current = onScriptUpdate;
+  });
+
+  useEffect(() => {
+    setSession(getCollaborationSession(script.id));
+    return subscribeToSessions(() => setSession(getCollaborationSession(script.id)));
+  }, [script.id]);
+
+  useEffect(() => {
+    if (!session) {
+      setState(null);
+      return;
+    }
+
+    let revision = session.getState().revision;
+    setState(session.getState());
+    return session.subscribe(next => {
+      setState(next);
+      if (next.revision !== revision) {
+        revision = next.revision;
+        onScriptUpdateRef.current(session.materialize(scriptRef.current));
+      }
+    });
+  }, [session]);
+
+  const updateScript = useCallback((next: Script) => {
+    onScriptUpdateRef.current(session ? session.applyLocal(next) : next);
+  }, [session]);
+
+  return { session, state, updateScript };
+};
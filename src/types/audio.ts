@@ -3,6 +3,7 @@ export interface AudioFile {
   name: string;
   type: 'interview' | 'narration' | 'ambient' | 'music' | 'sound-effect' | 'other';
   url: string;
+  originalUrl?: string; // Unprocessed source, kept once enhancements replace url
   waveformData?: number[];
   duration: number;
   sampleRate: number;
@@ -28,6 +29,8 @@ export interface AudioFile {
   };
   analysis: AudioAnalysis;
   enhancements: AudioEnhancement[];
+  cutList?: AudioCut[]; // Ranges removed by deleting words in the transcript
+  shotChanges?: number[]; // Picture cut times in seconds, for caption timing
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,6 +43,7 @@ export interface Transcription {
   accuracy: number;
   wordCount: number;
   duration: number;
+  subtitleSource?: SubtitleSource; // Set when imported from a caption file
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,17 +55,21 @@ export interface TranscriptionSegment {
   text: string;
   speakerId?: string;
   confidence: number;
-  words: {
-    text: string;
-    startTime: number;
-    endTime: number;
-    confidence: number;
-  }[];
+  words: TranscriptionWord[];
   sentiment?: {
     score: number;
     label: 'positive' | 'negative' | 'neutral';
   };
   edited: boolean;
+  subtitle?: SubtitleCueSource;
+}
+
+export interface TranscriptionWord {
+  text: string;
+  startTime: number;
+  endTime: number;
+  confidence: number;
+  deleted?: boolean; // Struck out in a text-based edit
 }
 
 export interface Speaker {
@@ -89,7 +97,7 @@ export interface AudioAnalysis {
     shortTerm: number[]; // LUFS over time
     truePeak: number; // dBTP
     loudnessRange: number; // LU
-  };
+  } | null; // Null when the file could not be decoded and measured
   spectrum: {
     lowFrequency: number; // 0-1 relative energy
     midFrequency: number; // 0-1 relative energy
@@ -268,4 +276,135 @@ export interface SubtitleOptions {
   maxLinesPerCaption: number;
   minDuration: number;
   maxDuration: number;
-}
\ No newline at end of file
+  maxCharsPerSecond?: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// File-level parts of an imported caption file, kept so it can be written back unchanged
+export interface SubtitleSource {
+  format: SubtitleFormat;
+  fileName: string;
+  header: string; // VTT header and STYLE/REGION blocks, or the ASS sections before the events
+  footer: string; // Anything after the last cue, including trailing whitespace
+  lineEnding: '\n' | '\r\n';
+  byteOrderMark: boolean;
+}
+
+// Original form of one imported cue
+export interface SubtitleCueSource {
+  identifier?: string; // SRT index or VTT cue id
+  timing: string; // Original timing line (SRT/VTT) or Start,End fields (ASS)
+  startTime: number;
+  endTime: number;
+  settings?: string; // VTT cue settings
+  fields?: Record<string, string>; // ASS Dialogue fields other than Start, End and Text
+  markup: string; // Cue text with inline styling, as written in the file
+  text: string; // Plain text as imported, to detect edits
+  lines: string[]; // Plain text of each displayed line
+  speakerName?: string;
+  comments?: string; // VTT NOTE blocks or ASS Comment lines that preceded the cue
+}
+
+export interface SubtitleIssue {
+  id: string;
+  segmentId: string;
+  type: 'overlap' | 'reading-speed' | 'line-length' | 'line-count' | 'min-duration' | 'max-duration' | 'empty' | 'invalid-timing'
+    | 'min-gap' | 'line-break' | 'line-balance' | 'shot-change';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type CaptionLineShape = 'bottom-heavy' | 'balanced';
+
+// Caption rules from a broadcaster or platform style guide
+export interface CaptionProfile {
+  id: string;
+  name: string;
+  description: string;
+  frameRate: number; // Frame counts below are at this rate
+  maxLineLength: number;
+  maxLines: number;
+  maxCharsPerSecond: number;
+  minDuration: number; // seconds
+  maxDuration: number; // seconds
+  minGapFrames: number; // Between consecutive captions
+  shotChangeWindowFrames: number; // Captions starting or ending this close to a shot change should sit on it
+  lineShape: CaptionLineShape;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  momentary: number[]; // LUFS, one value per second
+  shortTerm: number[]; // LUFS, one value per second
+  maxMomentary: number; // LUFS
+  maxShortTerm: number; // LUFS
+  loudnessRange: number; // LU
+  truePeak: number; // dBTP
+  samplePeak: number; // dBFS
+  duration: number; // seconds
+  sampleRate: number;
+  channels: number;
+}
+
+export interface DeliverySpec {
+  id: string;
+  name: string;
+  description: string;
+  targetIntegrated: number; // LUFS
+  tolerance: number; // LU either side of the target
+  maxTruePeak: number; // dBTP
+  maxShortTerm?: number; // LUFS
+  maxMomentary?: number; // LUFS
+  maxLoudnessRange?: number; // LU
+}
+
+export interface ComplianceCheck {
+  id: string;
+  label: string;
+  measured: number;
+  requirement: string;
+  passed: boolean;
+}
+
+export interface LoudnessComplianceReport {
+  id: string;
+  fileName: string;
+  spec: DeliverySpec;
+  measurement: LoudnessMeasurement;
+  checks: ComplianceCheck[];
+  passed: boolean;
+  generatedAt: Date;
+}
+
+export interface TranscriptionOptions {
+  language?: string; // ISO 639-1 code or BCP 47 locale
+  speakerDiarization?: boolean;
+  punctuation?: boolean;
+  filterProfanity?: boolean;
+}
+
+export interface TranscriptionSettings {
+  providerId: string;
+  options: TranscriptionOptions;
+  whisper: {
+    endpoint: string;
+    model: string;
+    apiKey?: string;
+  };
+  cognitiveServices: {
+    region: string;
+    subscriptionKey: string;
+  };
+}
+
+export interface AudioCut {
+  id: string;
+  startTime: number; // seconds
+  endTime: number; // seconds
+  text: string; // Deleted words, for the edit decision list
+}
+
+export interface AudioEditOptions {
+  crossfadeMs: number; // 0 for hard cuts
+}
@@ -0,0 +1,95 @@
+import {
+  CollaboratorRole, Comment, CommentReply, CommentSuggestion, ElementFormatting, ElementMetadata, ElementType, Permission,
+  ReviewSignoff, ScriptReview, ScriptStatus, TimingInfo
+} from './script';
+
+// Lamport timestamp; ties between actors break on the actor ID
+export interface OpStamp {
+  clock: number;
+  actor: string;
+}
+
+export interface ElementFields {
+  type: ElementType;
+  formatting: ElementFormatting;
+  timing?: TimingInfo;
+  metadata?: ElementMetadata;
+  locked?: boolean;
+}
+
+export interface InsertedChar {
+  id: string; // `${clock}@${actor}`
+  value: string;
+}
+
+interface OperationBase {
+  id: string; // `${actor}:${clock}`, unique per operation
+  stamp: OpStamp;
+}
+
+export type CrdtOperation = OperationBase & (
+  | { kind: 'insert-element'; elementId: string; position: string; fields: ElementFields; text: InsertedChar[] }
+  | { kind: 'delete-element'; elementId: string }
+  | { kind: 'move-element'; elementId: string; position: string }
+  | { kind: 'set-element-field'; elementId: string; field: keyof ElementFields; value: unknown }
+  | { kind: 'insert-text'; elementId: string; after: string | null; chars: InsertedChar[] }
+  | { kind: 'delete-text'; elementId: string; charIds: string[] }
+  | { kind: 'set-script-field'; field: 'title' | 'description'; value: string }
+  | { kind: 'set-status'; status: ScriptStatus }
+  | { kind: 'add-comment'; comment: Comment }
+  | { kind: 'resolve-comment'; commentId: string }
+  | { kind: 'add-reply'; commentId: string; reply: CommentReply }
+  | { kind: 'decide-suggestion'; commentId: string; decision: SuggestionDecision }
+  | { kind: 'request-review'; review: ReviewRequest }
+  | { kind: 'sign-off'; reviewId: string; signoff: ReviewSignoff }
+);
+
+export type SuggestionDecision = Required<Pick<CommentSuggestion, 'status' | 'decidedBy' | 'decidedAt'>>;
+
+// Sign-offs travel on their own, so two reviewers signing at once both count
+export type ReviewRequest = Omit<ScriptReview, 'signoffs' | 'completedAt'>;
+
+export type OperationKind = CrdtOperation['kind'];
+
+export interface RejectedOperation {
+  operation: CrdtOperation;
+  actorName: string;
+  missing: Permission['action'];
+}
+
+// A row of a room's member table. The relay keeps one table per script and checks every operation against
+// it, so every editor applies the same operations.
+export interface RoomMember {
+  id: string;
+  name: string;
+  email: string;
+  role: CollaboratorRole;
+  actions: Permission['action'][]; // Granted actions
+  inviteCode?: string; // Only in tables an owner sends; the relay never passes codes on
+}
+
+export interface PresenceState {
+  actor: string;
+  name: string;
+  color: string;
+  elementId: string | null; // Element the collaborator's cursor is in
+  updatedAt: number;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'offline';
+
+// Relay protocol
+export type ClientMessage =
+  | { type: 'join'; room: string; actor: string; inviteCode?: string; seed: CrdtOperation[]; members: RoomMember[]; presence: PresenceState }
+  | { type: 'ops'; ops: CrdtOperation[] }
+  | { type: 'members'; members: RoomMember[] } // Only a verified owner may set or change the table
+  | { type: 'presence'; presence: PresenceState };
+
+export type ServerMessage =
+  | { type: 'welcome'; ops: CrdtOperation[]; members: RoomMember[]; peers: PresenceState[] } // The room's full operation log
+  | { type: 'ops'; ops: CrdtOperation[] }
+  | { type: 'rejected'; rejected: RejectedOperation[] } // Sent only to the editor whose operations were refused
+  | { type: 'members'; members: RoomMember[]; refused?: boolean }
+  | { type: 'presence'; presence: PresenceState }
+  | { type: 'leave'; actor: string }
+  | { type: 'refused'; reason: string }; // The join was turned away, e.g. for a wrong invite code
@@ -0,0 +1,67 @@
+import { MediaFile } from './media';
+import { ProductionProject } from './production';
+import { ResearchProject } from './research';
+import { Script, StoryboardFrame } from './script';
+
+// The whole documentary: every module's project, loaded together so references between them can be resolved
+export interface DocumentaryProject {
+  id: string;
+  title: string;
+  description: string;
+  research: ResearchProject | null;
+  scripts: Script[];
+  storyboard: StoryboardFrame[];
+  production: ProductionProject | null;
+  media: MediaFile[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What is stored for a documentary; the module projects are stored on their own and linked by ID
+export interface DocumentaryRecord {
+  id: string;
+  title: string;
+  description: string;
+  researchProjectId: string | null;
+  scriptIds: string[];
+  storyboard: StoryboardFrame[];
+  productionProjectId: string | null;
+  mediaFileIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// References
+export type EntityType =
+  | 'claim' | 'source' | 'script' | 'script-element' | 'storyboard-frame'
+  | 'shooting-day' | 'location' | 'media-file' | 'release'
+  | 'team-member' | 'milestone' | 'equipment-item' | 'equipment-package';
+
+export interface EntityRef {
+  type: EntityType;
+  id: string;
+}
+
+export interface EntityReference {
+  from: EntityRef;
+  to: EntityRef;
+  field: string; // Property holding the reference, e.g. 'metadata.locationId'
+}
+
+export interface ResolvedEntity {
+  ref: EntityRef;
+  label: string;
+  value: unknown;
+}
+
+export interface DanglingReference extends EntityReference {
+  fromLabel: string;
+  message: string;
+}
+
+// What else breaks if an entity is deleted
+export interface DeletionImpact {
+  target: ResolvedEntity;
+  references: (EntityReference & { fromLabel: string })[];
+  message: string;
+}
@@ -14,10 +14,25 @@ export interface ProductionProject {
   milestones: Milestone[];
   legalCompliance: LegalCompliance;
   distribution: DistributionPlan;
+  breakdown?: ScriptBreakdown;
+  currency?: CurrencyCode; // Base currency every rollup is converted to; USD when unset
+  exchangeRates?: ExchangeRate[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Money fields carry the currency of the record they sit on; without one they are in the project's base currency
+export type CurrencyCode = string; // ISO 4217, e.g. 'EUR'
+
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  quote: CurrencyCode; // One unit of currency is worth rate units of quote
+  rate: number;
+  date: Date; // Applies from this day until a later rate for the same pair
+  source?: string; // File the rate was imported from
+}
+
 export interface Budget {
   id: string;
   totalBudget: number;
@@ -28,17 +43,65 @@ export interface Budget {
   expenses: Expense[];
   approvedBy?: string;
   approvalDate?: Date;
+  overheadRate?: number; // Percent of direct costs
+  laborRules?: LaborRules;
+  accounting?: AccountingSettings;
   notes: string;
 }
 
+// Payroll rules the crew labor estimate is calculated with
+export interface LaborRules {
+  dayHours: number; // Straight-time hours a day rate covers
+  overtimeMultiplier: number;
+  doubleTimeAfter: number; // Hours worked
+  doubleTimeMultiplier: number;
+  mealIntervalHours: number; // A meal is owed this long after call, and again after each meal
+  mealBreakMinutes: number; // Unpaid
+  mealPenalty: number; // Per person for each started half hour a meal is late, in the base currency
+}
+
+// Chart-of-accounts mapping and the history of what went to the accountant
+export interface AccountingSettings {
+  accounts: AccountMapping[];
+  offsetAccount: { code: string; name: string }; // Credited for every expense, usually payables or a clearing account
+  exports: AccountingExport[];
+}
+
+export interface AccountMapping {
+  categoryId: string;
+  code: string;
+  name: string;
+  taxType?: string; // Xero tax rate name
+}
+
+export type AccountingFormat = 'quickbooks-iif' | 'xero-csv' | 'general-ledger';
+
+export interface AccountingExport {
+  id: string;
+  format: AccountingFormat;
+  exportedAt: Date;
+  exportedBy: string;
+  from?: Date;
+  to?: Date;
+  fileName: string;
+  expenseIds: string[];
+  total: number; // In the base currency
+  currency: CurrencyCode;
+  voidedAt?: Date; // Voiding releases the expenses so they can be exported again
+}
+
+export type BudgetSection = 'above-the-line' | 'below-the-line' | 'post-production' | 'other';
+
 export interface BudgetCategory {
   id: string;
   name: string;
   description: string;
   allocatedAmount: number;
-  spentAmount: number;
+  spentAmount: number; // Derived from approved expenses
   remainingAmount: number;
   items: BudgetItem[];
+  section?: BudgetSection; // Guessed from the name when not set
+  fringeRate?: number; // Payroll taxes and benefits, percent on top of the category
 }
 
 export interface BudgetItem {
@@ -47,6 +110,7 @@ export interface BudgetItem {
   description: string;
   estimatedCost: number;
   actualCost: number;
+  currency?: CurrencyCode;
   quantity: number;
   unit: string;
   vendor?: string;
@@ -60,8 +124,14 @@ export interface Expense {
   itemId?: string;
   date: Date;
   amount: number;
+  currency?: CurrencyCode;
   description: string;
-  receipt?: string;
+  vendor?: string;
+  tax?: number; // Included in the amount
+  receipt?: string; // Object URL of the attachment, kept in the project's blob store
+  receiptName?: string;
+  receiptScan?: ReceiptScan;
+  exportId?: string; // Set once the expense has gone out in an accounting export
   paymentMethod: string;
   paidBy: string;
   status: 'pending' | 'approved' | 'rejected' | 'reimbursed';
@@ -70,6 +140,19 @@ export interface Expense {
   notes: string;
 }
 
+// What OCR read from a receipt, kept so reviewers can compare it with the expense
+export interface ReceiptScan {
+  text: string;
+  confidence: number; // 0-100
+  vendor?: string;
+  date?: Date;
+  total?: number;
+  tax?: number;
+  currency?: CurrencyCode;
+  suggestedCategoryId?: string;
+  scannedAt: Date;
+}
+
 export interface TeamMember {
   id: string;
   name: string;
@@ -80,7 +163,9 @@ export interface TeamMember {
   rate: {
     amount: number;
     unit: 'hourly' | 'daily' | 'weekly' | 'project';
+    currency?: CurrencyCode;
   };
+  kitRental?: number; // Per shooting day, for gear the member brings, in the rate's currency
   availability: {
     startDate: Date;
     endDate: Date;
@@ -88,6 +173,7 @@ export interface TeamMember {
       date: Date;
       available: boolean;
       reason?: string;
+      source?: string; // Calendar the day was imported from; re-importing it replaces the day
     }[];
   };
   skills: string[];
@@ -109,10 +195,26 @@ export interface ProductionSchedule {
   id: string;
   phases: ProductionPhase[];
   shootingDays: ShootingDay[];
+  retiredDays?: ShootingDay[]; // Replaced by a re-optimize; calendar exports list them as cancelled
   conflicts: ScheduleConflict[];
+  settings?: ScheduleSettings;
   notes: string;
 }
 
+// Constraints the shooting schedule is optimized against
+export interface ScheduleSettings {
+  startDate?: Date; // Defaults to the production phase, then the project dates
+  endDate?: Date;
+  callTime: string; // HH:mm
+  maxDayHours: number;
+  companyMoveMinutes: number; // Travel and reset between two locations on one day
+  maxCompanyMoves: number;
+  weekdaysOnly: boolean;
+  crew: string[]; // Team member IDs booked on every shooting day
+  equipment: string[]; // Equipment item IDs taken on every shooting day
+  latitude: number; // For daylight at locations without coordinates
+}
+
 export interface ProductionPhase {
   id: string;
   name: string;
@@ -147,10 +249,11 @@ export interface ShootingDay {
   locationId: string;
   callTime: Date;
   wrapTime: Date;
-  scenes: string[];
+  scenes: string[]; // Script scene-heading element IDs
   crew: string[];
   equipment: string[];
   status: 'planned' | 'confirmed' | 'completed' | 'cancelled';
+  pinned?: boolean; // Kept as it is when the schedule is re-optimized
   notes: string;
   weatherForecast?: WeatherForecast;
 }
@@ -169,7 +272,7 @@ export interface WeatherForecast {
 
 export interface ScheduleConflict {
   id: string;
-  type: 'team' | 'equipment' | 'location' | 'other';
+  type: 'team' | 'equipment' | 'location' | 'daylight' | 'hours' | 'other';
   description: string;
   affectedItems: string[];
   startDate: Date;
@@ -179,6 +282,35 @@ export interface ScheduleConflict {
   status: 'unresolved' | 'resolved';
 }
 
+export interface ScriptBreakdown {
+  scriptId: string;
+  scriptTitle: string;
+  generatedAt: Date;
+  sheets: BreakdownSheet[];
+}
+
+// One per scene of the script
+export interface BreakdownSheet {
+  id: string;
+  sceneNumber: number;
+  headingElementId?: string; // Missing for material before the first scene heading
+  heading: string;
+  setting: 'interior' | 'exterior' | 'mixed' | 'unspecified';
+  timeOfDay: string;
+  locationName: string;
+  locationId?: string; // Set once the breakdown has been drafted into the production
+  screenTime: number; // Seconds
+  elementIds: string[];
+  items: BreakdownItem[];
+}
+
+export interface BreakdownItem {
+  id: string;
+  category: 'interview-subject' | 'b-roll' | 'prop' | 'music' | 'archival';
+  name: string;
+  elementIds: string[]; // Where the script calls for it
+}
+
 export interface EquipmentInventory {
   id: string;
   items: EquipmentItem[];
@@ -201,6 +333,7 @@ export interface EquipmentItem {
   owner: 'owned' | 'rented' | 'borrowed';
   purchaseDate?: Date;
   purchasePrice?: number;
+  currency?: CurrencyCode;
   notes: string;
   lastMaintenance?: Date;
   nextMaintenance?: Date;
@@ -225,6 +358,7 @@ export interface EquipmentRental {
   endDate: Date;
   cost: number;
   deposit?: number;
+  currency?: CurrencyCode;
   insuranceRequired: boolean;
   status: 'planned' | 'reserved' | 'picked-up' | 'returned';
   confirmationNumber?: string;
@@ -247,6 +381,7 @@ export interface InsurancePolicy {
   endDate: Date;
   cost: number;
   deductible: number;
+  currency?: CurrencyCode;
   coveredItems: string[];
   documents: string[];
   notes: string;
@@ -257,6 +392,8 @@ export interface Location {
   name: string;
   address: string;
   type: 'interior' | 'exterior' | 'studio' | 'mixed';
+  latitude?: number;
+  longitude?: number;
   contactPerson: {
     name: string;
     email: string;
@@ -272,8 +409,9 @@ export interface Location {
     startDate: Date;
     endDate: Date;
   }[];
-  cost: number;
+  cost: number; // With permitCost and deposit, in currency
   deposit?: number;
+  currency?: CurrencyCode;
   photos: string[];
   notes: string;
 }
@@ -326,6 +464,8 @@ export interface Release {
   compensation?: number;
   status: 'pending' | 'signed' | 'expired' | 'revoked';
   document?: string;
+  locationId?: string; // Location releases
+  mediaFileIds?: string[]; // Footage the release covers
   notes: string;
 }
 
@@ -338,6 +478,7 @@ export interface Permit {
   locations: string[];
   restrictions: string[];
   cost: number;
+  currency?: CurrencyCode;
   status: 'not-applied' | 'pending' | 'approved' | 'denied';
   document?: string;
   notes: string;
@@ -354,6 +495,7 @@ export interface License {
   territory: string;
   usage: string;
   cost: number;
+  currency?: CurrencyCode;
   status: 'needed' | 'pending' | 'acquired' | 'expired';
   document?: string;
   notes: string;
@@ -393,6 +535,7 @@ export interface DistributionPlatform {
   revenue?: {
     projected: number;
     actual: number;
+    currency?: CurrencyCode;
   };
   notes: string;
 }
@@ -406,6 +549,7 @@ export interface FilmFestival {
   notificationDate?: Date;
   eventDate?: Date;
   submissionFee: number;
+  currency?: CurrencyCode;
   status: 'planned' | 'submitted' | 'accepted' | 'rejected' | 'screened';
   notes: string;
 }
@@ -436,6 +580,8 @@ export interface DistributionMilestone {
 
 export interface ProductionStats {
   budget: {
+    currency: CurrencyCode; // Amounts are converted to the base currency
+    missingRates: CurrencyCode[]; // Counted as if already in the base currency
     total: number;
     spent: number;
     remaining: number;
@@ -7,8 +7,11 @@ export interface Script {
   content: ScriptElement[];
   metadata: ScriptMetadata;
   versions: ScriptVersion[];
+  branches?: ScriptBranch[];
+  currentBranch?: string;
   collaborators: Collaborator[];
   comments: Comment[];
+  review?: ScriptReview;
   createdAt: Date;
   updatedAt: Date;
   status: ScriptStatus;
@@ -56,6 +59,9 @@ export interface ElementMetadata {
   mediaFileId?: string;
   characterId?: string;
   locationId?: string;
+  claimIds?: string[]; // Research claims this line relies on
+  sourceIds?: string[];
+  avRowId?: string; // Row in the two-column audio/visual layout
   tags?: string[];
   notes?: string;
 }
@@ -90,14 +96,40 @@ export interface ScriptVersion {
   createdAt: Date;
   approved?: boolean;
   notes?: string;
+  branch?: string;
+  parentId?: string; // Version this one was saved on top of
+  snapshot?: ScriptElement[]; // Content as saved
 }
 
 export interface VersionChange {
   elementId: string;
-  type: 'added' | 'modified' | 'deleted';
+  type: 'added' | 'modified' | 'deleted' | 'moved';
   oldContent?: string;
   newContent?: string;
   reason?: string;
+  elementType?: ElementType;
+  oldIndex?: number;
+  newIndex?: number;
+}
+
+// A named line of versions, e.g. an alternative cut
+export interface ScriptBranch {
+  name: string;
+  headVersionId: string | null;
+  baseVersionId: string | null; // Where the branch split off
+  createdAt: Date;
+}
+
+export interface WordDiff {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ElementDiffRow {
+  id: string;
+  status: 'unchanged' | 'added' | 'deleted' | 'modified' | 'moved' | 'modified-moved';
+  before?: ScriptElement;
+  after?: ScriptElement;
 }
 
 export interface Collaborator {
@@ -108,6 +140,7 @@ export interface Collaborator {
   permissions: Permission[];
   lastActive: Date;
   avatar?: string;
+  inviteCode?: string; // Given to the collaborator privately; the relay asks for it before they can edit as themselves
 }
 
 export type CollaboratorRole = 'owner' | 'editor' | 'reviewer' | 'viewer';
@@ -126,6 +159,9 @@ export interface Comment {
   resolved?: boolean;
   replies?: CommentReply[];
   type: 'general' | 'suggestion' | 'question' | 'approval';
+  anchor?: CommentAnchor;
+  mentions?: string[]; // Collaborator IDs
+  suggestion?: CommentSuggestion;
 }
 
 export interface CommentReply {
@@ -133,6 +169,40 @@ export interface CommentReply {
   content: string;
   author: string;
   createdAt: Date;
+  mentions?: string[];
+}
+
+// A character range in the element's content; the quote finds the range again if edits move it
+export interface CommentAnchor {
+  elementId: string;
+  start: number;
+  end: number;
+  quote: string;
+}
+
+export interface CommentSuggestion {
+  original: string; // The anchored text when the change was suggested
+  replacement: string; // Proposed text for the anchored range
+  status: 'pending' | 'accepted' | 'rejected';
+  decidedBy?: string;
+  decidedAt?: Date;
+}
+
+export interface ScriptReview {
+  id: string;
+  requestedBy: string;
+  requestedAt: Date;
+  reviewerIds: string[]; // Collaborators who must sign off
+  signoffs: ReviewSignoff[];
+  completedAt?: Date;
+}
+
+export interface ReviewSignoff {
+  reviewerId: string;
+  decision: 'approved' | 'changes-requested';
+  note?: string;
+  signedAt: Date;
+  contentHash: string; // What was reviewed; edits afterwards make the sign-off stale
 }
 
 export interface StoryboardFrame {
@@ -144,6 +214,7 @@ export interface StoryboardFrame {
   duration: number;
   voiceoverText?: string;
   audioNotes?: string;
+  mediaFileId?: string; // Reference image or footage for the frame
 }
 
 export interface TranscriptionSegment {
@@ -280,16 +351,19 @@ export interface ExportOptions {
   includeTimecodes: boolean;
   pageNumbers: boolean;
   watermark?: string;
+  layout?: ScriptLayout;
+  sceneNumbers?: boolean;
   customFormatting?: CustomFormatting;
 }
 
 export type ExportFormat = 'pdf' | 'docx' | 'fountain' | 'fdx' | 'html' | 'txt';
+export type ScriptLayout = 'screenplay' | 'two-column';
 
 export interface CustomFormatting {
   fontFamily: string;
-  fontSize: number;
+  fontSize: number; // Points
   lineSpacing: number;
-  margins: Margins;
+  margins: Margins; // Inches
   headerFooter: HeaderFooter;
 }
 
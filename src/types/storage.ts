@@ -0,0 +1,105 @@
+import { Document, DocumentAnalysis } from './index';
+import { AudioProject } from './audio';
+import { DocumentaryRecord } from './documentary';
+import { MediaFile } from './media';
+import { ProductionProject } from './production';
+import { ResearchProject } from './research';
+import { Script } from './script';
+
+// Everything the repository can persist, keyed by object store
+export interface ProjectTypes {
+  documentaries: DocumentaryRecord;
+  research: ResearchProject;
+  production: ProductionProject;
+  audio: AudioProject;
+  scripts: Script;
+  media: MediaFile;
+}
+
+export type ProjectKind = keyof ProjectTypes;
+
+export interface ProjectSummary {
+  id: string;
+  kind: ProjectKind;
+  title: string;
+  updatedAt: Date;
+}
+
+// Shape of a row in a project store; `data` is migrated up to the current schema version on load
+export interface StoredRecord<T> {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  schemaVersion: number;
+  data: T;
+}
+
+export interface RecordMigration {
+  version: number; // Schema version this migration produces
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Media referenced by a project, stored separately so projects stay small
+export interface StoredBlob {
+  key: string;
+  owner: string; // `${kind}:${projectId}`
+  blob: Blob;
+}
+
+// App-level state that is not part of any one project
+export interface WorkspaceState {
+  id: string;
+  activeProjectIds: Partial<Record<ProjectKind, string>>;
+  activeTab: string;
+  scene: unknown; // Scene Composer output
+  document: Document | null;
+  documentAnalysis: DocumentAnalysis | null;
+  updatedAt: Date;
+}
+
+export type SaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+// Portable project archive (.ddoc): a zip holding manifest.json, workspace.json,
+// projects/<kind>/<id>.json, storyboards/<documentaryId>.json and media/<key>
+export type ArchiveSelection = Partial<Record<ProjectKind, string[]>>; // Omitted kinds are left out; undefined exports everything
+
+export interface ArchiveFileEntry {
+  path: string;
+  size: number;
+  sha256: string;
+  kind?: ProjectKind; // Project entries
+  projectId?: string;
+  title?: string;
+  schemaVersion?: number;
+  blobKey?: string; // Media entries
+  owner?: string;
+  mimeType?: string;
+  storyboardOf?: string; // Storyboard entries: the documentary the frames belong to
+  frameCount?: number;
+}
+
+export interface ArchiveManifest {
+  format: 'ddoc';
+  formatVersion: number;
+  title: string;
+  createdAt: Date;
+  files: ArchiveFileEntry[];
+}
+
+export interface RestoredProject {
+  kind: ProjectKind;
+  id: string;
+  title: string;
+  originalId?: string; // Set when the ID clashed with an existing project and was remapped
+}
+
+export interface ArchiveImportReport {
+  title: string;
+  createdAt: Date;
+  projects: RestoredProject[];
+  mediaCount: number;
+  frameCount: number; // Storyboard frames
+  workspace: Omit<WorkspaceState, 'id' | 'updatedAt'> | null;
+  warnings: string[];
+}
@@ -0,0 +1,20 @@
+// The package ships without type declarations; this covers the Speech SDK subset it re-exports
+declare module 'web-speech-cognitive-services/lib/SpeechServices/SpeechSDK' {
+  import {
+    AudioConfig,
+    OutputFormat,
+    ResultReason,
+    SpeechConfig,
+    SpeechRecognizer
+  } from 'microsoft-cognitiveservices-speech-sdk';
+
+  const SpeechSDK: {
+    AudioConfig: typeof AudioConfig;
+    OutputFormat: typeof OutputFormat;
+    ResultReason: typeof ResultReason;
+    SpeechConfig: typeof SpeechConfig;
+    SpeechRecognizer: typeof SpeechRecognizer;
+  };
+
+  export default SpeechSDK;
+}
@@ -0,0 +1,268 @@
+import { endOfDay, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AccountingExport,
+  AccountingFormat,
+  AccountingSettings,
+  AccountMapping,
+  Budget,
+  BudgetCategory,
+  Expense,
+  ProductionProject
+} from '../types/production';
+import { isSpent } from './budgetEngine';
+import { createConverter, getBaseCurrency } from './currency';
+import { toCsv } from './csv';
+
+// Accounting exports
+// Approved and reimbursed expenses go to the books once. Each export is logged and flags its expenses;
+// voiding an export clears the flags so the same expenses can be sent again.
+
+export interface ExportRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface ExportCandidates {
+  ready: Expense[];
+  exported: Expense[]; // In range but already sent
+}
+
+export interface AccountingExportResult {
+  blob: Blob;
+  record: AccountingExport;
+  budget: Budget;
+}
+
+interface LedgerEntry {
+  expense: Expense;
+  category: BudgetCategory;
+  account: AccountMapping;
+  amount: number; // Base currency
+  rate: number | null; // Null when the expense is already in the base currency
+  reference: string;
+}
+
+export const ACCOUNTING_FORMATS: Record<AccountingFormat, { label: string; extension: string; type: string }> = {
+  'quickbooks-iif': { label: 'QuickBooks IIF', extension: 'iif', type: 'text/plain;charset=utf-8' },
+  'xero-csv': { label: 'Xero bills CSV', extension: 'csv', type: 'text/csv;charset=utf-8' },
+  'general-ledger': { label: 'General ledger CSV', extension: 'csv', type: 'text/csv;charset=utf-8' }
+};
+
+const DEFAULT_OFFSET_ACCOUNT = { code: '2000', name: 'Accounts Payable' };
+const DEFAULT_TAX_TYPE = 'Tax on Purchases';
+const NO_TAX_TYPE = 'Tax Exempt';
+
+// Settings
+export const getAccountingSettings = (budget: Budget): AccountingSettings => ({
+  accounts: budget.accounting?.accounts ?? [],
+  offsetAccount: budget.accounting?.offsetAccount ?? DEFAULT_OFFSET_ACCOUNT,
+  exports: budget.accounting?.exports ?? []
+});
+
+export const getAccountMapping = (budget: Budget, categoryId: string): AccountMapping | undefined =>
+  getAccountingSettings(budget).accounts.find(account => account.categoryId === categoryId);
+
+export const setAccountMapping = (budget: Budget, categoryId: string, updates: Partial<AccountMapping>): AccountingSettings => {
+  const settings = getAccountingSettings(budget);
+  const current = getAccountMapping(budget, categoryId) ?? { categoryId, code: '', name: '' };
+  return {
+    ...settings,
+    accounts: [...settings.accounts.filter(account => account.categoryId !== categoryId), { ...current, ...updates, categoryId }]
+  };
+};
+
+// Candidates
+export const getExportCandidates = (budget: Budget, range: ExportRange): ExportCandidates => {
+  const inRange = budget.expenses
+    .filter(isSpent)
+    .filter(expense => !(range.from && isBefore(expense.date, startOfDay(range.from))))
+    .filter(expense => !(range.to && isAfter(expense.date, endOfDay(range.to))))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return {
+    ready: inRange.filter(expense => !expense.exportId),
+    exported: inRange.filter(expense => expense.exportId)
+  };
+};
+
+// Locks
+// What went to the books stays fixed until the export is voided; notes, receipts and the like can still change
+const LOCKED_FIELDS: Partial<Record<keyof Expense, string>> = {
+  amount: 'amount',
+  currency: 'currency',
+  tax: 'tax',
+  date: 'date',
+  categoryId: 'category'
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+// Names of the booked fields an update would change, plus status when it would take the expense off the books
+export const getLockedChanges = (expense: Expense, updates: Partial<Expense>): string[] => {
+  if (!expense.exportId) return [];
+  const changed = (Object.keys(LOCKED_FIELDS) as (keyof Expense)[])
+    .filter(field => field in updates && !sameValue(updates[field], expense[field]))
+    .map(field => LOCKED_FIELDS[field]!);
+  return updates.status && !isSpent({ ...expense, status: updates.status }) ? [...changed, 'status'] : changed;
+};
+
+// Every category needs an account before anything goes out, so nothing lands in a suspense account
+const getLedgerEntries = (project: ProductionProject, expenses: Expense[], requireRates: boolean): LedgerEntry[] => {
+  const { budget } = project;
+  const converter = createConverter(project);
+  const categories = new Map(budget.categories.map(category => [category.id, category]));
+
+  const unknown = expenses.filter(expense => !categories.has(expense.categoryId));
+  if (unknown.length > 0) {
+    throw new Error(`${unknown.length} expense${unknown.length === 1 ? ' is' : 's are'} not in any category: ${unknown.map(expense => expense.description).join(', ')}`);
+  }
+
+  const unmapped = Array.from(new Set(expenses.map(expense => expense.categoryId)))
+    .filter(categoryId => !getAccountMapping(budget, categoryId)?.code.trim())
+    .map(categoryId => categories.get(categoryId)!.name);
+  if (unmapped.length > 0) {
+    throw new Error(`Map these categories to an account code first: ${unmapped.join(', ')}`);
+  }
+
+  const entries = expenses.map(expense => ({
+    expense,
+    category: categories.get(expense.categoryId)!,
+    account: getAccountMapping(budget, expense.categoryId)!,
+    amount: Math.round(converter.convert(expense.amount, expense.currency, expense.date) * 100) / 100,
+    rate: expense.currency && expense.currency !== converter.base ? converter.getRate(expense.currency, expense.date) : null,
+    reference: `EXP-${expense.id.slice(0, 8).toUpperCase()}`
+  }));
+
+  if (requireRates && converter.missing.size > 0) {
+    throw new Error(`No exchange rate to ${converter.base} for ${Array.from(converter.missing).join(', ')}; add one on the Currency tab first.`);
+  }
+  return entries;
+};
+
+// Formats
+// IIF is tab separated with no quoting, so tabs and line breaks inside fields are flattened
+const iifField = (value: string): string => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+// One general journal transaction per expense, in the base currency since IIF has no currency column.
+// QuickBooks matches accounts by name, so the mapped name is used when there is one.
+const toIif = (entries: LedgerEntry[], offsetAccount: AccountingSettings['offsetAccount']): string => {
+  const rows = [
+    ['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!ENDTRNS'],
+    ...entries.flatMap(entry => {
+      const date = format(entry.expense.date, 'MM/dd/yyyy');
+      const name = entry.expense.vendor ?? '';
+      const memo = entry.expense.description;
+      return [
+        ['TRNS', '', 'GENERAL JOURNAL', date, offsetAccount.name || offsetAccount.code, name, (-entry.amount).toFixed(2), entry.reference, memo],
+        ['SPL', '', 'GENERAL JOURNAL', date, entry.account.name || entry.account.code, name, entry.amount.toFixed(2), entry.reference, memo],
+        ['ENDTRNS']
+      ];
+    })
+  ];
+  return rows.map(row => row.map(iifField).join('\t')).join('\r\n');
+};
+
+// Xero's bill import template; amounts stay in their own currency and Xero converts them at its rates.
+// Xero reads dates in the organisation's regional format, which is day first outside the US.
+const toXeroCsv = (entries: LedgerEntry[], base: string): string => {
+  const dateFormat = base === 'USD' ? 'MM/dd/yyyy' : 'dd/MM/yyyy';
+  return toCsv([
+    ['*ContactName', '*InvoiceNumber', '*InvoiceDate', '*DueDate', 'Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency'],
+    ...entries.map(({ expense, account, reference }) => [
+      expense.vendor || expense.paidBy || 'Unknown vendor',
+      reference,
+      format(expense.date, dateFormat),
+      format(expense.date, dateFormat),
+      expense.description,
+      '1',
+      expense.amount.toFixed(2),
+      account.code,
+      account.taxType || (expense.tax ? DEFAULT_TAX_TYPE : NO_TAX_TYPE),
+      expense.tax ? expense.tax.toFixed(2) : '',
+      expense.currency ?? base
+    ])
+  ]);
+};
+
+// Balanced debit and credit lines per expense, with the original amount kept beside the converted one
+const toGeneralLedgerCsv = (entries: LedgerEntry[], offsetAccount: AccountingSettings['offsetAccount'], base: string): string => toCsv([
+  ['Date', 'Reference', 'Account Code', 'Account Name', 'Description', 'Vendor', 'Category', `Debit (${base})`, `Credit (${base})`, 'Original Amount', 'Original Currency', 'Exchange Rate', 'Expense ID'],
+  ...entries.flatMap(({ expense, category, account, amount, rate, reference }) => {
+    const shared = [expense.description, expense.vendor ?? '', category.name];
+    const original = [expense.amount.toFixed(2), expense.currency ?? base, rate === null ? '' : String(rate), expense.id];
+    const date = format(expense.date, 'yyyy-MM-dd');
+    return [
+      [date, reference, account.code, account.name, ...shared, amount.toFixed(2), '', ...original],
+      [date, reference, offsetAccount.code, offsetAccount.name, ...shared, '', amount.toFixed(2), ...original]
+    ];
+  })
+]);
+
+// Export
+export const createAccountingExport = (
+  project: ProductionProject,
+  exportFormat: AccountingFormat,
+  range: ExportRange,
+  exportedBy = 'Current User',
+  now = new Date()
+): AccountingExportResult => {
+  const { budget } = project;
+  if (range.from && range.to && isAfter(range.from, range.to)) {
+    throw new Error('The start of the range is after its end.');
+  }
+
+  const expenses = getExportCandidates(budget, range).ready;
+  if (expenses.length === 0) {
+    throw new Error('There are no approved expenses in that range that have not been exported already.');
+  }
+
+  const settings = getAccountingSettings(budget);
+  const base = getBaseCurrency(project);
+  const entries = getLedgerEntries(project, expenses, exportFormat !== 'xero-csv');
+  const content = exportFormat === 'quickbooks-iif'
+    ? toIif(entries, settings.offsetAccount)
+    : exportFormat === 'xero-csv'
+      ? toXeroCsv(entries, base)
+      : toGeneralLedgerCsv(entries, settings.offsetAccount, base);
+
+  const { extension, type } = ACCOUNTING_FORMATS[exportFormat];
+  const record: AccountingExport = {
+    id: uuidv4(),
+    format: exportFormat,
+    exportedAt: now,
+    exportedBy,
+    from: range.from,
+    to: range.to,
+    fileName: `${project.title.replace(/\s+/g, '-').toLowerCase()}-${exportFormat}-${format(now, 'yyyyMMdd-HHmm')}.${extension}`,
+    expenseIds: expenses.map(expense => expense.id),
+    total: Math.round(entries.reduce((total, entry) => total + entry.amount, 0) * 100) / 100,
+    currency: base
+  };
+  const exported = new Set(record.expenseIds);
+
+  return {
+    blob: new Blob([content], { type }),
+    record,
+    budget: {
+      ...budget,
+      expenses: budget.expenses.map(expense => exported.has(expense.id) ? { ...expense, exportId: record.id } : expense),
+      accounting: { ...settings, exports: [...settings.exports, record] }
+    }
+  };
+};
+
+export const voidAccountingExport = (budget: Budget, exportId: string, now = new Date()): Budget => {
+  const settings = getAccountingSettings(budget);
+  return {
+    ...budget,
+    expenses: budget.expenses.map(expense => expense.exportId === exportId ? { ...expense, exportId: undefined } : expense),
+    accounting: {
+      ...settings,
+      exports: settings.exports.map(record => record.id === exportId ? { ...record, voidedAt: now } : record)
+    }
+  };
+};
@@ -0,0 +1,584 @@
+import audioBufferToWav from 'audiobuffer-to-wav';
+
+// Decoded, de-interleaved PCM audio that the DSP functions operate on
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export interface EqBand {
+  frequency: number;
+  gain: number; // dB
+  q: number;
+}
+
+export interface CompressorParameters {
+  threshold: number; // dBFS
+  ratio: number;
+  attack: number; // ms
+  release: number; // ms
+  makeupGain: number; // dB
+}
+
+export const DEFAULT_SAMPLE_RATE = 48000;
+const SILENCE_DB = -144;
+
+// Decoding and encoding
+export const decodeAudio = async (blob: Blob, sampleRate: number = DEFAULT_SAMPLE_RATE): Promise<PcmAudio> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  // An offline context is enough for decoding and does not need a user gesture
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(arrayBuffer);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(new Float32Array(buffer.getChannelData(c)));
+  }
+
+  return { sampleRate: buffer.sampleRate, channels };
+};
+
+// decodeAudioData resamples to the context's rate, so a file's own rate has to come from its header.
+// Reads WAV, FLAC and MPEG audio headers; null for anything else.
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
+};
+
+export const readSampleRate = (bytes: Uint8Array): number | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  if (bytes.length >= 12 && text(0, 4) === 'RIFF' && text(8, 4) === 'WAVE') {
+    for (let offset = 12; offset + 16 <= bytes.length; offset += 8 + view.getUint32(offset + 4, true) + (view.getUint32(offset + 4, true) % 2)) {
+      if (text(offset, 4) === 'fmt ') return view.getUint32(offset + 12, true);
+    }
+    return null;
+  }
+
+  if (bytes.length >= 21 && text(0, 4) === 'fLaC') {
+    // STREAMINFO comes first; the rate is 20 bits, 10 bytes into its data
+    return (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4) || null;
+  }
+
+  let offset = 0;
+  if (text(0, 3) === 'ID3' && bytes.length >= 10) {
+    offset = 10 + ((bytes[6] & 0x7f) << 21 | (bytes[7] & 0x7f) << 14 | (bytes[8] & 0x7f) << 7 | (bytes[9] & 0x7f));
+  }
+  for (; offset + 4 <= bytes.length; offset++) {
+    // Layer bits of 0 are reserved in MPEG audio, and are how AAC in ADTS frames is told apart
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0 || ((bytes[offset + 1] >> 1) & 0x03) === 0) continue;
+    const version = (bytes[offset + 1] >> 3) & 0x03;
+    const index = (bytes[offset + 2] >> 2) & 0x03;
+    if (version !== 1 && index !== 3) return MPEG_SAMPLE_RATES[version][index];
+  }
+  return null;
+};
+
+export const toAudioBuffer = (audio: PcmAudio): AudioBuffer => {
+  const buffer = new AudioBuffer({
+    length: getLength(audio),
+    numberOfChannels: audio.channels.length,
+    sampleRate: audio.sampleRate
+  });
+
+  audio.channels.forEach((data, c) => buffer.copyToChannel(data, c));
+
+  return buffer;
+};
+
+export const encodeWav = (audio: PcmAudio, options: { float32?: boolean } = {}): Blob => {
+  const wavData = audioBufferToWav(toAudioBuffer(audio), { float32: options.float32 });
+  return new Blob([wavData], { type: 'audio/wav' });
+};
+
+export const getLength = (audio: PcmAudio): number => {
+  return audio.channels.length > 0 ? audio.channels[0].length : 0;
+};
+
+export const getDuration = (audio: PcmAudio): number => {
+  return getLength(audio) / audio.sampleRate;
+};
+
+export const cloneAudio = (audio: PcmAudio): PcmAudio => ({
+  sampleRate: audio.sampleRate,
+  channels: audio.channels.map(channel => new Float32Array(channel))
+});
+
+export const downmixToMono = (audio: PcmAudio): PcmAudio => {
+  if (audio.channels.length <= 1) return audio;
+
+  const mono = new Float32Array(getLength(audio));
+  const scale = 1 / audio.channels.length;
+  for (const channel of audio.channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += channel[i] * scale;
+    }
+  }
+
+  return { sampleRate: audio.sampleRate, channels: [mono] };
+};
+
+// Level helpers
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number): number => {
+  return gain > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(gain)) : SILENCE_DB;
+};
+
+export const getSamplePeak = (audio: PcmAudio): number => {
+  let peak = 0;
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+};
+
+export const applyGain = (audio: PcmAudio, db: number): PcmAudio => {
+  const gain = dbToGain(db);
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map(channel => channel.map(sample => sample * gain))
+  };
+};
+
+// RMS level in dBFS of consecutive frames, averaged across channels
+export const computeRmsEnvelope = (audio: PcmAudio, frameSize: number): Float32Array => {
+  const length = getLength(audio);
+  const envelope = new Float32Array(Math.ceil(length / frameSize));
+
+  for (let frame = 0; frame < envelope.length; frame++) {
+    const start = frame * frameSize;
+    const end = Math.min(length, start + frameSize);
+    let sum = 0;
+    for (const channel of audio.channels) {
+      for (let i = start; i < end; i++) {
+        sum += channel[i] * channel[i];
+      }
+    }
+    const meanSquare = sum / ((end - start) * Math.max(1, audio.channels.length));
+    envelope[frame] = gainToDb(Math.sqrt(meanSquare));
+  }
+
+  return envelope;
+};
+
+// FFT
+type Fft = (re: Float32Array, im: Float32Array, inverse?: boolean) => void;
+
+// Iterative radix-2 FFT; size must be a power of two
+export const createFft = (size: number): Fft => {
+  const levels = Math.log2(size);
+  if (!Number.isInteger(levels)) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let bit = 0; bit < levels; bit++) {
+      reversed = (reversed << 1) | ((i >>> bit) & 1);
+    }
+    reverse[i] = reversed;
+  }
+
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+
+  return (re, im, inverse = false) => {
+    for (let i = 0; i < size; i++) {
+      const j = reverse[i];
+      if (j > i) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    const direction = inverse ? 1 : -1;
+    for (let half = 1; half < size; half *= 2) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const wr = cos[k * step];
+          const wi = direction * sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+
+    if (inverse) {
+      for (let i = 0; i < size; i++) {
+        re[i] /= size;
+        im[i] /= size;
+      }
+    }
+  };
+};
+
+const createHannWindow = (size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+};
+
+// Spectral-subtraction noise reduction
+export const reduceNoise = (
+  audio: PcmAudio,
+  level: number, // 0-100
+  options: { fftSize?: number; noiseFrameRatio?: number } = {}
+): PcmAudio => {
+  const fftSize = options.fftSize ?? 2048;
+  const noiseFrameRatio = options.noiseFrameRatio ?? 0.1;
+  const amount = Math.max(0, Math.min(100, level)) / 100;
+  if (amount === 0) return cloneAudio(audio);
+
+  // Over-subtraction factor and spectral floor grow with the requested level
+  const overSubtraction = 1 + 2 * amount;
+  const spectralFloor = 1 - 0.9 * amount;
+  const hop = fftSize / 4;
+  const bins = fftSize / 2 + 1;
+  const fft = createFft(fftSize);
+  const hann = createHannWindow(fftSize);
+
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map(input => {
+      const frameCount = Math.max(1, Math.ceil(input.length / hop));
+      const re = new Float32Array(fftSize);
+      const im = new Float32Array(fftSize);
+
+      const loadFrame = (frame: number) => {
+        const offset = frame * hop - fftSize / 2;
+        for (let i = 0; i < fftSize; i++) {
+          const index = offset + i;
+          re[i] = index >= 0 && index < input.length ? input[index] * hann[i] : 0;
+          im[i] = 0;
+        }
+      };
+
+      // First pass: estimate the noise profile from the quietest frames
+      const frameEnergy: { frame: number; energy: number }[] = [];
+      for (let frame = 0; frame < frameCount; frame++) {
+        const offset = frame * hop - fftSize / 2;
+        let energy = 0;
+        for (let i = 0; i < fftSize; i++) {
+          const index = offset + i;
+          if (index >= 0 && index < input.length) energy += input[index] * input[index];
+        }
+        frameEnergy.push({ frame, energy });
+      }
+      frameEnergy.sort((a, b) => a.energy - b.energy);
+      const noiseFrames = frameEnergy.slice(0, Math.max(1, Math.floor(frameCount * noiseFrameRatio)));
+
+      const noiseProfile = new Float32Array(bins);
+      for (const { frame } of noiseFrames) {
+        loadFrame(frame);
+        fft(re, im);
+        for (let k = 0; k < bins; k++) {
+          noiseProfile[k] += Math.hypot(re[k], im[k]) / noiseFrames.length;
+        }
+      }
+
+      // Second pass: attenuate each bin and overlap-add the result
+      const output = new Float32Array(input.length);
+      const normalization = new Float32Array(input.length);
+      const previousGain = new Float32Array(bins).fill(1);
+
+      for (let frame = 0; frame < frameCount; frame++) {
+        loadFrame(frame);
+        fft(re, im);
+
+        for (let k = 0; k < bins; k++) {
+          const magnitude = Math.hypot(re[k], im[k]);
+          const rawGain = magnitude > 0
+            ? Math.max(spectralFloor, 1 - (overSubtraction * noiseProfile[k]) / magnitude)
+            : spectralFloor;
+          // Temporal smoothing keeps isolated bins from "twinkling" (musical noise)
+          const gain = 0.5 * previousGain[k] + 0.5 * rawGain;
+          previousGain[k] = gain;
+
+          re[k] *= gain;
+          im[k] *= gain;
+          if (k > 0 && k < fftSize / 2) {
+            re[fftSize - k] = re[k];
+            im[fftSize - k] = -im[k];
+          }
+        }
+
+        fft(re, im, true);
+
+        const offset = frame * hop - fftSize / 2;
+        for (let i = 0; i < fftSize; i++) {
+          const index = offset + i;
+          if (index >= 0 && index < output.length) {
+            output[index] += re[i] * hann[i];
+            normalization[index] += hann[i] * hann[i];
+          }
+        }
+      }
+
+      for (let i = 0; i < output.length; i++) {
+        if (normalization[i] > 1e-6) output[i] /= normalization[i];
+      }
+
+      return output;
+    })
+  };
+};
+
+// Biquad filters (RBJ audio EQ cookbook)
+export const createPeakingFilter = (sampleRate: number, band: EqBand): BiquadCoefficients => {
+  const a = Math.pow(10, band.gain / 40);
+  const w0 = (2 * Math.PI * Math.min(band.frequency, sampleRate / 2 - 1)) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.max(band.q, 0.01));
+  const cosW0 = Math.cos(w0);
+  const a0 = 1 + alpha / a;
+
+  return {
+    b0: (1 + alpha * a) / a0,
+    b1: (-2 * cosW0) / a0,
+    b2: (1 - alpha * a) / a0,
+    a1: (-2 * cosW0) / a0,
+    a2: (1 - alpha / a) / a0
+  };
+};
+
+export const applyBiquad = (input: Float32Array, coefficients: BiquadCoefficients): Float32Array => {
+  const { b0, b1, b2, a1, a2 } = coefficients;
+  const output = new Float32Array(input.length);
+  // Transposed direct form II
+  let z1 = 0;
+  let z2 = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b2 * x - a2 * y;
+    output[i] = y;
+  }
+
+  return output;
+};
+
+export const applyEqBands = (audio: PcmAudio, bands: EqBand[]): PcmAudio => {
+  const filters = bands
+    .filter(band => band.gain !== 0 && band.frequency > 0)
+    .map(band => createPeakingFilter(audio.sampleRate, band));
+
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map(channel =>
+      filters.reduce((signal, filter) => applyBiquad(signal, filter), new Float32Array(channel))
+    )
+  };
+};
+
+// Dynamics
+const timeConstant = (ms: number, sampleRate: number): number => {
+  return ms > 0 ? Math.exp(-1 / ((ms / 1000) * sampleRate)) : 0;
+};
+
+// Feed-forward compressor with a stereo-linked peak detector and makeup gain
+export const compress = (audio: PcmAudio, parameters: CompressorParameters): PcmAudio => {
+  const length = getLength(audio);
+  const ratio = Math.max(1, parameters.ratio);
+  const attack = timeConstant(parameters.attack, audio.sampleRate);
+  const release = timeConstant(parameters.release, audio.sampleRate);
+  const makeup = parameters.makeupGain;
+  const output = audio.channels.map(() => new Float32Array(length));
+  let reduction = 0;
+
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const channel of audio.channels) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+
+    const over = gainToDb(peak) - parameters.threshold;
+    const target = over > 0 ? over * (1 - 1 / ratio) : 0;
+    const coefficient = target > reduction ? attack : release;
+    reduction = coefficient * reduction + (1 - coefficient) * target;
+
+    const gain = dbToGain(makeup - reduction);
+    for (let c = 0; c < audio.channels.length; c++) {
+      output[c][i] = audio.channels[c][i] * gain;
+    }
+  }
+
+  return { sampleRate: audio.sampleRate, channels: output };
+};
+
+export const limitPeaks = (audio: PcmAudio, ceilingDb: number): PcmAudio => {
+  const limited = compress(audio, {
+    threshold: ceilingDb,
+    ratio: 20,
+    attack: 0,
+    release: 50,
+    makeupGain: 0
+  });
+
+  // The instant-attack limiter still lets a little through at 20:1, so clamp the remainder
+  const ceiling = dbToGain(ceilingDb);
+  for (const channel of limited.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] = Math.max(-ceiling, Math.min(ceiling, channel[i]));
+    }
+  }
+
+  return limited;
+};
+
+// Loudness (ITU-R BS.1770)
+export const createKWeightingFilters = (sampleRate: number): BiquadCoefficients[] => {
+  // High-shelf pre-filter, recomputed for the actual sample rate
+  const shelfFrequency = 1681.974450955533;
+  const shelfGain = 3.999843853973347;
+  const shelfQ = 0.7071752369554196;
+  let k = Math.tan((Math.PI * shelfFrequency) / sampleRate);
+  const vh = Math.pow(10, shelfGain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / shelfQ + k * k;
+
+  const shelf: BiquadCoefficients = {
+    b0: (vh + (vb * k) / shelfQ + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / shelfQ + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / shelfQ + k * k) / a0
+  };
+
+  // RLB high-pass
+  const highPassFrequency = 38.13547087602444;
+  const highPassQ = 0.5003270373238773;
+  k = Math.tan((Math.PI * highPassFrequency) / sampleRate);
+  a0 = 1 + k / highPassQ + k * k;
+
+  const highPass: BiquadCoefficients = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / highPassQ + k * k) / a0
+  };
+
+  return [shelf, highPass];
+};
+
+// BS.1770 channel weights: L, R, C at 1.0, LFE excluded, surrounds at +1.5 dB
+export const getChannelWeight = (channel: number, channelCount: number): number => {
+  if (channelCount < 6) return 1;
+  if (channel === 3) return 0;
+  if (channel >= 4) return 1.41;
+  return 1;
+};
+
+export const applyKWeighting = (audio: PcmAudio): Float32Array[] => {
+  const filters = createKWeightingFilters(audio.sampleRate);
+  return audio.channels.map(channel =>
+    filters.reduce((signal, filter) => applyBiquad(signal, filter), channel)
+  );
+};
+
+// Channel-weighted mean square of consecutive, non-overlapping sub-blocks
+export const computeSubBlockPowers = (weighted: Float32Array[], subBlockSize: number): number[] => {
+  const length = weighted.length > 0 ? weighted[0].length : 0;
+  const powers: number[] = [];
+
+  for (let start = 0; start + subBlockSize <= length; start += subBlockSize) {
+    let power = 0;
+    weighted.forEach((channel, c) => {
+      const weight = getChannelWeight(c, weighted.length);
+      if (weight === 0) return;
+      let sum = 0;
+      for (let i = start; i < start + subBlockSize; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += weight * (sum / subBlockSize);
+    });
+    powers.push(power);
+  }
+
+  return powers;
+};
+
+// Sliding blocks of `count` sub-blocks, advancing one sub-block at a time
+export const combineSubBlocks = (subBlockPowers: number[], count: number): number[] => {
+  const blocks: number[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < subBlockPowers.length; i++) {
+    sum += subBlockPowers[i];
+    if (i >= count) sum -= subBlockPowers[i - count];
+    if (i >= count - 1) blocks.push(Math.max(0, sum / count));
+  }
+
+  return blocks;
+};
+
+export const powerToLoudness = (power: number): number => {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+};
+
+// Gated integrated loudness over 400 ms blocks with 75% overlap
+export const gateIntegratedLoudness = (blockPowers: number[]): number => {
+  const absoluteGated = blockPowers.filter(power => powerToLoudness(power) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const relativeGate = powerToLoudness(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(power => powerToLoudness(power) > relativeGate);
+  if (relativeGated.length === 0) return -Infinity;
+
+  return powerToLoudness(mean(relativeGated));
+};
+
+export const measureIntegratedLoudness = (audio: PcmAudio): number => {
+  const subBlockPowers = computeSubBlockPowers(applyKWeighting(audio), Math.round(0.1 * audio.sampleRate));
+  return gateIntegratedLoudness(combineSubBlocks(subBlockPowers, 4));
+};
+
+// Gain to the target loudness, followed by a peak limiter so the gain cannot clip
+export const normalizeLoudness = (
+  audio: PcmAudio,
+  targetLUFS: number,
+  ceilingDb: number = -1
+): { audio: PcmAudio; measuredLUFS: number; gain: number } => {
+  const measuredLUFS = measureIntegratedLoudness(audio);
+  if (!Number.isFinite(measuredLUFS)) {
+    return { audio: cloneAudio(audio), measuredLUFS, gain: 0 };
+  }
+
+  const gain = targetLUFS - measuredLUFS;
+  return {
+    audio: limitPeaks(applyGain(audio, gain), ceilingDb),
+    measuredLUFS,
+    gain
+  };
+};
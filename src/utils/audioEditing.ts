@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AudioCut, AudioEditOptions, Transcription, TranscriptionSegment, TranscriptionWord } from '../types/audio';
+import { PcmAudio, getLength } from './audioDsp';
+
+// Cut list
+// A run of deleted words is cut from the middle of the pause before it to the middle of the pause
+// after it, so the edit keeps one natural pause instead of two half pauses or none
+export const buildCutList = (segments: TranscriptionSegment[]): AudioCut[] => {
+  const words = segments
+    .flatMap(segment => segment.words)
+    .sort((a, b) => a.startTime - b.startTime);
+  const cuts: AudioCut[] = [];
+
+  let index = 0;
+  while (index < words.length) {
+    if (!words[index].deleted) {
+      index++;
+      continue;
+    }
+
+    const runStart = index;
+    while (index < words.length && words[index].deleted) index++;
+
+    const first = words[runStart];
+    const last = words[index - 1];
+    const previous = words[runStart - 1];
+    const next = words[index];
+
+    cuts.push({
+      id: uuidv4(),
+      startTime: previous ? (previous.endTime + first.startTime) / 2 : first.startTime,
+      endTime: next ? (last.endTime + next.startTime) / 2 : last.endTime,
+      text: words.slice(runStart, index).map(word => word.text).join(' ')
+    });
+  }
+
+  return cuts;
+};
+
+export const getCutDuration = (cuts: AudioCut[]): number => {
+  return cuts.reduce((total, cut) => total + cut.endTime - cut.startTime, 0);
+};
+
+// Time in the edited audio for a time in the source; times inside a cut land on the join.
+// Expects cuts sorted by start time, as buildCutList returns them.
+export const mapTimeThroughCuts = (time: number, cuts: AudioCut[]): number => {
+  let removed = 0;
+  for (const cut of cuts) {
+    if (cut.startTime >= time) break;
+    removed += Math.min(time, cut.endTime) - cut.startTime;
+  }
+  return time - removed;
+};
+
+// Rendering
+interface KeptRegion {
+  start: number; // samples
+  end: number;
+}
+
+const getKeptRegions = (cuts: AudioCut[], length: number, sampleRate: number): KeptRegion[] => {
+  const regions: KeptRegion[] = [];
+  let position = 0;
+
+  [...cuts]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(cut => {
+      const start = Math.max(position, Math.round(cut.startTime * sampleRate));
+      const end = Math.min(length, Math.round(cut.endTime * sampleRate));
+      if (start > position) regions.push({ start: position, end: start });
+      position = Math.max(position, end);
+    });
+
+  if (position < length) regions.push({ start: position, end: length });
+  return regions;
+};
+
+// Removes the cut ranges. Each join is an equal-power crossfade centred on the cut point, borrowing
+// half the fade from the removed audio on either side so the edited length is exactly the kept length.
+export const renderCuts = (audio: PcmAudio, cuts: AudioCut[], options: AudioEditOptions): PcmAudio => {
+  const length = getLength(audio);
+  const regions = getKeptRegions(cuts, length, audio.sampleRate);
+  const fadeSamples = Math.round((options.crossfadeMs / 1000) * audio.sampleRate);
+
+  // Half-fade per join, limited by the removed audio available on each side
+  const halfFades = regions.slice(1).map((region, i) => {
+    const removed = region.start - regions[i].end;
+    return Math.floor(Math.min(fadeSamples, removed) / 2);
+  });
+
+  const outputLength = regions.reduce((total, region) => total + region.end - region.start, 0);
+  const channels = audio.channels.map(source => {
+    const output = new Float32Array(outputLength);
+    let position = 0;
+
+    regions.forEach((region, i) => {
+      const fadeIn = i > 0 ? halfFades[i - 1] : 0;
+      const fadeOut = i < halfFades.length ? halfFades[i] : 0;
+      const sourceStart = region.start - fadeIn;
+      const sourceEnd = region.end + fadeOut;
+      const outputStart = position - fadeIn;
+
+      for (let n = sourceStart; n < sourceEnd; n++) {
+        let gain = 1;
+        const fromStart = n - sourceStart;
+        const toEnd = sourceEnd - 1 - n;
+        if (fromStart < 2 * fadeIn) gain *= Math.sin((Math.PI / 2) * (fromStart + 0.5) / (2 * fadeIn));
+        if (toEnd < 2 * fadeOut) gain *= Math.sin((Math.PI / 2) * (toEnd + 0.5) / (2 * fadeOut));
+
+        const target = outputStart + n - sourceStart;
+        if (target >= 0 && target < outputLength) output[target] += source[n] * gain;
+      }
+
+      position += region.end - region.start;
+    });
+
+    return output;
+  });
+
+  return { sampleRate: audio.sampleRate, channels };
+};
+
+// Transcript of the edited audio: deleted words are dropped and the rest shifted onto the new timeline
+export const applyCutsToTranscription = (transcription: Transcription, cuts: AudioCut[]): Transcription => {
+  const mapWord = (word: TranscriptionWord): TranscriptionWord => ({
+    text: word.text,
+    startTime: mapTimeThroughCuts(word.startTime, cuts),
+    endTime: mapTimeThroughCuts(word.endTime, cuts),
+    confidence: word.confidence
+  });
+
+  const segments = transcription.segments
+    .map(segment => {
+      const words = segment.words.filter(word => !word.deleted).map(mapWord);
+      if (segment.words.length > 0 && words.length === 0) return null;
+
+      const startTime = mapTimeThroughCuts(segment.startTime, cuts);
+      const endTime = Math.max(startTime, mapTimeThroughCuts(segment.endTime, cuts));
+
+      return {
+        ...segment,
+        id: uuidv4(),
+        startTime,
+        endTime,
+        text: segment.words.length > 0 ? words.map(word => word.text).join(' ') : segment.text,
+        words
+      };
+    })
+    .filter((segment): segment is TranscriptionSegment => segment !== null);
+
+  return {
+    ...transcription,
+    id: uuidv4(),
+    segments,
+    speakers: transcription.speakers.map(speaker => {
+      const speakerSegments = segments.filter(segment => segment.speakerId === speaker.id);
+      return {
+        ...speaker,
+        segments: speakerSegments.map(segment => segment.id),
+        totalDuration: speakerSegments.reduce((total, segment) => total + segment.endTime - segment.startTime, 0)
+      };
+    }),
+    wordCount: segments.reduce((count, segment) => count + segment.words.length, 0),
+    duration: Math.max(0, transcription.duration - getCutDuration(cuts)),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
@@ -0,0 +1,13 @@
+import { EncodeRequest, EncodeResponse, processEncodeRequest } from './audioEncoders';
+
+// Runs loudness normalization and encoding off the main thread so long recordings don't freeze the UI
+const respond = (response: EncodeResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<EncodeRequest>) => {
+  try {
+    const blob = await processEncodeRequest(event.data, progress => respond({ type: 'progress', progress }));
+    respond({ type: 'done', blob });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
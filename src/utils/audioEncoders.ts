@@ -0,0 +1,801 @@
+import { createMp3Encoder, createOggEncoder } from 'wasm-media-encoders';
+import { ExportOptions } from '../types/audio';
+import { PcmAudio, DEFAULT_SAMPLE_RATE, getLength, normalizeLoudness } from './audioDsp';
+
+// Encoders in this module avoid DOM APIs so that they can run inside a Web Worker
+
+export type AudioTags = Record<string, string>;
+
+export type Mp3Bitrate = 8 | 16 | 24 | 32 | 40 | 48 | 64 | 80 | 96 | 112 | 128 | 160 | 192 | 224 | 256 | 320;
+
+export interface EncodeOptions {
+  format: ExportOptions['format'];
+  quality: ExportOptions['quality'];
+  tags: AudioTags;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// Message sent to the encoder worker; the channel buffers are transferred
+export interface EncodeRequest {
+  sampleRate: number;
+  channels: Float32Array[];
+  format: ExportOptions['format'];
+  quality: ExportOptions['quality'];
+  tags: AudioTags;
+  targetLoudness?: number; // LUFS, normalizes before encoding when set
+  bitRate?: Mp3Bitrate; // Overrides the quality setting for MP3
+}
+
+export type EncodeResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+export const QUALITY_SETTINGS = {
+  wav: { low: 16, medium: 16, high: 24 }, // bit depth
+  flac: { low: 16, medium: 16, high: 24 }, // bit depth
+  mp3: { low: 96, medium: 192, high: 320 }, // kbps CBR
+  ogg: { low: 2, medium: 5, high: 8 } // libvorbis VBR quality
+} as const;
+
+export const MIME_TYPES: Record<ExportOptions['format'], string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac'
+};
+
+const CHUNK_SIZE = 16384;
+
+export const encodeAudio = async (audio: PcmAudio, options: EncodeOptions): Promise<Blob> => {
+  switch (options.format) {
+    case 'wav':
+      return encodePcmWav(audio, QUALITY_SETTINGS.wav[options.quality], options.tags);
+    case 'flac':
+      return encodeFlac(audio, QUALITY_SETTINGS.flac[options.quality], options.tags, options.onProgress);
+    case 'mp3':
+      return encodeMp3(audio, QUALITY_SETTINGS.mp3[options.quality], options.tags, options.onProgress);
+    case 'ogg':
+      return encodeOgg(audio, QUALITY_SETTINGS.ogg[options.quality], options.tags, options.onProgress);
+    default:
+      throw new Error(`Unsupported export format: ${options.format}`);
+  }
+};
+
+// Rate to decode the source at so the chosen format can carry it
+export const getExportSampleRate = (format: ExportOptions['format'], sourceRate: number): number => {
+  if (!sourceRate) return DEFAULT_SAMPLE_RATE;
+  if (format === 'mp3' && !MP3_SAMPLE_RATES.includes(sourceRate as typeof MP3_SAMPLE_RATES[number])) {
+    return DEFAULT_SAMPLE_RATE;
+  }
+  return sourceRate;
+};
+
+export const processEncodeRequest = async (
+  request: EncodeRequest,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  let audio: PcmAudio = { sampleRate: request.sampleRate, channels: request.channels };
+  if (request.targetLoudness !== undefined) {
+    audio = normalizeLoudness(audio, request.targetLoudness).audio;
+  }
+  if (request.format === 'mp3' && request.bitRate) {
+    return encodeMp3(audio, request.bitRate, request.tags, onProgress);
+  }
+
+  return encodeAudio(audio, {
+    format: request.format,
+    quality: request.quality,
+    tags: request.tags,
+    onProgress
+  });
+};
+
+// Shared helpers
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  writeBytes(data: ArrayLike<number>) {
+    this.ensure(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  writeString(text: string) {
+    this.writeBytes(new TextEncoder().encode(text));
+  }
+
+  writeUint8(value: number) {
+    this.ensure(1);
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  writeUint16LE(value: number) {
+    this.writeUint8(value);
+    this.writeUint8(value >>> 8);
+  }
+
+  writeUint32LE(value: number) {
+    this.writeUint16LE(value & 0xffff);
+    this.writeUint16LE(value >>> 16);
+  }
+
+  writeUint32BE(value: number) {
+    this.writeUint8(value >>> 24);
+    this.writeUint8(value >>> 16);
+    this.writeUint8(value >>> 8);
+    this.writeUint8(value);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Quantizes float samples to signed integers with TPDF dither
+const quantize = (channel: Float32Array, bitDepth: number): Int32Array => {
+  const max = Math.pow(2, bitDepth - 1) - 1;
+  const min = -max - 1;
+  const dither = bitDepth <= 16;
+  const output = new Int32Array(channel.length);
+
+  for (let i = 0; i < channel.length; i++) {
+    const noise = dither ? Math.random() - Math.random() : 0;
+    output[i] = Math.max(min, Math.min(max, Math.round(channel[i] * max + noise)));
+  }
+
+  return output;
+};
+
+// MP3 and Vorbis are limited to stereo; fold 5.1 down with ITU-R BS.775 coefficients
+const toStereo = (audio: PcmAudio): Float32Array[] => {
+  const { channels } = audio;
+  if (channels.length <= 2) return channels;
+
+  if (channels.length >= 6) {
+    const [left, right, center, , surroundLeft, surroundRight] = channels;
+    const mix = (front: Float32Array, surround: Float32Array) =>
+      front.map((sample, i) => (sample + 0.707 * center[i] + 0.707 * surround[i]) / 2.414);
+    return [mix(left, surroundLeft), mix(right, surroundRight)];
+  }
+
+  return channels.slice(0, 2);
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// WAV
+const RIFF_INFO_FIELDS: Record<string, string> = {
+  title: 'INAM',
+  artist: 'IART',
+  album: 'IPRD',
+  year: 'ICRD',
+  genre: 'IGNR',
+  comment: 'ICMT'
+};
+
+const buildInfoChunk = (tags: AudioTags): Uint8Array | null => {
+  const body = new ByteWriter();
+  body.writeString('INFO');
+
+  Object.entries(RIFF_INFO_FIELDS).forEach(([key, id]) => {
+    const value = tags[key];
+    if (!value) return;
+    const data = new TextEncoder().encode(value);
+    body.writeString(id);
+    body.writeUint32LE(data.length + 1);
+    body.writeBytes(data);
+    body.writeUint8(0);
+    if ((data.length + 1) % 2 === 1) body.writeUint8(0);
+  });
+
+  if (body.length === 4) return null;
+
+  const chunk = new ByteWriter();
+  chunk.writeString('LIST');
+  chunk.writeUint32LE(body.length);
+  chunk.writeBytes(body.toUint8Array());
+  return chunk.toUint8Array();
+};
+
+export const encodePcmWav = (audio: PcmAudio, bitDepth: 16 | 24, tags: AudioTags = {}): Blob => {
+  const length = getLength(audio);
+  const channelCount = audio.channels.length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const info = buildInfoChunk(tags);
+
+  const header = new ByteWriter();
+  header.writeString('RIFF');
+  header.writeUint32LE(36 + dataSize + (dataSize % 2) + (info ? info.length : 0));
+  header.writeString('WAVE');
+  header.writeString('fmt ');
+  header.writeUint32LE(16);
+  header.writeUint16LE(1); // PCM
+  header.writeUint16LE(channelCount);
+  header.writeUint32LE(audio.sampleRate);
+  header.writeUint32LE(audio.sampleRate * blockAlign);
+  header.writeUint16LE(blockAlign);
+  header.writeUint16LE(bitDepth);
+  header.writeString('data');
+  header.writeUint32LE(dataSize);
+
+  const samples = audio.channels.map(channel => quantize(channel, bitDepth));
+  const data = new Uint8Array(dataSize + (dataSize % 2));
+  let offset = 0;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const value = samples[c][i];
+      for (let b = 0; b < bytesPerSample; b++) {
+        data[offset++] = (value >> (8 * b)) & 0xff;
+      }
+    }
+  }
+
+  const parts: BlobPart[] = [header.toUint8Array(), data];
+  if (info) parts.push(info);
+  return new Blob(parts, { type: MIME_TYPES.wav });
+};
+
+// MP3 (LAME compiled to WebAssembly) with an ID3v2.3 tag
+const ID3_TEXT_FRAMES: Record<string, string> = {
+  title: 'TIT2',
+  artist: 'TPE1',
+  album: 'TALB',
+  year: 'TYER',
+  genre: 'TCON',
+  bpm: 'TBPM',
+  key: 'TKEY'
+};
+
+const encodeUtf16WithBom = (text: string): number[] => {
+  const bytes = [0xff, 0xfe];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code & 0xff, code >>> 8);
+  }
+  return bytes;
+};
+
+export const buildId3Tag = (tags: AudioTags): Uint8Array => {
+  const frames = new ByteWriter();
+
+  const writeFrame = (id: string, payload: number[]) => {
+    frames.writeString(id);
+    frames.writeUint32BE(payload.length);
+    frames.writeUint16LE(0); // flags
+    frames.writeBytes(payload);
+  };
+
+  Object.entries(ID3_TEXT_FRAMES).forEach(([key, id]) => {
+    if (tags[key]) writeFrame(id, [0x01, ...encodeUtf16WithBom(tags[key])]);
+  });
+
+  if (tags.comment) {
+    // Encoding, language, empty short description, then the text
+    writeFrame('COMM', [0x01, 0x65, 0x6e, 0x67, ...encodeUtf16WithBom(''), 0x00, 0x00, ...encodeUtf16WithBom(tags.comment)]);
+  }
+
+  const size = frames.length;
+  const tag = new ByteWriter();
+  tag.writeString('ID3');
+  tag.writeBytes([0x03, 0x00, 0x00]);
+  // Tag size is stored as a 28-bit synchsafe integer
+  tag.writeBytes([(size >>> 21) & 0x7f, (size >>> 14) & 0x7f, (size >>> 7) & 0x7f, size & 0x7f]);
+  tag.writeBytes(frames.toUint8Array());
+  return tag.toUint8Array();
+};
+
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000] as const;
+
+export const encodeMp3 = async (
+  audio: PcmAudio,
+  bitrate: Mp3Bitrate,
+  tags: AudioTags = {},
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  if (!MP3_SAMPLE_RATES.includes(audio.sampleRate as typeof MP3_SAMPLE_RATES[number])) {
+    throw new Error(`MP3 does not support a sample rate of ${audio.sampleRate} Hz`);
+  }
+
+  const channels = toStereo(audio);
+  const encoder = await createMp3Encoder();
+  encoder.configure({ channels: channels.length as 1 | 2, sampleRate: audio.sampleRate, bitrate });
+
+  const length = getLength(audio);
+  // The encoder reuses its output buffer, so every chunk is copied
+  const parts: Uint8Array[] = [buildId3Tag(tags)];
+  for (let start = 0; start < length; start += CHUNK_SIZE) {
+    parts.push(encoder.encode(channels.map(channel => channel.subarray(start, start + CHUNK_SIZE))).slice());
+    onProgress?.(Math.min(1, (start + CHUNK_SIZE) / length));
+  }
+  parts.push(encoder.finalize().slice());
+
+  return new Blob(parts, { type: MIME_TYPES.mp3 });
+};
+
+// Ogg Vorbis (libvorbis compiled to WebAssembly) with rewritten Vorbis comments
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+interface OggPage {
+  headerType: number;
+  granule: Uint8Array; // 8 raw bytes
+  serial: number;
+  segments: number[];
+  body: Uint8Array;
+}
+
+const parseOggPages = (data: Uint8Array): OggPage[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pages: OggPage[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= data.length) {
+    if (view.getUint32(offset) !== 0x4f676753) throw new Error('Invalid Ogg page');
+    const segmentCount = data[offset + 26];
+    const segments = Array.from(data.subarray(offset + 27, offset + 27 + segmentCount));
+    const bodyLength = segments.reduce((sum, size) => sum + size, 0);
+    const bodyStart = offset + 27 + segmentCount;
+
+    pages.push({
+      headerType: data[offset + 5],
+      granule: data.slice(offset + 6, offset + 14),
+      serial: view.getUint32(offset + 14, true),
+      segments,
+      body: data.subarray(bodyStart, bodyStart + bodyLength)
+    });
+    offset = bodyStart + bodyLength;
+  }
+
+  return pages;
+};
+
+const writeOggPage = (page: OggPage, sequence: number): Uint8Array => {
+  const output = new Uint8Array(27 + page.segments.length + page.body.length);
+  const view = new DataView(output.buffer);
+  output.set([0x4f, 0x67, 0x67, 0x53, 0x00, page.headerType]);
+  output.set(page.granule, 6);
+  view.setUint32(14, page.serial, true);
+  view.setUint32(18, sequence, true);
+  output[26] = page.segments.length;
+  output.set(page.segments, 27);
+  output.set(page.body, 27 + page.segments.length);
+  view.setUint32(22, oggCrc(output), true);
+  return output;
+};
+
+// Lays packets out on as few pages as possible; the last packet finishes its page
+const paginatePackets = (packets: Uint8Array[], serial: number): OggPage[] => {
+  const pages: OggPage[] = [];
+  let segments: number[] = [];
+  let body: number[] = [];
+  let continued = false;
+
+  const flush = (nextContinued: boolean) => {
+    pages.push({
+      headerType: continued ? 0x01 : 0x00,
+      granule: new Uint8Array(8),
+      serial,
+      segments,
+      body: new Uint8Array(body)
+    });
+    segments = [];
+    body = [];
+    continued = nextContinued;
+  };
+
+  packets.forEach(packet => {
+    let offset = 0;
+    for (;;) {
+      const size = Math.min(255, packet.length - offset);
+      segments.push(size);
+      body.push(...packet.subarray(offset, offset + size));
+      offset += size;
+      const finished = size < 255;
+      if (segments.length === 255) flush(!finished);
+      if (finished) break;
+    }
+  });
+
+  if (segments.length > 0) flush(false);
+  return pages;
+};
+
+export const buildVorbisComment = (vendor: string, tags: AudioTags, withFraming: boolean): Uint8Array => {
+  const writer = new ByteWriter();
+  if (withFraming) {
+    writer.writeUint8(0x03);
+    writer.writeString('vorbis');
+  }
+
+  const vendorBytes = new TextEncoder().encode(vendor);
+  writer.writeUint32LE(vendorBytes.length);
+  writer.writeBytes(vendorBytes);
+
+  const entries = Object.entries(tags)
+    .filter(([, value]) => value)
+    .map(([key, value]) => new TextEncoder().encode(`${key === 'year' ? 'DATE' : key.toUpperCase()}=${value}`));
+  writer.writeUint32LE(entries.length);
+  entries.forEach(entry => {
+    writer.writeUint32LE(entry.length);
+    writer.writeBytes(entry);
+  });
+
+  if (withFraming) writer.writeUint8(0x01);
+  return writer.toUint8Array();
+};
+
+export const injectVorbisComments = (ogg: Uint8Array, tags: AudioTags): Uint8Array => {
+  const pages = parseOggPages(ogg);
+
+  // Reassemble the three header packets: identification, comment and setup
+  const packets: Uint8Array[] = [];
+  let current: number[] = [];
+  let pageIndex = 0;
+  while (packets.length < 3 && pageIndex < pages.length) {
+    const page = pages[pageIndex++];
+    let offset = 0;
+    page.segments.forEach(size => {
+      current.push(...page.body.subarray(offset, offset + size));
+      offset += size;
+      if (size < 255) {
+        packets.push(new Uint8Array(current));
+        current = [];
+      }
+    });
+  }
+
+  // Audio must start on a fresh page for the header pages to be replaceable
+  if (packets.length !== 3 || current.length > 0) return ogg;
+
+  const commentPacket = packets[1];
+  const vendorLength = new DataView(commentPacket.buffer, commentPacket.byteOffset + 7, 4).getUint32(0, true);
+  const vendor = new TextDecoder().decode(commentPacket.subarray(11, 11 + vendorLength));
+  const serial = pages[0].serial;
+
+  const headerPages = [
+    ...paginatePackets([packets[0]], serial).map(page => ({ ...page, headerType: 0x02 })),
+    ...paginatePackets([buildVorbisComment(vendor, tags, true), packets[2]], serial)
+  ];
+
+  return concatBytes(
+    [...headerPages, ...pages.slice(pageIndex)].map((page, sequence) => writeOggPage(page, sequence))
+  );
+};
+
+export const encodeOgg = async (
+  audio: PcmAudio,
+  vbrQuality: number,
+  tags: AudioTags = {},
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const channels = toStereo(audio);
+  const encoder = await createOggEncoder();
+  encoder.configure({ channels: channels.length as 1 | 2, sampleRate: audio.sampleRate, vbrQuality });
+
+  const length = getLength(audio);
+  const parts: Uint8Array[] = [];
+  for (let start = 0; start < length; start += CHUNK_SIZE) {
+    parts.push(encoder.encode(channels.map(channel => channel.subarray(start, start + CHUNK_SIZE))).slice());
+    onProgress?.(Math.min(1, (start + CHUNK_SIZE) / length));
+  }
+  parts.push(encoder.finalize().slice());
+
+  return new Blob([injectVorbisComments(concatBytes(parts), tags)], { type: MIME_TYPES.ogg });
+};
+
+// FLAC (fixed linear predictors with Rice-coded residuals)
+class BitWriter {
+  private bytes = new Uint8Array(4096);
+  private byteLength = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  private pushByte(value: number) {
+    if (this.byteLength === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.byteLength++] = value;
+  }
+
+  writeBits(value: number, bits: number) {
+    // Values wider than 24 bits (the 36-bit sample count) are split to keep the accumulator in range
+    if (bits > 24) {
+      const low = bits - 24;
+      this.writeBits(Math.floor(value / Math.pow(2, low)), 24);
+      this.writeBits(value % Math.pow(2, low), low);
+      return;
+    }
+
+    this.current = (this.current << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.pushByte((this.current >>> this.bitCount) & 0xff);
+    }
+    this.current &= (1 << this.bitCount) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.writeBits(value < 0 ? value + Math.pow(2, bits) : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    let remaining = zeros;
+    while (remaining >= 24) {
+      this.writeBits(0, 24);
+      remaining -= 24;
+    }
+    this.writeBits(1, remaining + 1);
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+  }
+
+  writeBytes(data: ArrayLike<number>) {
+    for (let i = 0; i < data.length; i++) this.writeBits(data[i], 8);
+  }
+
+  get length(): number {
+    return this.byteLength;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.bytes.slice(0, this.byteLength);
+  }
+}
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+// Frame numbers use the same variable-length coding as UTF-8
+const encodeFrameNumber = (value: number): number[] => {
+  if (value < 0x80) return [value];
+  const bytes: number[] = [];
+  let remaining = value;
+  let prefixBits = 6;
+  while (remaining >= Math.pow(2, prefixBits)) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+    prefixBits--;
+  }
+  const leading = (0xff << (7 - bytes.length)) & 0xff;
+  bytes.unshift(leading | remaining);
+  return bytes;
+};
+
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 6;
+
+const computeFixedResiduals = (samples: Int32Array, order: number): Int32Array => {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break;
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break;
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+    }
+    residuals[i - order] = samples[i] - prediction;
+  }
+  return residuals;
+};
+
+const zigzag = (value: number): number => (value >= 0 ? 2 * value : -2 * value - 1);
+
+// Bits needed to Rice-code the values with the best parameter, and that parameter
+const riceCost = (values: Int32Array, start: number, end: number): { bits: number; parameter: number } => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += zigzag(values[i]);
+  const count = end - start;
+  if (count === 0) return { bits: 4, parameter: 0 };
+
+  const mean = sum / count;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best = { bits: Infinity, parameter: 0 };
+
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(14, estimate + 1); parameter++) {
+    let bits = 4 + count * (parameter + 1);
+    for (let i = start; i < end; i++) bits += zigzag(values[i]) >>> parameter;
+    if (bits < best.bits) best = { bits, parameter };
+  }
+
+  return best;
+};
+
+const planResidualCoding = (residuals: Int32Array, blockSize: number, order: number) => {
+  let best = { bits: Infinity, partitionOrder: 0, parameters: [0] };
+
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = Math.pow(2, partitionOrder);
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+
+    const partitionSize = blockSize / partitions;
+    let bits = 6; // coding method and partition order
+    const parameters: number[] = [];
+    for (let p = 0; p < partitions; p++) {
+      const start = p === 0 ? 0 : p * partitionSize - order;
+      const end = (p + 1) * partitionSize - order;
+      const cost = riceCost(residuals, start, end);
+      bits += cost.bits;
+      parameters.push(cost.parameter);
+    }
+
+    if (bits < best.bits) best = { bits, partitionOrder, parameters };
+  }
+
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitDepth: number) => {
+  if (samples.every(sample => sample === samples[0])) {
+    writer.writeBits(0b00000000, 8); // CONSTANT
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let best: { order: number; residuals: Int32Array; plan: ReturnType<typeof planResidualCoding> } | null = null;
+  for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+    const residuals = computeFixedResiduals(samples, order);
+    const plan = planResidualCoding(residuals, samples.length, order);
+    if (!best || plan.bits + order * bitDepth < best.plan.bits + best.order * bitDepth) {
+      best = { order, residuals, plan };
+    }
+  }
+
+  if (!best || !Number.isFinite(best.plan.bits) || best.plan.bits + best.order * bitDepth >= samples.length * bitDepth) {
+    writer.writeBits(0b00000010, 8); // VERBATIM
+    samples.forEach(sample => writer.writeSigned(sample, bitDepth));
+    return;
+  }
+
+  const { order, residuals, plan } = best;
+  writer.writeBits(0b00010000 | (order << 1), 8); // FIXED
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitDepth);
+
+  writer.writeBits(0, 2); // Rice coding with 4-bit parameters
+  writer.writeBits(plan.partitionOrder, 4);
+  const partitionSize = samples.length / Math.pow(2, plan.partitionOrder);
+  plan.parameters.forEach((parameter, p) => {
+    const start = p === 0 ? 0 : p * partitionSize - order;
+    const end = (p + 1) * partitionSize - order;
+    writer.writeBits(parameter, 4);
+    for (let i = start; i < end; i++) {
+      const value = zigzag(residuals[i]);
+      writer.writeUnary(value >>> parameter);
+      writer.writeBits(value, parameter);
+    }
+  });
+};
+
+export const encodeFlac = (
+  audio: PcmAudio,
+  bitDepth: 16 | 24,
+  tags: AudioTags = {},
+  onProgress?: (progress: number) => void
+): Blob => {
+  const length = getLength(audio);
+  const channelCount = audio.channels.length;
+  if (channelCount < 1 || channelCount > 8) {
+    throw new Error(`FLAC supports 1-8 channels, got ${channelCount}`);
+  }
+
+  const samples = audio.channels.map(channel => quantize(channel, bitDepth));
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  for (let start = 0, frameNumber = 0; start < length; start += FLAC_BLOCK_SIZE, frameNumber++) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, length - start);
+    const writer = new BitWriter();
+
+    writer.writeBits(0b11111111111110, 14); // sync code
+    writer.writeBits(0, 1);
+    writer.writeBits(0, 1); // fixed block size
+    writer.writeBits(0b0111, 4); // block size stored as 16 bits after the frame number
+    writer.writeBits(0b0000, 4); // sample rate from STREAMINFO
+    writer.writeBits(channelCount - 1, 4); // independent channels
+    writer.writeBits(bitDepth === 24 ? 0b110 : 0b100, 3);
+    writer.writeBits(0, 1);
+    writer.writeBytes(encodeFrameNumber(frameNumber));
+    writer.writeBits(blockSize - 1, 16);
+    writer.writeBits(crc8(writer.toUint8Array()), 8);
+
+    samples.forEach(channel => writeSubframe(writer, channel.subarray(start, start + blockSize), bitDepth));
+
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.toUint8Array()), 16);
+
+    const frame = writer.toUint8Array();
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame);
+    onProgress?.(Math.min(1, (start + blockSize) / length));
+  }
+
+  const header = new BitWriter();
+  header.writeBytes(new TextEncoder().encode('fLaC'));
+
+  // STREAMINFO; the MD5 signature is left as zero ("not computed")
+  header.writeBits(0, 1);
+  header.writeBits(0, 7);
+  header.writeBits(34, 24);
+  header.writeBits(FLAC_BLOCK_SIZE, 16);
+  header.writeBits(FLAC_BLOCK_SIZE, 16);
+  header.writeBits(frames.length > 0 ? minFrameSize : 0, 24);
+  header.writeBits(maxFrameSize, 24);
+  header.writeBits(audio.sampleRate, 20);
+  header.writeBits(channelCount - 1, 3);
+  header.writeBits(bitDepth - 1, 5);
+  header.writeBits(length, 36);
+  header.writeBytes(new Uint8Array(16));
+
+  // VORBIS_COMMENT, the last metadata block
+  const comment = buildVorbisComment('ddocumentary', tags, false);
+  header.writeBits(1, 1);
+  header.writeBits(4, 7);
+  header.writeBits(comment.length, 24);
+  header.writeBytes(comment);
+
+  return new Blob([header.toUint8Array(), ...frames], { type: MIME_TYPES.flac });
+};
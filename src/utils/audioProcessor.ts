@@ -1,6 +1,5 @@
 import WaveSurfer from 'wavesurfer.js';
 import RecordRTC from 'recordrtc';
-import lamejs from 'lamejs';
 import audioBufferToWav from 'audiobuffer-to-wav';
 import { v4 as uuidv4 } from 'uuid';
 import { 
@@ -9,13 +8,46 @@ import {
   AudioIssue, 
   AudioEnhancement, 
   TranscriptionSegment, 
-  Speaker,
   MusicRecommendation,
   SoundEffectRecommendation,
   MixingRecommendation,
   VoiceCoachingTip,
-  AudioAccessibilityFeature
+  AudioAccessibilityFeature,
+  LoudnessMeasurement,
+  TranscriptionOptions,
+  AudioEditOptions
 } from '../types/audio';
+import {
+  PcmAudio,
+  CompressorParameters,
+  DEFAULT_SAMPLE_RATE,
+  decodeAudio,
+  readSampleRate,
+  encodeWav,
+  getDuration,
+  reduceNoise,
+  applyEqBands,
+  compress,
+  normalizeLoudness as dspNormalizeLoudness
+} from './audioDsp';
+import { LoudnessResponse, measureLoudness } from './loudnessMeter';
+import {
+  AudioTags,
+  EncodeRequest,
+  EncodeResponse,
+  Mp3Bitrate,
+  getExportSampleRate,
+  processEncodeRequest
+} from './audioEncoders';
+import {
+  TranscriptionOutput,
+  buildTranscription,
+  getActiveTranscriptionProvider,
+  loadTranscriptionSettings
+} from './transcriptionProviders';
+import { AlignmentEnvelope, createAlignmentEnvelope } from './transcriptAlignment';
+import { applyCutsToTranscription, mapTimeThroughCuts, renderCuts } from './audioEditing';
+import { breakCaptionLines } from './captionLineBreaks';
 
 // Audio file processing
 export const processAudioFile = async (file: File): Promise<AudioFile> => {
@@ -28,6 +60,10 @@ export const processAudioFile = async (file: File): Promise<AudioFile> => {
       try {
         // Generate waveform data
         const waveformData = await generateWaveformData(file);
+
+        // Formats the browser plays but cannot decode keep the defaults
+        const decoded = await decodeAudio(file).catch(() => null);
+        const header = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
         
         // Create audio file object
         const audioFile: AudioFile = {
@@ -37,8 +73,8 @@ export const processAudioFile = async (file: File): Promise<AudioFile> => {
           url: URL.createObjectURL(file),
           waveformData,
           duration: audioElement.duration,
-          sampleRate: 44100, // Default, would be extracted from actual audio in real implementation
-          channels: 2, // Default, would be extracted from actual audio in real implementation
+          sampleRate: readSampleRate(header) ?? decoded?.sampleRate ?? DEFAULT_SAMPLE_RATE,
+          channels: decoded?.channels.length ?? 2,
           format: file.type,
           size: file.size,
           markers: [],
@@ -128,13 +164,14 @@ export const analyzeAudio = async (file: File): Promise<AudioAnalysis> => {
   await new Promise(resolve => setTimeout(resolve, 1000));
   
   const issues = generateRandomIssues();
+  const loudness = await measureFileLoudness(file);
   
   return {
-    loudness: {
-      integrated: -14 + (Math.random() * 6 - 3), // LUFS, typically around -14 LUFS for broadcast
-      shortTerm: Array(10).fill(0).map(() => -14 + (Math.random() * 10 - 5)),
-      truePeak: -1 + (Math.random() * 2 - 1), // dBTP, should be below 0
-      loudnessRange: 8 + (Math.random() * 4 - 2) // LU
+    loudness: loudness && {
+      integrated: loudness.integrated,
+      shortTerm: loudness.shortTerm,
+      truePeak: loudness.truePeak,
+      loudnessRange: loudness.loudnessRange
     },
     spectrum: {
       lowFrequency: 0.3 + (Math.random() * 0.4),
@@ -167,6 +204,44 @@ export const analyzeAudio = async (file: File): Promise<AudioAnalysis> => {
   };
 };
 
+const runLoudnessWorker = (audio: PcmAudio): Promise<LoudnessMeasurement> => {
+  // Fall back to measuring on the main thread where workers are unavailable
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(measureLoudness(audio));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./loudnessMeter.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<LoudnessResponse>) => {
+      const response = event.data;
+      worker.terminate();
+      if (response.type === 'done') {
+        resolve(response.measurement);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Loudness worker failed'));
+    };
+
+    worker.postMessage(audio, audio.channels.map(channel => channel.buffer));
+  });
+};
+
+// Returns null when the browser cannot decode or measure the file
+export const measureFileLoudness = async (file: Blob): Promise<LoudnessMeasurement | null> => {
+  try {
+    return await runLoudnessWorker(await decodeAudio(file));
+  } catch (error) {
+    console.error('Loudness measurement failed:', error);
+    return null;
+  }
+};
+
 const generateRandomIssues = (): AudioIssue[] => {
   const issues: AudioIssue[] = [];
   const issueTypes: AudioIssue['type'][] = ['noise', 'clipping', 'silence', 'distortion', 'echo', 'plosive', 'sibilance', 'hum'];
@@ -220,208 +295,165 @@ const getFixRecommendation = (type: AudioIssue['type']): string => {
 };
 
 // Audio enhancement
+export type EnhancementStep = { type: AudioEnhancement['type']; parameters: AudioEnhancement['parameters'] };
+
+export interface EnhancementResult {
+  enhancement: AudioEnhancement;
+  audio: Blob;
+}
+
+const createEnhancementRecord = (
+  type: AudioEnhancement['type'],
+  parameters: AudioEnhancement['parameters'],
+  notes: string
+): AudioEnhancement => ({
+  id: uuidv4(),
+  type,
+  parameters,
+  appliedAt: new Date(),
+  appliedBy: 'Current User',
+  notes
+});
+
+// Runs a single enhancement against decoded audio; unsupported types pass through unchanged
+const runEnhancementStep = (audio: PcmAudio, step: EnhancementStep): PcmAudio => {
+  switch (step.type) {
+    case 'noise-reduction':
+      return reduceNoise(audio, step.parameters.level ?? 50);
+    case 'eq':
+      return applyEqBands(audio, step.parameters.bands ?? []);
+    case 'compression':
+      return compress(audio, step.parameters as CompressorParameters);
+    case 'normalization':
+      return dspNormalizeLoudness(audio, step.parameters.targetLUFS ?? -14).audio;
+    default:
+      return audio;
+  }
+};
+
 export const enhanceAudio = async (
-  file: File, 
-  enhancements: { type: AudioEnhancement['type']; parameters: Record<string, any> }[]
+  file: Blob, 
+  enhancements: EnhancementStep[]
 ): Promise<Blob> => {
-  // In a real implementation, this would apply actual audio enhancements
-  // For now, we'll just return the original file with a delay to simulate processing
+  const decoded = await decodeAudio(file);
+  const processed = enhancements.reduce(runEnhancementStep, decoded);
   
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Return original file
-  return file;
+  return encodeWav(processed);
 };
 
-export const applyNoiseReduction = async (file: File, level: number): Promise<AudioEnhancement> => {
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1000));
+// The individual steps render 32-bit float WAV so that chaining them does not re-quantize
+export const applyNoiseReduction = async (file: Blob, level: number): Promise<EnhancementResult> => {
+  const decoded = await decodeAudio(file);
+  const processed = reduceNoise(decoded, level);
   
   return {
-    id: uuidv4(),
-    type: 'noise-reduction',
-    parameters: { level },
-    appliedAt: new Date(),
-    appliedBy: 'Current User',
-    notes: `Noise reduction applied at level ${level}`
+    enhancement: createEnhancementRecord(
+      'noise-reduction',
+      { level },
+      `Noise reduction applied at level ${level}`
+    ),
+    audio: encodeWav(processed, { float32: true })
   };
 };
 
-export const applyEQ = async (file: File, bands: { frequency: number; gain: number; q: number }[]): Promise<AudioEnhancement> => {
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1000));
+export const applyEQ = async (file: Blob, bands: { frequency: number; gain: number; q: number }[]): Promise<EnhancementResult> => {
+  const decoded = await decodeAudio(file);
+  const processed = applyEqBands(decoded, bands);
   
   return {
-    id: uuidv4(),
-    type: 'eq',
-    parameters: { bands },
-    appliedAt: new Date(),
-    appliedBy: 'Current User',
-    notes: `EQ applied with ${bands.length} bands`
+    enhancement: createEnhancementRecord('eq', { bands }, `EQ applied with ${bands.length} bands`),
+    audio: encodeWav(processed, { float32: true })
   };
 };
 
 export const applyCompression = async (
-  file: File, 
+  file: Blob, 
   parameters: { threshold: number; ratio: number; attack: number; release: number; makeupGain: number }
-): Promise<AudioEnhancement> => {
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1000));
+): Promise<EnhancementResult> => {
+  const decoded = await decodeAudio(file);
+  const processed = compress(decoded, parameters);
   
   return {
-    id: uuidv4(),
-    type: 'compression',
-    parameters,
-    appliedAt: new Date(),
-    appliedBy: 'Current User',
-    notes: `Compression applied with ${parameters.ratio}:1 ratio`
+    enhancement: createEnhancementRecord(
+      'compression',
+      parameters,
+      `Compression applied with ${parameters.ratio}:1 ratio`
+    ),
+    audio: encodeWav(processed, { float32: true })
   };
 };
 
-export const normalizeAudio = async (file: File, targetLUFS: number): Promise<AudioEnhancement> => {
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1000));
+export const normalizeAudio = async (file: Blob, targetLUFS: number): Promise<EnhancementResult> => {
+  const decoded = await decodeAudio(file);
+  const { audio: processed, measuredLUFS, gain } = dspNormalizeLoudness(decoded, targetLUFS);
+  
+  const notes = Number.isFinite(measuredLUFS)
+    ? `Normalized from ${measuredLUFS.toFixed(1)} to ${targetLUFS} LUFS (${gain >= 0 ? '+' : ''}${gain.toFixed(1)} dB)`
+    : 'Audio is silent, normalization skipped';
   
   return {
-    id: uuidv4(),
-    type: 'normalization',
-    parameters: { targetLUFS },
-    appliedAt: new Date(),
-    appliedBy: 'Current User',
-    notes: `Normalized to ${targetLUFS} LUFS`
+    enhancement: createEnhancementRecord(
+      'normalization',
+      { targetLUFS, measuredLUFS: Number.isFinite(measuredLUFS) ? measuredLUFS : null, gain },
+      notes
+    ),
+    audio: encodeWav(processed, { float32: true })
   };
 };
 
 // Transcription
-export const transcribeAudio = async (file: File, options: {
-  language?: string;
-  speakerDiarization?: boolean;
-  punctuation?: boolean;
-  filterProfanity?: boolean;
-}): Promise<{
-  segments: TranscriptionSegment[];
-  speakers: Speaker[];
-}> => {
-  // In a real implementation, this would use a speech-to-text API
-  // For now, we'll just create some simulated transcription data
-  
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 3000));
-  
-  const numSegments = 10 + Math.floor(Math.random() * 20); // 10-30 segments
-  const numSpeakers = 1 + Math.floor(Math.random() * 3); // 1-3 speakers
-  
-  const speakers: Speaker[] = [];
-  for (let i = 0; i < numSpeakers; i++) {
-    speakers.push({
-      id: uuidv4(),
-      name: i === 0 ? 'Interviewer' : `Speaker ${i}`,
-      role: i === 0 ? 'Interviewer' : 'Subject',
-      gender: ['male', 'female', 'unknown'][Math.floor(Math.random() * 3)] as 'male' | 'female' | 'unknown',
-      segments: [],
-      totalDuration: 0,
-      color: getRandomColor()
-    });
-  }
-  
-  const segments: TranscriptionSegment[] = [];
-  let currentTime = 0;
-  
-  for (let i = 0; i < numSegments; i++) {
-    const speakerIndex = Math.floor(Math.random() * numSpeakers);
-    const speaker = speakers[speakerIndex];
-    const duration = 2 + Math.random() * 8; // 2-10 seconds
-    const segmentId = uuidv4();
-    
-    const segment: TranscriptionSegment = {
-      id: segmentId,
-      startTime: currentTime,
-      endTime: currentTime + duration,
-      text: generateRandomText(),
-      speakerId: speaker.id,
-      confidence: 0.7 + Math.random() * 0.3,
-      words: generateRandomWords(currentTime, duration),
-      sentiment: {
-        score: Math.random(),
-        label: ['positive', 'negative', 'neutral'][Math.floor(Math.random() * 3)] as 'positive' | 'negative' | 'neutral'
-      },
-      edited: false
-    };
-    
-    segments.push(segment);
-    speaker.segments.push(segmentId);
-    speaker.totalDuration += duration;
-    
-    currentTime += duration + 0.5; // Add a small gap between segments
-  }
-  
-  return { segments, speakers };
-};
+export const transcribeAudio = async (
+  file: Blob,
+  options: TranscriptionOptions,
+  onProgress?: (progress: number) => void
+): Promise<TranscriptionOutput> => {
+  const provider = getActiveTranscriptionProvider(loadTranscriptionSettings());
+  const transcript = await provider.transcribe(file, options, onProgress);
 
-const generateRandomText = (): string => {
-  const sentences = [
-    "I think that's a really interesting point about documentary filmmaking.",
-    "When we were on location, the weather was a significant challenge.",
-    "The subject's personal story really resonated with our audience.",
-    "We had to adapt our shooting schedule due to unexpected circumstances.",
-    "The lighting in that scene created exactly the mood we were looking for.",
-    "I believe the narrative structure needs some refinement in the middle section.",
-    "The interview revealed aspects of the story we hadn't anticipated.",
-    "Working with natural light gave the footage an authentic quality.",
-    "We should consider how this segment transitions to the next scene.",
-    "The archival footage provides important historical context.",
-    "I'm concerned about the audio quality in the outdoor interviews.",
-    "The emotional arc of the story builds effectively toward the conclusion.",
-    "We need to balance factual information with personal narratives.",
-    "The drone shots give a valuable perspective on the landscape.",
-    "I think we should reconsider the pacing in the opening sequence."
-  ];
-  
-  // Return 1-3 random sentences
-  const numSentences = 1 + Math.floor(Math.random() * 3);
-  const result = [];
-  
-  for (let i = 0; i < numSentences; i++) {
-    result.push(sentences[Math.floor(Math.random() * sentences.length)]);
-  }
-  
-  return result.join(' ');
+  return buildTranscription(transcript, options, provider.capabilities);
 };
 
-const generateRandomWords = (startTime: number, duration: number): TranscriptionSegment['words'] => {
-  const text = generateRandomText();
-  const words = text.split(' ');
-  const result = [];
-  
-  const timePerWord = duration / words.length;
-  
-  for (let i = 0; i < words.length; i++) {
-    const wordStart = startTime + (i * timePerWord);
-    result.push({
-      text: words[i],
-      startTime: wordStart,
-      endTime: wordStart + timePerWord,
-      confidence: 0.7 + Math.random() * 0.3
-    });
+// Text-based editing
+export const loadAlignmentEnvelope = async (file: AudioFile): Promise<AlignmentEnvelope | null> => {
+  try {
+    const response = await fetch(file.url);
+    // Word placement only needs a coarse level envelope
+    const audio = await decodeAudio(await response.blob(), 16000);
+    return createAlignmentEnvelope(audio);
+  } catch (error) {
+    console.error('Failed to load audio for alignment:', error);
+    return null;
   }
-  
-  return result;
 };
 
-const getRandomColor = (): string => {
-  const colors = [
-    '#3B82F6', // blue
-    '#10B981', // green
-    '#F59E0B', // amber
-    '#EF4444', // red
-    '#8B5CF6', // purple
-    '#EC4899', // pink
-    '#14B8A6', // teal
-    '#F97316'  // orange
-  ];
-  
-  return colors[Math.floor(Math.random() * colors.length)];
+export const renderAudioEdit = async (file: AudioFile, options: AudioEditOptions): Promise<AudioFile> => {
+  const cuts = file.cutList ?? [];
+  const response = await fetch(file.url);
+  const audio = await decodeAudio(await response.blob(), file.sampleRate || undefined);
+  const edited = renderCuts(audio, cuts, options);
+  const blob = encodeWav(edited, { float32: true });
+  const isInsideCut = (time: number) => cuts.some(cut => time > cut.startTime && time < cut.endTime);
+
+  return {
+    ...file,
+    id: uuidv4(),
+    name: `${file.name.replace(/\.[^/.]+$/, '')} (edit).wav`,
+    url: URL.createObjectURL(blob),
+    originalUrl: undefined,
+    waveformData: undefined,
+    duration: getDuration(edited),
+    sampleRate: edited.sampleRate,
+    channels: edited.channels.length,
+    format: 'audio/wav',
+    size: blob.size,
+    transcription: file.transcription ? applyCutsToTranscription(file.transcription, cuts) : undefined,
+    markers: file.markers
+      .filter(marker => !isInsideCut(marker.time))
+      .map(marker => ({ ...marker, time: mapTimeThroughCuts(marker.time, cuts) })),
+    cutList: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
 };
 
 // Generate subtitles
@@ -469,7 +501,7 @@ const generateSRT = (
     }
     
     // Split into lines if needed
-    const lines = splitTextIntoLines(text, options.maxLineLength, options.maxLinesPerCaption);
+    const lines = breakCaptionLines(text, { maxLineLength: options.maxLineLength, maxLines: options.maxLinesPerCaption });
     
     // Add to SRT
     srt += `${index + 1}\n`;
@@ -498,7 +530,7 @@ const generateVTT = (
     }
     
     // Split into lines if needed
-    const lines = splitTextIntoLines(text, options.maxLineLength, options.maxLinesPerCaption);
+    const lines = breakCaptionLines(text, { maxLineLength: options.maxLineLength, maxLines: options.maxLinesPerCaption });
     
     // Add to VTT
     vtt += `${index + 1}\n`;
@@ -539,7 +571,7 @@ const generateASS = (
     }
     
     // Split into lines if needed
-    const lines = splitTextIntoLines(text, options.maxLineLength, options.maxLinesPerCaption);
+    const lines = breakCaptionLines(text, { maxLineLength: options.maxLineLength, maxLines: options.maxLinesPerCaption });
     
     // Add to ASS
     ass += `Dialogue: 0,${startTime},${endTime},Default,,0,0,0,,${lines.join('\\N')}\n`;
@@ -575,40 +607,6 @@ const formatASSTime = (seconds: number): string => {
   return `${hours.toString().padStart(1, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
 };
 
-const splitTextIntoLines = (text: string, maxLineLength: number, maxLines: number): string[] => {
-  if (text.length <= maxLineLength) {
-    return [text];
-  }
-  
-  const words = text.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-  
-  for (const word of words) {
-    if ((currentLine + word).length <= maxLineLength) {
-      currentLine += (currentLine ? ' ' : '') + word;
-    } else {
-      lines.push(currentLine);
-      currentLine = word;
-      
-      if (lines.length >= maxLines - 1) {
-        break;
-      }
-    }
-  }
-  
-  if (currentLine) {
-    lines.push(currentLine);
-  }
-  
-  // If we've exceeded max lines, add ellipsis to the last line
-  if (words.length > 0 && lines.length >= maxLines && words.length > lines.join(' ').split(' ').length) {
-    lines[lines.length - 1] += '...';
-  }
-  
-  return lines;
-};
-
 // Music and sound effect recommendations
 export const generateMusicRecommendations = async (
   mood: string,
@@ -850,7 +848,9 @@ const generateMixingNotes = (analysis: AudioAnalysis): string => {
   const notes = [];
   
   // Loudness notes
-  if (analysis.loudness.integrated > -14) {
+  if (!analysis.loudness) {
+    notes.push('Loudness could not be measured. Check levels with a loudness meter before mixing.');
+  } else if (analysis.loudness.integrated > -14) {
     notes.push('Audio is louder than recommended for online streaming. Consider reducing overall level.');
   } else if (analysis.loudness.integrated < -18) {
     notes.push('Audio is quieter than optimal. Consider normalizing to target loudness.');
@@ -1103,6 +1103,64 @@ export const stopRecording = async (recorder: RecordRTC): Promise<Blob> => {
 };
 
 // Export functionality
+const buildAudioTags = (metadata: AudioFile['metadata'], overrides: Record<string, string> = {}): AudioTags => {
+  const tags: AudioTags = {};
+  const recordingYear = metadata.recordingDate ? new Date(metadata.recordingDate).getFullYear() : undefined;
+  const year = metadata.year ?? recordingYear;
+
+  if (metadata.title) tags.title = metadata.title;
+  if (metadata.artist) tags.artist = metadata.artist;
+  if (metadata.album) tags.album = metadata.album;
+  if (year) tags.year = String(year);
+  if (metadata.genre) tags.genre = metadata.genre;
+  if (metadata.bpm) tags.bpm = String(metadata.bpm);
+  if (metadata.key) tags.key = metadata.key;
+  if (metadata.recordingLocation) tags.location = metadata.recordingLocation;
+  if (metadata.notes) tags.comment = metadata.notes;
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value) tags[key.toLowerCase()] = value;
+  });
+
+  return tags;
+};
+
+const runEncoderWorker = (
+  request: EncodeRequest,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  // Fall back to encoding on the main thread where workers are unavailable
+  if (typeof Worker === 'undefined') {
+    return processEncodeRequest(request, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./audioEncoder.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (response.type === 'done') {
+        resolve(response.blob);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Audio encoder worker failed'));
+    };
+
+    worker.postMessage(request, request.channels.map(channel => channel.buffer));
+  });
+};
+
 export const exportAudio = async (
   audioFile: AudioFile,
   options: {
@@ -1111,16 +1169,23 @@ export const exportAudio = async (
     includeEnhancements: boolean;
     normalizeLoudness: boolean;
     targetLoudness?: number;
-  }
+    metadata?: Record<string, string>;
+  },
+  onProgress?: (progress: number) => void
 ): Promise<Blob> => {
-  // In a real implementation, this would process and export the audio file
-  // For now, we'll just simulate the export process
-  
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // For demonstration, we'll just return a dummy blob
-  return new Blob(['audio data'], { type: `audio/${options.format}` });
+  // url holds the enhanced render once enhancements have been applied
+  const source = options.includeEnhancements ? audioFile.url : audioFile.originalUrl ?? audioFile.url;
+  const response = await fetch(source);
+  const audio = await decodeAudio(await response.blob(), getExportSampleRate(options.format, audioFile.sampleRate));
+
+  return runEncoderWorker({
+    sampleRate: audio.sampleRate,
+    channels: audio.channels,
+    format: options.format,
+    quality: options.quality,
+    tags: buildAudioTags(audioFile.metadata, options.metadata),
+    targetLoudness: options.normalizeLoudness ? options.targetLoudness ?? -14 : undefined
+  }, onProgress);
 };
 
 // Utility functions
@@ -1148,8 +1213,18 @@ export const convertAudioBufferToWav = (buffer: AudioBuffer): Blob => {
   return new Blob([wavData], { type: 'audio/wav' });
 };
 
-export const convertToMp3 = (buffer: AudioBuffer, bitRate: number): Blob => {
-  // This is a simplified version - in a real app, you'd use lamejs properly
-  // For now, we'll just return a dummy blob
-  return new Blob(['mp3 data'], { type: 'audio/mp3' });
-};
\ No newline at end of file
+export const convertToMp3 = async (
+  buffer: AudioBuffer,
+  bitRate: Mp3Bitrate,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  // Copies, since the worker takes the channel buffers and the caller keeps its AudioBuffer
+  return runEncoderWorker({
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => new Float32Array(buffer.getChannelData(i))),
+    format: 'mp3',
+    quality: 'medium',
+    bitRate,
+    tags: {}
+  }, onProgress);
+};
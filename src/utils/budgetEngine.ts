@@ -0,0 +1,461 @@
+import jsPDF from 'jspdf';
+import { addDays, differenceInCalendarDays, isSameDay, startOfDay } from 'date-fns';
+import {
+  Budget,
+  BudgetCategory,
+  BudgetItem,
+  BudgetSection,
+  CurrencyCode,
+  Expense,
+  ProductionProject
+} from '../types/production';
+import { ConvertMoney, createConverter, noConversion } from './currency';
+import { toCsv } from './csv';
+
+// Budget engine
+// Spent amounts come from approved expenses only; everything the budget used to store by hand is derived here.
+// Amounts are converted to the project's base currency, expenses at the rate on their date.
+
+export interface ItemVariance {
+  categoryId: string;
+  itemId: string;
+  name: string;
+  estimate: number; // Estimated cost × quantity
+  actual: number;
+  variance: number; // Positive when under the estimate
+  hasActual: boolean;
+}
+
+export interface CategorySummary {
+  categoryId: string;
+  name: string;
+  section: BudgetSection;
+  allocated: number;
+  estimate: number; // Sum of the item estimates
+  spent: number;
+  committed: number; // Expenses waiting for approval
+  remaining: number;
+  overrun: number; // Spent beyond the allocation, drawn from contingency
+  fringes: number;
+}
+
+export interface BudgetSummary {
+  categories: CategorySummary[];
+  items: ItemVariance[];
+  total: number;
+  allocated: number;
+  spent: number;
+  committed: number;
+  remaining: number;
+  contingency: {
+    amount: number;
+    used: number;
+    remaining: number;
+  };
+  overBudget: number; // Overruns beyond what contingency covers
+}
+
+export interface ForecastPoint {
+  date: Date;
+  actual: number | null;
+  planned: number;
+  forecast: number | null;
+}
+
+export interface BudgetForecast {
+  spent: number;
+  committed: number;
+  shootDayCost: number | null; // Average spend on a shooting day so far
+  dailyBurn: number; // Average spend on any other day so far
+  remainingShootDays: number;
+  remainingDays: number;
+  forecastFinal: number;
+  bottomUp: number; // Actuals where known, estimates elsewhere
+  variance: number; // Budget minus forecast; negative is an overrun
+  exhaustionDate: Date | null;
+  series: ForecastPoint[];
+}
+
+export interface TopSheetLine {
+  account: string;
+  name: string;
+  budget: number;
+  actual: number;
+  variance: number;
+}
+
+export interface TopSheetSection {
+  section: BudgetSection;
+  label: string;
+  lines: TopSheetLine[];
+  fringes: TopSheetLine | null;
+  total: TopSheetLine;
+}
+
+export interface TopSheet {
+  title: string;
+  generatedAt: Date;
+  currency: CurrencyCode;
+  sections: TopSheetSection[];
+  direct: TopSheetLine;
+  overhead: TopSheetLine;
+  contingency: TopSheetLine;
+  grandTotal: TopSheetLine;
+  approvedBudget: number;
+}
+
+export const BUDGET_SECTIONS: { id: BudgetSection; label: string; account: number }[] = [
+  { id: 'above-the-line', label: 'Above the Line', account: 1000 },
+  { id: 'below-the-line', label: 'Below the Line', account: 2000 },
+  { id: 'post-production', label: 'Post-production', account: 3000 },
+  { id: 'other', label: 'Other', account: 4000 }
+];
+
+const SECTION_PATTERNS: [BudgetSection, RegExp][] = [
+  ['above-the-line', /\b(director|producer|writer|story|rights|talent|host|narrator|above)\b/i],
+  ['post-production', /\b(post|edit(ing|or)?|colou?r|grade|mix|sound design|music|vfx|graphics|titles|deliverables|archiv(e|al))\b/i],
+  ['other', /\b(insurance|legal|publicity|marketing|festival|distribution|office|general|accounting|overhead|admin(istration)?)\b/i]
+];
+
+export const getCategorySection = (category: BudgetCategory): BudgetSection => {
+  if (category.section) return category.section;
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(category.name))?.[0] ?? 'below-the-line';
+};
+
+export const isSpent = (expense: Expense): boolean => expense.status === 'approved' || expense.status === 'reimbursed';
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const expenseAmount = (expense: Expense, convert: ConvertMoney): number => convert(expense.amount, expense.currency, expense.date);
+
+// Variance
+// Expenses booked against an item are its actual cost; without any, the actual cost on the item counts.
+export const getItemVariance = (
+  category: BudgetCategory,
+  item: BudgetItem,
+  expenses: Expense[],
+  convert: ConvertMoney = noConversion
+): ItemVariance => {
+  const booked = expenses.filter(expense => expense.itemId === item.id && isSpent(expense));
+  const estimate = convert(item.estimatedCost * item.quantity, item.currency);
+  const actual = booked.length > 0
+    ? sum(booked.map(expense => expenseAmount(expense, convert)))
+    : convert(item.actualCost * item.quantity, item.currency);
+  const hasActual = booked.length > 0 || item.actualCost > 0 || item.status === 'purchased' || item.status === 'paid';
+
+  return {
+    categoryId: category.id,
+    itemId: item.id,
+    name: item.name,
+    estimate,
+    actual,
+    variance: hasActual ? estimate - actual : 0,
+    hasActual
+  };
+};
+
+export const summarizeBudget = (budget: Budget, convert: ConvertMoney = noConversion): BudgetSummary => {
+  const categories = budget.categories.map(category => {
+    const expenses = budget.expenses.filter(expense => expense.categoryId === category.id);
+    const spent = sum(expenses.filter(isSpent).map(expense => expenseAmount(expense, convert)));
+    const committed = sum(expenses.filter(expense => expense.status === 'pending').map(expense => expenseAmount(expense, convert)));
+    const estimate = sum(category.items.map(item => convert(item.estimatedCost * item.quantity, item.currency)));
+
+    return {
+      categoryId: category.id,
+      name: category.name,
+      section: getCategorySection(category),
+      allocated: category.allocatedAmount,
+      estimate,
+      spent,
+      committed,
+      remaining: category.allocatedAmount - spent,
+      overrun: Math.max(0, spent - category.allocatedAmount),
+      fringes: category.allocatedAmount * (category.fringeRate ?? 0) / 100
+    };
+  });
+
+  const items = budget.categories.flatMap(category => category.items.map(item => getItemVariance(category, item, budget.expenses, convert)));
+  // Expenses whose category was deleted still cost money
+  const spent = sum(budget.expenses.filter(isSpent).map(expense => expenseAmount(expense, convert)));
+  const overruns = sum(categories.map(category => category.overrun));
+  const used = Math.min(budget.contingencyAmount, overruns);
+
+  return {
+    categories,
+    items,
+    total: budget.totalBudget,
+    allocated: sum(categories.map(category => category.allocated)),
+    spent,
+    committed: sum(budget.expenses.filter(expense => expense.status === 'pending').map(expense => expenseAmount(expense, convert))),
+    remaining: budget.totalBudget - spent,
+    contingency: {
+      amount: budget.contingencyAmount,
+      used,
+      remaining: budget.contingencyAmount - used
+    },
+    overBudget: Math.max(0, overruns - budget.contingencyAmount)
+  };
+};
+
+// Writes the derived totals back, so anything reading the stored fields sees the same numbers
+export const recalculateBudget = (budget: Budget, convert: ConvertMoney = noConversion): Budget => {
+  const summary = summarizeBudget(budget, convert);
+  const byId = new Map(summary.categories.map(category => [category.categoryId, category]));
+
+  return {
+    ...budget,
+    allocatedBudget: summary.allocated,
+    remainingBudget: summary.remaining,
+    categories: budget.categories.map(category => ({
+      ...category,
+      spentAmount: byId.get(category.id)!.spent,
+      remainingAmount: byId.get(category.id)!.remaining
+    }))
+  };
+};
+
+// Forecast
+// Shooting days cost more than the days around them, so the burn rate is split: the average shooting day so
+// far prices the shooting days left, and the average of every other day prices the rest of the calendar.
+export const forecastBudget = (project: ProductionProject, now = new Date()): BudgetForecast => {
+  const { budget } = project;
+  const { convert } = createConverter(project, now);
+  const today = startOfDay(now);
+  const spentExpenses = budget.expenses.filter(isSpent);
+  const spent = sum(spentExpenses.map(expense => expenseAmount(expense, convert)));
+  const committed = sum(budget.expenses.filter(expense => expense.status === 'pending').map(expense => expenseAmount(expense, convert)));
+
+  const shootingDays = project.schedule.shootingDays.filter(day => day.status !== 'cancelled');
+  const pastShootDays = shootingDays.filter(day => startOfDay(day.date) <= today);
+  const remainingShootDays = shootingDays.length - pastShootDays.length;
+  const lastShootDay = shootingDays.reduce<Date | null>((last, day) => !last || day.date > last ? day.date : last, null);
+
+  const firstExpense = spentExpenses.reduce<Date | null>((first, expense) => !first || expense.date < first ? expense.date : first, null);
+  const start = startOfDay(firstExpense && firstExpense < project.startDate ? firstExpense : project.startDate);
+  const end = startOfDay(lastShootDay && lastShootDay > project.endDate ? lastShootDay : project.endDate);
+  const elapsedDays = Math.max(0, differenceInCalendarDays(today, start) + 1);
+  const remainingDays = Math.max(0, differenceInCalendarDays(end, today));
+
+  const shootSpend = sum(spentExpenses
+    .filter(expense => pastShootDays.some(day => isSameDay(day.date, expense.date)))
+    .map(expense => expenseAmount(expense, convert)));
+  const shootDayCost = pastShootDays.length > 0 ? shootSpend / pastShootDays.length : null;
+  const otherDays = Math.max(1, elapsedDays - pastShootDays.length);
+  const dailyBurn = shootDayCost === null
+    ? (elapsedDays > 0 ? spent / elapsedDays : 0)
+    : (spent - shootSpend) / otherDays;
+
+  // Spend still to come between today and a date
+  const projectedBy = (date: Date): number => {
+    const days = Math.max(0, differenceInCalendarDays(date, today));
+    const shootDays = shootingDays.filter(day => startOfDay(day.date) > today && startOfDay(day.date) <= date).length;
+    return shootDayCost === null
+      ? dailyBurn * days
+      : shootDayCost * shootDays + dailyBurn * Math.max(0, days - shootDays);
+  };
+
+  const forecastFinal = spent + committed + projectedBy(end);
+  const summary = summarizeBudget(budget, convert);
+  // Categories without items are taken at their allocation
+  const bottomUp = sum(summary.categories.map(category => {
+    const items = summary.items.filter(item => item.categoryId === category.categoryId);
+    const expected = items.length > 0 ? sum(items.map(item => item.hasActual ? item.actual : item.estimate)) : category.allocated;
+    return Math.max(expected, category.spent);
+  })) + spent - sum(summary.categories.map(category => category.spent));
+
+  // When the money runs out at this rate
+  const available = budget.totalBudget - spent - committed;
+  let exhaustionDate: Date | null = null;
+  if (available <= 0) {
+    exhaustionDate = today;
+  } else if (forecastFinal > budget.totalBudget) {
+    let date = today;
+    while (date < end && spent + committed + projectedBy(date) < budget.totalBudget) date = addDays(date, 1);
+    exhaustionDate = date;
+  }
+
+  // Weekly points for the burn chart; the plan spreads the budget less contingency evenly over the calendar
+  const totalDays = Math.max(1, differenceInCalendarDays(end, start));
+  const plannedTotal = budget.totalBudget - budget.contingencyAmount;
+  const dates: Date[] = [];
+  for (let date = start; date < end; date = addDays(date, 7)) dates.push(date);
+  dates.push(end);
+  if (today > start && today < end) dates.push(today);
+  const series = Array.from(new Set(dates.map(date => date.getTime())))
+    .sort((a, b) => a - b)
+    .map(time => {
+      const date = new Date(time);
+      return {
+        date,
+        actual: date <= today ? sum(spentExpenses.filter(expense => startOfDay(expense.date) <= date).map(expense => expenseAmount(expense, convert))) : null,
+        planned: plannedTotal * Math.min(1, differenceInCalendarDays(date, start) / totalDays),
+        forecast: date >= today ? spent + committed + projectedBy(date) : null
+      };
+    });
+
+  return {
+    spent,
+    committed,
+    shootDayCost,
+    dailyBurn,
+    remainingShootDays,
+    remainingDays,
+    forecastFinal,
+    bottomUp,
+    variance: budget.totalBudget - forecastFinal,
+    exhaustionDate,
+    series
+  };
+};
+
+// Top sheet
+// Fringes and overhead accrue on actual spend at the same rates as the budget.
+const line = (account: string, name: string, budget: number, actual: number): TopSheetLine => ({
+  account,
+  name,
+  budget,
+  actual,
+  variance: budget - actual
+});
+
+const totalLine = (account: string, name: string, lines: TopSheetLine[]): TopSheetLine =>
+  line(account, name, sum(lines.map(entry => entry.budget)), sum(lines.map(entry => entry.actual)));
+
+export const getTopSheet = (project: ProductionProject, now = new Date()): TopSheet => {
+  const { budget } = project;
+  const { base, convert } = createConverter(project, now);
+  const summary = summarizeBudget(budget, convert);
+  const rates = new Map(budget.categories.map(category => [category.id, category.fringeRate ?? 0]));
+
+  const sections = BUDGET_SECTIONS.map(({ id, label, account }) => {
+    const categories = summary.categories.filter(category => category.section === id);
+    const lines = categories.map((category, index) =>
+      line(String(account + (index + 1) * 10), category.name, category.allocated, category.spent)
+    );
+    const fringeBudget = sum(categories.map(category => category.fringes));
+    const fringeActual = sum(categories.map(category => category.spent * rates.get(category.categoryId)! / 100));
+    const fringes = fringeBudget > 0 || fringeActual > 0
+      ? line(String(account + 990), 'Fringes', fringeBudget, fringeActual)
+      : null;
+
+    return {
+      section: id,
+      label,
+      lines,
+      fringes,
+      total: totalLine('', `Total ${label}`, fringes ? [...lines, fringes] : lines)
+    };
+  }).filter(section => section.lines.length > 0);
+
+  // Expenses filed against categories that no longer exist
+  const known = new Set(budget.categories.map(category => category.id));
+  const orphaned = sum(budget.expenses.filter(expense => isSpent(expense) && !known.has(expense.categoryId)).map(expense => expenseAmount(expense, convert)));
+  const directLines = sections.map(section => section.total);
+  if (orphaned > 0) directLines.push(line('', 'Uncategorized', 0, orphaned));
+
+  const direct = totalLine('', 'Total Direct Costs', directLines);
+  const overheadRate = budget.overheadRate ?? 0;
+  const overhead = line('5000', `Overhead (${overheadRate}%)`, direct.budget * overheadRate / 100, direct.actual * overheadRate / 100);
+  const contingency = line('6000', 'Contingency', summary.contingency.amount, summary.contingency.used);
+
+  return {
+    title: project.title,
+    generatedAt: now,
+    currency: base,
+    sections,
+    direct,
+    overhead,
+    contingency,
+    // Overruns are already in the actuals; the contingency actual only shows how much of it they used
+    grandTotal: line('', 'Grand Total', direct.budget + overhead.budget + contingency.budget, direct.actual + overhead.actual),
+    approvedBudget: budget.totalBudget
+  };
+};
+
+export const getTopSheetRows = (sheet: TopSheet): { line: TopSheetLine; kind: 'heading' | 'line' | 'total' }[] => [
+  ...sheet.sections.flatMap(section => [
+    { line: line('', section.label, 0, 0), kind: 'heading' as const },
+    ...section.lines.map(entry => ({ line: entry, kind: 'line' as const })),
+    ...(section.fringes ? [{ line: section.fringes, kind: 'line' as const }] : []),
+    { line: section.total, kind: 'total' as const }
+  ]),
+  { line: sheet.direct, kind: 'total' },
+  { line: sheet.overhead, kind: 'line' },
+  { line: sheet.contingency, kind: 'line' },
+  { line: sheet.grandTotal, kind: 'total' }
+];
+
+const formatAmount = (amount: number): string => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const exportTopSheetCsv = (sheet: TopSheet): Blob => {
+  const rows = [
+    ['Account', 'Description', `Budget (${sheet.currency})`, `Actual (${sheet.currency})`, `Variance (${sheet.currency})`],
+    ...getTopSheetRows(sheet).map(({ line: entry, kind }) => kind === 'heading'
+      ? ['', entry.name, '', '', '']
+      : [entry.account, entry.name, entry.budget.toFixed(2), entry.actual.toFixed(2), entry.variance.toFixed(2)]
+    ),
+    ['', 'Approved Budget', sheet.approvedBudget.toFixed(2), '', (sheet.approvedBudget - sheet.grandTotal.budget).toFixed(2)]
+  ];
+  return new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+};
+
+export const exportTopSheetPdf = (sheet: TopSheet): jsPDF => {
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 20;
+  const columns = [pageWidth - margin - 70, pageWidth - margin - 35, pageWidth - margin];
+  let yPosition = margin;
+
+  pdf.setFontSize(18);
+  pdf.text('Budget Top Sheet', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 10;
+  pdf.setFontSize(11);
+  pdf.text(sheet.title, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 6;
+  pdf.setFontSize(9);
+  pdf.text(`Generated ${sheet.generatedAt.toLocaleString()} • Amounts in ${sheet.currency}`, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 12;
+
+  const header = () => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(9);
+    pdf.text('Acct', margin, yPosition);
+    pdf.text('Description', margin + 18, yPosition);
+    ['Budget', 'Actual', 'Variance'].forEach((label, index) => pdf.text(label, columns[index], yPosition, { align: 'right' }));
+    pdf.line(margin, yPosition + 2, pageWidth - margin, yPosition + 2);
+    yPosition += 8;
+  };
+  header();
+
+  getTopSheetRows(sheet).forEach(({ line: entry, kind }) => {
+    if (yPosition > pageHeight - margin) {
+      pdf.addPage();
+      yPosition = margin;
+      header();
+    }
+
+    pdf.setFont('helvetica', kind === 'line' ? 'normal' : 'bold');
+    if (kind === 'heading') {
+      yPosition += 2;
+      pdf.text(entry.name.toUpperCase(), margin, yPosition);
+    } else {
+      pdf.text(entry.account, margin, yPosition);
+      pdf.text(entry.name, margin + 18, yPosition);
+      [entry.budget, entry.actual, entry.variance].forEach((amount, index) => {
+        pdf.text(formatAmount(amount), columns[index], yPosition, { align: 'right' });
+      });
+      if (kind === 'total') pdf.line(columns[0] - 30, yPosition - 4, pageWidth - margin, yPosition - 4);
+    }
+    yPosition += kind === 'total' ? 9 : 6;
+  });
+
+  yPosition += 4;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Approved Budget', margin + 18, yPosition);
+  pdf.text(formatAmount(sheet.approvedBudget), columns[0], yPosition, { align: 'right' });
+  pdf.text(formatAmount(sheet.approvedBudget - sheet.grandTotal.budget), columns[2], yPosition, { align: 'right' });
+
+  return pdf;
+};
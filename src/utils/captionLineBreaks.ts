@@ -0,0 +1,134 @@
+import { CaptionLineShape } from '../types/audio';
+
+// Line breaking for captions
+// Breaks are scored so that lines fit, fall after punctuation where possible, never strand an article,
+// preposition or conjunction at the end of a line, and come out in the preferred shape.
+
+export interface CaptionLineOptions {
+  maxLineLength: number;
+  maxLines: number;
+  lineShape?: CaptionLineShape;
+}
+
+// Words that belong with the word after them
+const GLUE_WORDS = new Set([
+  'a', 'an', 'the',
+  'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'into', 'onto', 'about', 'as',
+  'and', 'but', 'or', 'nor', 'so', 'if', 'that',
+  'my', 'your', 'his', 'her', 'its', 'our', 'their', 'this', 'these', 'those',
+  'mr.', 'mrs.', 'ms.', 'dr.'
+]);
+
+const BREAK_PENALTY = 10;
+const GLUE_PENALTY = 60;
+const CLAUSE_BONUS = 8;
+const SENTENCE_BONUS = 10;
+const MAX_CANDIDATES = 20000;
+
+export const endsWithGlueWord = (line: string): boolean => {
+  const last = line.trim().split(/\s+/).pop() ?? '';
+  return GLUE_WORDS.has(last.toLowerCase().replace(/^["'(“‘]+/, ''));
+};
+
+// Cost of breaking the line after `word`
+const getBreakCost = (word: string): number => {
+  if (/[.!?]["')”’]*$/.test(word)) return BREAK_PENALTY - SENTENCE_BONUS;
+  if (/[,;:—-]["')”’]*$/.test(word)) return BREAK_PENALTY - CLAUSE_BONUS;
+  if (GLUE_WORDS.has(word.toLowerCase())) return BREAK_PENALTY + GLUE_PENALTY;
+  return BREAK_PENALTY;
+};
+
+// Penalizes uneven lines; bottom-heavy layouts tolerate a longer lower line but not a longer upper one
+export const getShapeCost = (lengths: number[], shape: CaptionLineShape = 'balanced'): number => {
+  let cost = 0;
+  for (let i = 1; i < lengths.length; i++) {
+    const growth = lengths[i] - lengths[i - 1];
+    if (shape === 'bottom-heavy') {
+      cost += growth >= 0 ? growth * 0.25 : -growth * 1.5;
+    } else {
+      cost += Math.abs(growth);
+    }
+  }
+  return cost;
+};
+
+// Greedy fill, used when the text cannot fit within the line limit
+const wrapGreedy = (words: string[], maxLineLength: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  words.forEach(word => {
+    if (current && current.length + 1 + word.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Best layout of the words in exactly `lineCount` lines, or null when they do not fit
+const findBestLayout = (words: string[], lineCount: number, options: CaptionLineOptions): string[] | null => {
+  const prefix = [0];
+  words.forEach(word => prefix.push(prefix[prefix.length - 1] + word.length));
+  const lengthOf = (from: number, to: number) => prefix[to] - prefix[from] + (to - from - 1);
+
+  const best: { cost: number; breaks: number[] | null } = { cost: Infinity, breaks: null };
+  let candidates = 0;
+
+  const search = (from: number, breaks: number[], cost: number) => {
+    if (candidates > MAX_CANDIDATES) return;
+
+    if (breaks.length === lineCount - 1) {
+      if (lengthOf(from, words.length) > options.maxLineLength) return;
+      candidates++;
+
+      const bounds = [0, ...breaks, words.length];
+      const lengths = bounds.slice(1).map((end, i) => lengthOf(bounds[i], end));
+      const total = cost + getShapeCost(lengths, options.lineShape);
+      if (total < best.cost) {
+        best.cost = total;
+        best.breaks = [...breaks];
+      }
+      return;
+    }
+
+    const remainingLines = lineCount - breaks.length - 1;
+    for (let end = from + 1; end <= words.length - remainingLines; end++) {
+      if (lengthOf(from, end) > options.maxLineLength) break;
+      search(end, [...breaks, end], cost + getBreakCost(words[end - 1]));
+    }
+  };
+
+  search(0, [], 0);
+  if (!best.breaks) return null;
+
+  const bounds = [0, ...best.breaks, words.length];
+  return bounds.slice(1).map((end, i) => words.slice(bounds[i], end).join(' '));
+};
+
+// Lays caption text out in as few lines as fit, choosing the break points by linguistic and shape cost.
+// Text too long for the limits is wrapped greedily into extra lines, which the linter reports.
+export const breakCaptionLines = (text: string, options: CaptionLineOptions): string[] => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const singleLine = words.join(' ');
+  if (singleLine.length <= options.maxLineLength) return [singleLine];
+
+  for (let lineCount = 2; lineCount <= Math.max(2, options.maxLines); lineCount++) {
+    const layout = findBestLayout(words, lineCount, options);
+    if (layout) return layout;
+  }
+
+  return wrapGreedy(words, options.maxLineLength);
+};
+
+// Whether the text can be shown within the line limits
+export const fitsCaption = (text: string, options: CaptionLineOptions): boolean => {
+  const lines = breakCaptionLines(text, options);
+  return lines.length <= options.maxLines && lines.every(line => line.length <= options.maxLineLength);
+};
@@ -0,0 +1,430 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CaptionProfile, SubtitleIssue, TranscriptionSegment, TranscriptionWord } from '../types/audio';
+import { CaptionLineOptions, breakCaptionLines, endsWithGlueWord, fitsCaption, getShapeCost } from './captionLineBreaks';
+import { getCaptionLines, validateSubtitles } from './subtitleFormats';
+import { estimateWordTimings } from './transcriptAlignment';
+
+export interface CaptionDiffEntry {
+  type: 'unchanged' | 'removed' | 'added';
+  segment: TranscriptionSegment;
+}
+
+// Profiles
+// Values follow each guide's rules for adult English-language programming
+export const CAPTION_PROFILES: CaptionProfile[] = [
+  {
+    id: 'netflix',
+    name: 'Netflix Timed Text',
+    description: 'Netflix English timed text style guide: 42 characters per line, 20 characters per second, 2-frame gaps and shot-change snapping.',
+    frameRate: 24,
+    maxLineLength: 42,
+    maxLines: 2,
+    maxCharsPerSecond: 20,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+    minGapFrames: 2,
+    shotChangeWindowFrames: 12,
+    lineShape: 'bottom-heavy'
+  },
+  {
+    id: 'bbc',
+    name: 'BBC Subtitle Guidelines',
+    description: 'BBC subtitle guidelines: 37 characters per line at about 180 words per minute, with balanced line breaks.',
+    frameRate: 25,
+    maxLineLength: 37,
+    maxLines: 2,
+    maxCharsPerSecond: 17,
+    minDuration: 1,
+    maxDuration: 7,
+    minGapFrames: 1,
+    shotChangeWindowFrames: 12,
+    lineShape: 'balanced'
+  },
+  {
+    id: 'fcc',
+    name: 'FCC (CEA-608)',
+    description: 'FCC caption quality rules with CEA-608 limits: 32 characters per line, reading rate of about 160 words per minute.',
+    frameRate: 29.97,
+    maxLineLength: 32,
+    maxLines: 2,
+    maxCharsPerSecond: 15,
+    minDuration: 1.5,
+    maxDuration: 6,
+    minGapFrames: 2,
+    shotChangeWindowFrames: 15,
+    lineShape: 'balanced'
+  }
+];
+
+export const getCaptionProfile = (id: string): CaptionProfile => {
+  return CAPTION_PROFILES.find(profile => profile.id === id) ?? CAPTION_PROFILES[0];
+};
+
+export const getCaptionLineOptions = (profile: CaptionProfile): CaptionLineOptions => ({
+  maxLineLength: profile.maxLineLength,
+  maxLines: profile.maxLines,
+  lineShape: profile.lineShape
+});
+
+// Shot changes
+const TIMECODE_PATTERN = /(\d{1,2}):(\d{2}):(\d{2})([:;.,])(\d{1,3})/g;
+
+const parseTimecode = (match: RegExpMatchArray, frameRate: number): number => {
+  const [, hours, minutes, seconds, separator, fraction] = match;
+  const base = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  // HH:MM:SS:FF (or ;FF drop-frame) counts frames; a dot or comma is a decimal fraction
+  return separator === ':' || separator === ';'
+    ? base + Number(fraction) / frameRate
+    : base + Number(`0.${fraction}`);
+};
+
+// Reads shot changes from a CMX 3600 EDL (record-in times, relative to the first event) or from a list
+// with one timecode or number of seconds per line
+export const parseShotChanges = (content: string, frameRate: number): number[] => {
+  const lines = content.split(/\r?\n/);
+  const edlTimes = lines
+    .filter(line => /^\s*\d{3,}\s+\S+/.test(line))
+    .map(line => Array.from(line.matchAll(TIMECODE_PATTERN)))
+    .filter(matches => matches.length >= 4)
+    .map(matches => parseTimecode(matches[2], frameRate));
+
+  let times: number[];
+  if (edlTimes.length > 0) {
+    const programStart = Math.min(...edlTimes);
+    times = edlTimes.map(time => time - programStart);
+  } else {
+    times = lines.flatMap(line => {
+      const timecode = Array.from(line.matchAll(TIMECODE_PATTERN))[0];
+      if (timecode) return [parseTimecode(timecode, frameRate)];
+      const seconds = parseFloat(line.trim());
+      return Number.isFinite(seconds) ? [seconds] : [];
+    });
+  }
+
+  return Array.from(new Set(times.filter(time => time > 0).map(time => Math.round(time * 1000) / 1000)))
+    .sort((a, b) => a - b);
+};
+
+const findNearest = (times: number[], time: number): number | undefined => {
+  let nearest: number | undefined;
+  times.forEach(candidate => {
+    if (nearest === undefined || Math.abs(candidate - time) < Math.abs(nearest - time)) nearest = candidate;
+  });
+  return nearest;
+};
+
+const toFrames = (seconds: number, profile: CaptionProfile): number => Math.round(seconds * profile.frameRate);
+
+// Layout checks shared by the linter and auto-fix
+const findStrandedWords = (lines: string[]): { lineIndex: number; word: string }[] => {
+  return lines
+    .slice(0, -1)
+    .map((line, lineIndex) => ({ lineIndex, word: line.trim().split(/\s+/).pop() ?? '' }))
+    .filter(({ word }) => endsWithGlueWord(word));
+};
+
+const isUnbalanced = (lines: string[], profile: CaptionProfile): boolean => {
+  if (lines.length !== 2) return false;
+  const ideal = breakCaptionLines(lines.join(' '), getCaptionLineOptions(profile));
+  const idealCost = ideal.length === 2 ? getShapeCost(ideal.map(line => line.length), profile.lineShape) : 0;
+  return getShapeCost(lines.map(line => line.length), profile.lineShape) - idealCost > 10;
+};
+
+const hasLayoutProblem = (lines: string[], profile: CaptionProfile): boolean => {
+  return lines.length > profile.maxLines ||
+    lines.some(line => line.length > profile.maxLineLength) ||
+    findStrandedWords(lines).length > 0 ||
+    isUnbalanced(lines, profile);
+};
+
+// Linting
+// Checks the profile's timing, reading speed and layout rules, plus minimum gaps, line-break quality,
+// two-line balance and how closely captions sit on shot changes
+export const lintCaptions = (
+  segments: TranscriptionSegment[],
+  profile: CaptionProfile,
+  shotChanges: number[] = []
+): SubtitleIssue[] => {
+  const lineOptions = getCaptionLineOptions(profile);
+  const minGap = profile.minGapFrames / profile.frameRate;
+  const window = profile.shotChangeWindowFrames / profile.frameRate;
+  const halfFrame = 0.5 / profile.frameRate;
+
+  const issues = validateSubtitles(segments, {
+    maxLineLength: profile.maxLineLength,
+    maxLinesPerCaption: profile.maxLines,
+    minDuration: profile.minDuration,
+    maxDuration: profile.maxDuration,
+    maxCharsPerSecond: profile.maxCharsPerSecond
+  });
+
+  const addIssue = (segmentId: string, type: SubtitleIssue['type'], message: string) => {
+    issues.push({ id: uuidv4(), segmentId, type, severity: 'warning', message });
+  };
+
+  const sorted = [...segments].sort((a, b) => a.startTime - b.startTime);
+
+  sorted.forEach((segment, index) => {
+    const next = sorted[index + 1];
+    if (next) {
+      const gap = next.startTime - segment.endTime;
+      if (gap >= 0 && gap < minGap - halfFrame) {
+        addIssue(segment.id, 'min-gap', `${toFrames(gap, profile)} frame gap to the next caption, minimum is ${profile.minGapFrames}`);
+      }
+    }
+
+    const lines = getCaptionLines(segment, lineOptions);
+    findStrandedWords(lines).forEach(({ lineIndex, word }) => {
+      addIssue(segment.id, 'line-break', `Line ${lineIndex + 1} ends on "${word}"; keep it with the words that follow`);
+    });
+
+    if (isUnbalanced(lines, profile)) {
+      addIssue(segment.id, 'line-balance', `Lines of ${lines[0].length} and ${lines[1].length} characters are unbalanced`);
+    }
+
+    if (shotChanges.length > 0) {
+      const startShot = findNearest(shotChanges, segment.startTime);
+      if (startShot !== undefined) {
+        const offset = segment.startTime - startShot;
+        if (Math.abs(offset) > halfFrame && Math.abs(offset) <= window) {
+          addIssue(segment.id, 'shot-change', `Starts ${Math.abs(toFrames(offset, profile))} frames ${offset < 0 ? 'before' : 'after'} a shot change`);
+        }
+      }
+
+      // A caption should end on the cut or the minimum gap before it
+      const endShot = findNearest(shotChanges, segment.endTime + minGap);
+      if (endShot !== undefined) {
+        const offset = segment.endTime + minGap - endShot;
+        const onCut = Math.abs(segment.endTime - endShot) <= halfFrame;
+        if (!onCut && Math.abs(offset) > halfFrame && Math.abs(offset) <= window) {
+          addIssue(segment.id, 'shot-change', `Ends ${Math.abs(toFrames(offset, profile))} frames ${offset < 0 ? 'before' : 'after'} a shot change`);
+        }
+      }
+    }
+  });
+
+  const order = new Map(sorted.map((segment, index) => [segment.id, index]));
+  return issues.sort((a, b) => (order.get(a.segmentId) ?? 0) - (order.get(b.segmentId) ?? 0));
+};
+
+// Auto-fix
+const MERGE_GAP = 1; // seconds; fragments further apart than this are separate thoughts
+
+const getWords = (segment: TranscriptionSegment): TranscriptionWord[] => {
+  return segment.words.length > 0
+    ? segment.words
+    : estimateWordTimings(segment.text, segment.startTime, segment.endTime, segment.confidence);
+};
+
+const joinWords = (words: TranscriptionWord[]): string => words.map(word => word.text).join(' ');
+
+// Where to end a caption that has run out of room: the last sentence end in its second half, else the
+// last clause end, else as late as possible without leaving an article or preposition at the end
+const findSplitPoint = (words: TranscriptionWord[]): number => {
+  const minimum = Math.ceil(words.length / 2);
+  for (const pattern of [/[.!?]["')”’]*$/, /[,;:—]["')”’]*$/]) {
+    for (let end = words.length - 1; end >= minimum; end--) {
+      if (pattern.test(words[end - 1].text)) return end;
+    }
+  }
+
+  let end = words.length;
+  while (end > minimum && endsWithGlueWord(words[end - 1].text)) end--;
+  return end;
+};
+
+const splitSegment = (segment: TranscriptionSegment, profile: CaptionProfile): TranscriptionSegment[] => {
+  const lineOptions = getCaptionLineOptions(profile);
+  const fits = (words: TranscriptionWord[]) =>
+    fitsCaption(joinWords(words), lineOptions) &&
+    words[words.length - 1].endTime - words[0].startTime <= profile.maxDuration;
+
+  const chunks: TranscriptionWord[][] = [];
+  let current: TranscriptionWord[] = [];
+
+  getWords(segment).forEach(word => {
+    const candidate = [...current, word];
+    if (current.length === 0 || fits(candidate)) {
+      current = candidate;
+      return;
+    }
+
+    const splitPoint = findSplitPoint(current);
+    chunks.push(current.slice(0, splitPoint));
+    current = [...current.slice(splitPoint), word];
+  });
+  if (current.length > 0) chunks.push(current);
+
+  if (chunks.length <= 1) return [segment];
+
+  return chunks.map((words, index) => ({
+    ...segment,
+    id: uuidv4(),
+    startTime: index === 0 ? segment.startTime : words[0].startTime,
+    endTime: index === chunks.length - 1 ? segment.endTime : words[words.length - 1].endTime,
+    text: joinWords(words),
+    words,
+    edited: true,
+    subtitle: undefined
+  }));
+};
+
+// Joins captions too short to read into the next caption from the same speaker
+const mergeShortCaptions = (captions: TranscriptionSegment[], profile: CaptionProfile): TranscriptionSegment[] => {
+  const lineOptions = getCaptionLineOptions(profile);
+  const merged: TranscriptionSegment[] = [];
+  let index = 0;
+
+  while (index < captions.length) {
+    let caption = captions[index];
+    let next = captions[index + 1];
+
+    while (
+      next &&
+      caption.endTime - caption.startTime < profile.minDuration &&
+      next.speakerId === caption.speakerId &&
+      next.startTime - caption.endTime < MERGE_GAP &&
+      next.endTime - caption.startTime <= profile.maxDuration &&
+      fitsCaption(`${caption.text} ${next.text}`, lineOptions)
+    ) {
+      caption = {
+        ...caption,
+        id: uuidv4(),
+        endTime: next.endTime,
+        text: `${caption.text} ${next.text}`,
+        words: [...getWords(caption), ...getWords(next)],
+        edited: true,
+        subtitle: undefined
+      };
+      index++;
+      next = captions[index + 1];
+    }
+
+    merged.push(caption);
+    index++;
+  }
+
+  return merged;
+};
+
+// Extends captions to a readable duration, snaps them to nearby shot changes and enforces the minimum gap
+const retimeCaptions = (
+  captions: TranscriptionSegment[],
+  profile: CaptionProfile,
+  shotChanges: number[]
+): TranscriptionSegment[] => {
+  const lineOptions = getCaptionLineOptions(profile);
+  const frame = 1 / profile.frameRate;
+  const minGap = profile.minGapFrames * frame;
+  const window = profile.shotChangeWindowFrames * frame;
+  const toFrame = (time: number) => Math.round(time * profile.frameRate) / profile.frameRate;
+
+  // Starts first, so each end can be fitted against the final start of the caption after it
+  const starts = captions.map((caption, index) => {
+    const shot = findNearest(shotChanges, caption.startTime);
+    const previousStart = captions[index - 1]?.startTime ?? -Infinity;
+    if (
+      shot !== undefined &&
+      Math.abs(shot - caption.startTime) <= window &&
+      shot > previousStart + profile.minDuration &&
+      shot < caption.endTime
+    ) {
+      return shot;
+    }
+    return caption.startTime;
+  });
+
+  const ends = captions.map((caption, index) => {
+    const start = starts[index];
+    const limit = (starts[index + 1] ?? Infinity) - minGap;
+    const characters = getCaptionLines(caption, lineOptions).join(' ').length;
+    const readable = start + Math.max(profile.minDuration, characters / profile.maxCharsPerSecond);
+
+    let end = Math.min(Math.max(caption.endTime, readable), Math.max(caption.endTime, start + profile.maxDuration));
+
+    // End just before a nearby cut rather than a few frames either side of it
+    const shot = findNearest(shotChanges, end + minGap);
+    if (shot !== undefined && Math.abs(shot - minGap - end) <= window && shot - minGap - start >= profile.minDuration) {
+      end = shot - minGap;
+    }
+
+    // Close gaps too short to register as a pause
+    if (limit - end > 0 && limit - end < window) end = limit;
+
+    return Math.max(start + frame, Math.min(end, limit));
+  });
+
+  return captions.map((caption, index) => {
+    const startTime = Math.abs(starts[index] - caption.startTime) > 1e-6 ? toFrame(starts[index]) : caption.startTime;
+    const endTime = Math.abs(ends[index] - caption.endTime) > 1e-6 ? toFrame(ends[index]) : caption.endTime;
+    return startTime === caption.startTime && endTime === caption.endTime
+      ? caption
+      : { ...caption, startTime, endTime };
+  });
+};
+
+// Re-segments and retimes captions to meet the profile. Captions that already conform are returned as-is.
+export const autoFixCaptions = (
+  segments: TranscriptionSegment[],
+  profile: CaptionProfile,
+  shotChanges: number[] = []
+): TranscriptionSegment[] => {
+  const lineOptions = getCaptionLineOptions(profile);
+  const split = [...segments]
+    .sort((a, b) => a.startTime - b.startTime)
+    .flatMap(segment =>
+      fitsCaption(segment.text, lineOptions) && segment.endTime - segment.startTime <= profile.maxDuration
+        ? [segment]
+        : splitSegment(segment, profile)
+    );
+
+  // Imported captions with poor line breaks drop their original layout so they are re-broken on export
+  const relaid = mergeShortCaptions(split, profile).map(caption =>
+    caption.subtitle && caption.subtitle.text === caption.text && hasLayoutProblem(caption.subtitle.lines, profile)
+      ? { ...caption, subtitle: undefined }
+      : caption
+  );
+
+  return retimeCaptions(relaid, profile, shotChanges);
+};
+
+// Diff
+const getDiffKey = (segment: TranscriptionSegment): string => {
+  return `${Math.round(segment.startTime * 1000)}|${Math.round(segment.endTime * 1000)}|${segment.speakerId ?? ''}|${segment.text}`;
+};
+
+// Longest common subsequence of captions, reported as unchanged, removed and added entries in time order
+export const diffCaptions = (before: TranscriptionSegment[], after: TranscriptionSegment[]): CaptionDiffEntry[] => {
+  const beforeKeys = before.map(getDiffKey);
+  const afterKeys = after.map(getDiffKey);
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = Array.from({ length: rows }, () => new Uint32Array(cols));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = beforeKeys[i] === afterKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const entries: CaptionDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      entries.push({ type: 'unchanged', segment: after[j] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      entries.push({ type: 'removed', segment: before[i] });
+      i++;
+    } else {
+      entries.push({ type: 'added', segment: after[j] });
+      j++;
+    }
+  }
+
+  return entries;
+};
@@ -0,0 +1,308 @@
+import {
+  ConnectionStatus,
+  CrdtOperation,
+  PresenceState,
+  RejectedOperation,
+  RoomMember,
+  ServerMessage
+} from '../types/collaboration';
+import { Collaborator, Permission, Script } from '../types/script';
+import { CollaborationTransport } from './collaborationTransport';
+import {
+  ScriptDocument,
+  applyDocumentToScript,
+  applyOperation,
+  checkPermission,
+  createOperations,
+  createScriptDocument,
+  toRoomMembers
+} from './scriptCrdt';
+import { parseWithDates, stringifyWithDates } from './serialization';
+
+export interface CollaborationState {
+  status: ConnectionStatus;
+  peers: PresenceState[];
+  pending: number; // Local operations the relay has not confirmed yet
+  revision: number; // Goes up whenever other people's edits change the document
+  rejected: RejectedOperation[];
+  notice: string | null;
+}
+
+export interface CollaborationSession {
+  scriptId: string;
+  actor: Collaborator;
+  getState: () => CollaborationState;
+  applyLocal: (script: Script) => Script; // Returns the script as the shared document now has it
+  materialize: (script: Script) => Script; // `script` with the shared fields and the room's members
+  setPresence: (elementId: string | null) => void;
+  subscribe: (listener: (state: CollaborationState) => void) => () => void;
+  disconnect: () => void;
+}
+
+interface StartSessionOptions {
+  script: Script;
+  actor: Collaborator;
+  inviteCode?: string; // The relay checks it against the room's member table before the actor may join
+  transport: CollaborationTransport;
+}
+
+// Sync log
+// The operations confirmed by the relay are kept per script. They are the common ancestor for edits made
+// while offline: on the next start, anything that differs from them becomes a local operation to merge.
+const LOG_STORAGE_PREFIX = 'collaboration-log:';
+const MAX_REJECTED = 20;
+const PERMISSION_ACTIONS: Permission['action'][] = ['read', 'write', 'comment', 'approve', 'export'];
+
+const sameMembers = (a: RoomMember[], b: RoomMember[]): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// The relay keeps invite codes to itself, so tables it sends never have them
+const withoutCodes = (members: RoomMember[]): RoomMember[] => members.map(member => ({ ...member, inviteCode: undefined }));
+
+// The room's member table as collaborators, keeping what only this copy knows, such as last activity
+const toCollaborators = (members: RoomMember[], local: Collaborator[]): Collaborator[] => members.map(member => {
+  const existing = local.find(collaborator => collaborator.id === member.id);
+  return {
+    ...existing,
+    id: member.id,
+    name: member.name,
+    email: member.email,
+    role: member.role,
+    permissions: PERMISSION_ACTIONS.map(action => ({ action, granted: member.actions.includes(action) })),
+    lastActive: existing?.lastActive ?? new Date()
+  };
+});
+
+const loadLog = (scriptId: string): CrdtOperation[] => {
+  try {
+    const saved = localStorage.getItem(LOG_STORAGE_PREFIX + scriptId);
+    return saved ? parseWithDates<CrdtOperation[]>(saved) : [];
+  } catch (error) {
+    console.error('Failed to load collaboration log:', error);
+    return [];
+  }
+};
+
+const saveLog = (scriptId: string, log: CrdtOperation[]) => {
+  try {
+    localStorage.setItem(LOG_STORAGE_PREFIX + scriptId, stringifyWithDates(log));
+  } catch (error) {
+    console.error('Failed to save collaboration log:', error);
+  }
+};
+
+const PRESENCE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export const getPresenceColor = (actor: string): string => {
+  const hash = Array.from(actor).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+// Session registry, so every view of a script edits through the same session
+const sessions = new Map<string, CollaborationSession>();
+const registryListeners = new Set<() => void>();
+
+const notifyRegistry = () => registryListeners.forEach(listener => listener());
+
+export const getCollaborationSession = (scriptId: string): CollaborationSession | null => sessions.get(scriptId) ?? null;
+
+export const subscribeToSessions = (listener: () => void): (() => void) => {
+  registryListeners.add(listener);
+  return () => {
+    registryListeners.delete(listener);
+  };
+};
+
+export const startCollaborationSession = ({ script, actor, inviteCode, transport }: StartSessionOptions): CollaborationSession => {
+  sessions.get(script.id)?.disconnect();
+
+  // Who may do what is decided by the relay's member table for the room. Until it arrives, the local
+  // collaborator list is used to hold back edits that would be refused anyway.
+  let members = toRoomMembers(script.collaborators);
+  let roomMembers: RoomMember[] | null = null;
+  let sharedMembers = members; // The table, codes included, this editor last sent
+  const log = loadLog(script.id);
+  let doc: ScriptDocument = createScriptDocument();
+  log.forEach(op => applyOperation(doc, op));
+  const confirmed = new Set(log.map(op => op.id));
+
+  let state: CollaborationState = { status: 'offline', peers: [], pending: 0, revision: 0, rejected: [], notice: null };
+  const listeners = new Set<(state: CollaborationState) => void>();
+  let presence: PresenceState = {
+    actor: actor.id,
+    name: actor.name,
+    color: getPresenceColor(actor.id),
+    elementId: null,
+    updatedAt: Date.now()
+  };
+  let joined = false;
+
+  const reject = (rejected: RejectedOperation[]) => {
+    if (rejected.length > 0) setState({ rejected: [...rejected, ...state.rejected].slice(0, MAX_REJECTED) });
+  };
+
+  const isAllowed = (op: CrdtOperation, rejected: RejectedOperation[]): boolean => {
+    const problem = checkPermission(op, roomMembers ?? members);
+    if (problem) rejected.push(problem);
+    return !problem;
+  };
+
+  // Everything changed since the last sync; for a first session this is the whole script
+  const localRejected: RejectedOperation[] = [];
+  let outbox = createOperations(doc, actor.id, script, op => isAllowed(op, localRejected));
+
+  let changed = false;
+  const setState = (changes: Partial<CollaborationState>) => {
+    state = { ...state, ...changes, pending: outbox.length, revision: changed ? state.revision + 1 : state.revision };
+    changed = false;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const flush = () => {
+    if (joined && outbox.length > 0) transport.send({ type: 'ops', ops: outbox });
+    setState({});
+  };
+
+  // Operations from the relay: confirmed ones join the log, our own leave the outbox. The relay has
+  // already checked them against the room's members, so every editor applies the same set.
+  const receive = (ops: CrdtOperation[]) => {
+    const fresh = ops.filter(op => !confirmed.has(op.id));
+    fresh.forEach(op => {
+      confirmed.add(op.id);
+      log.push(op);
+      changed = applyOperation(doc, op) || changed;
+    });
+
+    outbox = outbox.filter(op => !confirmed.has(op.id));
+    if (fresh.length > 0) saveLog(script.id, log);
+  };
+
+  // Refused operations were already applied locally, so the document is rebuilt without them
+  const drop = (rejected: RejectedOperation[]) => {
+    const ids = new Set(rejected.map(item => item.operation.id));
+    outbox = outbox.filter(op => !ids.has(op.id));
+
+    const rebuilt = createScriptDocument();
+    [...log, ...outbox].forEach(op => applyOperation(rebuilt, op));
+    rebuilt.clock = Math.max(rebuilt.clock, doc.clock); // Never reuse an operation ID
+    doc = rebuilt;
+    changed = true;
+    reject(rejected);
+  };
+
+  const shareMembers = () => {
+    if (!joined || !roomMembers) return;
+    if (sameMembers(withoutCodes(members), withoutCodes(roomMembers)) && sameMembers(members, sharedMembers)) return;
+    sharedMembers = members;
+    transport.send({ type: 'members', members });
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome': {
+        const ours = new Set(outbox.map(op => op.id));
+        const adopted = message.ops.some(op => ours.has(op.id));
+
+        // Two copies of a script with no shared history cannot be merged element by element; the room wins
+        if (log.length === 0 && !adopted && message.ops.length > 0) {
+          doc = createScriptDocument();
+          outbox = [];
+          changed = true;
+          setState({ notice: 'Joined a session already in progress. Your copy was replaced with the shared script.' });
+        }
+
+        joined = true;
+        roomMembers = message.members;
+        changed = true;
+        receive(message.ops);
+        setState({ peers: message.peers.filter(peer => peer.actor !== actor.id) });
+        flush();
+        break;
+      }
+      case 'ops':
+        receive(message.ops);
+        setState({});
+        break;
+      case 'rejected':
+        drop(message.rejected);
+        setState({});
+        break;
+      case 'members':
+        roomMembers = message.members;
+        changed = true;
+        setState(message.refused
+          ? { notice: 'Only an owner who joined with their invite code can change who has access. Your change was not shared.' }
+          : {});
+        break;
+      case 'presence':
+        if (message.presence.actor === actor.id) return;
+        setState({ peers: [...state.peers.filter(peer => peer.actor !== message.presence.actor), message.presence] });
+        break;
+      case 'leave':
+        setState({ peers: state.peers.filter(peer => peer.actor !== message.actor) });
+        break;
+      case 'refused':
+        // Reconnecting would only be turned away again
+        transport.disconnect();
+        setState({ notice: message.reason });
+        break;
+    }
+  };
+
+  const session: CollaborationSession = {
+    scriptId: script.id,
+    actor,
+    getState: () => state,
+    applyLocal: (next) => {
+      const rejected: RejectedOperation[] = [];
+      const ops = createOperations(doc, actor.id, next, op => isAllowed(op, rejected));
+      outbox = [...outbox, ...ops];
+      reject(rejected);
+      if (ops.length > 0 && joined) transport.send({ type: 'ops', ops });
+      members = toRoomMembers(next.collaborators);
+      shareMembers();
+      setState({});
+      return applyDocumentToScript(next, doc);
+    },
+    materialize: (base) => {
+      const script = applyDocumentToScript(base, doc);
+      return roomMembers ? { ...script, collaborators: toCollaborators(roomMembers, base.collaborators) } : script;
+    },
+    setPresence: (elementId) => {
+      presence = { ...presence, elementId, updatedAt: Date.now() };
+      if (joined) transport.send({ type: 'presence', presence });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    disconnect: () => {
+      transport.disconnect();
+      listeners.clear();
+      if (sessions.get(script.id) === session) {
+        sessions.delete(script.id);
+        notifyRegistry();
+      }
+    }
+  };
+
+  transport.connect({
+    onMessage: handleMessage,
+    onStatusChange: (status) => {
+      joined = false;
+      if (status === 'connected') {
+        // The seed only matters if the relay has never seen this script
+        sharedMembers = members;
+        transport.send({ type: 'join', room: script.id, actor: actor.id, inviteCode, seed: [...log, ...outbox], members, presence });
+      }
+      setState({ status, peers: status === 'connected' ? state.peers : [] });
+    }
+  });
+
+  // A first session's seed is the whole script rather than edits, so refusing it is not worth reporting
+  if (log.length > 0) reject(localRejected);
+  sessions.set(script.id, session);
+  notifyRegistry();
+  return session;
+};
@@ -0,0 +1,84 @@
+import { ClientMessage, ConnectionStatus, ServerMessage } from '../types/collaboration';
+import { parseWithDates, stringifyWithDates } from './serialization';
+
+export interface TransportHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatusChange: (status: ConnectionStatus) => void;
+}
+
+// Carries collaboration messages to and from the other editors. The session re-sends its join
+// message whenever the status becomes 'connected', so transports only need to reconnect.
+export interface CollaborationTransport {
+  id: string;
+  name: string;
+  connect: (handlers: TransportHandlers) => void;
+  send: (message: ClientMessage) => boolean; // False when offline; the caller keeps the message
+  disconnect: () => void;
+}
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:4455';
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export const createWebSocketTransport = (url: string = DEFAULT_RELAY_URL): CollaborationTransport => {
+  let socket: WebSocket | null = null;
+  let handlers: TransportHandlers | null = null;
+  let reconnectTimer: number | undefined;
+  let attempts = 0;
+  let closedByUser = false;
+
+  const open = () => {
+    if (!handlers) return;
+    handlers.onStatusChange('connecting');
+
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      handlers?.onStatusChange('connected');
+    };
+    ws.onmessage = (event) => {
+      try {
+        handlers?.onMessage(parseWithDates<ServerMessage>(String(event.data)));
+      } catch (error) {
+        console.error('Ignoring malformed collaboration message:', error);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      handlers?.onStatusChange('offline');
+      if (closedByUser) return;
+
+      // Back off so a relay that is down is not hammered; edits keep queueing meanwhile
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+      attempts++;
+      reconnectTimer = window.setTimeout(open, delay);
+    };
+  };
+
+  return {
+    id: 'websocket',
+    name: 'WebSocket relay',
+    connect: (nextHandlers) => {
+      handlers = nextHandlers;
+      closedByUser = false;
+      open();
+    },
+    send: (message) => {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(stringifyWithDates(message));
+      return true;
+    },
+    disconnect: () => {
+      closedByUser = true;
+      clearTimeout(reconnectTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      handlers?.onStatusChange('offline');
+      handlers = null;
+    }
+  };
+};
@@ -0,0 +1,10 @@
+// CSV cells
+// Exported text can come from OCR or other people's edits, so a value a spreadsheet would read as a formula
+// gets a leading '. Plain numbers are left alone so negative amounts still import as numbers.
+
+const csvCell = (value: string): string => {
+  const text = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: string[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
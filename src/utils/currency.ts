@@ -0,0 +1,327 @@
+import { isValid, parseISO, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { CurrencyCode, ExchangeRate, ProductionProject } from '../types/production';
+import { toCsv } from './csv';
+
+// Currency
+// Rates are kept by hand or imported from CSV. A rate applies from its date until the next one for the same pair;
+// amounts dated before the first rate use that first rate.
+
+export type ConvertMoney = (amount: number, currency?: CurrencyCode, date?: Date) => number;
+
+export interface CurrencyConverter {
+  base: CurrencyCode;
+  convert: ConvertMoney; // Falls back to 1:1 and records the currency as missing
+  getRate: (currency: CurrencyCode, date?: Date) => number | null;
+  missing: Set<CurrencyCode>;
+}
+
+export interface RateImport {
+  rates: ExchangeRate[];
+  added: number;
+  replaced: number;
+  errors: string[];
+}
+
+export interface ConvertedAmount {
+  source: string;
+  description: string;
+  date: Date;
+  amount: number;
+  currency: CurrencyCode;
+  rate: number | null;
+  converted: number;
+}
+
+export interface CurrencyReport {
+  base: CurrencyCode;
+  entries: ConvertedAmount[];
+  totals: { currency: CurrencyCode; amount: number; converted: number; entries: number }[];
+  missing: CurrencyCode[];
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const COMMON_CURRENCIES: CurrencyCode[] = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'SEK', 'NOK', 'DKK', 'MXN', 'BRL', 'INR', 'CNY', 'KRW', 'ZAR'
+];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export const noConversion: ConvertMoney = amount => amount;
+
+export const getBaseCurrency = (project: ProductionProject): CurrencyCode => project.currency ?? DEFAULT_CURRENCY;
+
+// The base currency first, then everything rates exist for, then the usual suspects
+export const getProjectCurrencies = (project: ProductionProject): CurrencyCode[] => Array.from(new Set([
+  getBaseCurrency(project),
+  ...(project.exchangeRates ?? []).flatMap(rate => [rate.currency, rate.quote]),
+  ...COMMON_CURRENCIES
+]));
+
+// Rates
+const pairRates = (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode): { rate: number; date: Date }[] => [
+  ...rates.filter(rate => rate.currency === from && rate.quote === to).map(rate => ({ rate: rate.rate, date: rate.date })),
+  ...rates.filter(rate => rate.currency === to && rate.quote === from).map(rate => ({ rate: 1 / rate.rate, date: rate.date }))
+].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+const findPairRate = (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, date: Date): number | null => {
+  const candidates = pairRates(rates, from, to);
+  if (candidates.length === 0) return null;
+  const day = startOfDay(date).getTime();
+  const applicable = candidates.filter(candidate => startOfDay(candidate.date).getTime() <= day);
+  return (applicable.length > 0 ? applicable[applicable.length - 1] : candidates[0]).rate;
+};
+
+// Directly, inverted, or through one currency both sides have a rate for
+export const findRate = (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, date: Date): number | null => {
+  if (from === to) return 1;
+  const direct = findPairRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  const via = Array.from(new Set(rates.flatMap(rate => [rate.currency, rate.quote])))
+    .filter(currency => currency !== from && currency !== to);
+  for (const currency of via) {
+    const first = findPairRate(rates, from, currency, date);
+    const second = first !== null ? findPairRate(rates, currency, to, date) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+export const createConverter = (project: ProductionProject, now = new Date()): CurrencyConverter => {
+  const base = getBaseCurrency(project);
+  const rates = project.exchangeRates ?? [];
+  const missing = new Set<CurrencyCode>();
+  const getRate = (currency: CurrencyCode, date = now) => findRate(rates, currency, base, date);
+
+  return {
+    base,
+    getRate,
+    missing,
+    convert: (amount, currency = base, date = now) => {
+      const rate = getRate(currency, date);
+      if (rate === null) {
+        missing.add(currency);
+        return amount;
+      }
+      return amount * rate;
+    }
+  };
+};
+
+// Formatting
+export const formatMoney = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY, fractionDigits = 0): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    }).format(amount);
+  } catch {
+    return `${amount.toLocaleString('en-US', { maximumFractionDigits: fractionDigits })} ${currency}`;
+  }
+};
+
+// The amount as entered, followed by its value in the base currency when the two differ
+export const formatConverted = (amount: number, currency: CurrencyCode | undefined, converter: CurrencyConverter, date?: Date): string => {
+  const original = formatMoney(amount, currency ?? converter.base);
+  if (!currency || currency === converter.base) return original;
+  const rate = converter.getRate(currency, date);
+  return rate === null ? `${original} (no rate)` : `${original} (≈ ${formatMoney(amount * rate, converter.base)})`;
+};
+
+// Rate table
+const normalizeCode = (value: string): CurrencyCode => value.trim().toUpperCase();
+
+const sameRate = (a: ExchangeRate, b: ExchangeRate): boolean =>
+  a.currency === b.currency && a.quote === b.quote && startOfDay(a.date).getTime() === startOfDay(b.date).getTime();
+
+export const validateRate = (rate: Omit<ExchangeRate, 'id'>): void => {
+  if (!CURRENCY_PATTERN.test(rate.currency)) throw new Error(`"${rate.currency}" is not a three-letter currency code`);
+  if (!CURRENCY_PATTERN.test(rate.quote)) throw new Error(`"${rate.quote}" is not a three-letter currency code`);
+  if (rate.currency === rate.quote) throw new Error('A rate needs two different currencies');
+  if (!Number.isFinite(rate.rate) || rate.rate <= 0) throw new Error('Rates must be positive numbers');
+  if (!isValid(rate.date)) throw new Error('Rates need a valid date');
+};
+
+// A rate for the same pair and day replaces the one already there
+export const addRates = (existing: ExchangeRate[], incoming: Omit<ExchangeRate, 'id'>[]): RateImport => {
+  let rates = [...existing];
+  let added = 0;
+  let replaced = 0;
+
+  incoming.forEach(entry => {
+    validateRate(entry);
+    const rate = { ...entry, id: uuidv4(), date: startOfDay(entry.date) };
+    if (rates.some(candidate => sameRate(candidate, rate))) {
+      rates = rates.map(candidate => sameRate(candidate, rate) ? { ...rate, id: candidate.id } : candidate);
+      replaced++;
+    } else {
+      rates.push(rate);
+      added++;
+    }
+  });
+
+  return { rates, added, replaced, errors: [] };
+};
+
+// CSV
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Decimal commas are allowed when there is no point; otherwise commas group thousands
+const parseRate = (value: string): number => {
+  const compact = value.replace(/\s/g, '');
+  return parseFloat(compact.includes('.') ? compact.replace(/,/g, '') : compact.replace(',', '.'));
+};
+
+const HEADER_ALIASES: Record<'date' | 'currency' | 'quote' | 'rate', string[]> = {
+  date: ['date', 'effective', 'day'],
+  currency: ['currency', 'from', 'code', 'base currency'],
+  quote: ['quote', 'to', 'target', 'in'],
+  rate: ['rate', 'value', 'price', 'exchange rate']
+};
+
+// Columns are found by header name; without a header they are date, currency, rate and optionally quote.
+// A missing quote column means rates against the project's base currency.
+export const importRatesCsv = (
+  existing: ExchangeRate[],
+  content: string,
+  base: CurrencyCode,
+  source: string
+): RateImport => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) throw new Error('The file is empty');
+
+  const header = parseCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const hasHeader = header.some(cell => Object.values(HEADER_ALIASES).some(aliases => aliases.includes(cell)));
+  const column = (key: keyof typeof HEADER_ALIASES, fallback: number) =>
+    hasHeader ? header.findIndex(cell => HEADER_ALIASES[key].includes(cell)) : fallback;
+  const columns = { date: column('date', 0), currency: column('currency', 1), rate: column('rate', 2), quote: column('quote', 3) };
+  if (columns.date < 0 || columns.currency < 0 || columns.rate < 0) {
+    throw new Error('The file needs date, currency and rate columns');
+  }
+
+  const errors: string[] = [];
+  const incoming: Omit<ExchangeRate, 'id'>[] = [];
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    const cells = parseCsvLine(line);
+    const row = index + (hasHeader ? 2 : 1);
+    const rate = {
+      currency: normalizeCode(cells[columns.currency] ?? ''),
+      quote: columns.quote >= 0 && cells[columns.quote] ? normalizeCode(cells[columns.quote]) : base,
+      rate: parseRate(cells[columns.rate] ?? ''),
+      date: parseISO(cells[columns.date] ?? ''),
+      source
+    };
+    try {
+      validateRate(rate);
+      incoming.push(rate);
+    } catch (error) {
+      errors.push(`Row ${row}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return { ...addRates(existing, incoming), errors };
+};
+
+// Report
+// Everything with a money amount in the project, as entered and in the base currency.
+export const getCurrencyReport = (project: ProductionProject, now = new Date()): CurrencyReport => {
+  const converter = createConverter(project, now);
+  const entries: ConvertedAmount[] = [];
+  const add = (source: string, description: string, amount: number | undefined, currency: CurrencyCode | undefined, date: Date) => {
+    if (!amount) return;
+    const code = currency ?? converter.base;
+    entries.push({
+      source,
+      description,
+      date,
+      amount,
+      currency: code,
+      rate: converter.getRate(code, date),
+      converted: converter.convert(amount, code, date)
+    });
+  };
+
+  const { budget, equipment, legalCompliance, distribution } = project;
+  budget.categories.forEach(category => category.items.forEach(item =>
+    add('Budget item', `${category.name}: ${item.name}`, item.estimatedCost * item.quantity, item.currency, now)
+  ));
+  budget.expenses.forEach(expense => add('Expense', expense.description, expense.amount, expense.currency, expense.date));
+  project.team.forEach(member => add('Crew rate', `${member.name} (${member.rate.unit} rate)`, member.rate.amount, member.rate.currency, now));
+  equipment.items.forEach(item => add('Equipment purchase', item.name, item.purchasePrice, item.currency, item.purchaseDate ?? now));
+  equipment.rentals.forEach(rental => add('Equipment rental', rental.vendor, rental.cost, rental.currency, rental.startDate));
+  equipment.insurance.forEach(policy => add('Insurance', `${policy.provider} ${policy.type}`, policy.cost, policy.currency, policy.startDate));
+  project.locations.forEach(location => {
+    const date = location.availableDates[0]?.startDate ?? now;
+    add('Location', location.name, location.cost, location.currency, date);
+    add('Location permit', location.name, location.permitCost, location.currency, date);
+  });
+  legalCompliance.permits.forEach(permit => add('Permit', `${permit.type} (${permit.issuedBy})`, permit.cost, permit.currency, permit.issuedDate ?? now));
+  legalCompliance.licenses.forEach(license => add('License', license.content, license.cost, license.currency, license.acquiredDate ?? now));
+  distribution.festivals.forEach(festival => add('Festival fee', festival.name, festival.submissionFee, festival.currency, festival.submissionDeadline));
+  distribution.platforms.forEach(platform => {
+    add('Projected revenue', platform.name, platform.revenue?.projected, platform.revenue?.currency, platform.targetDate);
+    add('Actual revenue', platform.name, platform.revenue?.actual, platform.revenue?.currency, platform.targetDate);
+  });
+
+  const currencies = Array.from(new Set(entries.map(entry => entry.currency)));
+  return {
+    base: converter.base,
+    entries,
+    totals: currencies.map(currency => {
+      const matching = entries.filter(entry => entry.currency === currency);
+      return {
+        currency,
+        amount: matching.reduce((total, entry) => total + entry.amount, 0),
+        converted: matching.reduce((total, entry) => total + entry.converted, 0),
+        entries: matching.length
+      };
+    }),
+    missing: Array.from(converter.missing)
+  };
+};
+
+export const exportCurrencyReportCsv = (report: CurrencyReport): Blob => {
+  const rows = [
+    ['Source', 'Description', 'Date', 'Amount', 'Currency', 'Rate', `Amount (${report.base})`],
+    ...report.entries.map(entry => [
+      entry.source,
+      entry.description,
+      entry.date.toISOString().slice(0, 10),
+      entry.amount.toFixed(2),
+      entry.currency,
+      entry.rate === null ? '' : String(entry.rate),
+      entry.converted.toFixed(2)
+    ])
+  ];
+  return new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+};
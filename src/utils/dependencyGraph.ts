@@ -0,0 +1,366 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { ProductionProject } from '../types/production';
+
+// Dependency graph
+// Tasks, production milestones and distribution milestones form one graph: any of them may wait on any
+// other, finish-to-start. Planned dates act as "start no earlier than", so the forward pass only ever
+// pushes work later. Due dates are inclusive, so a task due the day it starts takes one day and what waits
+// on it starts the next day. Milestones take no time. Completed work stays where it happened.
+
+export type ScheduleItemKind = 'task' | 'milestone' | 'distribution';
+
+export interface ScheduleItem {
+  id: string;
+  kind: ScheduleItemKind;
+  title: string;
+  group: string; // Phase name, or the list the milestone lives in
+  start: Date;
+  end: Date;
+  dependencies: string[];
+  completed: boolean;
+}
+
+export interface ItemTiming {
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  slack: number; // Days the item can slip without moving the finish
+  critical: boolean;
+}
+
+export interface ScheduleAnalysis {
+  items: ScheduleItem[];
+  timings: Map<string, ItemTiming>;
+  order: string[]; // Topological, cycles left out
+  cycles: string[][];
+  missing: { id: string; dependency: string }[];
+  criticalPath: string[];
+  finish: Date | null;
+}
+
+export interface Reschedule {
+  project: ProductionProject;
+  moved: string[]; // Items pushed later to keep their dependencies
+}
+
+// Days of work, counting both the start and the due date
+const getDuration = (item: ScheduleItem): number =>
+  item.kind === 'task' ? Math.max(0, differenceInCalendarDays(item.end, item.start)) + 1 : 0;
+
+// Last day of an item that starts on the given day
+const getEnd = (item: ScheduleItem, start: Date): Date => addDays(start, Math.max(0, getDuration(item) - 1));
+
+// First day that work waiting on an item ending on the given day can start
+const getReady = (item: ScheduleItem, end: Date): Date => addDays(end, getDuration(item) > 0 ? 1 : 0);
+
+export const getScheduleItems = (project: ProductionProject): ScheduleItem[] => [
+  ...project.schedule.phases.flatMap(phase => phase.tasks.map(task => ({
+    id: task.id,
+    kind: 'task' as const,
+    title: task.title,
+    group: phase.name,
+    start: startOfDay(task.startDate),
+    end: startOfDay(task.dueDate < task.startDate ? task.startDate : task.dueDate),
+    dependencies: task.dependencies,
+    completed: task.status === 'completed'
+  }))),
+  ...project.milestones.map(milestone => ({
+    id: milestone.id,
+    kind: 'milestone' as const,
+    title: milestone.title,
+    group: 'Milestones',
+    start: startOfDay(milestone.dueDate),
+    end: startOfDay(milestone.dueDate),
+    dependencies: milestone.dependencies,
+    completed: milestone.status === 'completed'
+  })),
+  ...project.distribution.timeline.map(milestone => ({
+    id: milestone.id,
+    kind: 'distribution' as const,
+    title: milestone.title,
+    group: 'Distribution',
+    start: startOfDay(milestone.date),
+    end: startOfDay(milestone.date),
+    dependencies: milestone.dependencies,
+    completed: milestone.status === 'completed'
+  }))
+];
+
+// Cycles
+// Tarjan's strongly connected components; every component with more than one item, or an item that waits
+// on itself, is a cycle.
+export const findCycles = (items: ScheduleItem[]): string[][] => {
+  const ids = new Set(items.map(item => item.id));
+  const edges = new Map(items.map(item => [item.id, item.dependencies.filter(id => ids.has(id))]));
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    edges.get(id)!.forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    });
+
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || edges.get(id)!.includes(id)) cycles.push(component.reverse());
+    }
+  };
+
+  items.forEach(item => {
+    if (!index.has(item.id)) visit(item.id);
+  });
+  return cycles;
+};
+
+// Dependencies that can be scheduled: known items, not part of a cycle
+const getUsableDependencies = (items: ScheduleItem[], cycles: string[][]): Map<string, string[]> => {
+  const ids = new Set(items.map(item => item.id));
+  const cyclic = new Set(cycles.flat());
+  return new Map(items.map(item => [
+    item.id,
+    cyclic.has(item.id) ? [] : item.dependencies.filter(id => ids.has(id) && !cyclic.has(id))
+  ]));
+};
+
+const topologicalOrder = (items: ScheduleItem[], dependencies: Map<string, string[]>, cycles: string[][]): string[] => {
+  const cyclic = new Set(cycles.flat());
+  const remaining = new Map(items.filter(item => !cyclic.has(item.id)).map(item => [item.id, dependencies.get(item.id)!.length]));
+  const successors = new Map<string, string[]>();
+  dependencies.forEach((before, id) => before.forEach(dependency => {
+    successors.set(dependency, [...(successors.get(dependency) ?? []), id]);
+  }));
+
+  const ready = items.filter(item => remaining.get(item.id) === 0).map(item => item.id);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    (successors.get(id) ?? []).forEach(next => {
+      const count = remaining.get(next)! - 1;
+      remaining.set(next, count);
+      if (count === 0) ready.push(next);
+    });
+  }
+  return order;
+};
+
+// Critical path
+export const analyzeDependencies = (project: ProductionProject): ScheduleAnalysis => {
+  const items = getScheduleItems(project);
+  const byId = new Map(items.map(item => [item.id, item]));
+  const cycles = findCycles(items);
+  const dependencies = getUsableDependencies(items, cycles);
+  const order = topologicalOrder(items, dependencies, cycles);
+  const missing = items.flatMap(item => item.dependencies
+    .filter(id => !byId.has(id))
+    .map(dependency => ({ id: item.id, dependency })));
+
+  // Forward pass
+  const earliest = new Map<string, { start: Date; finish: Date }>();
+  order.forEach(id => {
+    const item = byId.get(id)!;
+    let start = item.start;
+    if (!item.completed) {
+      dependencies.get(id)!.forEach(dependency => {
+        const ready = getReady(byId.get(dependency)!, earliest.get(dependency)!.finish);
+        if (ready > start) start = ready;
+      });
+    }
+    earliest.set(id, { start, finish: getEnd(item, start) });
+  });
+
+  const finishes = Array.from(earliest.values()).map(timing => timing.finish.getTime());
+  const finish = finishes.length > 0 ? new Date(Math.max(...finishes)) : null;
+
+  // Backward pass
+  const successors = new Map<string, string[]>();
+  dependencies.forEach((before, id) => before.forEach(dependency => {
+    successors.set(dependency, [...(successors.get(dependency) ?? []), id]);
+  }));
+
+  const timings = new Map<string, ItemTiming>();
+  [...order].reverse().forEach(id => {
+    const item = byId.get(id)!;
+    let latestFinish = finish!;
+    (successors.get(id) ?? []).forEach(next => {
+      // The day before the successor's latest start, or that day itself for a milestone
+      const end = addDays(timings.get(next)!.latestStart, getDuration(item) > 0 ? -1 : 0);
+      if (end < latestFinish) latestFinish = end;
+    });
+    const latestStart = addDays(latestFinish, -Math.max(0, getDuration(item) - 1));
+    const { start, finish: earliestFinish } = earliest.get(id)!;
+    const slack = differenceInCalendarDays(latestStart, start);
+    timings.set(id, {
+      earliestStart: start,
+      earliestFinish,
+      latestStart,
+      latestFinish,
+      slack,
+      critical: slack <= 0 && !item.completed
+    });
+  });
+
+  const criticalPath = order
+    .filter(id => timings.get(id)!.critical)
+    .sort((a, b) => timings.get(a)!.earliestStart.getTime() - timings.get(b)!.earliestStart.getTime());
+
+  return { items, timings, order, cycles, missing, criticalPath, finish };
+};
+
+// Editing
+const setItemDates = (project: ProductionProject, id: string, start: Date, end: Date, delayed: boolean): ProductionProject => ({
+  ...project,
+  schedule: {
+    ...project.schedule,
+    phases: project.schedule.phases.map(phase => phase.tasks.some(task => task.id === id)
+      ? {
+          ...phase,
+          tasks: phase.tasks.map(task => task.id === id
+            ? { ...task, startDate: start, dueDate: end, status: delayed ? 'delayed' : task.status }
+            : task
+          )
+        }
+      : phase
+    )
+  },
+  milestones: project.milestones.map(milestone => milestone.id === id
+    ? { ...milestone, dueDate: end, status: delayed ? 'delayed' : milestone.status }
+    : milestone
+  ),
+  distribution: {
+    ...project.distribution,
+    timeline: project.distribution.timeline.map(milestone => milestone.id === id
+      ? { ...milestone, date: end, status: delayed ? 'delayed' : milestone.status }
+      : milestone
+    )
+  }
+});
+
+const setDependencies = (project: ProductionProject, id: string, dependencies: string[]): ProductionProject => ({
+  ...project,
+  schedule: {
+    ...project.schedule,
+    phases: project.schedule.phases.map(phase => ({
+      ...phase,
+      tasks: phase.tasks.map(task => task.id === id ? { ...task, dependencies } : task)
+    }))
+  },
+  milestones: project.milestones.map(milestone => milestone.id === id ? { ...milestone, dependencies } : milestone),
+  distribution: {
+    ...project.distribution,
+    timeline: project.distribution.timeline.map(milestone => milestone.id === id ? { ...milestone, dependencies } : milestone)
+  }
+});
+
+// Pushes everything that now starts before its dependencies finish, marking it delayed
+export const propagateDelays = (project: ProductionProject): Reschedule => {
+  const { items, order, cycles } = analyzeDependencies(project);
+  const dependencies = getUsableDependencies(items, cycles);
+  const current = new Map(items.map(item => [item.id, item]));
+  const moved: string[] = [];
+  let next = project;
+
+  order.forEach(id => {
+    const item = current.get(id)!;
+    if (item.completed) return;
+
+    const ready = dependencies.get(id)!.reduce<Date | null>((latest, dependency) => {
+      const before = current.get(dependency)!;
+      const start = getReady(before, before.end);
+      return !latest || start > latest ? start : latest;
+    }, null);
+    if (!ready || ready <= item.start) return;
+
+    const shifted = { ...item, start: ready, end: getEnd(item, ready) };
+    current.set(id, shifted);
+    next = setItemDates(next, id, shifted.start, shifted.end, true);
+    moved.push(id);
+  });
+
+  return { project: next, moved };
+};
+
+// Moves an item to a new start, no earlier than its dependencies allow, and pushes what waits on it
+export const rescheduleItem = (project: ProductionProject, id: string, start: Date): Reschedule => {
+  const { items } = analyzeDependencies(project);
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) throw new Error('That item is no longer on the schedule.');
+  if (item.completed) throw new Error(`"${item.title}" is completed and cannot be moved.`);
+
+  const byId = new Map(items.map(candidate => [candidate.id, candidate]));
+  const ready = item.dependencies
+    .map(dependency => byId.get(dependency))
+    .map(before => before && getReady(before, before.end))
+    .reduce<Date>((latest, next) => next && next > latest ? next : latest, startOfDay(start));
+
+  const moved = setItemDates(project, id, ready, getEnd(item, ready), false);
+  return propagateDelays(moved);
+};
+
+// Changes how long a task takes; a later finish pushes what waits on it
+export const resizeTask = (project: ProductionProject, id: string, end: Date): Reschedule => {
+  const item = getScheduleItems(project).find(candidate => candidate.id === id && candidate.kind === 'task');
+  if (!item) throw new Error('Only tasks have a duration to change.');
+  if (item.completed) throw new Error(`"${item.title}" is completed and cannot be changed.`);
+
+  const due = startOfDay(end) < item.start ? item.start : startOfDay(end);
+  return propagateDelays(setItemDates(project, id, item.start, due, false));
+};
+
+export const wouldCreateCycle = (project: ProductionProject, id: string, dependency: string): boolean => {
+  if (id === dependency) return true;
+  const items = getScheduleItems(project);
+  const edges = new Map(items.map(item => [item.id, item.dependencies]));
+
+  // A cycle appears if the dependency already waits, directly or not, on the item
+  const seen = new Set<string>();
+  const pending = [dependency];
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (next === id) return true;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    pending.push(...(edges.get(next) ?? []));
+  }
+  return false;
+};
+
+export const addDependency = (project: ProductionProject, id: string, dependency: string): Reschedule => {
+  const items = getScheduleItems(project);
+  const item = items.find(candidate => candidate.id === id);
+  const before = items.find(candidate => candidate.id === dependency);
+  if (!item || !before) throw new Error('Both items must be on the schedule.');
+  if (item.dependencies.includes(dependency)) return { project, moved: [] };
+  if (wouldCreateCycle(project, id, dependency)) {
+    throw new Error(`"${item.title}" cannot wait on "${before.title}", because "${before.title}" already waits on it.`);
+  }
+
+  return propagateDelays(setDependencies(project, id, [...item.dependencies, dependency]));
+};
+
+export const removeDependency = (project: ProductionProject, id: string, dependency: string): ProductionProject => {
+  const item = getScheduleItems(project).find(candidate => candidate.id === id);
+  return item ? setDependencies(project, id, item.dependencies.filter(other => other !== dependency)) : project;
+};
@@ -0,0 +1,78 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentaryProject, DocumentaryRecord } from '../types/documentary';
+import { ProductionProject } from '../types/production';
+import { listProjects, loadProject, saveProject } from './projectRepository';
+
+export const createDocumentaryRecord = (
+  title: string,
+  description: string,
+  productionProjectId: string | null = null
+): DocumentaryRecord => ({
+  id: uuidv4(),
+  title,
+  description,
+  researchProjectId: null,
+  scriptIds: [],
+  storyboard: [],
+  productionProjectId,
+  mediaFileIds: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+export const toDocumentaryRecord = (project: DocumentaryProject): DocumentaryRecord => ({
+  id: project.id,
+  title: project.title,
+  description: project.description,
+  researchProjectId: project.research?.id ?? null,
+  scriptIds: project.scripts.map(script => script.id),
+  storyboard: project.storyboard,
+  productionProjectId: project.production?.id ?? null,
+  mediaFileIds: project.media.map(file => file.id),
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+// Loads every linked project; links to projects that no longer exist are dropped
+export const loadDocumentary = async (record: DocumentaryRecord): Promise<DocumentaryProject> => {
+  const [research, production, scripts, media] = await Promise.all([
+    record.researchProjectId ? loadProject('research', record.researchProjectId) : null,
+    record.productionProjectId ? loadProject('production', record.productionProjectId) : null,
+    Promise.all(record.scriptIds.map(id => loadProject('scripts', id))),
+    Promise.all(record.mediaFileIds.map(id => loadProject('media', id)))
+  ]);
+
+  return {
+    id: record.id,
+    title: record.title,
+    description: record.description,
+    research,
+    scripts: scripts.filter(script => script !== null),
+    storyboard: record.storyboard,
+    production,
+    media: media.filter(file => file !== null),
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+};
+
+export const saveDocumentary = async (project: DocumentaryProject): Promise<void> => {
+  await Promise.all([
+    project.research && saveProject('research', project.research),
+    project.production && saveProject('production', project.production),
+    ...project.scripts.map(script => saveProject('scripts', script)),
+    ...project.media.map(file => saveProject('media', file))
+  ]);
+  await saveProject('documentaries', { ...toDocumentaryRecord(project), updatedAt: new Date() });
+};
+
+// The documentary a production project belongs to, creating one the first time the production is opened
+export const loadDocumentaryForProduction = async (production: ProductionProject): Promise<DocumentaryRecord> => {
+  const summaries = await listProjects('documentaries');
+  for (const summary of summaries) {
+    const record = await loadProject('documentaries', summary.id);
+    if (record?.productionProjectId === production.id) return record;
+  }
+
+  return createDocumentaryRecord(production.title, production.description, production.id);
+};
@@ -0,0 +1,489 @@
+import { zipSync, strToU8 } from 'fflate';
+import { format } from 'date-fns';
+import { Comment, CustomFormatting, ElementType, ExportOptions, Script, ScriptElement } from '../types/script';
+import { getDefaultFormatting } from './screenplayFormats';
+import { buildAvRows, formatTimecode, getElementDuration } from './scriptLayout';
+
+// Word (.docx) export
+// The package is written by hand: a handful of OOXML parts zipped together. Element types map to named
+// paragraph styles, so a script opened in Word can be restyled the way writers already work with it.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const DEFAULT_CUSTOM_FORMATTING: CustomFormatting = {
+  fontFamily: 'Courier New',
+  fontSize: 12,
+  lineSpacing: 1,
+  margins: { top: 1, bottom: 1, left: 1.5, right: 1 },
+  headerFooter: { includeTitle: false, includePageNumbers: true, includeDate: false }
+};
+
+interface ParagraphStyle {
+  name: string;
+  left?: number; // Inches from the margin
+  right?: number;
+  alignment?: 'left' | 'center' | 'right';
+  caps?: boolean;
+  spaceBefore?: number; // Points
+  keepNext?: boolean;
+}
+
+const ELEMENT_STYLES: Record<ElementType, ParagraphStyle> = {
+  'scene-heading': { name: 'Scene Heading', caps: true, spaceBefore: 24, keepNext: true },
+  'action': { name: 'Action', spaceBefore: 12 },
+  'character': { name: 'Character', left: 2, caps: true, spaceBefore: 12, keepNext: true },
+  'dialogue': { name: 'Dialogue', left: 1, right: 1.5 },
+  'parenthetical': { name: 'Parenthetical', left: 1.5, right: 2, keepNext: true },
+  'transition': { name: 'Transition', alignment: 'right', caps: true, spaceBefore: 12 },
+  'voiceover': { name: 'Voiceover', left: 1, right: 1.5, spaceBefore: 12 },
+  'interview-question': { name: 'Interview Question', spaceBefore: 12, keepNext: true },
+  'interview-answer': { name: 'Interview Answer', left: 0.5, right: 0.5, spaceBefore: 6 },
+  'music-cue': { name: 'Music Cue', caps: true, spaceBefore: 12 },
+  'sound-effect': { name: 'Sound Effect', caps: true, spaceBefore: 12 },
+  'title-card': { name: 'Title Card', alignment: 'center', caps: true, spaceBefore: 12 },
+  'lower-third': { name: 'Lower Third', spaceBefore: 12 },
+  'b-roll': { name: 'B-Roll', spaceBefore: 12 }
+};
+
+const TWIPS_PER_INCH = 1440;
+const PAGE_WIDTH = 12240; // US Letter
+const PAGE_HEIGHT = 15840;
+const TIME_COLUMN_WIDTH = 1080;
+const NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const VML_NAMESPACES = 'xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office"';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Helpers
+const escapeXml = (text: string): string => {
+  // Control characters other than tab and newlines are not allowed in XML 1.0
+  const printable = Array.from(text).filter(char => char >= ' ' || char === '\t' || char === '\n' || char === '\r').join('');
+  return printable
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const twips = (inches: number): number => Math.round(inches * TWIPS_PER_INCH);
+
+const styleId = (type: ElementType): string => ELEMENT_STYLES[type].name.replace(/[^A-Za-z]/g, '');
+
+interface RunOptions {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  caps?: boolean;
+  color?: string;
+  size?: number; // Points
+}
+
+const run = (text: string, options: RunOptions = {}): string => {
+  const properties = [
+    // Schema order
+    options.bold && '<w:b/>',
+    options.italic && '<w:i/>',
+    options.caps && '<w:caps/>',
+    options.color && `<w:color w:val="${options.color}"/>`,
+    options.size && `<w:sz w:val="${options.size * 2}"/>`,
+    options.underline && '<w:u w:val="single"/>'
+  ].filter(Boolean).join('');
+
+  const content = text
+    .split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+const paragraph = (content: string, properties = ''): string => {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+const TABLE_BORDERS = `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+  .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A6A6A6"/>`)
+  .join('')}</w:tblBorders>`;
+
+const pageBreak = (): string => '<w:r><w:br w:type="page"/></w:r>';
+
+// Comments
+interface CommentAnchor {
+  id: number;
+  comment: Comment;
+}
+
+const anchorComment = (content: string, anchors: CommentAnchor[]): string => {
+  return anchors.reduce((inner, { id }) => (
+    `<w:commentRangeStart w:id="${id}"/>${inner}<w:commentRangeEnd w:id="${id}"/><w:r><w:commentReference w:id="${id}"/></w:r>`
+  ), content);
+};
+
+const buildComments = (anchors: CommentAnchor[]): string => {
+  const comments = anchors.map(({ id, comment }) => {
+    const initials = comment.author.split(/\s+/).map(part => part[0] ?? '').join('').toUpperCase();
+    const replies = (comment.replies ?? []).map(reply => paragraph(run(`${reply.author}: ${reply.content}`)));
+    return [
+      `<w:comment w:id="${id}" w:author="${escapeXml(comment.author)}" w:date="${comment.createdAt.toISOString()}" w:initials="${escapeXml(initials)}">`,
+      paragraph(run(comment.content)),
+      ...replies,
+      '</w:comment>'
+    ].join('');
+  });
+
+  return `${XML_DECLARATION}<w:comments ${NAMESPACES}>${comments.join('')}</w:comments>`;
+};
+
+// Body
+interface DocumentContext {
+  script: Script;
+  options: ExportOptions;
+  formatting: CustomFormatting;
+  textWidth: number; // Twips
+  comments: Map<string, CommentAnchor[]>;
+  sceneNumbers: Map<string, number>;
+  startTimes: Map<string, number>;
+}
+
+// Only formatting the writer added on top of the element type's defaults is written as direct formatting
+const getAlignment = (element: ScriptElement): string | null => {
+  const alignment = element.formatting.alignment;
+  if (!alignment || alignment === getDefaultFormatting(element.type).alignment) return null;
+  return alignment === 'center' ? 'center' : alignment === 'right' ? 'right' : 'left';
+};
+
+const elementParagraph = (element: ScriptElement, context: DocumentContext, inCell = false): string => {
+  const properties = [`<w:pStyle w:val="${styleId(element.type)}"/>`];
+  const sceneNumber = context.sceneNumbers.get(element.id);
+  const alignment = getAlignment(element);
+  let content = run(element.content, {
+    bold: element.formatting.bold,
+    italic: element.formatting.italic,
+    underline: element.formatting.underline
+  });
+
+  const startTime = context.startTimes.get(element.id);
+  if (!inCell && context.options.includeTimecodes && startTime !== undefined && getElementDuration(element) > 0) {
+    content = `${run(`${formatTimecode(startTime)}  `, { color: '808080', size: 8 })}${content}`;
+  }
+
+  if (sceneNumber !== undefined && !inCell) {
+    // Scene numbers sit in both margins, as in a shooting script
+    properties.push(
+      `<w:tabs><w:tab w:val="left" w:pos="0"/><w:tab w:val="right" w:pos="${context.textWidth + 720}"/></w:tabs>`,
+      '<w:ind w:left="0" w:hanging="720"/>'
+    );
+    content = `${run(`${sceneNumber}\t`, { bold: true })}${content}${run(`\t${sceneNumber}`, { bold: true })}`;
+  } else if (sceneNumber !== undefined) {
+    content = `${run(`${sceneNumber}. `, { bold: true })}${content}`;
+  }
+
+  if (inCell) properties.push('<w:ind w:left="0" w:right="0"/>');
+  if (alignment) properties.push(`<w:jc w:val="${alignment}"/>`);
+
+  return paragraph(anchorComment(content, context.comments.get(element.id) ?? []), properties.join(''));
+};
+
+const buildScreenplayBody = (elements: ScriptElement[], context: DocumentContext): string => {
+  return elements.map(element => elementParagraph(element, context)).join('');
+};
+
+const cell = (content: string, width: number, extra = ''): string => {
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${extra}</w:tcPr>${content || paragraph('')}</w:tc>`;
+};
+
+const buildAvBody = (elements: ScriptElement[], context: DocumentContext): string => {
+  const withTime = context.options.includeTimecodes;
+  const columnWidth = Math.floor((context.textWidth - (withTime ? TIME_COLUMN_WIDTH : 0)) / 2);
+  const widths = withTime ? [TIME_COLUMN_WIDTH, columnWidth, columnWidth] : [columnWidth, columnWidth];
+  const headingCell = (label: string, width: number) => cell(paragraph(run(label, { bold: true })), width, '<w:shd w:val="clear" w:fill="E7E6E6"/>');
+
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${[
+    ...(withTime ? [headingCell('TIME', TIME_COLUMN_WIDTH)] : []),
+    headingCell('VIDEO', columnWidth),
+    headingCell('AUDIO', columnWidth)
+  ].join('')}</w:tr>`;
+
+  const rows = buildAvRows(elements).map(row => {
+    if (row.heading) {
+      const heading = elementParagraph(row.heading, context, true);
+      return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cell(heading, context.textWidth, `<w:gridSpan w:val="${widths.length}"/><w:shd w:val="clear" w:fill="F2F2F2"/>`)}</w:tr>`;
+    }
+
+    const video = row.video.map(element => elementParagraph(element, context, true)).join('');
+    const audio = row.audio.map(element => elementParagraph(element, context, true)).join('');
+    const time = paragraph(run(formatTimecode(row.startTime), { color: '808080', size: 9 }));
+
+    return `<w:tr>${[
+      ...(withTime ? [cell(time, TIME_COLUMN_WIDTH)] : []),
+      cell(video, columnWidth),
+      cell(audio, columnWidth)
+    ].join('')}</w:tr>`;
+  });
+
+  const grid = widths.map(width => `<w:gridCol w:w="${width}"/>`).join('');
+
+  return [
+    '<w:tbl>',
+    `<w:tblPr><w:tblW w:w="${context.textWidth}" w:type="dxa"/>${TABLE_BORDERS}<w:tblLayout w:type="fixed"/>`,
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>',
+    `<w:tblGrid>${grid}</w:tblGrid>`,
+    header,
+    ...rows,
+    '</w:tbl>',
+    // Word requires a paragraph after a table that ends a section
+    paragraph('')
+  ].join('');
+};
+
+const buildRevisionHistory = (script: Script, textWidth: number): string => {
+  if (script.versions.length === 0) return '';
+
+  const widths = [1200, 1800, 1800, textWidth - 4800];
+  const tableRow = (values: string[], bold = false) => `<w:tr>${values
+    .map((value, i) => cell(paragraph(run(value, { bold, size: 10 })), widths[i]))
+    .join('')}</w:tr>`;
+
+  return [
+    paragraph(`${pageBreak()}${run('REVISION HISTORY', { bold: true })}`, '<w:spacing w:after="240"/>'),
+    `<w:tbl><w:tblPr><w:tblW w:w="${textWidth}" w:type="dxa"/>${TABLE_BORDERS}<w:tblLayout w:type="fixed"/></w:tblPr>`,
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>`,
+    tableRow(['Version', 'Date', 'By', 'Description'], true),
+    ...script.versions.map(version => tableRow([
+      version.version,
+      format(version.createdAt, 'MMM d, yyyy'),
+      version.createdBy,
+      version.description
+    ])),
+    '</w:tbl>',
+    paragraph('')
+  ].join('');
+};
+
+const buildTitlePage = (script: Script, context: DocumentContext): string => {
+  const generalComments = context.comments.get('') ?? [];
+  return [
+    paragraph(anchorComment(run(script.title, { bold: true, caps: true }), generalComments), `<w:spacing w:before="${twips(3)}" w:after="240"/><w:jc w:val="center"/>`),
+    script.description ? paragraph(run(script.description), '<w:jc w:val="center"/>') : '',
+    paragraph(run(`Draft: ${format(script.updatedAt, 'MMMM d, yyyy')}`), `<w:spacing w:before="${twips(3)}"/><w:jc w:val="center"/>`)
+  ].join('');
+};
+
+const buildSectionProperties = (context: DocumentContext, body: boolean): string => {
+  const { margins } = context.formatting;
+  const headers = body ? '<w:headerReference w:type="default" r:id="rIdHeader"/><w:footerReference w:type="default" r:id="rIdFooter"/>' : '';
+  return [
+    '<w:sectPr>',
+    headers,
+    body ? '' : '<w:type w:val="nextPage"/>',
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+    `<w:pgMar w:top="${twips(margins.top)}" w:right="${twips(margins.right)}" w:bottom="${twips(margins.bottom)}" w:left="${twips(margins.left)}" w:header="720" w:footer="720" w:gutter="0"/>`,
+    body ? '<w:pgNumType w:start="1"/>' : '',
+    '</w:sectPr>'
+  ].join('');
+};
+
+const buildDocument = (context: DocumentContext): string => {
+  const elements = [...context.script.content].sort((a, b) => a.order - b.order);
+  const body = context.options.layout === 'two-column'
+    ? buildAvBody(elements, context)
+    : buildScreenplayBody(elements, context);
+  const revisions = context.options.includeRevisions ? buildRevisionHistory(context.script, context.textWidth) : '';
+
+  return [
+    XML_DECLARATION,
+    `<w:document ${NAMESPACES}><w:body>`,
+    buildTitlePage(context.script, context),
+    // The title page is its own section, so it carries no header and numbering starts on the first script page
+    paragraph('', buildSectionProperties(context, false)),
+    body,
+    revisions,
+    buildSectionProperties(context, true),
+    '</w:body></w:document>'
+  ].join('');
+};
+
+// Header & footer
+const buildWatermark = (text: string): string => {
+  return [
+    '<w:r><w:pict>',
+    '<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e">',
+    '<v:path textpathok="t" o:connecttype="custom"/><v:textpath on="t" fitshape="t"/></v:shapetype>',
+    '<v:shape id="ScriptWatermark" type="#_x0000_t136" fillcolor="silver" stroked="f" style="position:absolute;',
+    'margin-left:0;margin-top:0;width:440pt;height:110pt;rotation:315;z-index:-251657216;mso-position-horizontal:center;',
+    'mso-position-horizontal-relative:margin;mso-position-vertical:center;mso-position-vertical-relative:margin">',
+    `<v:fill opacity=".3"/><v:textpath style="font-family:&quot;Arial&quot;;font-size:1pt" string="${escapeXml(text)}"/>`,
+    '</v:shape></w:pict></w:r>'
+  ].join('');
+};
+
+const buildHeader = (context: DocumentContext): string => {
+  const { headerFooter } = context.formatting;
+  const label = [
+    headerFooter.includeTitle ? context.script.title : '',
+    headerFooter.customText ?? ''
+  ].filter(Boolean).join(' — ');
+  const pageNumber = context.options.pageNumbers && headerFooter.includePageNumbers
+    ? `${run('\t')}<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${run('1')}<w:r><w:fldChar w:fldCharType="end"/></w:r>${run('.')}`
+    : '';
+  const watermark = context.options.watermark ? buildWatermark(context.options.watermark) : '';
+
+  return [
+    XML_DECLARATION,
+    `<w:hdr ${NAMESPACES} ${VML_NAMESPACES}>`,
+    paragraph(
+      `${watermark}${label ? run(label) : ''}${pageNumber}`,
+      `<w:tabs><w:tab w:val="right" w:pos="${context.textWidth}"/></w:tabs>`
+    ),
+    '</w:hdr>'
+  ].join('');
+};
+
+const buildFooter = (context: DocumentContext): string => {
+  const content = context.formatting.headerFooter.includeDate
+    ? run(format(new Date(), 'MMMM d, yyyy'), { size: 9 })
+    : '';
+  return `${XML_DECLARATION}<w:ftr ${NAMESPACES}>${paragraph(content, '<w:jc w:val="center"/>')}</w:ftr>`;
+};
+
+// Styles
+const buildStyles = (formatting: CustomFormatting): string => {
+  const font = escapeXml(formatting.fontFamily);
+  const elementStyles = (Object.keys(ELEMENT_STYLES) as ElementType[]).map(type => {
+    const style = ELEMENT_STYLES[type];
+    const indent = style.left || style.right
+      ? `<w:ind w:left="${twips(style.left ?? 0)}" w:right="${twips(style.right ?? 0)}"/>`
+      : '';
+    return [
+      `<w:style w:type="paragraph" w:customStyle="1" w:styleId="${styleId(type)}">`,
+      `<w:name w:val="${style.name}"/><w:basedOn w:val="Normal"/><w:qFormat/>`,
+      '<w:pPr>',
+      style.keepNext ? '<w:keepNext/>' : '',
+      style.spaceBefore ? `<w:spacing w:before="${style.spaceBefore * 20}"/>` : '',
+      indent,
+      style.alignment ? `<w:jc w:val="${style.alignment}"/>` : '',
+      '</w:pPr>',
+      style.caps ? '<w:rPr><w:caps/></w:rPr>' : '',
+      '</w:style>'
+    ].join('');
+  });
+
+  return [
+    XML_DECLARATION,
+    `<w:styles ${NAMESPACES}>`,
+    '<w:docDefaults><w:rPrDefault><w:rPr>',
+    `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/>`,
+    `<w:sz w:val="${formatting.fontSize * 2}"/><w:szCs w:val="${formatting.fontSize * 2}"/>`,
+    '</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr>',
+    `<w:spacing w:after="0" w:line="${Math.round(240 * formatting.lineSpacing)}" w:lineRule="auto"/>`,
+    '</w:pPr></w:pPrDefault></w:docDefaults>',
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+    ...elementStyles,
+    '</w:styles>'
+  ].join('');
+};
+
+// Package
+const buildContentTypes = (hasComments: boolean): string => {
+  const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+  return [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    `<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/>`,
+    `<Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/>`,
+    `<Override PartName="/word/header1.xml" ContentType="${main}.header+xml"/>`,
+    `<Override PartName="/word/footer1.xml" ContentType="${main}.footer+xml"/>`,
+    hasComments ? `<Override PartName="/word/comments.xml" ContentType="${main}.comments+xml"/>` : '',
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    '</Types>'
+  ].join('');
+};
+
+const relationship = (id: string, type: string, target: string): string => {
+  return `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`;
+};
+
+const buildCoreProperties = (script: Script): string => {
+  return [
+    XML_DECLARATION,
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ',
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ',
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    `<dc:title>${escapeXml(script.title)}</dc:title>`,
+    `<dc:description>${escapeXml(script.description)}</dc:description>`,
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${script.createdAt.toISOString()}</dcterms:created>`,
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${script.updatedAt.toISOString()}</dcterms:modified>`,
+    '</cp:coreProperties>'
+  ].join('');
+};
+
+const createContext = (script: Script, options: ExportOptions): DocumentContext => {
+  const formatting = options.customFormatting ?? DEFAULT_CUSTOM_FORMATTING;
+  const elements = [...script.content].sort((a, b) => a.order - b.order);
+  const elementIds = new Set(elements.map(element => element.id));
+
+  // Open comments on elements anchor there; the rest anchor to the title
+  const comments = new Map<string, CommentAnchor[]>();
+  if (options.includeComments) {
+    script.comments
+      .filter(comment => !comment.resolved)
+      .forEach((comment, id) => {
+        const key = comment.elementId && elementIds.has(comment.elementId) ? comment.elementId : '';
+        comments.set(key, [...(comments.get(key) ?? []), { id, comment }]);
+      });
+  }
+
+  const sceneNumbers = new Map<string, number>();
+  if (options.sceneNumbers) {
+    elements
+      .filter(element => element.type === 'scene-heading')
+      .forEach((element, i) => sceneNumbers.set(element.id, i + 1));
+  }
+
+  const startTimes = new Map<string, number>();
+  elements.reduce((time, element) => {
+    startTimes.set(element.id, time);
+    return time + getElementDuration(element);
+  }, 0);
+
+  return {
+    script,
+    options,
+    formatting,
+    textWidth: PAGE_WIDTH - twips(formatting.margins.left) - twips(formatting.margins.right),
+    comments,
+    sceneNumbers,
+    startTimes
+  };
+};
+
+export const createScriptDocx = (script: Script, options: ExportOptions): Uint8Array => {
+  const context = createContext(script, options);
+  const anchors = Array.from(context.comments.values()).flat();
+  const hasComments = anchors.length > 0;
+
+  const documentRelationships = [
+    relationship('rIdStyles', 'styles', 'styles.xml'),
+    relationship('rIdHeader', 'header', 'header1.xml'),
+    relationship('rIdFooter', 'footer', 'footer1.xml'),
+    hasComments ? relationship('rIdComments', 'comments', 'comments.xml') : ''
+  ].join('');
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(buildContentTypes(hasComments)),
+    '_rels/.rels': strToU8(`${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+      relationship('rIdDocument', 'officeDocument', 'word/document.xml')
+    }<Relationship Id="rIdCore" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`),
+    'docProps/core.xml': strToU8(buildCoreProperties(script)),
+    'word/_rels/document.xml.rels': strToU8(`${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${documentRelationships}</Relationships>`),
+    'word/document.xml': strToU8(buildDocument(context)),
+    'word/styles.xml': strToU8(buildStyles(context.formatting)),
+    'word/header1.xml': strToU8(buildHeader(context)),
+    'word/footer1.xml': strToU8(buildFooter(context))
+  };
+  if (hasComments) files['word/comments.xml'] = strToU8(buildComments(anchors));
+
+  return zipSync(files);
+};
@@ -0,0 +1,539 @@
+import { addDays, differenceInCalendarDays, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { ProductionProject, TeamMember } from '../types/production';
+
+// iCalendar (RFC 5545)
+// Exports shoots, tasks, milestones, festival dates and distribution milestones as VEVENTs. UIDs come from
+// the item IDs, so importing a newer export replaces the events from the last one instead of doubling them.
+// Shoots a re-optimize replaced are exported as cancelled, so subscribers drop them.
+
+export type CalendarScope =
+  | { type: 'project' }
+  | { type: 'member'; memberId: string }
+  | { type: 'location'; locationId: string };
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location?: string;
+  geo?: { latitude: number; longitude: number };
+  start: Date;
+  end: Date; // Exclusive; the day after the last day for all-day events
+  allDay: boolean;
+  categories: string[];
+  cancelled?: boolean;
+}
+
+export interface ImportedEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+export interface CalendarImport {
+  name?: string;
+  events: ImportedEvent[]; // Busy time only, recurrences expanded
+  warnings: string[];
+}
+
+export interface AvailabilityImport {
+  member: TeamMember;
+  added: number; // Days marked unavailable
+  removed: number; // Days from an earlier import of the same calendar
+  skipped: number; // Days already set by hand
+  warnings: string[];
+}
+
+const PRODUCT_ID = '-//InterviewAI//Production Calendar//EN';
+const UID_DOMAIN = 'interviewai.app';
+const CALENDAR_EXTENSION = '.ics';
+
+const getUid = (kind: string, id: string): string => `${kind}-${id}@${UID_DOMAIN}`;
+
+// Events
+const allDayEvent = (
+  uid: string,
+  summary: string,
+  date: Date,
+  categories: string[],
+  details: Partial<CalendarEvent> = {}
+): CalendarEvent => ({
+  uid,
+  summary,
+  description: '',
+  start: startOfDay(date),
+  end: addDays(startOfDay(date), 1),
+  allDay: true,
+  categories,
+  ...details
+});
+
+export const getCalendarEvents = (project: ProductionProject, scope: CalendarScope): CalendarEvent[] => {
+  const memberId = scope.type === 'member' ? scope.memberId : null;
+  const locationId = scope.type === 'location' ? scope.locationId : null;
+  const locations = new Map(project.locations.map(location => [location.id, location]));
+  const team = new Map(project.team.map(member => [member.id, member]));
+  const events: CalendarEvent[] = [];
+
+  [...project.schedule.shootingDays, ...(project.schedule.retiredDays ?? [])]
+    .filter(day => (!memberId || day.crew.includes(memberId)) && (!locationId || day.locationId === locationId))
+    .forEach(day => {
+      const location = locations.get(day.locationId);
+      const crew = day.crew.map(id => team.get(id)?.name).filter(Boolean);
+      events.push({
+        uid: getUid('shooting-day', day.id),
+        summary: `Shoot: ${location?.name ?? 'Location to be confirmed'}`,
+        description: [
+          `Call ${format(day.callTime, 'HH:mm')}, wrap ${format(day.wrapTime, 'HH:mm')}`,
+          day.scenes.length > 0 && `${day.scenes.length} scene${day.scenes.length === 1 ? '' : 's'}`,
+          crew.length > 0 && `Crew: ${crew.join(', ')}`,
+          location?.contactPerson.name && `Location contact: ${location.contactPerson.name} ${location.contactPerson.phone}`.trim(),
+          day.notes
+        ].filter(Boolean).join('\n'),
+        location: location ? [location.name, location.address].filter(Boolean).join(', ') : undefined,
+        geo: location?.latitude !== undefined && location.longitude !== undefined
+          ? { latitude: location.latitude, longitude: location.longitude }
+          : undefined,
+        start: day.callTime,
+        end: day.wrapTime > day.callTime ? day.wrapTime : day.callTime,
+        allDay: false,
+        categories: ['Shoot'],
+        cancelled: day.status === 'cancelled'
+      });
+    });
+
+  // Only shoots happen at a location
+  if (locationId) return events;
+
+  project.schedule.phases.forEach(phase => phase.tasks
+    .filter(task => !memberId || task.assignedTo.includes(memberId))
+    .forEach(task => {
+      const due = task.dueDate < task.startDate ? task.startDate : task.dueDate;
+      events.push(allDayEvent(getUid('task', task.id), task.title, task.startDate, ['Task'], {
+        description: [`${phase.name} task`, task.description].filter(Boolean).join('\n'),
+        end: addDays(startOfDay(due), 1)
+      }));
+    })
+  );
+
+  project.milestones
+    .filter(milestone => !memberId || milestone.assignedTo.includes(memberId))
+    .forEach(milestone => {
+      events.push(allDayEvent(getUid('milestone', milestone.id), `Milestone: ${milestone.title}`, milestone.dueDate, ['Milestone'], {
+        description: [
+          milestone.description,
+          milestone.deliverables.length > 0 && `Deliverables: ${milestone.deliverables.join(', ')}`
+        ].filter(Boolean).join('\n')
+      }));
+    });
+
+  // Festivals and distribution concern the whole production, not one crew member
+  if (memberId) return events;
+
+  project.distribution.festivals.forEach(festival => {
+    const details = { description: [festival.category, festival.notes].filter(Boolean).join('\n') };
+    events.push(allDayEvent(
+      getUid('festival-deadline', festival.id),
+      `Submission deadline: ${festival.name}`,
+      festival.submissionDeadline,
+      ['Festival'],
+      details
+    ));
+    if (festival.notificationDate) {
+      events.push(allDayEvent(
+        getUid('festival-notification', festival.id),
+        `Festival notification: ${festival.name}`,
+        festival.notificationDate,
+        ['Festival'],
+        details
+      ));
+    }
+    if (festival.eventDate) {
+      events.push(allDayEvent(getUid('festival', festival.id), festival.name, festival.eventDate, ['Festival'], {
+        ...details,
+        location: festival.location || undefined
+      }));
+    }
+  });
+
+  project.distribution.timeline.forEach(milestone => {
+    events.push(allDayEvent(getUid('distribution', milestone.id), `Distribution: ${milestone.title}`, milestone.date, ['Distribution'], {
+      description: milestone.description
+    }));
+  });
+
+  return events;
+};
+
+// Writing
+const escapeText = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const formatDate = (date: Date): string => format(date, 'yyyyMMdd');
+
+// Lines longer than 75 octets continue on the next line after a space, never splitting a character
+const encoder = new TextEncoder();
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (length + size > limit) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const getCalendarName = (project: ProductionProject, scope: CalendarScope): string => {
+  if (scope.type === 'member') {
+    const member = project.team.find(item => item.id === scope.memberId);
+    return `${project.title} – ${member?.name ?? 'Crew'}`;
+  }
+  if (scope.type === 'location') {
+    const location = project.locations.find(item => item.id === scope.locationId);
+    return `${project.title} – ${location?.name ?? 'Location'}`;
+  }
+  return project.title;
+};
+
+export const generateICS = (project: ProductionProject, scope: CalendarScope, now = new Date()): string => {
+  const stamp = formatUtc(now);
+  // Every export supersedes the last one, so the sequence only ever grows
+  const sequence = Math.floor(now.getTime() / 1000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(getCalendarName(project, scope))}`,
+    ...getCalendarEvents(project, scope).flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatUtc(event.start)}`,
+      event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.geo ? [`GEO:${event.geo.latitude.toFixed(6)};${event.geo.longitude.toFixed(6)}`] : []),
+      `CATEGORIES:${event.categories.map(escapeText).join(',')}`,
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      `TRANSP:${event.allDay ? 'TRANSPARENT' : 'OPAQUE'}`,
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const downloadCalendar = (project: ProductionProject, scope: CalendarScope): void => {
+  const blob = new Blob([generateICS(project, scope)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${getCalendarName(project, scope).trim().replace(/\s+/g, '-').replace(/[^\w-]/g, '').replace(/-+/g, '-').toLowerCase() || 'calendar'}${CALENDAR_EXTENSION}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Reading
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  properties: Property[];
+}
+
+const unescapeText = (value: string): string => value.replace(/\\([\\;,nN])/g, (_, char: string) => (
+  char === 'n' || char === 'N' ? '\n' : char
+));
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const parseProperty = (line: string): Property | null => {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^;:"]*))*):(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^;:"]*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+const readComponents = (content: string): { name?: string; components: Component[] } => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This is not an iCalendar file.');
+  }
+
+  const components: Component[] = [];
+  const stack: Component[] = [];
+  let name: string | undefined;
+
+  lines.forEach(line => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      stack.push({ type: property.value.toUpperCase(), properties: [] });
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (component && (component.type === 'VEVENT' || component.type === 'VFREEBUSY')) components.push(component);
+    } else if (stack.length === 1 && property.name === 'X-WR-CALNAME') {
+      name = unescapeText(property.value);
+    } else if (stack.length > 0) {
+      // Alarms and other nested parts keep to themselves
+      const current = stack[stack.length - 1];
+      if (current.type === 'VEVENT' || current.type === 'VFREEBUSY') current.properties.push(property);
+    }
+  });
+
+  return { name, components };
+};
+
+// Wall-clock time in a named zone, by asking Intl what that zone's clock shows
+const zonedTime = (parts: number[], timeZone: string): Date => {
+  const wall = Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+  const offsetAt = (time: number): number => {
+    const values = Object.fromEntries(formatter.formatToParts(new Date(time)).map(part => [part.type, Number(part.value)]));
+    return Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second) - time;
+  };
+
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+};
+
+const parseDateTime = (property: Property, warnings: Set<string>): { date: Date; allDay: boolean } | null => {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const parts = match.slice(1, 7).map(part => Number(part ?? 0));
+  if (!match[4] || property.params.VALUE === 'DATE') {
+    return { date: new Date(parts[0], parts[1] - 1, parts[2]), allDay: true };
+  }
+  if (match[7]) return { date: new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5])), allDay: false };
+
+  const timeZone = property.params.TZID;
+  if (timeZone) {
+    try {
+      return { date: zonedTime(parts, timeZone), allDay: false };
+    } catch {
+      warnings.add(`The time zone "${timeZone}" is not recognized; its times were read as local time.`);
+    }
+  }
+  return { date: new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]), allDay: false };
+};
+
+// P1W, P2D, PT1H30M, P1DT12H
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part ?? 0));
+  const ms = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === '-' ? -ms : ms;
+};
+
+const getProperty = (component: Component, name: string): Property | undefined =>
+  component.properties.find(property => property.name === name);
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Daily and weekly rules cover availability blocks; anything else keeps its first occurrence
+const expandRule = (start: Date, rule: string, until: Date, warnings: Set<string>): Date[] => {
+  const parts = Object.fromEntries(rule.split(';').map(part => part.split('=')).map(([key, value]) => [key.toUpperCase(), value ?? '']));
+  const interval = Math.max(1, Number(parts.INTERVAL) || 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity;
+  const ruleUntil = parts.UNTIL
+    ? parseDateTime({ name: 'UNTIL', params: {}, value: parts.UNTIL }, warnings)?.date
+    : undefined;
+  const last = ruleUntil && ruleUntil < until ? ruleUntil : until;
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') {
+    warnings.add(`Repeating events (${parts.FREQ?.toLowerCase() || 'unknown'} rules) only had their first occurrence imported.`);
+    return [start];
+  }
+
+  const weekdays = parts.FREQ === 'WEEKLY' && parts.BYDAY
+    ? parts.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2).toUpperCase())).filter(day => day >= 0)
+    : [start.getDay()];
+  const occurrences: Date[] = [];
+
+  for (let offset = 0; occurrences.length < count; offset++) {
+    const date = addDays(start, offset);
+    if (isAfter(date, last)) break;
+
+    const period = parts.FREQ === 'DAILY'
+      ? differenceInCalendarDays(date, start)
+      : Math.floor(differenceInCalendarDays(addDays(date, -date.getDay()), addDays(start, -start.getDay())) / 7);
+    if (period % interval === 0 && weekdays.includes(date.getDay())) occurrences.push(date);
+  }
+  return occurrences;
+};
+
+const isBusy = (component: Component): boolean => {
+  const value = (name: string) => getProperty(component, name)?.value.trim().toUpperCase();
+  return value('STATUS') !== 'CANCELLED' &&
+    value('TRANSP') !== 'TRANSPARENT' &&
+    value('X-MICROSOFT-CDO-BUSYSTATUS') !== 'FREE';
+};
+
+const readEvent = (component: Component, until: Date, warnings: Set<string>): ImportedEvent[] => {
+  const startProperty = getProperty(component, 'DTSTART');
+  const start = startProperty && parseDateTime(startProperty, warnings);
+  if (!start) return [];
+
+  const endProperty = getProperty(component, 'DTEND');
+  const durationProperty = getProperty(component, 'DURATION');
+  const duration = durationProperty ? parseDuration(durationProperty.value) : null;
+  const end = endProperty ? parseDateTime(endProperty, warnings)?.date : undefined;
+  const length = end
+    ? Math.max(0, end.getTime() - start.date.getTime())
+    : duration ?? (start.allDay ? 24 * 60 * 60 * 1000 : 0);
+
+  const uid = getProperty(component, 'UID')?.value.trim() ?? '';
+  const summary = unescapeText(getProperty(component, 'SUMMARY')?.value ?? '').trim();
+  const rule = getProperty(component, 'RRULE');
+  const excluded = new Set(component.properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseDateTime({ ...property, value }, warnings)?.date.getTime()))
+  );
+
+  const starts = rule ? expandRule(start.date, rule.value, until, warnings) : [start.date];
+  return starts
+    .filter(date => !excluded.has(date.getTime()))
+    .map(date => ({ uid, summary, start: date, end: new Date(date.getTime() + length), allDay: start.allDay }));
+};
+
+const readFreeBusy = (component: Component, warnings: Set<string>): ImportedEvent[] => {
+  const uid = getProperty(component, 'UID')?.value.trim() ?? '';
+  return component.properties
+    .filter(property => property.name === 'FREEBUSY' && (property.params.FBTYPE ?? 'BUSY').toUpperCase() !== 'FREE')
+    .flatMap(property => property.value.split(','))
+    .flatMap(period => {
+      const [from, to] = period.split('/');
+      const start = parseDateTime({ name: 'FREEBUSY', params: {}, value: from }, warnings)?.date;
+      if (!start || !to) return [];
+      const duration = to.trim().startsWith('P') || to.trim().startsWith('-') ? parseDuration(to) : null;
+      const end = duration !== null
+        ? new Date(start.getTime() + duration)
+        : parseDateTime({ name: 'FREEBUSY', params: {}, value: to }, warnings)?.date;
+      return end ? [{ uid, summary: 'Busy', start, end, allDay: false }] : [];
+    });
+};
+
+export const parseICS = (content: string, until = addDays(new Date(), 365)): CalendarImport => {
+  const { name, components } = readComponents(content);
+  const warnings = new Set<string>();
+
+  // A RECURRENCE-ID event replaces that one occurrence of the repeating event with the same UID
+  const overrides = components.filter(component => component.type === 'VEVENT' && getProperty(component, 'RECURRENCE-ID'));
+  const replaced = new Set(overrides.map(component => {
+    const id = parseDateTime(getProperty(component, 'RECURRENCE-ID')!, warnings)?.date.getTime();
+    return `${getProperty(component, 'UID')?.value.trim()}@${id}`;
+  }));
+
+  const events = components.flatMap(component => {
+    if (component.type === 'VFREEBUSY') return readFreeBusy(component, warnings);
+    if (!isBusy(component)) return [];
+    const occurrences = readEvent(component, until, warnings);
+    return getProperty(component, 'RECURRENCE-ID')
+      ? occurrences
+      : occurrences.filter(event => !replaced.has(`${event.uid}@${event.start.getTime()}`));
+  });
+
+  return { name, events, warnings: Array.from(warnings) };
+};
+
+// Availability
+// Exceptions are whole days, so any busy time marks the day; the reason keeps the hours for context.
+const getBusyDays = (event: ImportedEvent): { date: Date; reason: string }[] => {
+  const first = startOfDay(event.start);
+  const lastMoment = event.end > event.start ? new Date(event.end.getTime() - 1) : event.start;
+  const days = differenceInCalendarDays(lastMoment, first) + 1;
+  const summary = event.summary || 'Busy';
+  const reason = event.allDay || days > 1
+    ? summary
+    : `${summary} ${format(event.start, 'HH:mm')}–${format(event.end, 'HH:mm')}`;
+
+  return Array.from({ length: days }, (_, index) => ({ date: addDays(first, index), reason }));
+};
+
+export const importAvailability = (member: TeamMember, content: string, source?: string): AvailabilityImport => {
+  const calendar = parseICS(content, member.availability.endDate);
+  const calendarName = source || calendar.name || 'Imported calendar';
+  const { startDate, endDate } = member.availability;
+
+  // Re-importing a calendar replaces what it added last time; days set by hand stay as they are
+  const kept = member.availability.exceptions.filter(exception => exception.source !== calendarName);
+  const removed = member.availability.exceptions.length - kept.length;
+  const manual = new Set(kept.filter(exception => !exception.source).map(exception => startOfDay(exception.date).getTime()));
+
+  const blocks = new Map<number, { date: Date; reasons: string[] }>();
+  const skipped = new Set<number>();
+  calendar.events.flatMap(getBusyDays).forEach(({ date, reason }) => {
+    if (isBefore(date, startOfDay(startDate)) || isAfter(date, endDate)) return;
+    const key = date.getTime();
+    if (manual.has(key)) {
+      skipped.add(key);
+      return;
+    }
+    const block = blocks.get(key) ?? { date, reasons: [] };
+    if (!block.reasons.includes(reason)) block.reasons.push(reason);
+    blocks.set(key, block);
+  });
+
+  const added = Array.from(blocks.values()).map(block => ({
+    date: block.date,
+    available: false,
+    reason: block.reasons.join('; '),
+    source: calendarName
+  }));
+
+  return {
+    member: {
+      ...member,
+      availability: {
+        ...member.availability,
+        exceptions: [...kept, ...added].sort((a, b) => a.date.getTime() - b.date.getTime())
+      }
+    },
+    added: added.length,
+    removed,
+    skipped: skipped.size,
+    warnings: calendar.warnings
+  };
+};
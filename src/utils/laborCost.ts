@@ -0,0 +1,314 @@
+import { isWithinInterval, startOfDay, endOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Budget,
+  BudgetCategory,
+  BudgetItem,
+  LaborRules,
+  ProductionProject,
+  ShootingDay,
+  TeamMember
+} from '../types/production';
+import { ConvertMoney, createConverter, formatMoney, getBaseCurrency } from './currency';
+
+// Crew labor
+// Payroll is estimated from each member's rate and the call and wrap times of the shooting days they are booked on.
+// Lunch is assumed to be called on time; anything after it is not scheduled, so a long day runs into meal penalties.
+// Totals are in the project's base currency; pay is converted from the member's currency at the rate on the day.
+
+export interface MemberDayLabor {
+  memberId: string;
+  hours: number; // Worked, excluding the meal break
+  straight: number;
+  overtime: number; // Overtime and double time pay
+  mealPenalties: number; // Count of late half hours
+  mealPenaltyCost: number;
+  kit: number;
+  wages: number; // Straight time, overtime and meal penalties
+}
+
+export interface DayLabor {
+  shootingDayId: string;
+  date: Date;
+  hours: number;
+  members: MemberDayLabor[];
+  wages: number;
+  overtime: number;
+  mealPenalties: number;
+  kit: number;
+  fringes: number;
+  total: number;
+}
+
+export interface MemberLabor {
+  memberId: string;
+  name: string;
+  role: string;
+  days: number;
+  hours: number;
+  wages: number;
+  overtime: number;
+  mealPenalties: number;
+  kit: number;
+  flatFee: number; // Project rates, paid once whatever the schedule
+  fringes: number;
+  total: number;
+}
+
+export interface PhaseLabor {
+  phaseId: string | null; // Null for days outside every phase
+  name: string;
+  days: number;
+  total: number;
+}
+
+export interface LaborEstimate {
+  rules: LaborRules;
+  days: DayLabor[];
+  members: MemberLabor[];
+  phases: PhaseLabor[];
+  wages: number;
+  overtime: number;
+  mealPenalties: number;
+  kit: number;
+  flatFees: number;
+  fringes: number;
+  fringeRate: number;
+  total: number; // Including fringes
+  categoryId: string | null;
+  allocation: number | null; // Crew category allocation, which fringes are budgeted on top of
+  overAllocation: number; // Labor before fringes beyond the allocation
+}
+
+const DEFAULT_LABOR_RULES: LaborRules = {
+  dayHours: 10,
+  overtimeMultiplier: 1.5,
+  doubleTimeAfter: 12,
+  doubleTimeMultiplier: 2,
+  mealIntervalHours: 6,
+  mealBreakMinutes: 30,
+  mealPenalty: 25
+};
+
+const WORK_DAYS_PER_WEEK = 5;
+const HOUR = 60 * 60 * 1000;
+const CREW_PATTERN = /\b(crew|labou?r|payroll)\b/i;
+export const LABOR_ITEM_PREFIX = 'labor-';
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+export const getLaborRules = (budget: Budget): LaborRules => ({ ...DEFAULT_LABOR_RULES, ...budget.laborRules });
+
+export const getCrewCategory = (budget: Budget): BudgetCategory | undefined =>
+  budget.categories.find(category => CREW_PATTERN.test(category.name));
+
+// Pay
+export const getDayLength = (day: ShootingDay): number => {
+  const hours = (day.wrapTime.getTime() - day.callTime.getTime()) / HOUR;
+  return hours > 0 ? hours : hours + 24; // Wrapping after midnight
+};
+
+const getHourlyRate = (member: TeamMember, rules: LaborRules): number => {
+  switch (member.rate.unit) {
+    case 'hourly': return member.rate.amount;
+    case 'daily': return member.rate.amount / rules.dayHours;
+    case 'weekly': return member.rate.amount / WORK_DAYS_PER_WEEK / rules.dayHours;
+    case 'project': return 0;
+  }
+};
+
+export const getMemberDayLabor = (member: TeamMember, day: ShootingDay, rules: LaborRules): MemberDayLabor => {
+  const length = getDayLength(day);
+  const meal = length > rules.mealIntervalHours ? rules.mealBreakMinutes / 60 : 0;
+  const hours = Math.max(0, length - meal);
+  const secondMealDue = rules.mealIntervalHours * 2 + meal;
+  const mealPenalties = meal > 0 && length > secondMealDue ? Math.ceil((length - secondMealDue) * 2) : 0;
+
+  const rate = getHourlyRate(member, rules);
+  const overtimeHours = Math.max(0, Math.min(hours, rules.doubleTimeAfter) - rules.dayHours);
+  const doubleTimeHours = Math.max(0, hours - Math.max(rules.doubleTimeAfter, rules.dayHours));
+  // Day and weekly rates guarantee the full day; hourly crew are paid for what they work
+  const straight = member.rate.unit === 'hourly' ? Math.min(hours, rules.dayHours) * rate : rules.dayHours * rate;
+  const overtime = overtimeHours * rate * rules.overtimeMultiplier + doubleTimeHours * rate * rules.doubleTimeMultiplier;
+  const mealPenaltyCost = member.rate.unit === 'project' ? 0 : mealPenalties * rules.mealPenalty;
+
+  return {
+    memberId: member.id,
+    hours,
+    straight,
+    overtime,
+    mealPenalties: member.rate.unit === 'project' ? 0 : mealPenalties,
+    mealPenaltyCost,
+    kit: member.kitRental ?? 0,
+    wages: straight + overtime + mealPenaltyCost
+  };
+};
+
+// Meal penalties are set in the base currency already
+const toBase = (labor: MemberDayLabor, member: TeamMember, date: Date, convert: ConvertMoney): MemberDayLabor => {
+  const straight = convert(labor.straight, member.rate.currency, date);
+  const overtime = convert(labor.overtime, member.rate.currency, date);
+  return {
+    ...labor,
+    straight,
+    overtime,
+    kit: convert(labor.kit, member.rate.currency, date),
+    wages: straight + overtime + labor.mealPenaltyCost
+  };
+};
+
+// Estimate
+export const estimateLabor = (project: ProductionProject): LaborEstimate => {
+  const { budget } = project;
+  const { convert } = createConverter(project);
+  const rules = getLaborRules(budget);
+  const category = getCrewCategory(budget);
+  const fringeRate = category?.fringeRate ?? 0;
+  const team = new Map(project.team.map(member => [member.id, member]));
+  const fringesOn = (wages: number) => wages * fringeRate / 100;
+
+  const days = project.schedule.shootingDays
+    .filter(day => day.status !== 'cancelled')
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(day => {
+      const members = Array.from(new Set(day.crew))
+        .flatMap(id => team.has(id) ? [toBase(getMemberDayLabor(team.get(id)!, day, rules), team.get(id)!, day.date, convert)] : []);
+      const wages = sum(members.map(entry => entry.wages));
+      const kit = sum(members.map(entry => entry.kit));
+      return {
+        shootingDayId: day.id,
+        date: day.date,
+        hours: getDayLength(day),
+        members,
+        wages,
+        overtime: sum(members.map(entry => entry.overtime)),
+        mealPenalties: sum(members.map(entry => entry.mealPenaltyCost)),
+        kit,
+        fringes: fringesOn(wages),
+        total: wages + kit + fringesOn(wages)
+      };
+    });
+
+  const members = project.team
+    .map(member => {
+      const booked = days.flatMap(day => day.members.filter(entry => entry.memberId === member.id));
+      const wages = sum(booked.map(entry => entry.wages));
+      const kit = sum(booked.map(entry => entry.kit));
+      const flatFee = member.rate.unit === 'project' && booked.length > 0 ? convert(member.rate.amount, member.rate.currency) : 0;
+      return {
+        memberId: member.id,
+        name: member.name,
+        role: member.role,
+        days: booked.length,
+        hours: sum(booked.map(entry => entry.hours)),
+        wages,
+        overtime: sum(booked.map(entry => entry.overtime)),
+        mealPenalties: sum(booked.map(entry => entry.mealPenaltyCost)),
+        kit,
+        flatFee,
+        fringes: fringesOn(wages + flatFee),
+        total: wages + kit + flatFee + fringesOn(wages + flatFee)
+      };
+    })
+    .filter(member => member.days > 0);
+
+  // Days outside every phase are grouped on their own
+  const phaseOf = (day: DayLabor) => project.schedule.phases.find(phase =>
+    isWithinInterval(day.date, { start: startOfDay(phase.startDate), end: endOfDay(phase.endDate) })
+  );
+  const phases: PhaseLabor[] = [
+    ...project.schedule.phases.map(phase => ({ phaseId: phase.id, name: phase.name, days: days.filter(day => phaseOf(day) === phase) })),
+    { phaseId: null, name: 'Outside any phase', days: days.filter(day => !phaseOf(day)) }
+  ]
+    .filter(phase => phase.days.length > 0)
+    .map(phase => ({ phaseId: phase.phaseId, name: phase.name, days: phase.days.length, total: sum(phase.days.map(day => day.total)) }));
+
+  const flatFees = sum(members.map(member => member.flatFee));
+  const wages = sum(days.map(day => day.wages));
+  const kit = sum(days.map(day => day.kit));
+  const fringes = fringesOn(wages + flatFees);
+  const allocation = category ? category.allocatedAmount : null;
+
+  return {
+    rules,
+    days,
+    members,
+    phases,
+    wages,
+    overtime: sum(days.map(day => day.overtime)),
+    mealPenalties: sum(days.map(day => day.mealPenalties)),
+    kit,
+    flatFees,
+    fringes,
+    fringeRate,
+    total: wages + kit + flatFees + fringes,
+    categoryId: category?.id ?? null,
+    allocation,
+    overAllocation: allocation === null ? 0 : Math.max(0, wages + kit + flatFees - allocation)
+  };
+};
+
+// Budget
+// One item per crew member in the Crew category; items added by hand are left alone.
+export const applyLaborToBudget = (project: ProductionProject, estimate = estimateLabor(project)): Budget => {
+  const { budget } = project;
+  const category: BudgetCategory = getCrewCategory(budget) ?? {
+    id: uuidv4(),
+    name: 'Crew',
+    description: 'Crew labor from the shooting schedule',
+    allocatedAmount: 0,
+    spentAmount: 0,
+    remainingAmount: 0,
+    items: [],
+    section: 'below-the-line'
+  };
+  const existing = new Map(category.items.map(item => [item.id, item]));
+  const base = getBaseCurrency(project);
+
+  const laborItems = estimate.members.map((member): BudgetItem => {
+    const id = `${LABOR_ITEM_PREFIX}${member.memberId}`;
+    const details = [
+      `${member.days} day${member.days === 1 ? '' : 's'}, ${Math.round(member.hours * 10) / 10} h`,
+      member.overtime > 0 ? `${formatMoney(member.overtime, base)} overtime` : '',
+      member.mealPenalties > 0 ? `${formatMoney(member.mealPenalties, base)} meal penalties` : '',
+      member.kit > 0 ? `${formatMoney(member.kit, base)} kit rental` : '',
+      member.flatFee > 0 ? 'project fee' : ''
+    ].filter(Boolean);
+
+    return {
+      id,
+      name: `${member.name} (${member.role})`,
+      description: details.join(', '),
+      estimatedCost: member.wages + member.kit + member.flatFee,
+      actualCost: existing.get(id)?.actualCost ?? 0,
+      quantity: 1,
+      unit: 'schedule',
+      status: existing.get(id)?.status ?? 'planned',
+      notes: existing.get(id)?.notes ?? ''
+    };
+  });
+
+  const updated = {
+    ...category,
+    items: [...category.items.filter(item => !item.id.startsWith(LABOR_ITEM_PREFIX)), ...laborItems]
+  };
+  return {
+    ...budget,
+    categories: budget.categories.some(candidate => candidate.id === category.id)
+      ? budget.categories.map(candidate => candidate.id === category.id ? updated : candidate)
+      : [...budget.categories, updated]
+  };
+};
+
+// Warnings
+// Only a change that adds labor and leaves it over the allocation is worth interrupting for.
+export const getLaborWarning = (before: ProductionProject, after: ProductionProject): string | null => {
+  const previous = estimateLabor(before);
+  const next = estimateLabor(after);
+  const added = (next.total - next.fringes) - (previous.total - previous.fringes);
+  if (next.overAllocation <= 0 || added <= 0 || next.allocation === null) return null;
+
+  const base = getBaseCurrency(after);
+  return `This change adds ${formatMoney(added, base)} of crew labor, ` +
+    `${formatMoney(next.overAllocation, base)} over the ${formatMoney(next.allocation, base)} crew allocation.`;
+};
@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LoudnessMeasurement,
+  DeliverySpec,
+  ComplianceCheck,
+  LoudnessComplianceReport
+} from '../types/audio';
+import {
+  PcmAudio,
+  applyKWeighting,
+  computeSubBlockPowers,
+  combineSubBlocks,
+  gateIntegratedLoudness,
+  powerToLoudness,
+  getDuration,
+  getSamplePeak,
+  gainToDb
+} from './audioDsp';
+
+// Measurement runs in the loudness worker; the channel buffers are transferred to it
+export type LoudnessResponse =
+  | { type: 'done'; measurement: LoudnessMeasurement }
+  | { type: 'error'; message: string };
+
+// Delivery specifications
+export const DELIVERY_SPECS: DeliverySpec[] = [
+  {
+    id: 'ebu-r128',
+    name: 'EBU R128',
+    description: 'European broadcast programme loudness',
+    targetIntegrated: -23,
+    tolerance: 0.5,
+    maxTruePeak: -1
+  },
+  {
+    id: 'ebu-r128-s1',
+    name: 'EBU R128 s1 (short-form)',
+    description: 'Adverts, promos and trailers under 30 seconds',
+    targetIntegrated: -23,
+    tolerance: 0.5,
+    maxTruePeak: -1,
+    maxShortTerm: -18
+  },
+  {
+    id: 'atsc-a85',
+    name: 'ATSC A/85',
+    description: 'US broadcast (CALM Act)',
+    targetIntegrated: -24,
+    tolerance: 2,
+    maxTruePeak: -2
+  },
+  {
+    id: 'streaming-video',
+    name: 'Streaming video (Netflix / Prime Video)',
+    description: 'Long-form streaming programme deliverables',
+    targetIntegrated: -24,
+    tolerance: 2,
+    maxTruePeak: -2
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    description: 'Online video platform playback normalization',
+    targetIntegrated: -14,
+    tolerance: 1,
+    maxTruePeak: -1
+  },
+  {
+    id: 'spotify',
+    name: 'Spotify',
+    description: 'Music and podcast streaming',
+    targetIntegrated: -14,
+    tolerance: 1,
+    maxTruePeak: -1
+  },
+  {
+    id: 'apple-podcasts',
+    name: 'Apple Podcasts',
+    description: 'Spoken-word podcast distribution',
+    targetIntegrated: -16,
+    tolerance: 1,
+    maxTruePeak: -1
+  }
+];
+
+export const getDeliverySpec = (id: string): DeliverySpec | undefined => {
+  return DELIVERY_SPECS.find(spec => spec.id === id);
+};
+
+// True peak
+const createInterpolationFilter = (factor: number, tapsPerPhase: number): Float32Array[] => {
+  const length = factor * tapsPerPhase;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: factor }, () => new Float32Array(tapsPerPhase));
+
+  for (let m = 0; m < length; m++) {
+    const x = (m - center) / factor;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    // Blackman window
+    const blackman = 0.42 - 0.5 * Math.cos((2 * Math.PI * m) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * m) / (length - 1));
+    phases[m % factor][Math.floor(m / factor)] = sinc * blackman;
+  }
+
+  return phases;
+};
+
+// Peak of the signal oversampled to at least 192 kHz, per ITU-R BS.1770 Annex 2
+export const measureTruePeak = (audio: PcmAudio): number => {
+  const factor = audio.sampleRate >= 192000 ? 1 : audio.sampleRate >= 96000 ? 2 : 4;
+  if (factor === 1) return gainToDb(getSamplePeak(audio));
+
+  const phases = createInterpolationFilter(factor, 12);
+  const taps = phases[0].length;
+  let peak = 0;
+
+  for (const channel of audio.channels) {
+    for (let n = 0; n < channel.length; n++) {
+      for (const phase of phases) {
+        let sum = 0;
+        for (let k = 0; k < taps; k++) {
+          const index = n - k;
+          if (index >= 0) sum += channel[index] * phase[k];
+        }
+        const value = Math.abs(sum);
+        if (value > peak) peak = value;
+      }
+    }
+  }
+
+  return gainToDb(peak);
+};
+
+// Loudness range (EBU Tech 3342) from short-term block powers
+export const computeLoudnessRange = (shortTermPowers: number[]): number => {
+  const absoluteGated = shortTermPowers.filter(power => powerToLoudness(power) > -70);
+  if (absoluteGated.length === 0) return 0;
+
+  const meanPower = absoluteGated.reduce((sum, power) => sum + power, 0) / absoluteGated.length;
+  const relativeGate = powerToLoudness(meanPower) - 20;
+  const loudness = absoluteGated
+    .map(powerToLoudness)
+    .filter(value => value > relativeGate)
+    .sort((a, b) => a - b);
+  if (loudness.length === 0) return 0;
+
+  const percentile = (p: number) => loudness[Math.min(loudness.length - 1, Math.round(p * (loudness.length - 1)))];
+  return percentile(0.95) - percentile(0.1);
+};
+
+// Measurement
+const SERIES_STEP = 10; // 100 ms sub-blocks per reported value (one per second)
+
+const maxLoudness = (powers: number[]): number => {
+  return powers.reduce((max, power) => Math.max(max, powerToLoudness(power)), -Infinity);
+};
+
+const toSeries = (powers: number[]): number[] => {
+  const series: number[] = [];
+  for (let i = 0; i < powers.length; i += SERIES_STEP) {
+    series.push(powerToLoudness(powers[i]));
+  }
+  return series;
+};
+
+export const measureLoudness = (audio: PcmAudio): LoudnessMeasurement => {
+  const subBlockPowers = computeSubBlockPowers(applyKWeighting(audio), Math.round(0.1 * audio.sampleRate));
+  const momentaryPowers = combineSubBlocks(subBlockPowers, 4);
+  const shortTermPowers = combineSubBlocks(subBlockPowers, 30);
+
+  return {
+    integrated: gateIntegratedLoudness(momentaryPowers),
+    momentary: toSeries(momentaryPowers),
+    shortTerm: toSeries(shortTermPowers),
+    maxMomentary: maxLoudness(momentaryPowers),
+    maxShortTerm: maxLoudness(shortTermPowers),
+    loudnessRange: computeLoudnessRange(shortTermPowers),
+    truePeak: measureTruePeak(audio),
+    samplePeak: gainToDb(getSamplePeak(audio)),
+    duration: getDuration(audio),
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.length
+  };
+};
+
+// Compliance
+export const formatLoudness = (value: number, unit: string): string => {
+  return Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-inf ${unit}`;
+};
+
+export const checkCompliance = (
+  measurement: LoudnessMeasurement,
+  spec: DeliverySpec,
+  fileName: string
+): LoudnessComplianceReport => {
+  const checks: ComplianceCheck[] = [
+    {
+      id: 'integrated',
+      label: 'Integrated loudness',
+      measured: measurement.integrated,
+      requirement: `${spec.targetIntegrated} LUFS ± ${spec.tolerance} LU`,
+      passed: Math.abs(measurement.integrated - spec.targetIntegrated) <= spec.tolerance
+    },
+    {
+      id: 'true-peak',
+      label: 'True peak',
+      measured: measurement.truePeak,
+      requirement: `≤ ${spec.maxTruePeak} dBTP`,
+      passed: measurement.truePeak <= spec.maxTruePeak
+    }
+  ];
+
+  if (spec.maxShortTerm !== undefined) {
+    checks.push({
+      id: 'short-term',
+      label: 'Max short-term loudness',
+      measured: measurement.maxShortTerm,
+      requirement: `≤ ${spec.maxShortTerm} LUFS`,
+      passed: measurement.maxShortTerm <= spec.maxShortTerm
+    });
+  }
+
+  if (spec.maxMomentary !== undefined) {
+    checks.push({
+      id: 'momentary',
+      label: 'Max momentary loudness',
+      measured: measurement.maxMomentary,
+      requirement: `≤ ${spec.maxMomentary} LUFS`,
+      passed: measurement.maxMomentary <= spec.maxMomentary
+    });
+  }
+
+  if (spec.maxLoudnessRange !== undefined) {
+    checks.push({
+      id: 'loudness-range',
+      label: 'Loudness range',
+      measured: measurement.loudnessRange,
+      requirement: `≤ ${spec.maxLoudnessRange} LU`,
+      passed: measurement.loudnessRange <= spec.maxLoudnessRange
+    });
+  }
+
+  return {
+    id: uuidv4(),
+    fileName,
+    spec,
+    measurement,
+    checks,
+    passed: checks.every(check => check.passed),
+    generatedAt: new Date()
+  };
+};
@@ -0,0 +1,13 @@
+import { PcmAudio } from './audioDsp';
+import { LoudnessResponse, measureLoudness } from './loudnessMeter';
+
+// Measures off the main thread; the oversampled true-peak pass takes seconds on long recordings
+const respond = (response: LoudnessResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<PcmAudio>) => {
+  try {
+    respond({ type: 'done', measurement: measureLoudness(event.data) });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
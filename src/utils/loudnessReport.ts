@@ -0,0 +1,61 @@
+import jsPDF from 'jspdf';
+import { LoudnessComplianceReport } from '../types/audio';
+import { formatLoudness } from './loudnessMeter';
+
+// Report export
+// Kept apart from the measurement code so the loudness worker doesn't load jsPDF
+export const exportComplianceReportJson = (report: LoudnessComplianceReport): Blob => {
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+};
+
+export const exportComplianceReportPdf = (report: LoudnessComplianceReport): jsPDF => {
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 20;
+  let yPosition = margin;
+
+  pdf.setFontSize(18);
+  pdf.text('Loudness Compliance Report', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  pdf.setFontSize(11);
+  pdf.text(`File: ${report.fileName}`, margin, yPosition);
+  yPosition += 7;
+  pdf.text(`Specification: ${report.spec.name} (${report.spec.description})`, margin, yPosition);
+  yPosition += 7;
+  pdf.text(`Generated: ${report.generatedAt.toLocaleString()}`, margin, yPosition);
+  yPosition += 12;
+
+  pdf.setFontSize(14);
+  pdf.text(`Result: ${report.passed ? 'PASS' : 'FAIL'}`, margin, yPosition);
+  yPosition += 12;
+
+  pdf.setFontSize(11);
+  report.checks.forEach(check => {
+    const measured = formatLoudness(check.measured, check.id === 'true-peak' ? 'dBTP' : check.id === 'loudness-range' ? 'LU' : 'LUFS');
+    pdf.text(`${check.passed ? 'PASS' : 'FAIL'}  ${check.label}: ${measured} (required ${check.requirement})`, margin, yPosition);
+    yPosition += 7;
+  });
+  yPosition += 8;
+
+  const { measurement } = report;
+  pdf.setFontSize(12);
+  pdf.text('Measurement', margin, yPosition);
+  yPosition += 8;
+
+  pdf.setFontSize(10);
+  [
+    `Integrated: ${formatLoudness(measurement.integrated, 'LUFS')}`,
+    `Max momentary: ${formatLoudness(measurement.maxMomentary, 'LUFS')}`,
+    `Max short-term: ${formatLoudness(measurement.maxShortTerm, 'LUFS')}`,
+    `Loudness range: ${formatLoudness(measurement.loudnessRange, 'LU')}`,
+    `True peak: ${formatLoudness(measurement.truePeak, 'dBTP')}`,
+    `Sample peak: ${formatLoudness(measurement.samplePeak, 'dBFS')}`,
+    `Duration: ${measurement.duration.toFixed(1)} s, ${measurement.sampleRate} Hz, ${measurement.channels} channel(s)`
+  ].forEach(line => {
+    pdf.text(line, margin, yPosition);
+    yPosition += 6;
+  });
+
+  return pdf;
+};
@@ -1,6 +1,7 @@
 import { ProductionProject, ProductionStats } from '../types/production';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { createConverter, getCurrencyReport } from './currency';
 
 export const createNewProductionProject = (title: string, description: string): ProductionProject => {
   const startDate = new Date();
@@ -68,10 +69,13 @@ export const createNewProductionProject = (title: string, description: string):
 export const calculateProductionStats = (project: ProductionProject): ProductionStats => {
   const today = new Date();
   
-  // Budget stats
+  // Budget stats, in the base currency
+  const converter = createConverter(project, today);
   const totalBudget = project.budget.totalBudget;
   const spentBudget = project.budget.expenses.reduce((sum, expense) => 
-    expense.status === 'approved' || expense.status === 'reimbursed' ? sum + expense.amount : sum, 0);
+    expense.status === 'approved' || expense.status === 'reimbursed'
+      ? sum + converter.convert(expense.amount, expense.currency, expense.date)
+      : sum, 0);
   const remainingBudget = totalBudget - spentBudget;
   
   // Schedule stats
@@ -116,6 +120,8 @@ export const calculateProductionStats = (project: ProductionProject): Production
   
   return {
     budget: {
+      currency: converter.base,
+      missingRates: Array.from(converter.missing),
       total: totalBudget,
       spent: spentBudget,
       remaining: remainingBudget,
@@ -211,6 +217,7 @@ export const generateCallSheet = (project: ProductionProject, shootingDayId: str
 
 export const generateProductionReport = (project: ProductionProject) => {
   const stats = calculateProductionStats(project);
+  const currencies = getCurrencyReport(project);
   
   return {
     title: `Production Report - ${project.title}`,
@@ -222,10 +229,12 @@ export const generateProductionReport = (project: ProductionProject) => {
       remaining: Math.ceil((project.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
     },
     budget: {
+      currency: stats.budget.currency,
       total: stats.budget.total,
       spent: stats.budget.spent,
       remaining: stats.budget.remaining,
-      percentageUsed: stats.budget.percentageUsed
+      percentageUsed: stats.budget.percentageUsed,
+      byCurrency: currencies.totals // As entered and converted, per currency
     },
     schedule: {
       shootingDays: {
@@ -259,6 +268,7 @@ export const generateProductionReport = (project: ProductionProject) => {
     issues: [
       ...stats.milestones.overdue > 0 ? [`${stats.milestones.overdue} overdue milestone(s)`] : [],
       ...stats.budget.percentageUsed > 90 ? ['Budget usage over 90%'] : [],
+      ...currencies.missing.length > 0 ? [`No exchange rate for ${currencies.missing.join(', ')}`] : [],
       ...stats.tasks.blocked > 0 ? [`${stats.tasks.blocked} blocked task(s)`] : [],
       ...project.schedule.conflicts.filter(c => c.status === 'unresolved').length > 0 ? 
         [`${project.schedule.conflicts.filter(c => c.status === 'unresolved').length} unresolved schedule conflict(s)`] : []
@@ -266,6 +276,7 @@ export const generateProductionReport = (project: ProductionProject) => {
     recommendations: [
       ...stats.milestones.overdue > 0 ? ['Review and update overdue milestones'] : [],
       ...stats.budget.percentageUsed > 90 ? ['Review budget allocation and consider additional funding'] : [],
+      ...currencies.missing.length > 0 ? ['Add exchange rates so foreign amounts are not counted at face value'] : [],
       ...stats.tasks.blocked > 0 ? ['Address blocked tasks to maintain schedule'] : [],
       ...project.schedule.conflicts.filter(c => c.status === 'unresolved').length > 0 ? 
         ['Resolve schedule conflicts to avoid delays'] : []
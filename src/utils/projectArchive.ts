@@ -0,0 +1,310 @@
+import { unzip, zip, AsyncZippable, Unzipped } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ArchiveFileEntry,
+  ArchiveImportReport,
+  ArchiveManifest,
+  ArchiveSelection,
+  ProjectKind,
+  RestoredProject,
+  StoredBlob,
+  StoredRecord,
+  WorkspaceState
+} from '../types/storage';
+import { DocumentaryRecord } from '../types/documentary';
+import { StoryboardFrame } from '../types/script';
+import { parseWithDates, stringifyWithDates } from './serialization';
+import {
+  getSchemaVersion,
+  loadWorkspace,
+  projectExists,
+  readProjectRecords,
+  writeProjectRecord
+} from './projectRepository';
+
+export const ARCHIVE_EXTENSION = '.ddoc';
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const WORKSPACE_PATH = 'workspace.json';
+const ARCHIVE_KINDS: ProjectKind[] = ['documentaries', 'production', 'research', 'audio', 'scripts', 'media'];
+
+type ArchiveWorkspace = Omit<WorkspaceState, 'id' | 'updatedAt'>;
+
+interface ExportArchiveOptions {
+  title: string;
+  selection?: ArchiveSelection;
+  includeWorkspace?: boolean;
+}
+
+// Helpers
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const zipAsync = (files: AsyncZippable): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+};
+
+const unzipAsync = (data: Uint8Array): Promise<Unzipped> => {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+// IDs are referenced by value across projects, so every string equal to a remapped ID is rewritten
+const remapIds = <T>(value: T, idMap: Map<string, string>): T => {
+  const remap = (entry: unknown): unknown => {
+    if (typeof entry === 'string') return idMap.get(entry) ?? entry;
+    if (Array.isArray(entry)) return entry.map(remap);
+    if (isPlainObject(entry)) {
+      return Object.fromEntries(Object.entries(entry).map(([key, item]) => [key, remap(item)]));
+    }
+    return entry;
+  };
+
+  return remap(value) as T;
+};
+
+const toFileName = (title: string): string => {
+  return `${title.trim().replace(/\s+/g, '-').replace(/[^\w-]/g, '').toLowerCase() || 'documentary'}${ARCHIVE_EXTENSION}`;
+};
+
+// Export
+export const exportArchive = async ({ title, selection, includeWorkspace = !selection }: ExportArchiveOptions): Promise<Blob> => {
+  const files: AsyncZippable = {};
+  const entries: ArchiveFileEntry[] = [];
+
+  const addFile = async (path: string, bytes: Uint8Array, entry: Omit<ArchiveFileEntry, 'path' | 'size' | 'sha256'>, compress = true) => {
+    files[path] = compress ? bytes : [bytes, { level: 0 }];
+    entries.push({ path, size: bytes.length, sha256: await sha256(bytes), ...entry });
+  };
+
+  for (const kind of ARCHIVE_KINDS) {
+    if (selection && !selection[kind]) continue;
+
+    const stored = await readProjectRecords(kind, selection?.[kind]);
+    for (const { record: original, blobs } of stored) {
+      let record = original;
+
+      // A documentary's storyboard is listed on its own, so the manifest shows it and import can remap its frames
+      if (kind === 'documentaries') {
+        const { storyboard, ...data } = original.data as DocumentaryRecord;
+        if (storyboard.length > 0) {
+          await addFile(`storyboards/${record.id}.json`, encoder.encode(stringifyWithDates(storyboard, 2)), {
+            storyboardOf: record.id,
+            title: `${record.title} storyboard`,
+            frameCount: storyboard.length
+          });
+        }
+        record = { ...original, data: { ...data, storyboard: [] } };
+      }
+
+      await addFile(`projects/${kind}/${record.id}.json`, encoder.encode(stringifyWithDates(record, 2)), {
+        kind,
+        projectId: record.id,
+        title: record.title,
+        schemaVersion: record.schemaVersion
+      });
+
+      // Media is already compressed; storing it as-is keeps export fast
+      for (const blob of blobs) {
+        await addFile(`media/${blob.key}`, new Uint8Array(await blob.blob.arrayBuffer()), {
+          blobKey: blob.key,
+          owner: blob.owner,
+          mimeType: blob.blob.type
+        }, false);
+      }
+    }
+  }
+
+  if (includeWorkspace) {
+    const workspace = await loadWorkspace();
+    if (workspace) {
+      const state: ArchiveWorkspace = {
+        activeProjectIds: workspace.activeProjectIds,
+        activeTab: workspace.activeTab,
+        scene: workspace.scene,
+        document: workspace.document,
+        documentAnalysis: workspace.documentAnalysis
+      };
+      await addFile(WORKSPACE_PATH, encoder.encode(stringifyWithDates(state, 2)), {});
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: 'ddoc',
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    title,
+    createdAt: new Date(),
+    files: entries
+  };
+  files[MANIFEST_PATH] = encoder.encode(stringifyWithDates(manifest, 2));
+
+  return new Blob([await zipAsync(files)], { type: 'application/zip' });
+};
+
+export const downloadArchive = async (options: ExportArchiveOptions): Promise<void> => {
+  const blob = await exportArchive(options);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = toFileName(options.title);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Import
+const readManifest = (files: Unzipped): ArchiveManifest => {
+  const bytes = files[MANIFEST_PATH];
+  if (!bytes) throw new Error('This is not a .ddoc archive: manifest.json is missing.');
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = parseWithDates<ArchiveManifest>(decoder.decode(bytes));
+  } catch {
+    throw new Error('The archive manifest is not valid JSON.');
+  }
+
+  if (manifest.format !== 'ddoc' || !Array.isArray(manifest.files)) {
+    throw new Error('This is not a .ddoc archive: the manifest is not recognised.');
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`This archive uses format version ${manifest.formatVersion}, but this app reads up to version ${ARCHIVE_FORMAT_VERSION}. Update the app to open it.`);
+  }
+  return manifest;
+};
+
+// Checks every listed file before anything is written, so a damaged archive restores nothing
+const verifyFiles = async (manifest: ArchiveManifest, files: Unzipped): Promise<string[]> => {
+  const problems: string[] = [];
+
+  await Promise.all(manifest.files.map(async entry => {
+    const bytes = files[entry.path];
+    if (!bytes) {
+      problems.push(`${entry.path} is missing`);
+    } else if (bytes.length !== entry.size || await sha256(bytes) !== entry.sha256) {
+      problems.push(`${entry.path} does not match its checksum`);
+    }
+  }));
+
+  return problems;
+};
+
+export const importArchive = async (file: Blob): Promise<ArchiveImportReport> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('The file could not be opened as a zip archive.');
+  }
+
+  const manifest = readManifest(files);
+  const problems = await verifyFiles(manifest, files);
+  if (problems.length > 0) {
+    throw new Error(`The archive is damaged: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? ` and ${problems.length - 3} more` : ''}.`);
+  }
+
+  const warnings: string[] = [];
+  const listed = new Set([MANIFEST_PATH, ...manifest.files.map(entry => entry.path)]);
+  const unlisted = Object.keys(files).filter(path => !listed.has(path) && !path.endsWith('/'));
+  if (unlisted.length > 0) warnings.push(`Ignored ${unlisted.length} file${unlisted.length === 1 ? '' : 's'} not listed in the manifest.`);
+
+  // Projects this app can read, with IDs that clash with existing projects remapped
+  const projectEntries = manifest.files.filter(entry => entry.kind && entry.projectId);
+  const readable = projectEntries.filter(entry => {
+    const kind = entry.kind as ProjectKind;
+    if (!ARCHIVE_KINDS.includes(kind)) {
+      warnings.push(`Skipped "${entry.title ?? entry.path}": unknown project type "${kind}".`);
+      return false;
+    }
+    if ((entry.schemaVersion ?? 1) > getSchemaVersion(kind)) {
+      warnings.push(`Skipped "${entry.title ?? entry.path}": it was saved by a newer version of the app.`);
+      return false;
+    }
+    return true;
+  });
+
+  const idMap = new Map<string, string>();
+  for (const entry of readable) {
+    const id = entry.projectId as string;
+    if (await projectExists(entry.kind as ProjectKind, id)) idMap.set(id, uuidv4());
+  }
+
+  // Storyboards travel beside their documentary; a copy of an existing documentary gets new frame IDs too,
+  // so script elements restored with it point at its frames
+  const storyboards = new Map<string, StoryboardFrame[]>();
+  manifest.files.filter(entry => entry.storyboardOf).forEach(entry => {
+    const documentaryId = entry.storyboardOf as string;
+    if (!readable.some(project => project.kind === 'documentaries' && project.projectId === documentaryId)) {
+      warnings.push(`Skipped "${entry.title ?? entry.path}": its documentary is not in the archive.`);
+      return;
+    }
+
+    const frames = parseWithDates<StoryboardFrame[]>(decoder.decode(files[entry.path]));
+    if (idMap.has(documentaryId)) frames.forEach(frame => idMap.set(frame.id, uuidv4()));
+    storyboards.set(documentaryId, frames);
+  });
+
+  const mediaByOwner = new Map<string, ArchiveFileEntry[]>();
+  manifest.files.filter(entry => entry.blobKey && entry.owner).forEach(entry => {
+    mediaByOwner.set(entry.owner as string, [...(mediaByOwner.get(entry.owner as string) ?? []), entry]);
+  });
+
+  const projects: RestoredProject[] = [];
+  let mediaCount = 0;
+  let frameCount = 0;
+
+  for (const entry of readable) {
+    const kind = entry.kind as ProjectKind;
+    const originalId = entry.projectId as string;
+    const stored = parseWithDates<StoredRecord<unknown>>(decoder.decode(files[entry.path]));
+    const storyboard = storyboards.get(originalId);
+    const record: StoredRecord<unknown> = {
+      ...remapIds(storyboard ? { ...stored, data: { ...(stored.data as DocumentaryRecord), storyboard } } : stored, idMap),
+      updatedAt: new Date() // Restored work shows up first in the project picker
+    };
+
+    const blobs: Omit<StoredBlob, 'owner'>[] = (mediaByOwner.get(`${kind}:${originalId}`) ?? []).map(media => ({
+      key: media.blobKey as string,
+      blob: new Blob([files[media.path]], { type: media.mimeType })
+    }));
+
+    await writeProjectRecord(kind, record, blobs);
+    mediaCount += blobs.length;
+    frameCount += storyboard?.length ?? 0;
+    projects.push({
+      kind,
+      id: record.id,
+      title: record.title,
+      originalId: idMap.has(originalId) ? originalId : undefined
+    });
+  }
+
+  const workspaceBytes = files[WORKSPACE_PATH];
+  const workspace = workspaceBytes
+    ? remapIds(parseWithDates<ArchiveWorkspace>(decoder.decode(workspaceBytes)), idMap)
+    : null;
+
+  return {
+    title: manifest.title,
+    createdAt: manifest.createdAt,
+    projects,
+    mediaCount,
+    frameCount,
+    workspace,
+    warnings
+  };
+};
@@ -0,0 +1,384 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ProjectKind,
+  ProjectSummary,
+  ProjectTypes,
+  RecordMigration,
+  StoredBlob,
+  StoredRecord,
+  WorkspaceState
+} from '../types/storage';
+import { reviveLegacyDates } from './serialization';
+
+const DATABASE_NAME = 'documentary-toolkit';
+const PROJECT_STORES: ProjectKind[] = ['research', 'production', 'audio', 'scripts', 'media'];
+const DOCUMENTARY_STORE: ProjectKind = 'documentaries';
+const BLOB_STORE = 'blobs';
+const WORKSPACE_STORE = 'workspace';
+const WORKSPACE_ID = 'current';
+
+// Request helpers
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+// Legacy data
+// Projects used to be written to localStorage as plain JSON
+const LEGACY_AUDIO_KEY = 'audio-project';
+const LEGACY_RESEARCH_PREFIX = 'research-project-';
+
+const importLegacyProjects = (transaction: IDBTransaction) => {
+  const imported: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+
+    const kind: ProjectKind | null = key === LEGACY_AUDIO_KEY
+      ? 'audio'
+      : key.startsWith(LEGACY_RESEARCH_PREFIX) ? 'research' : null;
+    if (!kind) continue;
+
+    try {
+      const data = reviveLegacyDates(JSON.parse(localStorage.getItem(key) ?? 'null'));
+      if (!data?.id) continue;
+
+      const record: StoredRecord<unknown> = {
+        id: data.id,
+        title: data.title ?? 'Untitled',
+        updatedAt: data.updatedAt instanceof Date ? data.updatedAt : new Date(),
+        schemaVersion: 1,
+        data
+      };
+      transaction.objectStore(kind).put(record);
+      imported.push(key);
+    } catch (error) {
+      console.warn(`Skipping unreadable saved project ${key}:`, error);
+    }
+  }
+
+  // Only forget the old copies once the import has been committed
+  transaction.addEventListener('complete', () => {
+    imported.forEach(key => localStorage.removeItem(key));
+  });
+};
+
+// Schema
+// Database upgrades, one per version; each runs inside the version change transaction
+const DATABASE_UPGRADES: ((database: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // 1: a store per project kind, plus media blobs and workspace state
+  (database) => {
+    PROJECT_STORES.forEach(kind => {
+      database.createObjectStore(kind, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+    });
+    database.createObjectStore(BLOB_STORE, { keyPath: 'key' }).createIndex('owner', 'owner');
+    database.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+  },
+  // 2: bring in projects saved to localStorage
+  (_database, transaction) => importLegacyProjects(transaction),
+  // 3: documentaries, which link the module projects together
+  (database) => {
+    database.createObjectStore(DOCUMENTARY_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+  }
+];
+
+const DATABASE_VERSION = DATABASE_UPGRADES.length;
+
+// Record migrations upgrade stored project data when a project type changes shape. Add an entry with the
+// next version number for the kind; records are migrated when loaded and saved back at the new version.
+const RECORD_MIGRATIONS: Record<ProjectKind, RecordMigration[]> = {
+  documentaries: [],
+  research: [],
+  production: [],
+  audio: [],
+  scripts: [],
+  media: []
+};
+
+export const getSchemaVersion = (kind: ProjectKind): number => {
+  return Math.max(1, ...RECORD_MIGRATIONS[kind].map(migration => migration.version));
+};
+
+const migrateRecord = <K extends ProjectKind>(kind: K, record: StoredRecord<unknown>): ProjectTypes[K] => {
+  return RECORD_MIGRATIONS[kind]
+    .filter(migration => migration.version > record.schemaVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((data, migration) => migration.migrate(data), record.data as Record<string, unknown>) as unknown as ProjectTypes[K];
+};
+
+// Connection
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction;
+      if (!transaction) return;
+      for (let version = event.oldVersion; version < DATABASE_VERSION; version++) {
+        DATABASE_UPGRADES[version](request.result, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const database = request.result;
+      // Let a newer tab upgrade the schema
+      database.onversionchange = () => {
+        database.close();
+        databasePromise = null;
+      };
+      resolve(database);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Project storage is being upgraded in another tab. Close other tabs and reload.'));
+  }).catch(error => {
+    databasePromise = null;
+    throw error;
+  });
+
+  return databasePromise;
+};
+
+// Media blobs
+// Object URLs (blob:...) die with the page, so the blobs behind them are stored and the URLs
+// replaced with stored-blob:<key> references, which become fresh object URLs on load.
+const BLOB_URL_PREFIX = 'blob:';
+const STORED_BLOB_PREFIX = 'stored-blob:';
+
+const blobKeysByUrl = new Map<string, string>(); // `${owner}|${url}` -> key
+const urlsByBlobKey = new Map<string, string>();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+const collectStrings = (value: unknown, prefix: string, found: Set<string>) => {
+  if (typeof value === 'string') {
+    if (value.startsWith(prefix)) found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(entry => collectStrings(entry, prefix, found));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(entry => collectStrings(entry, prefix, found));
+  }
+};
+
+const replaceStrings = (value: unknown, replacements: Map<string, string>): unknown => {
+  if (typeof value === 'string') return replacements.get(value) ?? value;
+  if (Array.isArray(value)) return value.map(entry => replaceStrings(entry, replacements));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, replaceStrings(entry, replacements)]));
+  }
+  return value;
+};
+
+const externalizeBlobs = async <T>(value: T, owner: string): Promise<{ data: T; blobs: StoredBlob[]; keys: Set<string> }> => {
+  const urls = new Set<string>();
+  collectStrings(value, BLOB_URL_PREFIX, urls);
+
+  const replacements = new Map<string, string>();
+  const blobs: StoredBlob[] = [];
+  const keys = new Set<string>();
+
+  await Promise.all(Array.from(urls).map(async url => {
+    let key = blobKeysByUrl.get(`${owner}|${url}`);
+    if (!key) {
+      try {
+        const blob = await (await fetch(url)).blob();
+        key = uuidv4();
+        blobs.push({ key, owner, blob });
+        blobKeysByUrl.set(`${owner}|${url}`, key);
+        urlsByBlobKey.set(key, url);
+      } catch {
+        return; // Revoked URL; nothing left to keep
+      }
+    }
+    keys.add(key);
+    replacements.set(url, `${STORED_BLOB_PREFIX}${key}`);
+  }));
+
+  return { data: replaceStrings(value, replacements) as T, blobs, keys };
+};
+
+const internalizeBlobs = async <T>(database: IDBDatabase, value: T, owner: string): Promise<T> => {
+  const references = new Set<string>();
+  collectStrings(value, STORED_BLOB_PREFIX, references);
+  if (references.size === 0) return value;
+
+  const store = database.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const replacements = new Map<string, string>();
+
+  await Promise.all(Array.from(references).map(async reference => {
+    const key = reference.slice(STORED_BLOB_PREFIX.length);
+    let url = urlsByBlobKey.get(key);
+    if (!url) {
+      const stored = await promisifyRequest<StoredBlob | undefined>(store.get(key));
+      if (!stored) return;
+      url = URL.createObjectURL(stored.blob);
+      urlsByBlobKey.set(key, url);
+    }
+    blobKeysByUrl.set(`${owner}|${url}`, key);
+    replacements.set(reference, url);
+  }));
+
+  return replaceStrings(value, replacements) as T;
+};
+
+// Projects
+const getOwner = (kind: ProjectKind, id: string) => `${kind}:${id}`;
+
+const getTitle = (project: ProjectTypes[ProjectKind]): string => {
+  return 'title' in project ? project.title : project.name;
+};
+
+export const saveProject = async <K extends ProjectKind>(kind: K, project: ProjectTypes[K]): Promise<void> => {
+  const database = await openDatabase();
+  const owner = getOwner(kind, project.id);
+  const { data, blobs, keys } = await externalizeBlobs(project, owner);
+
+  const transaction = database.transaction([kind, BLOB_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const blobStore = transaction.objectStore(BLOB_STORE);
+
+  const record: StoredRecord<ProjectTypes[K]> = {
+    id: project.id,
+    title: getTitle(project),
+    updatedAt: new Date(),
+    schemaVersion: getSchemaVersion(kind),
+    data
+  };
+  transaction.objectStore(kind).put(record);
+  blobs.forEach(blob => blobStore.put(blob));
+
+  // Drop media the project no longer references
+  const ownedKeys = await promisifyRequest(blobStore.index('owner').getAllKeys(owner));
+  ownedKeys
+    .filter(key => !keys.has(String(key)))
+    .forEach(key => blobStore.delete(key));
+
+  await done;
+};
+
+export const loadProject = async <K extends ProjectKind>(kind: K, id: string): Promise<ProjectTypes[K] | null> => {
+  const database = await openDatabase();
+  const record = await promisifyRequest<StoredRecord<unknown> | undefined>(
+    database.transaction(kind, 'readonly').objectStore(kind).get(id)
+  );
+  if (!record) return null;
+
+  return internalizeBlobs(database, migrateRecord(kind, record), getOwner(kind, id));
+};
+
+export const listProjects = async (kind: ProjectKind): Promise<ProjectSummary[]> => {
+  const database = await openDatabase();
+  const records = await promisifyRequest<StoredRecord<unknown>[]>(
+    database.transaction(kind, 'readonly').objectStore(kind).getAll()
+  );
+
+  return records
+    .map(record => ({ id: record.id, kind, title: record.title, updatedAt: record.updatedAt }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+// Most recently saved project of a kind, for restoring work on startup
+export const loadLatestProject = async <K extends ProjectKind>(kind: K): Promise<ProjectTypes[K] | null> => {
+  const [latest] = await listProjects(kind);
+  return latest ? loadProject(kind, latest.id) : null;
+};
+
+export const deleteProject = async (kind: ProjectKind, id: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([kind, BLOB_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const blobStore = transaction.objectStore(BLOB_STORE);
+  transaction.objectStore(kind).delete(id);
+
+  const ownedKeys = await promisifyRequest(blobStore.index('owner').getAllKeys(getOwner(kind, id)));
+  ownedKeys.forEach(key => {
+    const url = urlsByBlobKey.get(String(key));
+    if (url) URL.revokeObjectURL(url);
+    urlsByBlobKey.delete(String(key));
+    blobStore.delete(key);
+  });
+
+  await done;
+};
+
+// Workspace
+export const saveWorkspace = async (workspace: Omit<WorkspaceState, 'id' | 'updatedAt'>): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(WORKSPACE_STORE, 'readwrite');
+  const state: WorkspaceState = { ...workspace, id: WORKSPACE_ID, updatedAt: new Date() };
+  transaction.objectStore(WORKSPACE_STORE).put(state);
+  await transactionDone(transaction);
+};
+
+export const loadWorkspace = async (): Promise<WorkspaceState | null> => {
+  const database = await openDatabase();
+  const state = await promisifyRequest<WorkspaceState | undefined>(
+    database.transaction(WORKSPACE_STORE, 'readonly').objectStore(WORKSPACE_STORE).get(WORKSPACE_ID)
+  );
+  return state ?? null;
+};
+
+// Archives
+// Stored records travel as they are, media references and all, so an archive can be restored on another machine
+export const readProjectRecords = async (
+  kind: ProjectKind,
+  ids?: string[]
+): Promise<{ record: StoredRecord<unknown>; blobs: StoredBlob[] }[]> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([kind, BLOB_STORE], 'readonly');
+  const records = await promisifyRequest<StoredRecord<unknown>[]>(transaction.objectStore(kind).getAll());
+  const selected = ids ? records.filter(record => ids.includes(record.id)) : records;
+
+  const blobIndex = transaction.objectStore(BLOB_STORE).index('owner');
+  return Promise.all(selected.map(async record => ({
+    record,
+    blobs: await promisifyRequest<StoredBlob[]>(blobIndex.getAll(getOwner(kind, record.id)))
+  })));
+};
+
+export const projectExists = async (kind: ProjectKind, id: string): Promise<boolean> => {
+  const database = await openDatabase();
+  const count = await promisifyRequest(database.transaction(kind, 'readonly').objectStore(kind).count(id));
+  return count > 0;
+};
+
+// Media gets fresh keys, so importing the same archive twice never mixes up blobs
+export const writeProjectRecord = async (
+  kind: ProjectKind,
+  record: StoredRecord<unknown>,
+  blobs: Omit<StoredBlob, 'owner'>[]
+): Promise<void> => {
+  const database = await openDatabase();
+  const owner = getOwner(kind, record.id);
+  const replacements = new Map<string, string>();
+  const stored: StoredBlob[] = blobs.map(({ key, blob }) => {
+    const newKey = uuidv4();
+    replacements.set(`${STORED_BLOB_PREFIX}${key}`, `${STORED_BLOB_PREFIX}${newKey}`);
+    return { key: newKey, owner, blob };
+  });
+
+  const transaction = database.transaction([kind, BLOB_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(kind).put({ ...record, data: replaceStrings(record.data, replacements) });
+  stored.forEach(blob => transaction.objectStore(BLOB_STORE).put(blob));
+  await done;
+};
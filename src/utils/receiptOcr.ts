@@ -0,0 +1,325 @@
+import { isSameDay } from 'date-fns';
+import { createWorker, ImageLike, Worker as OcrWorker } from 'tesseract.js';
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import ocrCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { v4 as uuidv4 } from 'uuid';
+import { Budget, CurrencyCode, Expense, ProductionProject } from '../types/production';
+import { COMMON_CURRENCIES, getBaseCurrency } from './currency';
+
+// Receipts
+// Dropped receipts are read locally: tesseract.js recognizes images in its own Web Worker, and PDFs use their
+// text layer when they have one. What is read becomes a pending expense for someone to check and approve.
+
+export interface ReceiptFields {
+  vendor?: string;
+  date?: Date;
+  total?: number;
+  tax?: number;
+  currency?: CurrencyCode;
+}
+
+export interface ReceiptText {
+  text: string;
+  confidence: number; // 0-100
+}
+
+export interface ScannedReceipt {
+  fileName: string;
+  expense?: Expense;
+  error?: string;
+}
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const MIN_PDF_TEXT = 20; // Characters; fewer means a scanned PDF that needs OCR
+const PDF_RENDER_SCALE = 2;
+const LOW_CONFIDENCE = 60;
+const VENDOR_LINES = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const CURRENCY_SYMBOLS: [string, CurrencyCode][] = [['R$', 'BRL'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['₩', 'KRW']];
+const DOLLAR_CURRENCIES: CurrencyCode[] = ['USD', 'CAD', 'AUD', 'NZD', 'MXN'];
+
+export const isReceiptFile = (file: File): boolean => file.type.startsWith('image/') || isPdf(file);
+
+const isPdf = (file: File): boolean => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Amounts
+// Both 1,234.56 and 1.234,56 turn up; the last separator followed by one or two digits is the decimal point.
+export const parseAmount = (raw: string): number | null => {
+  const value = raw.replace(/[^\d.,-]/g, '');
+  const decimal = value.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? value.slice(0, -decimal[0].length) : value).replace(/[.,]/g, '');
+  const amount = parseFloat(decimal ? `${whole}.${decimal[1]}` : whole);
+  return isNaN(amount) ? null : amount;
+};
+
+const AMOUNT_PATTERN = /\d+(?:[.,]\d{3})*(?:[.,]\d{1,2})?/g;
+
+// Percentages are stripped first so "VAT 20% 4.00" reads as 4.00
+const getLineAmounts = (line: string): number[] =>
+  (line.replace(/\d+(?:[.,]\d+)?\s*%/g, '').match(AMOUNT_PATTERN) ?? [])
+    .map(parseAmount)
+    .filter((amount): amount is number => amount !== null);
+
+const lastAmount = (line: string): number | undefined => getLineAmounts(line).pop();
+
+// Fields
+const TOTAL_PATTERNS = [
+  /grand\s*total|amount\s*due|balance\s*due|total\s*due|total\s*paid|montant|gesamt/i,
+  /\btotal\b/i
+];
+const NOT_TOTAL_PATTERN = /sub\s*-?\s*total|tax|vat|gst|savings|discount|items|qty/i;
+const TAX_PATTERN = /\b(tax|vat|gst|hst|pst|iva|mwst|tva)\b/i;
+const NOT_TAX_PATTERN = /sub\s*-?\s*total|before|excl|pre-?tax|grand/i;
+const NOT_VENDOR_PATTERN = /\b(receipt|invoice|tax|tel|phone|fax)\b|www\.|https?:|@|\d{3}[-\s.]\d{3,4}|^\W*\d/i;
+
+const findTotal = (lines: string[]): number | undefined => {
+  for (const pattern of TOTAL_PATTERNS) {
+    const amounts = lines
+      .filter(line => pattern.test(line) && !NOT_TOTAL_PATTERN.test(line))
+      .flatMap(line => lastAmount(line) ?? []);
+    if (amounts.length > 0) return Math.max(...amounts);
+  }
+
+  // No total line survived OCR; the largest priced amount is the best guess
+  const priced = lines.flatMap(line => (line.match(/\d+(?:[.,]\d{3})*[.,]\d{2}\b/g) ?? []).map(parseAmount))
+    .filter((amount): amount is number => amount !== null);
+  return priced.length > 0 ? Math.max(...priced) : undefined;
+};
+
+// A "total tax" line stands for every rate; otherwise separate taxes (GST and PST, say) are added up
+const findTax = (lines: string[]): number | undefined => {
+  const taxLines = lines.filter(line => TAX_PATTERN.test(line) && !NOT_TAX_PATTERN.test(line));
+  const totalLine = taxLines.find(line => /total/i.test(line) && lastAmount(line) !== undefined);
+  if (totalLine) return lastAmount(totalLine);
+
+  const amounts = taxLines.filter(line => !/total/i.test(line)).flatMap(line => lastAmount(line) ?? []);
+  return amounts.length > 0 ? Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100 : undefined;
+};
+
+const toDate = (year: number, month: number, day: number): Date | undefined => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  return date.getFullYear() === fullYear && date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+};
+
+// Numeric dates are read month first on US receipts and day first elsewhere, unless only one order is valid
+export const findDate = (text: string, dayFirst: boolean): Date | undefined => {
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    const date = toDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (date) return date;
+  }
+
+  const dayMonth = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{2,4})\\b`, 'i'));
+  if (dayMonth) {
+    const date = toDate(Number(dayMonth[3]), MONTHS.indexOf(dayMonth[2].toLowerCase()) + 1, Number(dayMonth[1]));
+    if (date) return date;
+  }
+
+  const monthDay = text.match(new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{2,4})\\b`, 'i'));
+  if (monthDay) {
+    const date = toDate(Number(monthDay[3]), MONTHS.indexOf(monthDay[1].toLowerCase()) + 1, Number(monthDay[2]));
+    if (date) return date;
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/);
+  if (numeric) {
+    const [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    const monthFirst = second > 12 || (!dayFirst && first <= 12);
+    return monthFirst ? toDate(year, first, second) : toDate(year, second, first);
+  }
+
+  return undefined;
+};
+
+const titleCase = (value: string): string =>
+  value === value.toUpperCase() ? value.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase()) : value;
+
+// The store name is printed at the top; addresses, phone numbers and headings are skipped
+const findVendor = (lines: string[]): string | undefined => {
+  const line = lines.slice(0, VENDOR_LINES).find(candidate =>
+    (candidate.match(/[a-z]/gi) ?? []).length >= 3 && !NOT_VENDOR_PATTERN.test(candidate)
+  );
+  return line ? titleCase(line.replace(/^[^\w]+|[^\w.)]+$/g, '').replace(/\s+/g, ' ')) : undefined;
+};
+
+const findCurrency = (text: string, base: CurrencyCode): CurrencyCode | undefined => {
+  const code = text.toUpperCase().match(new RegExp(`\\b(${COMMON_CURRENCIES.join('|')})\\b`));
+  if (code) return code[1];
+
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => text.includes(candidate));
+  if (symbol) return symbol[1];
+  if (text.includes('$')) return DOLLAR_CURRENCIES.includes(base) ? base : 'USD';
+  return undefined;
+};
+
+export const parseReceiptText = (text: string, base: CurrencyCode): ReceiptFields => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const currency = findCurrency(text, base);
+
+  return {
+    vendor: findVendor(lines),
+    date: findDate(text, (currency ?? base) !== 'USD'),
+    total: findTotal(lines),
+    tax: findTax(lines),
+    currency
+  };
+};
+
+// Vendor history
+const normalizeVendor = (vendor: string): string => vendor
+  .toLowerCase()
+  .replace(/#\s*\d+/g, '') // Store numbers
+  .replace(/\b(inc|llc|ltd|co|corp|gmbh|plc|the)\b\.?/g, '')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+export const isSameVendor = (a: string, b: string): boolean => {
+  const [first, second] = [normalizeVendor(a), normalizeVendor(b)];
+  if (!first || !second) return false;
+  return first === second || (Math.min(first.length, second.length) >= 4 && (first.includes(second) || second.includes(first)));
+};
+
+// Older expenses have no vendor, so their descriptions are matched instead
+export const suggestCategory = (budget: Budget, vendor?: string): string | undefined => {
+  if (!vendor) return undefined;
+  const votes = new Map<string, number>();
+  const vote = (categoryId: string) => votes.set(categoryId, (votes.get(categoryId) ?? 0) + 1);
+
+  budget.expenses
+    .filter(expense => expense.categoryId && expense.status !== 'rejected' && isSameVendor(expense.vendor ?? expense.description, vendor))
+    .forEach(expense => vote(expense.categoryId));
+  budget.categories.forEach(category => category.items
+    .filter(item => item.vendor && isSameVendor(item.vendor, vendor))
+    .forEach(() => vote(category.id)));
+
+  const known = new Set(budget.categories.map(category => category.id));
+  return Array.from(votes.entries())
+    .filter(([categoryId]) => known.has(categoryId))
+    .sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+// Proposals
+export const proposeExpense = (project: ProductionProject, file: File, scan: ReceiptText, now = new Date()): Expense => {
+  const fields = parseReceiptText(scan.text, getBaseCurrency(project));
+  const suggestedCategoryId = suggestCategory(project.budget, fields.vendor);
+
+  return {
+    id: uuidv4(),
+    categoryId: suggestedCategoryId ?? '',
+    date: fields.date ?? now,
+    amount: fields.total ?? 0,
+    currency: fields.currency,
+    description: fields.vendor ? `Receipt from ${fields.vendor}` : file.name,
+    vendor: fields.vendor,
+    tax: fields.tax,
+    // The project repository stores blob: URLs with the project and recreates them on load
+    receipt: URL.createObjectURL(file),
+    receiptName: file.name,
+    receiptScan: { ...fields, text: scan.text, confidence: scan.confidence, suggestedCategoryId, scannedAt: now },
+    paymentMethod: 'credit card',
+    paidBy: '',
+    status: 'pending',
+    notes: ''
+  };
+};
+
+// Anything here should be looked at before the expense is approved; the first two block approval
+export const getReceiptIssues = (expense: Expense, expenses: Expense[]): string[] => {
+  const issues: string[] = [];
+  if (!expense.categoryId) issues.push('No category; no earlier expense from this vendor');
+  if (expense.amount <= 0) issues.push('No total found');
+  if (expense.tax !== undefined && expense.tax >= expense.amount && expense.amount > 0) issues.push('Tax is not less than the total');
+  if (expense.receiptScan && expense.receiptScan.confidence < LOW_CONFIDENCE) {
+    issues.push(`Low OCR confidence (${Math.round(expense.receiptScan.confidence)}%)`);
+  }
+  if (expense.receiptScan && !expense.receiptScan.date) issues.push('No date found; using the scan date');
+
+  const duplicate = expenses.find(other =>
+    other.id !== expense.id &&
+    other.status !== 'rejected' &&
+    other.amount === expense.amount &&
+    isSameDay(other.date, expense.date) &&
+    (!expense.vendor || isSameVendor(other.vendor ?? other.description, expense.vendor))
+  );
+  if (duplicate) issues.push(`Possible duplicate of "${duplicate.description}"`);
+
+  return issues;
+};
+
+export const canApproveReceipt = (expense: Expense): boolean => Boolean(expense.categoryId) && expense.amount > 0;
+
+// OCR
+const recognize = async (worker: OcrWorker, image: ImageLike): Promise<ReceiptText> => {
+  const { data } = await worker.recognize(image);
+  return { text: data.text, confidence: data.confidence };
+};
+
+// Only the first page is read; receipts that run longer put the total there or on a summary page anyway
+const readPdf = async (file: File, getWorker: () => Promise<OcrWorker>): Promise<ReceiptText> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const content = await page.getTextContent();
+    const text = content.items.map(item => 'str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : '').join('');
+    if (text.replace(/\s/g, '').length >= MIN_PDF_TEXT) return { text, confidence: 100 };
+
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvas, viewport }).promise;
+    return recognize(await getWorker(), canvas);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// One OCR worker is shared by the batch and only started if an image or scanned PDF needs it
+export const scanReceipts = async (
+  project: ProductionProject,
+  files: File[],
+  onProgress?: (fileIndex: number, progress: number) => void
+): Promise<ScannedReceipt[]> => {
+  let current = 0;
+  const ocr: { worker?: Promise<OcrWorker> } = {};
+  const getWorker = () => {
+    // tesseract.js fetches `${langPath}/eng.traineddata.gz`, so the build keeps that file's name (vite.config.ts)
+    ocr.worker ??= createWorker('eng', 1, {
+      workerPath: ocrWorkerUrl,
+      corePath: ocrCoreUrl,
+      langPath: new URL('.', new URL(engDataUrl, location.href)).href,
+      logger: message => {
+        if (message.status === 'recognizing text') onProgress?.(current, message.progress);
+      }
+    });
+    return ocr.worker;
+  };
+
+  const results: ScannedReceipt[] = [];
+  try {
+    for (const [index, file] of files.entries()) {
+      current = index;
+      onProgress?.(index, 0);
+      try {
+        if (!isReceiptFile(file)) throw new Error('Not an image or PDF');
+        const scan = isPdf(file) ? await readPdf(file, getWorker) : await recognize(await getWorker(), file);
+        results.push({ fileName: file.name, expense: proposeExpense(project, file, scan) });
+      } catch (error) {
+        results.push({ fileName: file.name, error: error instanceof Error ? error.message : String(error) });
+      }
+      onProgress?.(index, 1);
+    }
+  } finally {
+    if (ocr.worker) await (await ocr.worker).terminate();
+  }
+
+  return results;
+};
@@ -0,0 +1,228 @@
+import { format } from 'date-fns';
+import {
+  DanglingReference,
+  DeletionImpact,
+  DocumentaryProject,
+  EntityRef,
+  EntityReference,
+  EntityType,
+  ResolvedEntity
+} from '../types/documentary';
+import { ProductionProject } from '../types/production';
+
+export type EntityIndex = Map<string, ResolvedEntity>;
+
+const ENTITY_NAMES: Record<EntityType, [string, string]> = {
+  'claim': ['claim', 'claims'],
+  'source': ['source', 'sources'],
+  'script': ['script', 'scripts'],
+  'script-element': ['script line', 'script lines'],
+  'storyboard-frame': ['storyboard frame', 'storyboard frames'],
+  'shooting-day': ['shooting day', 'shooting days'],
+  'location': ['location', 'locations'],
+  'media-file': ['media file', 'media files'],
+  'release': ['release', 'releases'],
+  'team-member': ['team member', 'team members'],
+  'milestone': ['milestone', 'milestones'],
+  'equipment-item': ['equipment item', 'equipment items'],
+  'equipment-package': ['equipment package', 'equipment packages']
+};
+
+const keyOf = (ref: EntityRef): string => `${ref.type}:${ref.id}`;
+
+const truncate = (text: string, length = 60): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length - 1)}…` : clean;
+};
+
+export const describeEntityType = (type: EntityType, count = 1): string => {
+  return ENTITY_NAMES[type][count === 1 ? 0 : 1];
+};
+
+// Index
+export const buildEntityIndex = (project: DocumentaryProject): EntityIndex => {
+  const index: EntityIndex = new Map();
+  const add = (type: EntityType, id: string, label: string, value: unknown) => {
+    index.set(keyOf({ type, id }), { ref: { type, id }, label, value });
+  };
+
+  project.research?.claims.forEach(claim => add('claim', claim.id, truncate(claim.statement), claim));
+  project.research?.sources.forEach(source => add('source', source.id, truncate(source.title), source));
+  project.scripts.forEach(script => {
+    add('script', script.id, script.title, script);
+    script.content.forEach(element => {
+      add('script-element', element.id, `${script.title}: ${truncate(element.content, 40)}`, element);
+    });
+  });
+  project.storyboard.forEach(frame => add('storyboard-frame', frame.id, frame.title, frame));
+  project.production?.schedule.shootingDays.forEach(day => {
+    add('shooting-day', day.id, `Shooting day ${format(day.date, 'MMM d, yyyy')}`, day);
+  });
+  project.production?.locations.forEach(location => add('location', location.id, location.name, location));
+  project.production?.legalCompliance.releases.forEach(release => {
+    add('release', release.id, `${release.type} release from ${release.releasedBy}`, release);
+  });
+  project.production?.team.forEach(member => add('team-member', member.id, member.name, member));
+  project.production?.milestones.forEach(milestone => add('milestone', milestone.id, milestone.title, milestone));
+  project.production?.equipment.items.forEach(item => add('equipment-item', item.id, item.name, item));
+  project.production?.equipment.packages.forEach(pkg => add('equipment-package', pkg.id, pkg.name, pkg));
+  project.media.forEach(file => add('media-file', file.id, file.name, file));
+
+  return index;
+};
+
+// Types whose owning module is loaded; references into a module that is not loaded cannot be checked
+const getCheckableTypes = (project: DocumentaryProject): Set<EntityType> => {
+  const types = new Set<EntityType>(['storyboard-frame']);
+  if (project.scripts.length > 0) ['script', 'script-element'].forEach(type => types.add(type as EntityType));
+  if (project.media.length > 0) types.add('media-file');
+  if (project.research) ['claim', 'source'].forEach(type => types.add(type as EntityType));
+  if (project.production) {
+    ['shooting-day', 'location', 'release', 'team-member', 'milestone', 'equipment-item', 'equipment-package']
+      .forEach(type => types.add(type as EntityType));
+  }
+  return types;
+};
+
+// References
+export const collectReferences = (project: DocumentaryProject): EntityReference[] => {
+  const references: EntityReference[] = [];
+  const link = (from: EntityRef, type: EntityType, id: string | undefined, field: string) => {
+    if (id) references.push({ from, to: { type, id }, field });
+  };
+
+  project.research?.claims.forEach(claim => {
+    const from: EntityRef = { type: 'claim', id: claim.id };
+    claim.sources.forEach(id => link(from, 'source', id, 'sources'));
+    claim.supportingEvidence.forEach(evidence => link(from, 'source', evidence.sourceId, 'supportingEvidence.sourceId'));
+    claim.contradictoryEvidence.forEach(evidence => link(from, 'source', evidence.sourceId, 'contradictoryEvidence.sourceId'));
+  });
+
+  project.scripts.forEach(script => {
+    script.content.forEach(element => {
+      const from: EntityRef = { type: 'script-element', id: element.id };
+      const metadata = element.metadata;
+      if (!metadata) return;
+
+      link(from, 'storyboard-frame', metadata.storyboardFrameId, 'metadata.storyboardFrameId');
+      link(from, 'media-file', metadata.mediaFileId, 'metadata.mediaFileId');
+      link(from, 'location', metadata.locationId, 'metadata.locationId');
+      metadata.claimIds?.forEach(id => link(from, 'claim', id, 'metadata.claimIds'));
+      metadata.sourceIds?.forEach(id => link(from, 'source', id, 'metadata.sourceIds'));
+    });
+  });
+
+  project.storyboard.forEach(frame => {
+    link({ type: 'storyboard-frame', id: frame.id }, 'media-file', frame.mediaFileId, 'mediaFileId');
+  });
+
+  project.production?.schedule.shootingDays.forEach(day => {
+    const from: EntityRef = { type: 'shooting-day', id: day.id };
+    link(from, 'location', day.locationId, 'locationId');
+    day.scenes.forEach(id => link(from, 'script-element', id, 'scenes'));
+    day.crew.forEach(id => link(from, 'team-member', id, 'crew'));
+    day.equipment.forEach(id => link(from, 'equipment-item', id, 'equipment'));
+  });
+
+  project.production?.milestones.forEach(milestone => {
+    const from: EntityRef = { type: 'milestone', id: milestone.id };
+    milestone.assignedTo.forEach(id => link(from, 'team-member', id, 'assignedTo'));
+  });
+
+  project.production?.equipment.packages.forEach(pkg => {
+    const from: EntityRef = { type: 'equipment-package', id: pkg.id };
+    pkg.items.forEach(id => link(from, 'equipment-item', id, 'items'));
+    link(from, 'team-member', pkg.assignedTo, 'assignedTo');
+  });
+
+  project.production?.legalCompliance.releases.forEach(release => {
+    const from: EntityRef = { type: 'release', id: release.id };
+    link(from, 'location', release.locationId, 'locationId');
+    release.mediaFileIds?.forEach(id => link(from, 'media-file', id, 'mediaFileIds'));
+  });
+
+  return references;
+};
+
+export const resolveReference = (index: EntityIndex, ref: EntityRef): ResolvedEntity | null => {
+  return index.get(keyOf(ref)) ?? null;
+};
+
+export const findDanglingReferences = (project: DocumentaryProject): DanglingReference[] => {
+  const index = buildEntityIndex(project);
+  const checkable = getCheckableTypes(project);
+
+  return collectReferences(project)
+    .filter(reference => checkable.has(reference.to.type) && !resolveReference(index, reference.to))
+    .map(reference => {
+      const fromLabel = resolveReference(index, reference.from)?.label ?? reference.from.id;
+      return {
+        ...reference,
+        fromLabel,
+        message: `${fromLabel} refers to a ${describeEntityType(reference.to.type)} that no longer exists (${reference.to.id}).`
+      };
+    });
+};
+
+export const findReferencesTo = (project: DocumentaryProject, target: EntityRef): EntityReference[] => {
+  return collectReferences(project).filter(reference => keyOf(reference.to) === keyOf(target));
+};
+
+// A script is deleted with its elements, so only references from outside it count
+const getDeletedKeys = (project: DocumentaryProject, target: EntityRef): Set<string> => {
+  const keys = new Set([keyOf(target)]);
+  if (target.type === 'script') {
+    project.scripts
+      .find(script => script.id === target.id)
+      ?.content.forEach(element => keys.add(keyOf({ type: 'script-element', id: element.id })));
+  }
+  return keys;
+};
+
+// Lists what still uses an entity, so deleting it can be confirmed or cancelled
+export const getDeletionImpact = (project: DocumentaryProject, target: EntityRef): DeletionImpact | null => {
+  const index = buildEntityIndex(project);
+  const resolved = resolveReference(index, target);
+  if (!resolved) return null;
+
+  const deleted = getDeletedKeys(project, target);
+  const references = collectReferences(project)
+    .filter(reference => deleted.has(keyOf(reference.to)) && !deleted.has(keyOf(reference.from)))
+    // Several references from one entity count once
+    .filter((reference, i, all) => all.findIndex(other => keyOf(other.from) === keyOf(reference.from)) === i)
+    .map(reference => ({
+      ...reference,
+      fromLabel: resolveReference(index, reference.from)?.label ?? reference.from.id
+    }));
+
+  const counts = new Map<EntityType, number>();
+  references.forEach(reference => counts.set(reference.from.type, (counts.get(reference.from.type) ?? 0) + 1));
+  const usage = Array.from(counts, ([type, count]) => `${count} ${describeEntityType(type, count)}`);
+
+  return {
+    target: resolved,
+    references,
+    message: usage.length > 0
+      ? `${resolved.label} is still used by ${usage.length > 1 ? `${usage.slice(0, -1).join(', ')} and ${usage[usage.length - 1]}` : usage[0]}.`
+      : `Nothing else uses ${resolved.label}.`
+  };
+};
+
+// For window.confirm, which can't show the list as markup
+export const formatDeletionImpact = (impact: DeletionImpact): string => {
+  return [impact.message, ...impact.references.map(reference => `• ${reference.fromLabel}`)].join('\n');
+};
+
+// The documentary as it stands with the production's unsaved edits
+export const withProduction = (documentary: DocumentaryProject | null, project: ProductionProject): DocumentaryProject => ({
+  id: documentary?.id ?? project.id,
+  title: documentary?.title ?? project.title,
+  description: documentary?.description ?? project.description,
+  research: documentary?.research ?? null,
+  scripts: documentary?.scripts ?? [],
+  storyboard: documentary?.storyboard ?? [],
+  production: project,
+  media: documentary?.media ?? [],
+  createdAt: documentary?.createdAt ?? project.createdAt,
+  updatedAt: documentary?.updatedAt ?? project.updatedAt
+});
@@ -0,0 +1,552 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  format,
+  isAfter,
+  isBefore,
+  isSameDay,
+  isWeekend,
+  startOfDay,
+  startOfYear
+} from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  EquipmentItem,
+  EquipmentRental,
+  Location,
+  ProductionProject,
+  ScheduleConflict,
+  ScheduleSettings,
+  ShootingDay,
+  TeamMember
+} from '../types/production';
+import { getShootingMinutes } from './scriptBreakdown';
+
+// Shooting schedule
+// Scenes come from the script breakdown and from the days already planned. Pinned and completed days stay
+// where they are and the rest are rebuilt: each location's scenes are packed into days that fit the daily
+// hours and the daylight, small days at different locations share a day when the company move fits, and
+// the days with the fewest workable dates pick first. What cannot be satisfied becomes a conflict.
+
+export interface Daylight {
+  sunrise: Date;
+  sunset: Date;
+}
+
+export interface ScheduleScene {
+  id: string; // Scene-heading element ID
+  heading: string;
+  locationId: string;
+  minutes: number; // Shooting time, including setup
+  exterior: boolean;
+  night: boolean;
+  order: number;
+}
+
+export interface ScheduleOptimization {
+  project: ProductionProject;
+  days: number; // Days built by the optimizer
+  scenes: number;
+  kept: number; // Pinned and completed days left alone
+}
+
+interface ScheduleContext {
+  settings: ScheduleSettings;
+  scenes: Map<string, ScheduleScene>;
+  locations: Map<string, Location>;
+  team: Map<string, TeamMember>;
+  equipment: Map<string, EquipmentItem>;
+  rentals: EquipmentRental[];
+}
+
+interface DayPlan {
+  scenes: ScheduleScene[];
+  night: boolean;
+}
+
+const DEFAULT_LATITUDE = 40;
+const DEFAULT_SCENE_MINUTES = 60; // Scenes the breakdown knows nothing about
+const NIGHT_CALL_MINUTES_BEFORE_SUNSET = 30;
+const NIGHT_PATTERN = /\b(NIGHT|MIDNIGHT)\b/i;
+const MAX_RETIRED_DAYS = 100;
+
+const SEVERITY_WEIGHT: Record<ScheduleConflict['severity'], number> = { low: 1, medium: 3, high: 10 };
+
+// Settings
+export const getDefaultScheduleSettings = (project: ProductionProject): ScheduleSettings => {
+  const days = project.schedule.shootingDays;
+  return project.schedule.settings ?? {
+    callTime: '07:00',
+    maxDayHours: 10,
+    companyMoveMinutes: 60,
+    maxCompanyMoves: 1,
+    weekdaysOnly: false,
+    crew: Array.from(new Set(days.flatMap(day => day.crew))),
+    equipment: Array.from(new Set(days.flatMap(day => day.equipment))),
+    latitude: DEFAULT_LATITUDE
+  };
+};
+
+export const getScheduleRange = (project: ProductionProject, settings: ScheduleSettings): { start: Date; end: Date } => {
+  const production = project.schedule.phases.find(phase => phase.type === 'production');
+  const start = startOfDay(settings.startDate ?? production?.startDate ?? project.startDate);
+  const end = startOfDay(settings.endDate ?? production?.endDate ?? project.endDate);
+  return { start, end: isBefore(end, start) ? start : end };
+};
+
+const atTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value, 10) || 0);
+  return addMinutes(startOfDay(date), hours * 60 + minutes);
+};
+
+const formatDuration = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours}h${rounded % 60 ? ` ${rounded % 60}m` : ''}` : `${rounded}m`;
+};
+
+const formatDay = (date: Date): string => format(date, 'EEE, MMM d');
+
+// Daylight
+// Sunrise and sunset from the sun's declination, with solar noon taken from the longitude and the local
+// time zone (or 12:00 without a longitude). Good to a few minutes, which is plenty for planning.
+export const getDaylight = (date: Date, latitude: number, longitude?: number): Daylight => {
+  const day = startOfDay(date);
+  const dayOfYear = differenceInCalendarDays(day, startOfYear(day)) + 1;
+  const radians = Math.PI / 180;
+
+  const declination = -23.44 * Math.cos((2 * Math.PI / 365) * (dayOfYear + 10)) * radians;
+  const lat = latitude * radians;
+  // The sun's upper edge, bent by the atmosphere, clears the horizon at -0.833°
+  const cosHourAngle = (Math.sin(-0.833 * radians) - Math.sin(lat) * Math.sin(declination)) /
+    (Math.cos(lat) * Math.cos(declination));
+  const hourAngle = Math.acos(Math.max(-1, Math.min(1, cosHourAngle))) / radians;
+
+  const meridian = -day.getTimezoneOffset() / 4;
+  const noon = addMinutes(day, Math.round(12 * 60 + (longitude === undefined ? 0 : (meridian - longitude) * 4)));
+  return {
+    sunrise: addMinutes(noon, -Math.round(hourAngle * 4)),
+    sunset: addMinutes(noon, Math.round(hourAngle * 4))
+  };
+};
+
+const getDayDaylight = (day: ShootingDay, location: Location | undefined, settings: ScheduleSettings): Daylight => {
+  if (day.weatherForecast) return { sunrise: day.weatherForecast.sunrise, sunset: day.weatherForecast.sunset };
+  return getDaylight(day.date, location?.latitude ?? settings.latitude, location?.longitude);
+};
+
+// Availability
+const withinRange = (date: Date, start: Date, end: Date): boolean => {
+  return !isBefore(startOfDay(date), startOfDay(start)) && !isAfter(startOfDay(date), startOfDay(end));
+};
+
+export const isLocationAvailable = (location: Location, date: Date): boolean => {
+  return location.availableDates.length === 0 ||
+    location.availableDates.some(range => withinRange(date, range.startDate, range.endDate));
+};
+
+// Why a team member cannot work on a date, or null if they can
+export const getMemberUnavailability = (member: TeamMember, date: Date): string | null => {
+  const exception = member.availability.exceptions.find(item => isSameDay(item.date, date));
+  if (exception) return exception.available ? null : (exception.reason || 'marked unavailable');
+  if (!withinRange(date, member.availability.startDate, member.availability.endDate)) {
+    return `only booked ${format(member.availability.startDate, 'MMM d')} to ${format(member.availability.endDate, 'MMM d')}`;
+  }
+  return null;
+};
+
+export const getEquipmentUnavailability = (item: EquipmentItem, date: Date, rentals: EquipmentRental[]): string | null => {
+  if (item.status === 'lost' || item.status === 'damaged') return `is ${item.status}`;
+  if (item.nextMaintenance && isSameDay(item.nextMaintenance, date)) return 'is booked in for maintenance';
+  if (item.owner === 'rented') {
+    const covered = rentals.some(rental =>
+      rental.status !== 'returned' && rental.items.includes(item.id) && withinRange(date, rental.startDate, rental.endDate)
+    );
+    if (!covered) return 'is rented, but no rental covers that date';
+  }
+  return null;
+};
+
+// Scenes
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const getScheduleScenes = (project: ProductionProject): Map<string, ScheduleScene> => {
+  const scenes = new Map<string, ScheduleScene>();
+
+  (project.breakdown?.sheets ?? []).forEach(sheet => {
+    if (!sheet.headingElementId) return;
+    const location = project.locations.find(item => item.id === sheet.locationId)
+      ?? project.locations.find(item => normalizeName(item.name) === normalizeName(sheet.locationName));
+    const exterior = sheet.setting === 'exterior' || sheet.setting === 'mixed' ||
+      (sheet.setting === 'unspecified' && location?.type === 'exterior');
+
+    scenes.set(sheet.headingElementId, {
+      id: sheet.headingElementId,
+      heading: sheet.heading,
+      locationId: location?.id ?? '',
+      minutes: getShootingMinutes(sheet),
+      exterior,
+      night: exterior && NIGHT_PATTERN.test(sheet.timeOfDay),
+      order: sheet.sceneNumber
+    });
+  });
+
+  return scenes;
+};
+
+// Days that were planned by hand may hold scenes the breakdown has not seen
+const getDayScenes = (day: ShootingDay, context: ScheduleContext): ScheduleScene[] => {
+  return day.scenes.map((id, index) => context.scenes.get(id) ?? {
+    id,
+    heading: 'Scene',
+    locationId: day.locationId,
+    minutes: DEFAULT_SCENE_MINUTES,
+    exterior: false,
+    night: false,
+    order: Number.MAX_SAFE_INTEGER - day.scenes.length + index
+  });
+};
+
+const getLocationIds = (scenes: ScheduleScene[], fallback: string): string[] => {
+  const ids = Array.from(new Set(scenes.map(scene => scene.locationId || fallback)));
+  return ids.length > 0 ? ids : [fallback];
+};
+
+const getPlannedMinutes = (scenes: ScheduleScene[], locationCount: number, settings: ScheduleSettings): number => {
+  return scenes.reduce((total, scene) => total + scene.minutes, 0) + Math.max(0, locationCount - 1) * settings.companyMoveMinutes;
+};
+
+const createContext = (project: ProductionProject, settings: ScheduleSettings): ScheduleContext => ({
+  settings,
+  scenes: getScheduleScenes(project),
+  locations: new Map(project.locations.map(location => [location.id, location])),
+  team: new Map(project.team.map(member => [member.id, member])),
+  equipment: new Map(project.equipment.items.map(item => [item.id, item])),
+  rentals: project.equipment.rentals
+});
+
+// Conflicts
+const createConflict = (
+  day: ShootingDay,
+  key: string,
+  type: ScheduleConflict['type'],
+  severity: ScheduleConflict['severity'],
+  description: string,
+  affectedItems: string[] = []
+): ScheduleConflict => ({
+  id: `${type}:${day.id}:${key}`,
+  type,
+  description,
+  affectedItems: [day.id, ...affectedItems],
+  startDate: day.callTime,
+  endDate: day.wrapTime,
+  severity,
+  status: 'unresolved'
+});
+
+// Everything wrong with one day on its own
+const checkDay = (day: ShootingDay, context: ScheduleContext): ScheduleConflict[] => {
+  const { settings } = context;
+  const conflicts: ScheduleConflict[] = [];
+  const date = formatDay(day.date);
+  const scenes = getDayScenes(day, context);
+  const locationIds = getLocationIds(scenes, day.locationId);
+
+  locationIds.forEach(id => {
+    const location = context.locations.get(id);
+    if (!location) {
+      conflicts.push(createConflict(day, `missing-${id}`, 'location', 'high',
+        id ? `The ${date} day points to a location that has been deleted.` : `Scenes on ${date} have no location yet.`));
+    } else if (!isLocationAvailable(location, day.date)) {
+      const ranges = location.availableDates.map(range => `${format(range.startDate, 'MMM d')}–${format(range.endDate, 'MMM d')}`).join(', ');
+      conflicts.push(createConflict(day, id, 'location', 'high',
+        `${location.name} is not available on ${date}. It can be used ${ranges}.`, [id]));
+    }
+  });
+
+  day.crew.forEach(id => {
+    const member = context.team.get(id);
+    const reason = member ? getMemberUnavailability(member, day.date) : null;
+    if (member && reason) {
+      conflicts.push(createConflict(day, id, 'team', 'high', `${member.name} (${member.role}) is ${reason} on ${date}.`, [id]));
+    }
+  });
+
+  day.equipment.forEach(id => {
+    const item = context.equipment.get(id);
+    const reason = item ? getEquipmentUnavailability(item, day.date, context.rentals) : null;
+    if (item && reason) {
+      conflicts.push(createConflict(day, id, 'equipment', 'high', `${item.name} ${reason} (${date}).`, [id]));
+    }
+  });
+
+  // Daylight, per location since each has its own sun
+  locationIds.forEach(id => {
+    const atLocation = scenes.filter(scene => (scene.locationId || day.locationId) === id && scene.exterior);
+    if (atLocation.length === 0) return;
+
+    const location = context.locations.get(id);
+    const { sunrise, sunset } = getDayDaylight(day, location, settings);
+    const name = location?.name ?? 'this location';
+    const daytime = atLocation.filter(scene => !scene.night).reduce((total, scene) => total + scene.minutes, 0);
+    const start = isAfter(day.callTime, sunrise) ? day.callTime : sunrise;
+    const available = Math.max(0, differenceInMinutes(isBefore(day.wrapTime, sunset) ? day.wrapTime : sunset, start));
+
+    if (daytime > available) {
+      conflicts.push(createConflict(day, `day-${id}`, 'daylight', 'high',
+        `Exterior day scenes at ${name} need about ${formatDuration(daytime)}, but only ${formatDuration(available)} of ` +
+        `daylight falls inside the ${format(day.callTime, 'HH:mm')}–${format(day.wrapTime, 'HH:mm')} day on ${date} ` +
+        `(sunrise ${format(sunrise, 'HH:mm')}, sunset ${format(sunset, 'HH:mm')}).`, [id]));
+    }
+    if (atLocation.some(scene => scene.night) && !isAfter(day.wrapTime, sunset)) {
+      conflicts.push(createConflict(day, `night-${id}`, 'daylight', 'medium',
+        `Night exteriors at ${name} are scheduled to wrap at ${format(day.wrapTime, 'HH:mm')}, before sunset at ${format(sunset, 'HH:mm')}.`, [id]));
+    }
+  });
+
+  const limit = settings.maxDayHours * 60;
+  const planned = getPlannedMinutes(scenes, locationIds.length, settings);
+  const span = differenceInMinutes(day.wrapTime, day.callTime);
+  if (Math.max(planned, span) > limit) {
+    conflicts.push(createConflict(day, 'limit', 'hours', 'medium',
+      `${date} runs ${formatDuration(Math.max(planned, span))}, over the ${formatDuration(limit)} daily limit.`));
+  } else if (planned > span) {
+    conflicts.push(createConflict(day, 'span', 'hours', 'low',
+      `The scenes on ${date} need about ${formatDuration(planned)}, but call to wrap is only ${formatDuration(span)}.`));
+  }
+
+  if (locationIds.length - 1 > settings.maxCompanyMoves) {
+    const names = locationIds.map(id => context.locations.get(id)?.name ?? 'unknown location').join(' → ');
+    conflicts.push(createConflict(day, 'moves', 'location', 'low',
+      `${date} has ${locationIds.length - 1} company moves (${names}); the limit is ${settings.maxCompanyMoves}.`));
+  }
+
+  return conflicts;
+};
+
+// Keeps the resolution of conflicts someone has already dealt with
+const mergeConflicts = (previous: ScheduleConflict[], next: ScheduleConflict[]): ScheduleConflict[] => {
+  return next.map(conflict => {
+    const earlier = previous.find(item => item.id === conflict.id);
+    return earlier?.status === 'resolved' ? { ...conflict, status: 'resolved', resolution: earlier.resolution } : conflict;
+  });
+};
+
+export const detectScheduleConflicts = (project: ProductionProject, settings = getDefaultScheduleSettings(project)): ScheduleConflict[] => {
+  const context = createContext(project, settings);
+  const { start, end } = getScheduleRange(project, settings);
+  const days = project.schedule.shootingDays.filter(day => day.status !== 'cancelled' && day.status !== 'completed');
+
+  const conflicts = days.flatMap(day => checkDay(day, context));
+
+  days.forEach(day => {
+    if (!withinRange(day.date, start, end)) {
+      conflicts.push(createConflict(day, 'range', 'other', 'medium',
+        `${formatDay(day.date)} is outside the shooting period (${format(start, 'MMM d')} to ${format(end, 'MMM d, yyyy')}).`));
+    }
+
+    // Booked twice on the same date
+    const others = days.filter(other => other.id !== day.id && isSameDay(other.date, day.date));
+    day.crew.filter(id => others.some(other => other.crew.includes(id))).forEach(id => {
+      const member = context.team.get(id);
+      if (member) {
+        conflicts.push(createConflict(day, `double-${id}`, 'team', 'medium',
+          `${member.name} is on two shooting days on ${formatDay(day.date)}.`, [id]));
+      }
+    });
+    day.equipment.filter(id => others.some(other => other.equipment.includes(id))).forEach(id => {
+      const item = context.equipment.get(id);
+      if (item) {
+        conflicts.push(createConflict(day, `double-${id}`, 'equipment', 'medium',
+          `${item.name} is needed on two shooting days on ${formatDay(day.date)}.`, [id]));
+      }
+    });
+
+    day.scenes.filter(id => days.some(other => other.id !== day.id && other.scenes.includes(id))).forEach(id => {
+      conflicts.push(createConflict(day, `scene-${id}`, 'other', 'low',
+        `${context.scenes.get(id)?.heading ?? 'A scene'} is scheduled on more than one day.`, [id]));
+    });
+  });
+
+  return mergeConflicts(project.schedule.conflicts, conflicts);
+};
+
+// Optimization
+const canShareDay = (a: DayPlan, b: DayPlan, settings: ScheduleSettings, minDaylight: (plan: DayPlan) => number): boolean => {
+  if (a.night !== b.night) return false;
+  const scenes = [...a.scenes, ...b.scenes];
+  const locations = getLocationIds(scenes, '').length;
+  const combined: DayPlan = { scenes, night: a.night };
+  return locations - 1 <= settings.maxCompanyMoves &&
+    getPlannedMinutes(scenes, locations, settings) <= settings.maxDayHours * 60 &&
+    getDaytimeMinutes(combined) <= minDaylight(combined);
+};
+
+const getDaytimeMinutes = (plan: DayPlan): number => {
+  return plan.scenes.filter(scene => scene.exterior && !scene.night).reduce((total, scene) => total + scene.minutes, 0);
+};
+
+const buildDay = (plan: DayPlan, date: Date, context: ScheduleContext): ShootingDay => {
+  const { settings } = context;
+  const locationIds = getLocationIds(plan.scenes, '');
+  const minutes = getPlannedMinutes(plan.scenes, locationIds.length, settings);
+  const location = context.locations.get(locationIds[0]);
+
+  let callTime = atTime(date, settings.callTime);
+  if (plan.night) {
+    const { sunset } = getDaylight(date, location?.latitude ?? settings.latitude, location?.longitude);
+    const call = addMinutes(sunset, -NIGHT_CALL_MINUTES_BEFORE_SUNSET);
+    callTime = addMinutes(startOfDay(call), Math.floor(differenceInMinutes(call, startOfDay(call)) / 15) * 15);
+  }
+
+  return {
+    id: uuidv4(),
+    date: startOfDay(date),
+    locationId: locationIds[0],
+    callTime,
+    wrapTime: addMinutes(callTime, Math.ceil(minutes / 15) * 15),
+    scenes: plan.scenes.map(scene => scene.id),
+    crew: [...settings.crew],
+    equipment: [...settings.equipment],
+    status: 'planned',
+    notes: ''
+  };
+};
+
+// A day that keeps its scenes and location is the same day moved, so it keeps its ID (and with it its
+// resolved conflicts and calendar entry), its crew and equipment and its notes
+const carryOver = (day: ShootingDay, previous: ShootingDay[]): ShootingDay => {
+  const scenes = [...day.scenes].sort().join('|');
+  const index = previous.findIndex(item => item.locationId === day.locationId && [...item.scenes].sort().join('|') === scenes);
+  if (index === -1) return day;
+
+  const [match] = previous.splice(index, 1);
+  return { ...day, id: match.id, crew: [...match.crew], equipment: [...match.equipment], notes: match.notes };
+};
+
+const getConflictWeight = (conflicts: ScheduleConflict[]): number => {
+  return conflicts.reduce((total, conflict) => total + SEVERITY_WEIGHT[conflict.severity], 0);
+};
+
+export const optimizeSchedule = (project: ProductionProject, settings = getDefaultScheduleSettings(project)): ScheduleOptimization => {
+  const context = createContext(project, settings);
+  const { start, end } = getScheduleRange(project, settings);
+
+  // What stays, and what is free to move
+  const kept = project.schedule.shootingDays.filter(day => day.pinned || day.status === 'completed' || day.status === 'cancelled');
+  const fixedScenes = new Set(kept.filter(day => day.status !== 'cancelled').flatMap(day => day.scenes));
+  const replaced = project.schedule.shootingDays.filter(day => !kept.includes(day));
+
+  const pending = new Map<string, ScheduleScene>();
+  context.scenes.forEach(scene => pending.set(scene.id, scene));
+  [...replaced, ...kept.filter(day => day.status === 'cancelled')]
+    .forEach(day => getDayScenes(day, context).forEach(scene => {
+      if (!pending.has(scene.id)) pending.set(scene.id, scene);
+      context.scenes.set(scene.id, pending.get(scene.id)!);
+    }));
+  const scenes = Array.from(pending.values())
+    .filter(scene => !fixedScenes.has(scene.id))
+    .sort((a, b) => a.order - b.order);
+
+  // Dates that can take a day
+  const booked = kept.filter(day => day.status !== 'cancelled').map(day => day.date);
+  const isWorkable = (date: Date) => (!settings.weekdaysOnly || !isWeekend(date)) && !booked.some(day => isSameDay(day, date));
+  const dates: Date[] = [];
+  for (let date = start; !isAfter(date, end); date = addDays(date, 1)) {
+    if (isWorkable(date)) dates.push(date);
+  }
+
+  const minDaylight = (plan: DayPlan): number => {
+    const locationIds = getLocationIds(plan.scenes, '');
+    const samples = dates.length > 0 ? dates.filter((_, index) => index % 7 === 0) : [start];
+    return Math.min(...locationIds.flatMap(id => samples.map(date => {
+      const location = context.locations.get(id);
+      const { sunrise, sunset } = getDaylight(date, location?.latitude ?? settings.latitude, location?.longitude);
+      const call = atTime(date, settings.callTime);
+      return differenceInMinutes(sunset, isAfter(call, sunrise) ? call : sunrise);
+    })));
+  };
+
+  // Pack each location's scenes, night exteriors on days of their own
+  const plans: DayPlan[] = [];
+  const byLocation = new Map<string, ScheduleScene[]>();
+  scenes.forEach(scene => byLocation.set(scene.locationId, [...(byLocation.get(scene.locationId) ?? []), scene]));
+  byLocation.forEach(group => [false, true].forEach(night => {
+    let current: DayPlan | null = null;
+    group.filter(scene => scene.night === night).forEach(scene => {
+      const next: DayPlan = { scenes: [scene], night };
+      if (current && canShareDay(current, next, settings, minDaylight)) {
+        current.scenes.push(scene);
+      } else {
+        current = next;
+        plans.push(current);
+      }
+    });
+  }));
+
+  // Fold short days into others when the company move fits
+  const merged: DayPlan[] = [];
+  [...plans]
+    .sort((a, b) => getPlannedMinutes(b.scenes, 1, settings) - getPlannedMinutes(a.scenes, 1, settings))
+    .forEach(plan => {
+      const host = merged.find(other => canShareDay(other, plan, settings, minDaylight));
+      if (host) {
+        host.scenes = [...host.scenes, ...plan.scenes].sort((a, b) => a.order - b.order);
+      } else {
+        merged.push({ ...plan, scenes: [...plan.scenes] });
+      }
+    });
+
+  // The most constrained days choose first
+  const feasibility = merged.map(plan => ({
+    plan,
+    feasible: dates.filter(date => checkDay(buildDay(plan, date, context), context).length === 0).length,
+    order: Math.min(...plan.scenes.map(scene => scene.order))
+  }));
+  feasibility.sort((a, b) => a.feasible - b.feasible || a.order - b.order);
+
+  const free = [...dates];
+  let overflow = addDays(end, 1);
+  const nextOverflowDate = (): Date => {
+    while (!isWorkable(overflow)) overflow = addDays(overflow, 1);
+    const date = overflow;
+    overflow = addDays(overflow, 1);
+    return date;
+  };
+
+  const previous = [...replaced];
+  const days = feasibility.map(({ plan }) => {
+    let best: { index: number; weight: number } | null = null;
+    for (let index = 0; index < free.length; index++) {
+      const weight = getConflictWeight(checkDay(buildDay(plan, free[index], context), context));
+      if (!best || weight < best.weight) best = { index, weight };
+      if (weight === 0) break;
+    }
+
+    // Past the end of the shooting period only when nothing is left inside it
+    const date = best ? free.splice(best.index, 1)[0] : nextOverflowDate();
+    return carryOver(buildDay(plan, date, context), previous);
+  });
+
+  const shootingDays = [...kept, ...days].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Days nothing carried over to are gone; calendars that subscribed to them need to hear so
+  const retiredDays = [...previous.map(day => ({ ...day, status: 'cancelled' as const })), ...(project.schedule.retiredDays ?? [])]
+    .filter(day => !shootingDays.some(item => item.id === day.id))
+    .slice(0, MAX_RETIRED_DAYS);
+
+  const next: ProductionProject = {
+    ...project,
+    schedule: { ...project.schedule, shootingDays, retiredDays, settings },
+    updatedAt: new Date()
+  };
+
+  return {
+    project: { ...next, schedule: { ...next.schedule, conflicts: detectScheduleConflicts(next, settings) } },
+    days: days.length,
+    scenes: scenes.length,
+    kept: kept.length
+  };
+};
@@ -0,0 +1,449 @@
+import { format } from 'date-fns';
+import { ElementFormatting, ElementType, Script, ScriptElement } from '../types/script';
+
+// Screenplay interchange
+// Fountain (https://fountain.io) and Final Draft .fdx both cover the classic screenplay elements. The
+// documentary elements have no native equivalent, so Fountain carries them as forced action tagged with a
+// [[ddoc:<type>]] note, and FDX as custom paragraph types that Final Draft shows and keeps.
+
+export interface ScreenplayImport {
+  title: string;
+  description: string;
+  elements: ScriptElement[];
+  warnings: string[];
+}
+
+const NOTE_TAG = 'ddoc:';
+
+const FDX_PARAGRAPH_TYPES: Record<ElementType, string> = {
+  'scene-heading': 'Scene Heading',
+  'action': 'Action',
+  'character': 'Character',
+  'dialogue': 'Dialogue',
+  'parenthetical': 'Parenthetical',
+  'transition': 'Transition',
+  'voiceover': 'Voiceover',
+  'interview-question': 'Interview Question',
+  'interview-answer': 'Interview Answer',
+  'music-cue': 'Music Cue',
+  'sound-effect': 'Sound Effect',
+  'title-card': 'Title Card',
+  'lower-third': 'Lower Third',
+  'b-roll': 'B-Roll'
+};
+
+const ELEMENT_TYPES = Object.keys(FDX_PARAGRAPH_TYPES) as ElementType[];
+
+// Final Draft's own types that have no element of their own here
+const FDX_FALLBACK_TYPES: Record<string, ElementType> = {
+  'shot': 'action',
+  'general': 'action',
+  'cast list': 'action',
+  'new act': 'scene-heading',
+  'end of act': 'transition'
+};
+
+// Prefixes our writers use for documentary elements in plain screenplays
+const DOCUMENTARY_PREFIXES: [RegExp, ElementType][] = [
+  [/^MUSIC( CUE)?:/i, 'music-cue'],
+  [/^(SFX|SOUND( EFFECT)?):/i, 'sound-effect'],
+  [/^B-?ROLL:/i, 'b-roll'],
+  [/^LOWER THIRD:/i, 'lower-third'],
+  [/^TITLE( CARD)?:/i, 'title-card']
+];
+
+const SCENE_HEADING_PATTERN = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+
+export const getDefaultFormatting = (type: ElementType): ElementFormatting => {
+  const formatting: Partial<Record<ElementType, ElementFormatting>> = {
+    'scene-heading': { bold: true, fontSize: 12, alignment: 'left' },
+    'action': { fontSize: 12, alignment: 'left' },
+    'character': { bold: true, fontSize: 12, alignment: 'center', indent: 20 },
+    'dialogue': { fontSize: 12, alignment: 'left', indent: 10 },
+    'voiceover': { italic: true, fontSize: 12, alignment: 'left' },
+    'transition': { bold: true, fontSize: 12, alignment: 'right' },
+    'parenthetical': { italic: true, fontSize: 10, alignment: 'center' }
+  };
+  return formatting[type] || { fontSize: 12, alignment: 'left' };
+};
+
+const createElement = (type: ElementType, content: string, order: number, notes?: string): ScriptElement => ({
+  id: `element-${Date.now()}-${order}`,
+  type,
+  content,
+  formatting: getDefaultFormatting(type),
+  order,
+  ...(notes ? { metadata: { notes } } : {})
+});
+
+const isUpperCase = (text: string): boolean => /[A-Z]/.test(text) && text === text.toUpperCase();
+
+// Fountain
+const applyEmphasis = (text: string, formatting: ElementFormatting): string => {
+  let result = text;
+  if (formatting.underline) result = `_${result}_`;
+  if (formatting.italic) result = `*${result}*`;
+  if (formatting.bold) result = `**${result}**`;
+  return result;
+};
+
+// Emphasis the element's type does not already imply
+const getExtraEmphasis = (element: ScriptElement): ElementFormatting => {
+  const defaults = getDefaultFormatting(element.type);
+  return {
+    bold: element.formatting.bold && !defaults.bold,
+    italic: element.formatting.italic && !defaults.italic,
+    underline: element.formatting.underline && !defaults.underline
+  };
+};
+
+// Blank lines end a Fountain paragraph; a line holding two spaces keeps it going
+const keepParagraph = (text: string): string => text.replace(/\n[ \t]*(?=\n)/g, '\n  ');
+
+const tagged = (text: string, type: ElementType): string => `!${text} [[${NOTE_TAG}${type}]]`;
+
+const getNotes = (element: ScriptElement): string => element.metadata?.notes ? ` [[${element.metadata.notes}]]` : '';
+
+const serializeFountainElement = (element: ScriptElement): string => {
+  const text = applyEmphasis(keepParagraph(element.content.trim()), getExtraEmphasis(element));
+  const notes = getNotes(element);
+
+  switch (element.type) {
+    case 'scene-heading':
+      return `${SCENE_HEADING_PATTERN.test(text) ? text : `.${text}`}${notes}`;
+    case 'action': {
+      // Anything that would read back as another element is forced with !
+      const firstLine = text.split('\n')[0];
+      const needsForcing = SCENE_HEADING_PATTERN.test(text) || /^[.!@>~=#]/.test(text)
+        || (isUpperCase(firstLine) && (text.includes('\n') || /TO:$/.test(text)))
+        || DOCUMENTARY_PREFIXES.some(([pattern]) => pattern.test(text));
+      return `${needsForcing ? '!' : ''}${text}${notes}`;
+    }
+    case 'transition':
+      return `${isUpperCase(text) && /TO:$/.test(text) ? text : `> ${text}`}${notes}`;
+    case 'title-card':
+      return `> ${text} <${notes}`;
+    default:
+      return `${tagged(text, element.type)}${notes}`;
+  }
+};
+
+export const serializeFountain = (script: Script): string => {
+  const blocks: string[] = [
+    [
+      `Title: ${script.title}`,
+      script.description ? `Notes: ${script.description.replace(/\n/g, ' ')}` : '',
+      `Draft date: ${format(script.updatedAt, 'MMMM d, yyyy')}`
+    ].filter(Boolean).join('\n')
+  ];
+
+  const elements = [...script.content].sort((a, b) => a.order - b.order);
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i];
+
+    if (element.type === 'character') {
+      // A dialogue block: the character cue with its parentheticals and speech, no blank lines between
+      const name = element.content.trim();
+      const lines = [`${isUpperCase(name) ? name : `@${name}`}${getNotes(element)}`];
+      while (elements[i + 1]?.type === 'dialogue' || elements[i + 1]?.type === 'parenthetical') {
+        const line = elements[++i];
+        const content = applyEmphasis(keepParagraph(line.content.trim()), getExtraEmphasis(line));
+        lines.push(`${line.type === 'parenthetical' && !content.startsWith('(') ? `(${content})` : content}${getNotes(line)}`);
+      }
+      blocks.push(lines.join('\n'));
+    } else {
+      blocks.push(serializeFountainElement(element));
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+};
+
+const stripEmphasis = (text: string): { text: string; formatting: ElementFormatting } => {
+  const formatting: ElementFormatting = {};
+  let result = text;
+  const wrappers: [RegExp, keyof ElementFormatting][] = [
+    [/^\*\*((?:(?!\*\*)[\s\S])+)\*\*$/, 'bold'],
+    [/^\*([^*]+)\*$/, 'italic'],
+    [/^_([^_]+)_$/, 'underline']
+  ];
+
+  wrappers.forEach(([pattern, key]) => {
+    const match = result.match(pattern);
+    if (match) {
+      result = match[1];
+      (formatting as Record<string, boolean>)[key] = true;
+    }
+  });
+
+  return { text: result, formatting };
+};
+
+const extractNotes = (text: string): { text: string; notes: string[] } => {
+  const notes: string[] = [];
+  const stripped = text.replace(/\s*\[\[([\s\S]*?)\]\]/g, (_match, note: string) => {
+    notes.push(note.trim());
+    return '';
+  });
+  return { text: stripped.trim(), notes };
+};
+
+const withoutNotes = (line: string): string => line.replace(/\s*\[\[[\s\S]*?\]\]/g, '').trim();
+
+const isCharacterCue = (line: string): boolean => {
+  if (line.startsWith('@')) return true;
+  const name = withoutNotes(line).replace(/\s*\^$/, '').replace(/\s*\(.*\)$/, '');
+  return isUpperCase(name) && !SCENE_HEADING_PATTERN.test(line) && !/TO:$/.test(line) && !/^[!>.=#~]/.test(line);
+};
+
+export const parseFountain = (content: string): ScreenplayImport => {
+  const warnings: string[] = [];
+  const elements: ScriptElement[] = [];
+  let text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  text = text.replace(/\/\*[\s\S]*?\*\//g, ''); // Boneyard
+
+  // Title page: key: value lines up to the first blank line
+  let title = '';
+  let description = '';
+  const firstLine = text.split('\n')[0] ?? '';
+  if (/^[A-Za-z][A-Za-z ]*:/.test(firstLine) && !SCENE_HEADING_PATTERN.test(firstLine)) {
+    const end = text.search(/\n\s*\n/);
+    const titlePage = end === -1 ? text : text.slice(0, end);
+    text = end === -1 ? '' : text.slice(end);
+
+    let key = '';
+    const values: Record<string, string[]> = {};
+    titlePage.split('\n').forEach(line => {
+      const match = line.match(/^([A-Za-z][A-Za-z ]*):\s*(.*)$/);
+      if (match) {
+        key = match[1].toLowerCase();
+        values[key] = match[2] ? [match[2]] : [];
+      } else if (key) {
+        values[key].push(line.trim());
+      }
+    });
+    title = stripEmphasis((values.title ?? []).join(' ').trim()).text;
+    description = (values.notes ?? values.synopsis ?? []).join(' ').trim();
+  }
+
+  let skippedOutline = 0;
+  const add = (type: ElementType, raw: string) => {
+    const { text: withoutNotes, notes } = extractNotes(raw.replace(/^ {2}$/gm, ''));
+    const { text: clean, formatting } = stripEmphasis(withoutNotes);
+    const element = createElement(type, clean, elements.length, notes.join('\n') || undefined);
+    element.formatting = { ...element.formatting, ...formatting };
+    elements.push(element);
+  };
+
+  const paragraphs = text.split(/\n[ \t]?\n/).map(block => block.replace(/^\n+|\n+$/g, '')).filter(block => block.trim());
+
+  paragraphs.forEach(paragraph => {
+    const lines = paragraph.split('\n');
+    const first = lines[0].trim();
+
+    // Our own tagged elements
+    const tag = paragraph.match(/\s*\[\[ddoc:([a-z-]+)\]\]/);
+    if (tag && ELEMENT_TYPES.includes(tag[1] as ElementType)) {
+      add(tag[1] as ElementType, paragraph.replace(tag[0], '').replace(/^!/, ''));
+      return;
+    }
+
+    if (/^#/.test(first) || (/^=/.test(first) && !/^===/.test(first))) {
+      skippedOutline++;
+      return;
+    }
+    if (/^===+$/.test(first)) return; // Page break
+
+    if (first.startsWith('.') && !first.startsWith('..')) {
+      add('scene-heading', paragraph.slice(1));
+    } else if (SCENE_HEADING_PATTERN.test(first) && lines.length === 1) {
+      add('scene-heading', first.replace(/\s+#[^#]+#$/, '')); // Drop scene numbers
+    } else if (first.startsWith('!')) {
+      add('action', paragraph.slice(1));
+    } else if (first.startsWith('>') && paragraph.trim().endsWith('<')) {
+      add('title-card', paragraph.trim().slice(1, -1).trim());
+    } else if (first.startsWith('>')) {
+      add('transition', paragraph.slice(1).trim());
+    } else if (lines.length === 1 && isUpperCase(first) && /TO:$/.test(first)) {
+      add('transition', first);
+    } else if (lines.length > 1 && isCharacterCue(first)) {
+      add('character', first.replace(/^@/, '').replace(/\s*\^$/, ''));
+
+      let speech: string[] = [];
+      const flushSpeech = () => {
+        if (speech.length > 0) add('dialogue', speech.join('\n'));
+        speech = [];
+      };
+      lines.slice(1).forEach(line => {
+        const trimmed = line.trim();
+        if (/^\(.*\)$/.test(withoutNotes(trimmed))) {
+          flushSpeech();
+          add('parenthetical', trimmed);
+        } else {
+          speech.push(trimmed);
+        }
+      });
+      flushSpeech();
+    } else {
+      const prefixed = DOCUMENTARY_PREFIXES.find(([pattern]) => pattern.test(first));
+      add(prefixed ? prefixed[1] : 'action', paragraph);
+    }
+  });
+
+  if (skippedOutline > 0) {
+    warnings.push(`Skipped ${skippedOutline} section heading${skippedOutline === 1 ? '' : 's'} and synopses; they are outline notes, not script content.`);
+  }
+  if (elements.length === 0) warnings.push('No script elements were found.');
+
+  return { title, description, elements, warnings };
+};
+
+// Final Draft
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const getFdxStyle = (formatting: ElementFormatting): string => {
+  return [formatting.bold && 'Bold', formatting.italic && 'Italic', formatting.underline && 'Underline']
+    .filter(Boolean)
+    .join('+');
+};
+
+// Custom paragraph types need element settings, or Final Draft shows them as General text
+const CUSTOM_ELEMENT_SETTINGS = ELEMENT_TYPES
+  .filter(type => !['scene-heading', 'action', 'character', 'dialogue', 'parenthetical', 'transition'].includes(type))
+  .map(type => {
+    const formatting = getDefaultFormatting(type);
+    return [
+      `    <ElementSettings Type="${FDX_PARAGRAPH_TYPES[type]}">`,
+      `      <FontSpec Style="${getFdxStyle(formatting)}"/>`,
+      `      <ParagraphSpec Alignment="${type === 'title-card' ? 'Center' : 'Left'}" SpaceBefore="12" StartsNewPage="No"/>`,
+      `      <Behavior PaginateAs="Action" ReturnKey="Action" Shortcut=""/>`,
+      '    </ElementSettings>'
+    ].join('\n');
+  });
+
+export const serializeFdx = (script: Script): string => {
+  const paragraphs = [...script.content]
+    .sort((a, b) => a.order - b.order)
+    .map(element => {
+      const style = getFdxStyle(getExtraEmphasis(element));
+      const texts = element.content.split('\n').map((line, index, all) => {
+        const text = escapeXml(index < all.length - 1 ? `${line}\n` : line);
+        return `<Text${style ? ` AdornmentStyle="0" Style="${style}"` : ''}>${text}</Text>`;
+      }).join('');
+      const note = element.metadata?.notes
+        ? `<ScriptNote><Paragraph><Text>${escapeXml(element.metadata.notes)}</Text></Paragraph></ScriptNote>`
+        : '';
+      return `    <Paragraph Type="${FDX_PARAGRAPH_TYPES[element.type]}">${texts}${note}</Paragraph>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...paragraphs,
+    '  </Content>',
+    '  <TitlePage>',
+    '    <Content>',
+    `      <Paragraph Alignment="Center" Type="Title"><Text>${escapeXml(script.title)}</Text></Paragraph>`,
+    ...(script.description
+      ? [`      <Paragraph Alignment="Center" Type="Title"><Text>${escapeXml(script.description)}</Text></Paragraph>`]
+      : []),
+    '    </Content>',
+    '  </TitlePage>',
+    '  <ElementSettingsList>',
+    ...CUSTOM_ELEMENT_SETTINGS,
+    '  </ElementSettingsList>',
+    '</FinalDraft>',
+    ''
+  ].join('\n');
+};
+
+const isInside = (node: Element, tagName: string): boolean => {
+  for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+    if (parent.tagName === tagName) return true;
+  }
+  return false;
+};
+
+const PARAGRAPH_TYPES_BY_NAME = new Map(
+  ELEMENT_TYPES.map(type => [FDX_PARAGRAPH_TYPES[type].toLowerCase(), type])
+);
+
+const getParagraphText = (paragraph: Element): { text: string; formatting: ElementFormatting } => {
+  const runs = Array.from(paragraph.children).filter(child => child.tagName === 'Text');
+  const styles = runs.filter(run => run.textContent?.trim()).map(run => run.getAttribute('Style') ?? '');
+  const everyRun = (style: string) => styles.length > 0 && styles.every(value => value.split('+').includes(style));
+
+  return {
+    text: runs.map(run => run.textContent ?? '').join('').trim(),
+    formatting: {
+      ...(everyRun('Bold') ? { bold: true } : {}),
+      ...(everyRun('Italic') ? { italic: true } : {}),
+      ...(everyRun('Underline') ? { underline: true } : {})
+    }
+  };
+};
+
+export const parseFdx = (content: string): ScreenplayImport => {
+  const xml = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.tagName !== 'FinalDraft') {
+    throw new Error('This is not a Final Draft file: the XML could not be read.');
+  }
+
+  const warnings: string[] = [];
+  const elements: ScriptElement[] = [];
+  const unknownTypes = new Set<string>();
+  const body = Array.from(xml.documentElement.children).find(child => child.tagName === 'Content');
+  if (!body) throw new Error('This Final Draft file has no script content.');
+
+  // Dual dialogue wraps ordinary paragraphs, so every paragraph in the body is read in order
+  Array.from(body.getElementsByTagName('Paragraph'))
+    .filter(paragraph => !isInside(paragraph, 'ScriptNote'))
+    .forEach(paragraph => {
+      const { text, formatting } = getParagraphText(paragraph);
+      if (!text) return;
+
+      const typeName = (paragraph.getAttribute('Type') ?? 'Action').trim();
+      let type = PARAGRAPH_TYPES_BY_NAME.get(typeName.toLowerCase()) ?? FDX_FALLBACK_TYPES[typeName.toLowerCase()];
+      if (!type) {
+        unknownTypes.add(typeName);
+        type = 'action';
+      }
+
+      const notes = Array.from(paragraph.getElementsByTagName('ScriptNote'))
+        .map(note => note.textContent?.trim() ?? '')
+        .filter(Boolean);
+      const element = createElement(type, text, elements.length, notes.join('\n') || undefined);
+      element.formatting = { ...element.formatting, ...formatting };
+      elements.push(element);
+    });
+
+  const titlePage = Array.from(xml.documentElement.children).find(child => child.tagName === 'TitlePage');
+  const titleLines = titlePage
+    ? Array.from(titlePage.getElementsByTagName('Paragraph')).map(paragraph => getParagraphText(paragraph).text).filter(Boolean)
+    : [];
+
+  if (unknownTypes.size > 0) {
+    warnings.push(`Imported ${Array.from(unknownTypes).join(', ')} paragraphs as action.`);
+  }
+  if (elements.length === 0) warnings.push('No script elements were found.');
+
+  return {
+    title: titleLines[0] ?? '',
+    description: titleLines.slice(1).join(' '),
+    elements,
+    warnings
+  };
+};
+
+// Picks the reader from the file name, falling back to sniffing the content
+export const importScreenplay = (content: string, fileName: string): ScreenplayImport => {
+  const isFdx = /\.fdx$/i.test(fileName) || /^\s*(\uFEFF)?<\?xml[\s\S]*<FinalDraft/.test(content.slice(0, 500));
+  return isFdx ? parseFdx(content) : parseFountain(content);
+};
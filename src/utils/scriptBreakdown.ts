@@ -0,0 +1,498 @@
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, isSameDay, max, setHours, startOfDay } from 'date-fns';
+import { Script, ScriptElement } from '../types/script';
+import {
+  BreakdownItem,
+  BreakdownSheet,
+  License,
+  Location,
+  ProductionProject,
+  Release,
+  ScriptBreakdown,
+  ShootingDay
+} from '../types/production';
+import { getElementDuration } from './scriptLayout';
+
+// Script breakdown
+// Splits a script into scenes at its headings and lists what each one needs in front of the camera and
+// in the edit. Drafting turns the sheets into locations, shooting days, licenses and releases that the
+// schedule and the legal checklist pick up; anything already there is left alone.
+
+export interface BreakdownDraftOptions {
+  startDate?: Date; // First day to schedule; defaults to the day after the last shooting day
+}
+
+export interface BreakdownDraftSummary {
+  locations: number;
+  shootingDays: number;
+  licenses: number;
+  releases: number;
+  scheduledScenes: number; // Scenes already on a shooting day, left where they are
+}
+
+const HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]\s*/i;
+const SCENE_NUMBER_PATTERN = /^SCENE\s+\d+[A-Z]?\s*[-–—:.]?\s*/i;
+const TIME_OF_DAY_PATTERN = /\s+[-–—]+\s+((?:DAY|NIGHT|DAWN|DUSK|MORNING|AFTERNOON|EVENING|NOON|MIDNIGHT|SUNRISE|SUNSET|MAGIC HOUR|GOLDEN HOUR|CONTINUOUS|LATER|MOMENTS LATER|SAME( TIME)?)(?:\s*\([^)]*\))?)$/i;
+
+const ELEMENT_PREFIXES = /^(B-?ROLL|MUSIC( CUE)?|ARCHIVAL|ARCHIVE( FOOTAGE)?|STOCK( FOOTAGE)?|PROPS?)\s*:\s*/i;
+const ARCHIVAL_PATTERN = /\b(archiv\w*|stock (footage|shots?|photos?)|newsreels?|file footage|home movies?|historical (footage|photos?|photographs?)|courtesy of)\b/i;
+const STILL_PATTERN = /\b(photos?|photographs?|stills?|images?|newspapers?|clippings?|documents?|letters?)\b/i;
+
+// Capitalised words in action lines that are screenplay shorthand, not props
+const NOT_PROPS = new Set([
+  'CUT', 'TO', 'FADE', 'IN', 'OUT', 'DISSOLVE', 'SMASH', 'MATCH', 'INTERCUT', 'CONTINUOUS', 'CONTINUED',
+  'CONT\'D', 'V.O', 'O.S', 'O.C', 'POV', 'ANGLE', 'ON', 'CLOSE', 'CLOSEUP', 'WIDE', 'INSERT', 'SUPER',
+  'BACK', 'SCENE', 'MONTAGE', 'SERIES', 'OF', 'SHOTS', 'FLASHBACK', 'END', 'THE', 'A', 'AN', 'AND',
+  'LATER', 'MOMENTS', 'DAY', 'NIGHT', 'INT', 'EXT', 'SFX', 'VFX', 'OK', 'TV', 'US', 'UK', 'USA'
+]);
+
+const SPOKEN_WORDS_PER_MINUTE = 150;
+
+// Rough planning figures for a documentary shoot
+const SETUP_MINUTES_PER_SCENE = 45;
+const SHOOTING_MINUTES_PER_SCREEN_MINUTE = 60;
+const SHOOTING_DAY_MINUTES = 10 * 60;
+const CALL_HOUR = 8;
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Headings and character cues are written in capitals; drafts read better in title case
+const toDisplayName = (name: string): string => {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (/[a-z]/.test(trimmed)) return trimmed;
+  return trimmed.toLowerCase().replace(/(^|[\s'’(-])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase());
+};
+
+// Headings
+export const parseSceneHeading = (heading: string): Pick<BreakdownSheet, 'setting' | 'timeOfDay' | 'locationName'> => {
+  let rest = heading.trim().replace(SCENE_NUMBER_PATTERN, '');
+  let setting: BreakdownSheet['setting'] = 'unspecified';
+
+  const prefix = HEADING_PATTERN.exec(rest);
+  if (prefix) {
+    const marker = prefix[1].toUpperCase();
+    setting = marker.includes('/') ? 'mixed' : marker === 'INT' ? 'interior' : 'exterior';
+    rest = rest.slice(prefix[0].length);
+  }
+
+  let timeOfDay = '';
+  const time = TIME_OF_DAY_PATTERN.exec(rest);
+  if (time) {
+    timeOfDay = time[1].trim().toUpperCase();
+    rest = rest.slice(0, time.index);
+  }
+
+  return { setting, timeOfDay, locationName: rest.replace(/[.\s]+$/, '').trim() || heading.trim() };
+};
+
+// Elements
+const stripPrefix = (text: string): string => text.trim().replace(ELEMENT_PREFIXES, '').trim();
+
+// "(V.O.)", "(CONT'D)" and the like after a name
+const stripExtensions = (name: string): string => name.replace(/\s*\([^)]*\)\s*/g, ' ').trim();
+
+const toWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+const getScreenTime = (element: ScriptElement): number => {
+  if (element.type === 'scene-heading') return 0;
+  return getElementDuration(element) || (toWords(element.content) / SPOKEN_WORDS_PER_MINUTE) * 60;
+};
+
+// "MARIA LOPEZ: We left in the spring" names who is answering
+const getSpeakerPrefix = (text: string): string | null => {
+  const match = /^([A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*){0,3})\s*(?:\([^)]*\))?:\s/.exec(text.trim());
+  return match && !/^(A|Q|ANSWER|QUESTION)$/i.test(match[1]) ? match[1] : null;
+};
+
+// "Maria Lopez, Harbour Pilot" or "Maria Lopez — Harbour Pilot"
+const getLowerThirdName = (text: string): string => stripPrefix(text).split(/\s*(?:,|\s[-–—|]\s|\n)\s*/)[0].trim();
+
+const isShorthand = (word: string): boolean => NOT_PROPS.has(word.replace(/[.'’]+$/, ''));
+
+// "CLOSE ON THE LETTER" is a LETTER; "CRATE OF COD" keeps its OF
+const trimShorthand = (words: string[]): string[] => {
+  let start = 0;
+  let end = words.length;
+  while (start < end && isShorthand(words[start])) start++;
+  while (end > start && isShorthand(words[end - 1])) end--;
+  return words.slice(start, end);
+};
+
+const extractProps = (element: ScriptElement, people: Set<string>, location: string): string[] => {
+  const tagged = (element.metadata?.tags ?? [])
+    .filter(tag => /^prop:/i.test(tag))
+    .map(tag => tag.replace(/^prop:\s*/i, '').trim());
+
+  if (/^PROPS?\s*:/i.test(element.content.trim())) {
+    return [...tagged, ...stripPrefix(element.content).split(/\s*[,;]\s*/)];
+  }
+
+  // Writers capitalise a prop the first time it appears. Lines in all caps are slugs or shouting.
+  const text = stripPrefix(element.content);
+  if (!/[a-z]/.test(text)) return tagged;
+
+  const runs = text.match(/\b[A-Z][A-Z'’-]+(?:\s+[A-Z][A-Z'’-]+)*\b/g) ?? [];
+  const found = runs
+    .map(run => trimShorthand(run.split(/\s+/)).join(' '))
+    .filter(run => run.replace(/[^A-Z]/g, '').length >= 3)
+    .filter(run => !people.has(normalizeName(run)) && normalizeName(run) !== normalizeName(location));
+  return [...tagged, ...found];
+};
+
+const addItem = (sheet: BreakdownSheet, category: BreakdownItem['category'], name: string, elementId: string) => {
+  const cleaned = name.trim().replace(/[.;:,]+$/, '');
+  if (!cleaned) return;
+
+  const existing = sheet.items.find(item => item.category === category && normalizeName(item.name) === normalizeName(cleaned));
+  if (existing) {
+    if (!existing.elementIds.includes(elementId)) existing.elementIds.push(elementId);
+  } else {
+    sheet.items.push({ id: uuidv4(), category, name: cleaned, elementIds: [elementId] });
+  }
+};
+
+const createSheet = (sceneNumber: number, heading?: ScriptElement): BreakdownSheet => ({
+  id: uuidv4(),
+  sceneNumber,
+  headingElementId: heading?.id,
+  heading: heading?.content.trim() || 'Before the first scene',
+  ...(heading ? parseSceneHeading(heading.content) : { setting: 'unspecified' as const, timeOfDay: '', locationName: '' }),
+  screenTime: 0,
+  elementIds: [],
+  items: []
+});
+
+const fillSheet = (sheet: BreakdownSheet, elements: ScriptElement[], characters: Set<string>) => {
+  const hasInterview = elements.some(element => element.type === 'interview-answer');
+  let speaker: string | null = null;
+  let unnamedAnswers = 0;
+
+  elements.forEach(element => {
+    sheet.elementIds.push(element.id);
+    sheet.screenTime += getScreenTime(element);
+    const text = stripPrefix(element.content);
+
+    switch (element.type) {
+      case 'character':
+        speaker = stripExtensions(element.content.trim());
+        break;
+      case 'interview-question':
+        speaker = null;
+        break;
+      case 'interview-answer': {
+        const name = getSpeakerPrefix(element.content) ?? speaker;
+        if (name) {
+          addItem(sheet, 'interview-subject', name, element.id);
+        } else if (unnamedAnswers++ === 0) {
+          addItem(sheet, 'interview-subject', `Unnamed interviewee (scene ${sheet.sceneNumber})`, element.id);
+        }
+        break;
+      }
+      case 'lower-third':
+        // Lower thirds in an interview scene introduce the person talking
+        if (hasInterview) {
+          speaker = getLowerThirdName(element.content) || speaker;
+          if (speaker) addItem(sheet, 'interview-subject', speaker, element.id);
+        }
+        break;
+      case 'b-roll':
+        addItem(sheet, ARCHIVAL_PATTERN.test(element.content) ? 'archival' : 'b-roll', text, element.id);
+        break;
+      case 'music-cue':
+        addItem(sheet, 'music', text, element.id);
+        break;
+      case 'title-card':
+      case 'action':
+        if (/^(ARCHIVAL|ARCHIVE( FOOTAGE)?|STOCK( FOOTAGE)?)\s*:/i.test(element.content.trim())) {
+          addItem(sheet, 'archival', text, element.id);
+        }
+        break;
+    }
+
+    if (element.type === 'action' || element.type === 'b-roll') {
+      const people = new Set([
+        ...characters,
+        ...sheet.items.filter(item => item.category === 'interview-subject').map(item => normalizeName(item.name))
+      ]);
+      extractProps(element, people, sheet.locationName).forEach(prop => addItem(sheet, 'prop', prop, element.id));
+    }
+  });
+
+  // A placeholder is only needed when nobody in the scene is named
+  if (sheet.items.filter(item => item.category === 'interview-subject').length > 1) {
+    sheet.items = sheet.items.filter(item => !item.name.startsWith('Unnamed interviewee'));
+  }
+};
+
+export const generateBreakdown = (script: Script): ScriptBreakdown => {
+  const elements = [...script.content].sort((a, b) => a.order - b.order);
+  const characters = new Set([
+    ...script.metadata.characters.map(normalizeName),
+    ...elements.filter(element => element.type === 'character').map(element => normalizeName(stripExtensions(element.content)))
+  ]);
+
+  const scenes: { heading?: ScriptElement; elements: ScriptElement[] }[] = [];
+  elements.forEach(element => {
+    if (element.type === 'scene-heading') {
+      scenes.push({ heading: element, elements: [] });
+    } else if (scenes.length === 0) {
+      scenes.push({ elements: [element] });
+    } else {
+      scenes[scenes.length - 1].elements.push(element);
+    }
+  });
+
+  let sceneNumber = 0;
+  const sheets = scenes
+    .filter(scene => scene.heading || scene.elements.some(element => element.content.trim()))
+    .map(scene => {
+      const sheet = createSheet(scene.heading ? ++sceneNumber : 0, scene.heading);
+      fillSheet(sheet, scene.elements, characters);
+      return sheet;
+    });
+
+  return { scriptId: script.id, scriptTitle: script.title, generatedAt: new Date(), sheets };
+};
+
+export const removeBreakdownItem = (breakdown: ScriptBreakdown, sheetId: string, itemId: string): ScriptBreakdown => ({
+  ...breakdown,
+  sheets: breakdown.sheets.map(sheet => sheet.id === sheetId
+    ? { ...sheet, items: sheet.items.filter(item => item.id !== itemId) }
+    : sheet
+  )
+});
+
+export const getBreakdownItems = (breakdown: ScriptBreakdown, category: BreakdownItem['category']): { name: string; scenes: number[] }[] => {
+  const items = new Map<string, { name: string; scenes: number[] }>();
+  breakdown.sheets.forEach(sheet => sheet.items
+    .filter(item => item.category === category)
+    .forEach(item => {
+      const key = normalizeName(item.name);
+      const entry = items.get(key) ?? { name: item.name, scenes: [] };
+      if (!entry.scenes.includes(sheet.sceneNumber)) entry.scenes.push(sheet.sceneNumber);
+      items.set(key, entry);
+    })
+  );
+  return Array.from(items.values());
+};
+
+// Drafting
+const describeScenes = (scenes: number[]): string => {
+  const numbered = scenes.filter(scene => scene > 0);
+  const listed = numbered.length > 0 ? `scene${numbered.length === 1 ? '' : 's'} ${numbered.join(', ')}` : '';
+  if (numbered.length === scenes.length) return listed;
+  return listed ? `the opening and ${listed}` : 'the opening';
+};
+
+export const getShootingMinutes = (sheet: BreakdownSheet): number => {
+  return SETUP_MINUTES_PER_SCENE + (sheet.screenTime / 60) * SHOOTING_MINUTES_PER_SCREEN_MINUTE;
+};
+
+const getDefaultStartDate = (project: ProductionProject): Date => {
+  const days = project.schedule.shootingDays.map(day => day.date);
+  if (days.length > 0) return addDays(startOfDay(max(days)), 1);
+  const production = project.schedule.phases.find(phase => phase.type === 'production');
+  return startOfDay(production?.startDate ?? project.startDate);
+};
+
+// Drafted sheets keep their location even if it has been renamed since
+const findLocation = (sheet: BreakdownSheet, locations: Location[]): Location | undefined => {
+  return locations.find(location => location.id === sheet.locationId)
+    ?? locations.find(location => normalizeName(location.name) === normalizeName(sheet.locationName));
+};
+
+const draftLocations = (project: ProductionProject, breakdown: ScriptBreakdown): Location[] => {
+  const drafts = new Map<string, Location & { scenes: number[] }>();
+
+  breakdown.sheets.filter(sheet => sheet.headingElementId && sheet.locationName).forEach(sheet => {
+    const key = normalizeName(sheet.locationName);
+    if (findLocation(sheet, project.locations)) return;
+
+    const type: Location['type'] = sheet.setting === 'interior' ? 'interior' : sheet.setting === 'exterior' ? 'exterior' : 'mixed';
+    const draft = drafts.get(key);
+    if (draft) {
+      if (draft.type !== type) draft.type = 'mixed';
+      draft.scenes.push(sheet.sceneNumber);
+      return;
+    }
+
+    drafts.set(key, {
+      id: uuidv4(),
+      name: toDisplayName(sheet.locationName),
+      address: '',
+      type,
+      contactPerson: { name: '', email: '', phone: '' },
+      permitRequired: false,
+      features: [],
+      limitations: [],
+      availableDates: [],
+      cost: 0,
+      photos: [],
+      notes: '',
+      scenes: [sheet.sceneNumber]
+    });
+  });
+
+  // Filming outdoors usually means a permit
+  return Array.from(drafts.values()).map(({ scenes, ...location }) => {
+    const permitRequired = location.type !== 'interior';
+    return {
+      ...location,
+      permitRequired,
+      permitStatus: permitRequired ? 'not-applied' : undefined,
+      notes: `Drafted from the "${breakdown.scriptTitle}" breakdown for ${describeScenes(scenes)}.`
+    };
+  });
+};
+
+// Packs each location's scenes into as few days as fit, in script order, on days not already booked
+const draftShootingDays = (
+  project: ProductionProject,
+  breakdown: ScriptBreakdown,
+  locations: Location[],
+  startDate: Date
+): ShootingDay[] => {
+  const scheduled = new Set(project.schedule.shootingDays.flatMap(day => day.scenes));
+
+  const groups = new Map<string, BreakdownSheet[]>();
+  breakdown.sheets
+    .filter(sheet => sheet.headingElementId && !scheduled.has(sheet.headingElementId))
+    .forEach(sheet => {
+      const locationId = findLocation(sheet, locations)?.id;
+      if (!locationId) return;
+      groups.set(locationId, [...(groups.get(locationId) ?? []), sheet]);
+    });
+
+  const booked = project.schedule.shootingDays.map(day => day.date);
+  let date = startOfDay(startDate);
+  const nextFreeDate = (): Date => {
+    while (booked.some(day => isSameDay(day, date))) date = addDays(date, 1);
+    const free = date;
+    date = addDays(date, 1);
+    return free;
+  };
+
+  const days: ShootingDay[] = [];
+  groups.forEach((sheets, locationId) => {
+    let batch: BreakdownSheet[] = [];
+    let minutes = 0;
+
+    const flush = () => {
+      if (batch.length === 0) return;
+      const day = nextFreeDate();
+      days.push({
+        id: uuidv4(),
+        date: day,
+        locationId,
+        callTime: setHours(day, CALL_HOUR),
+        wrapTime: setHours(day, CALL_HOUR + SHOOTING_DAY_MINUTES / 60),
+        scenes: batch.map(sheet => sheet.headingElementId!),
+        crew: [],
+        equipment: [],
+        status: 'planned',
+        notes: `Drafted from the "${breakdown.scriptTitle}" breakdown: ${batch.map(sheet => `${sheet.sceneNumber}. ${sheet.heading}`).join('; ')}`
+      });
+      batch = [];
+      minutes = 0;
+    };
+
+    sheets.forEach(sheet => {
+      const needed = getShootingMinutes(sheet);
+      if (batch.length > 0 && minutes + needed > SHOOTING_DAY_MINUTES) flush();
+      batch.push(sheet);
+      minutes += needed;
+    });
+    flush();
+  });
+
+  return days;
+};
+
+const draftLicenses = (project: ProductionProject, breakdown: ScriptBreakdown): License[] => {
+  const existing = new Set(project.legalCompliance.licenses.map(license => normalizeName(license.content)));
+
+  const draft = (type: License['type'], name: string, scenes: number[]): License => ({
+    id: uuidv4(),
+    type,
+    content: name,
+    licensor: '',
+    acquired: false,
+    territory: '',
+    usage: '',
+    cost: 0,
+    status: 'needed',
+    notes: `Called for in ${describeScenes(scenes)} of "${breakdown.scriptTitle}".`
+  });
+
+  return [
+    ...getBreakdownItems(breakdown, 'music').map(item => ({ ...item, type: 'music' as const })),
+    ...getBreakdownItems(breakdown, 'archival').map(item => ({
+      ...item,
+      type: STILL_PATTERN.test(item.name) ? 'image' as const : 'footage' as const
+    }))
+  ]
+    .filter(item => !existing.has(normalizeName(item.name)))
+    .map(item => draft(item.type, item.name, item.scenes));
+};
+
+const draftReleases = (project: ProductionProject, breakdown: ScriptBreakdown): Release[] => {
+  const existing = new Set(project.legalCompliance.releases
+    .filter(release => release.type === 'personal' || release.type === 'minor')
+    .map(release => normalizeName(release.releasedBy)));
+
+  return getBreakdownItems(breakdown, 'interview-subject')
+    .filter(item => !existing.has(normalizeName(item.name)))
+    .map(item => ({
+      id: uuidv4(),
+      type: 'personal',
+      releasedBy: toDisplayName(item.name),
+      releasedDate: new Date(),
+      coverage: 'On-camera interview',
+      status: 'pending',
+      notes: `Interviewed in ${describeScenes(item.scenes)} of "${breakdown.scriptTitle}".`
+    }));
+};
+
+// Adds what the breakdown calls for and the production does not have yet, so drafting twice adds nothing
+export const applyBreakdownToProduction = (
+  project: ProductionProject,
+  breakdown: ScriptBreakdown,
+  options: BreakdownDraftOptions = {}
+): { project: ProductionProject; summary: BreakdownDraftSummary } => {
+  const locations = draftLocations(project, breakdown);
+  const allLocations = [...project.locations, ...locations];
+  const linked: ScriptBreakdown = {
+    ...breakdown,
+    sheets: breakdown.sheets.map(sheet => ({ ...sheet, locationId: findLocation(sheet, allLocations)?.id }))
+  };
+  const shootingDays = draftShootingDays(project, breakdown, allLocations, options.startDate ?? getDefaultStartDate(project));
+  const licenses = draftLicenses(project, breakdown);
+  const releases = draftReleases(project, breakdown);
+
+  const scheduled = new Set(project.schedule.shootingDays.flatMap(day => day.scenes));
+
+  return {
+    project: {
+      ...project,
+      breakdown: linked,
+      locations: allLocations,
+      schedule: {
+        ...project.schedule,
+        shootingDays: [...project.schedule.shootingDays, ...shootingDays]
+      },
+      legalCompliance: {
+        ...project.legalCompliance,
+        licenses: [...project.legalCompliance.licenses, ...licenses],
+        releases: [...project.legalCompliance.releases, ...releases]
+      },
+      updatedAt: new Date()
+    },
+    summary: {
+      locations: locations.length,
+      shootingDays: shootingDays.length,
+      licenses: licenses.length,
+      releases: releases.length,
+      scheduledScenes: breakdown.sheets.filter(sheet => sheet.headingElementId && scheduled.has(sheet.headingElementId)).length
+    }
+  };
+};
@@ -0,0 +1,281 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Collaborator,
+  Comment,
+  CommentAnchor,
+  ReviewSignoff,
+  Script,
+  ScriptElement,
+  ScriptReview
+} from '../types/script';
+
+export interface MentionPart {
+  text: string;
+  collaboratorId?: string;
+}
+
+export interface ReviewProgress {
+  required: Collaborator[];
+  approved: string[]; // Reviewer IDs with a current approval
+  changesRequested: string[];
+  stale: string[]; // Signed off on content that has changed since
+  complete: boolean;
+}
+
+// Anchors
+// Moves an anchor through an edit of its element. Text changed inside the range stays in the range.
+export const transformAnchor = (anchor: CommentAnchor, before: string, after: string): CommentAnchor => {
+  if (before === after) return anchor;
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const oldEnd = before.length - suffix;
+  const newEnd = after.length - suffix;
+  const shift = after.length - before.length;
+  // Text typed right at either edge of the range stays outside it
+  const mapStart = (offset: number) => offset >= oldEnd ? offset + shift : offset <= prefix ? offset : prefix;
+  const mapEnd = (offset: number) => offset <= prefix ? offset : offset >= oldEnd ? offset + shift : newEnd;
+
+  const start = mapStart(anchor.start);
+  const end = Math.max(start, mapEnd(anchor.end));
+  return { ...anchor, start, end, quote: after.slice(start, end) };
+};
+
+// Keeps every anchor in the edited element pointing at the same words
+export const rebaseComments = (comments: Comment[], before: ScriptElement, after: ScriptElement): Comment[] => {
+  if (before.content === after.content) return comments;
+  return comments.map(comment => comment.anchor?.elementId === after.id
+    ? { ...comment, anchor: transformAnchor(comment.anchor, before.content, after.content) }
+    : comment
+  );
+};
+
+// Where the anchor is now, or null if its text is gone. Edits that did not go through rebaseComments,
+// such as ones from other editors, are caught by looking for the quote nearest the old position.
+export const resolveAnchor = (anchor: CommentAnchor, content: string): { start: number; end: number } | null => {
+  if (!anchor.quote) return null;
+  if (content.slice(anchor.start, anchor.end) === anchor.quote) return { start: anchor.start, end: anchor.end };
+
+  let best: number | null = null;
+  for (let index = content.indexOf(anchor.quote); index !== -1; index = content.indexOf(anchor.quote, index + 1)) {
+    if (best === null || Math.abs(index - anchor.start) < Math.abs(best - anchor.start)) best = index;
+  }
+  return best === null ? null : { start: best, end: best + anchor.quote.length };
+};
+
+export const createAnchor = (element: ScriptElement, start: number, end: number): CommentAnchor => {
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.min(element.content.length, Math.max(start, end));
+  return { elementId: element.id, start: from, end: to, quote: element.content.slice(from, to) };
+};
+
+// Mentions
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest names first, so "@Ann Lee" is not read as "@Ann"
+const mentionPattern = (collaborators: Collaborator[]): RegExp | null => {
+  const names = collaborators.map(collaborator => collaborator.name).filter(Boolean).sort((a, b) => b.length - a.length);
+  return names.length > 0 ? new RegExp(`@(${names.map(escapeRegExp).join('|')})(?![\\w])`, 'gi') : null;
+};
+
+const findCollaborator = (collaborators: Collaborator[], name: string): Collaborator | undefined => {
+  return collaborators.find(collaborator => collaborator.name.toLowerCase() === name.toLowerCase());
+};
+
+export const parseMentions = (text: string, collaborators: Collaborator[]): string[] => {
+  const pattern = mentionPattern(collaborators);
+  if (!pattern) return [];
+
+  const ids = Array.from(text.matchAll(pattern), match => findCollaborator(collaborators, match[1])?.id);
+  return Array.from(new Set(ids.filter((id): id is string => !!id)));
+};
+
+export const splitMentions = (text: string, collaborators: Collaborator[]): MentionPart[] => {
+  const pattern = mentionPattern(collaborators);
+  if (!pattern) return [{ text }];
+
+  const parts: MentionPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index) });
+    parts.push({ text: match[0], collaboratorId: findCollaborator(collaborators, match[1])?.id });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
+
+// The partial name being typed after an @, for suggesting collaborators
+const getMentionQuery = (text: string): string | null => {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(text);
+  return match ? match[1] : null;
+};
+
+export const getMentionMatches = (text: string, collaborators: Collaborator[]): Collaborator[] => {
+  const query = getMentionQuery(text)?.toLowerCase();
+  if (query === undefined) return [];
+  return collaborators.filter(collaborator => collaborator.name.toLowerCase().startsWith(query)).slice(0, 5);
+};
+
+export const completeMention = (text: string, collaborator: Collaborator): string => {
+  return text.replace(/@([^@\n]{0,30})$/, `@${collaborator.name} `);
+};
+
+// Threads
+export const isCommentOpen = (comment: Comment): boolean => {
+  return !comment.resolved && comment.suggestion?.status !== 'accepted' && comment.suggestion?.status !== 'rejected';
+};
+
+export const addReply = (comment: Comment, content: string, author: string, collaborators: Collaborator[]): Comment => ({
+  ...comment,
+  replies: [
+    ...(comment.replies ?? []),
+    { id: uuidv4(), content, author, createdAt: new Date(), mentions: parseMentions(content, collaborators) }
+  ]
+});
+
+export const getCommentsMentioning = (script: Script, collaboratorId: string): Comment[] => {
+  return script.comments.filter(comment =>
+    comment.mentions?.includes(collaboratorId) ||
+    comment.replies?.some(reply => reply.mentions?.includes(collaboratorId))
+  );
+};
+
+// Suggestions
+export const acceptSuggestion = (script: Script, commentId: string, decidedBy: string): Script => {
+  const comment = script.comments.find(item => item.id === commentId);
+  if (!comment?.suggestion || !comment.anchor) throw new Error('This comment has no suggested change.');
+  if (comment.suggestion.status !== 'pending') throw new Error('This suggestion has already been decided.');
+
+  const element = script.content.find(item => item.id === comment.anchor!.elementId);
+  const range = element ? resolveAnchor(comment.anchor, element.content) : null;
+  if (!element || !range) throw new Error('The text this suggestion replaces has since been changed or removed.');
+
+  const updated: ScriptElement = {
+    ...element,
+    content: element.content.slice(0, range.start) + comment.suggestion.replacement + element.content.slice(range.end)
+  };
+  const comments = rebaseComments(script.comments, element, updated).map(item => item.id === commentId
+    ? {
+        ...item,
+        resolved: true,
+        anchor: createAnchor(updated, range.start, range.start + comment.suggestion!.replacement.length),
+        suggestion: { ...comment.suggestion!, status: 'accepted' as const, decidedBy, decidedAt: new Date() }
+      }
+    : item
+  );
+
+  return {
+    ...script,
+    content: script.content.map(item => item.id === element.id ? updated : item),
+    comments,
+    updatedAt: new Date()
+  };
+};
+
+export const rejectSuggestion = (script: Script, commentId: string, decidedBy: string): Script => ({
+  ...script,
+  comments: script.comments.map(comment => comment.id === commentId && comment.suggestion
+    ? { ...comment, resolved: true, suggestion: { ...comment.suggestion, status: 'rejected', decidedBy, decidedAt: new Date() } }
+    : comment
+  ),
+  updatedAt: new Date()
+});
+
+// Review
+export const canApprove = (collaborator: Collaborator): boolean => {
+  return collaborator.permissions.some(permission => permission.action === 'approve' && permission.granted);
+};
+
+export const getEligibleReviewers = (script: Script): Collaborator[] => script.collaborators.filter(canApprove);
+
+// Stands for the script as a reviewer saw it
+export const getContentHash = (script: Script): string => {
+  const text = JSON.stringify([script.title, [...script.content].sort((a, b) => a.order - b.order).map(element => [element.type, element.content])]);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return hash.toString(36);
+};
+
+export const getReviewProgress = (script: Script): ReviewProgress | null => {
+  const review = script.review;
+  if (!review) return null;
+
+  const hash = getContentHash(script);
+  const required = script.collaborators.filter(collaborator => review.reviewerIds.includes(collaborator.id));
+  const latest = (reviewerId: string): ReviewSignoff | undefined => review.signoffs.find(signoff => signoff.reviewerId === reviewerId);
+  const current = (signoff: ReviewSignoff | undefined) => !!signoff && signoff.contentHash === hash;
+
+  const approved = required.filter(reviewer => {
+    const signoff = latest(reviewer.id);
+    return current(signoff) && signoff!.decision === 'approved' && canApprove(reviewer);
+  }).map(reviewer => reviewer.id);
+
+  return {
+    required,
+    approved,
+    changesRequested: required.filter(reviewer => latest(reviewer.id)?.decision === 'changes-requested').map(reviewer => reviewer.id),
+    stale: required.filter(reviewer => {
+      const signoff = latest(reviewer.id);
+      return !!signoff && !current(signoff);
+    }).map(reviewer => reviewer.id),
+    complete: required.length > 0 && required.length === review.reviewerIds.length && approved.length === required.length
+  };
+};
+
+export const requestReview = (script: Script, reviewerIds: string[], requestedBy: string): Script => {
+  if (script.status !== 'draft') throw new Error(`Only drafts can be sent for review; this script is ${script.status}.`);
+  if (reviewerIds.length === 0) throw new Error('Choose at least one reviewer.');
+
+  const eligible = new Set(getEligibleReviewers(script).map(collaborator => collaborator.id));
+  const ineligible = reviewerIds.filter(id => !eligible.has(id));
+  if (ineligible.length > 0) {
+    const names = ineligible.map(id => script.collaborators.find(collaborator => collaborator.id === id)?.name ?? id);
+    throw new Error(`${names.join(', ')} cannot approve scripts.`);
+  }
+
+  const review: ScriptReview = {
+    id: uuidv4(),
+    requestedBy,
+    requestedAt: new Date(),
+    reviewerIds,
+    signoffs: []
+  };
+  return { ...script, review, status: 'review', updatedAt: new Date() };
+};
+
+// Approval only lands once every required reviewer has approved what is there now.
+// A request for changes sends the script back to draft.
+export const signOffReview = (
+  script: Script,
+  reviewerId: string,
+  decision: ReviewSignoff['decision'],
+  note?: string
+): Script => {
+  const review = script.review;
+  if (script.status !== 'review' || !review) throw new Error('This script is not in review.');
+  if (!review.reviewerIds.includes(reviewerId)) throw new Error('Only the requested reviewers can sign off.');
+
+  const reviewer = script.collaborators.find(collaborator => collaborator.id === reviewerId);
+  if (!reviewer || !canApprove(reviewer)) throw new Error(`${reviewer?.name ?? 'This reviewer'} no longer has approval rights.`);
+
+  const signoff: ReviewSignoff = { reviewerId, decision, note: note?.trim() || undefined, signedAt: new Date(), contentHash: getContentHash(script) };
+  const updated: Script = {
+    ...script,
+    review: { ...review, signoffs: [signoff, ...review.signoffs.filter(item => item.reviewerId !== reviewerId)] },
+    updatedAt: new Date()
+  };
+
+  if (decision === 'changes-requested') return { ...updated, status: 'draft' };
+  if (getReviewProgress(updated)?.complete) {
+    return { ...updated, status: 'approved', review: { ...updated.review!, completedAt: new Date() } };
+  }
+  return updated;
+};
@@ -0,0 +1,562 @@
+import {
+  CrdtOperation,
+  ElementFields,
+  InsertedChar,
+  OpStamp,
+  RejectedOperation,
+  ReviewRequest,
+  RoomMember,
+  SuggestionDecision
+} from '../types/collaboration';
+import { Collaborator, Comment, CommentReply, Permission, ReviewSignoff, Script, ScriptElement, ScriptStatus } from '../types/script';
+
+// Script CRDT
+// Elements are ordered by a fractional position key (last writer wins, so moves are a single register
+// write) and every field is a last-writer-wins register. Element text is an RGA sequence of characters,
+// so two people typing in the same line both keep their words. Comments and their replies are grow-only
+// sets; suggestion decisions, the review request and each reviewer's sign-off are registers.
+
+interface Register<T> {
+  value: T;
+  stamp: OpStamp;
+}
+
+interface CharNode {
+  id: string;
+  stamp: OpStamp;
+  value: string;
+  deleted: boolean;
+}
+
+interface ElementState {
+  id: string;
+  created: OpStamp;
+  deleted: Register<boolean>;
+  position: Register<string>;
+  fields: { [K in keyof ElementFields]-?: Register<ElementFields[K]> };
+  chars: CharNode[];
+}
+
+export interface ScriptDocument {
+  clock: number;
+  applied: Set<string>;
+  deferred: CrdtOperation[]; // Arrived before what they refer to
+  elements: Map<string, ElementState>;
+  title: Register<string> | null;
+  description: Register<string> | null;
+  status: Register<ScriptStatus> | null;
+  comments: Map<string, Comment>;
+  resolvedComments: Set<string>;
+  replies: Map<string, Map<string, CommentReply>>; // By comment
+  decisions: Map<string, Register<SuggestionDecision>>; // By comment
+  review: Register<ReviewRequest> | null;
+  signoffs: Map<string, Register<ReviewSignoff>>; // By `${reviewId}:${reviewerId}`
+}
+
+type OperationBody = CrdtOperation extends infer T ? T extends CrdtOperation ? Omit<T, 'id' | 'stamp'> : never : never;
+
+const FIELD_NAMES: (keyof ElementFields)[] = ['type', 'formatting', 'timing', 'metadata', 'locked'];
+
+export const createScriptDocument = (): ScriptDocument => ({
+  clock: 0,
+  applied: new Set(),
+  deferred: [],
+  elements: new Map(),
+  title: null,
+  description: null,
+  status: null,
+  comments: new Map(),
+  resolvedComments: new Set(),
+  replies: new Map(),
+  decisions: new Map(),
+  review: null,
+  signoffs: new Map()
+});
+
+// Stamps
+export const compareStamps = (a: OpStamp, b: OpStamp): number => {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0;
+};
+
+const charId = (stamp: OpStamp): string => `${stamp.clock}@${stamp.actor}`;
+
+const parseCharId = (id: string): OpStamp => {
+  const at = id.indexOf('@');
+  return { clock: Number(id.slice(0, at)), actor: id.slice(at + 1) };
+};
+
+const writeRegister = <T>(register: Register<T>, value: T, stamp: OpStamp): void => {
+  if (compareStamps(stamp, register.stamp) > 0) {
+    register.value = value;
+    register.stamp = stamp;
+  }
+};
+
+const writeOptionalRegister = <T>(register: Register<T> | null, value: T, stamp: OpStamp): Register<T> => {
+  if (!register) return { value, stamp };
+  writeRegister(register, value, stamp);
+  return register;
+};
+
+// Positions
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+// A key strictly between two others; null means the start or end of the list
+export const positionBetween = (before: string | null, after: string | null): string => {
+  const low = before ?? '';
+  let high = after !== null && after > low ? after : null;
+  let result = '';
+
+  for (let i = 0; ; i++) {
+    const lowDigit = i < low.length ? DIGITS.indexOf(low[i]) : 0;
+    const highDigit = high !== null && i < high.length ? DIGITS.indexOf(high[i]) : BASE;
+
+    if (highDigit - lowDigit > 1) return result + DIGITS[Math.floor((lowDigit + highDigit) / 2)];
+
+    result += DIGITS[lowDigit];
+    if (lowDigit < highDigit) high = null;
+  }
+};
+
+const compareElements = (a: ElementState, b: ElementState): number => {
+  if (a.position.value !== b.position.value) return a.position.value < b.position.value ? -1 : 1;
+  return compareStamps(a.created, b.created);
+};
+
+const visibleElements = (doc: ScriptDocument): ElementState[] => {
+  return Array.from(doc.elements.values())
+    .filter(element => !element.deleted.value)
+    .sort(compareElements);
+};
+
+const visibleChars = (element: ElementState): CharNode[] => element.chars.filter(char => !char.deleted);
+
+// RGA: after the reference, skip characters inserted later than this one at the same spot
+const insertChar = (element: ElementState, after: string | null, char: CharNode): void => {
+  if (element.chars.some(existing => existing.id === char.id)) return;
+
+  let index = after === null ? 0 : element.chars.findIndex(existing => existing.id === after) + 1;
+  while (index < element.chars.length && compareStamps(element.chars[index].stamp, char.stamp) > 0) index++;
+  element.chars.splice(index, 0, char);
+};
+
+const insertChars = (element: ElementState, after: string | null, chars: InsertedChar[]): void => {
+  let previous = after;
+  chars.forEach(char => {
+    insertChar(element, previous, { id: char.id, stamp: parseCharId(char.id), value: char.value, deleted: false });
+    previous = char.id;
+  });
+};
+
+// Applying operations
+const isReady = (doc: ScriptDocument, op: CrdtOperation): boolean => {
+  switch (op.kind) {
+    case 'insert-element':
+    case 'set-script-field':
+    case 'set-status':
+    case 'add-comment':
+    case 'resolve-comment':
+    case 'request-review':
+    case 'sign-off':
+      return true;
+    case 'add-reply':
+    case 'decide-suggestion':
+      return doc.comments.has(op.commentId);
+    case 'insert-text': {
+      const element = doc.elements.get(op.elementId);
+      return !!element && (op.after === null || element.chars.some(char => char.id === op.after));
+    }
+    default:
+      return doc.elements.has(op.elementId);
+  }
+};
+
+const applyReady = (doc: ScriptDocument, op: CrdtOperation): void => {
+  const stamp = op.stamp;
+
+  switch (op.kind) {
+    case 'insert-element': {
+      const existing = doc.elements.get(op.elementId);
+      if (existing) {
+        // Bringing back a deleted element, e.g. when an older version is restored
+        writeRegister(existing.deleted, false, stamp);
+        writeRegister(existing.position, op.position, stamp);
+        FIELD_NAMES.forEach(field => writeRegister(existing.fields[field] as Register<unknown>, op.fields[field], stamp));
+        insertChars(existing, visibleChars(existing).pop()?.id ?? null, op.text);
+        break;
+      }
+
+      const element: ElementState = {
+        id: op.elementId,
+        created: stamp,
+        deleted: { value: false, stamp },
+        position: { value: op.position, stamp },
+        fields: {
+          type: { value: op.fields.type, stamp },
+          formatting: { value: op.fields.formatting, stamp },
+          timing: { value: op.fields.timing, stamp },
+          metadata: { value: op.fields.metadata, stamp },
+          locked: { value: op.fields.locked, stamp }
+        },
+        chars: []
+      };
+      insertChars(element, null, op.text);
+      doc.elements.set(op.elementId, element);
+      break;
+    }
+    case 'delete-element':
+      writeRegister(doc.elements.get(op.elementId)!.deleted, true, stamp);
+      break;
+    case 'move-element':
+      writeRegister(doc.elements.get(op.elementId)!.position, op.position, stamp);
+      break;
+    case 'set-element-field':
+      writeRegister(doc.elements.get(op.elementId)!.fields[op.field] as Register<unknown>, op.value, stamp);
+      break;
+    case 'insert-text':
+      insertChars(doc.elements.get(op.elementId)!, op.after, op.chars);
+      break;
+    case 'delete-text': {
+      const ids = new Set(op.charIds);
+      doc.elements.get(op.elementId)!.chars.forEach(char => {
+        if (ids.has(char.id)) char.deleted = true;
+      });
+      break;
+    }
+    case 'set-script-field':
+      doc[op.field] = writeOptionalRegister(doc[op.field], op.value, stamp);
+      break;
+    case 'set-status':
+      doc.status = writeOptionalRegister(doc.status, op.status, stamp);
+      break;
+    case 'add-comment':
+      if (!doc.comments.has(op.comment.id)) doc.comments.set(op.comment.id, op.comment);
+      break;
+    case 'resolve-comment':
+      doc.resolvedComments.add(op.commentId);
+      break;
+    case 'add-reply': {
+      const replies = doc.replies.get(op.commentId) ?? new Map<string, CommentReply>();
+      if (!replies.has(op.reply.id)) replies.set(op.reply.id, op.reply);
+      doc.replies.set(op.commentId, replies);
+      break;
+    }
+    case 'decide-suggestion':
+      doc.decisions.set(op.commentId, writeOptionalRegister(doc.decisions.get(op.commentId) ?? null, op.decision, stamp));
+      break;
+    case 'request-review':
+      doc.review = writeOptionalRegister(doc.review, op.review, stamp);
+      break;
+    case 'sign-off': {
+      const key = `${op.reviewId}:${op.signoff.reviewerId}`;
+      doc.signoffs.set(key, writeOptionalRegister(doc.signoffs.get(key) ?? null, op.signoff, stamp));
+      // Reviewers may not hold 'write', so a request for changes carries the move back to draft itself
+      if (op.signoff.decision === 'changes-requested' && doc.review?.value.id === op.reviewId) {
+        doc.status = writeOptionalRegister(doc.status, 'draft', stamp);
+      }
+      break;
+    }
+  }
+};
+
+const lastClock = (op: CrdtOperation): number => {
+  const chars = op.kind === 'insert-text' ? op.chars : op.kind === 'insert-element' ? op.text : [];
+  return chars.length > 0 ? parseCharId(chars[chars.length - 1].id).clock : op.stamp.clock;
+};
+
+// Returns false for operations already applied; ones that arrive early wait until they can apply
+export const applyOperation = (doc: ScriptDocument, op: CrdtOperation): boolean => {
+  if (doc.applied.has(op.id) || doc.deferred.some(waiting => waiting.id === op.id)) return false;
+  doc.clock = Math.max(doc.clock, lastClock(op));
+
+  if (!isReady(doc, op)) {
+    doc.deferred.push(op);
+    return true;
+  }
+
+  applyReady(doc, op);
+  doc.applied.add(op.id);
+
+  // Anything waiting on this one may be able to go now
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const waiting of [...doc.deferred]) {
+      if (!isReady(doc, waiting)) continue;
+      doc.deferred = doc.deferred.filter(item => item.id !== waiting.id);
+      applyReady(doc, waiting);
+      doc.applied.add(waiting.id);
+      progress = true;
+    }
+  }
+  return true;
+};
+
+// Reading
+export const toScriptContent = (doc: ScriptDocument): ScriptElement[] => {
+  return visibleElements(doc).map((element, order) => {
+    const content: ScriptElement = {
+      id: element.id,
+      type: element.fields.type.value,
+      content: visibleChars(element).map(char => char.value).join(''),
+      formatting: element.fields.formatting.value,
+      order
+    };
+    if (element.fields.timing.value !== undefined) content.timing = element.fields.timing.value;
+    if (element.fields.metadata.value !== undefined) content.metadata = element.fields.metadata.value;
+    if (element.fields.locked.value !== undefined) content.locked = element.fields.locked.value;
+    return content;
+  });
+};
+
+const byCreation = (a: { createdAt: Date }, b: { createdAt: Date }): number => a.createdAt.getTime() - b.createdAt.getTime();
+
+// The local copy of a comment keeps its anchor, which is rebased locally as the text changes
+const readComment = (doc: ScriptDocument, script: Script, comment: Comment): Comment => {
+  const local = script.comments.find(item => item.id === comment.id) ?? comment;
+  const replies = doc.replies.get(comment.id);
+  const decision = doc.decisions.get(comment.id)?.value;
+
+  return {
+    ...local,
+    ...(replies ? { replies: Array.from(replies.values()).sort(byCreation) } : {}),
+    ...(decision && local.suggestion ? { suggestion: { ...local.suggestion, ...decision } } : {}),
+    ...(doc.resolvedComments.has(comment.id) ? { resolved: true } : {})
+  };
+};
+
+const readReview = (doc: ScriptDocument, status: ScriptStatus): Script['review'] => {
+  if (!doc.review) return undefined;
+  const request = doc.review.value;
+  const signoffs = Array.from(doc.signoffs.entries())
+    .filter(([key]) => key.startsWith(`${request.id}:`))
+    .map(([, register]) => register.value)
+    .sort((a, b) => b.signedAt.getTime() - a.signedAt.getTime());
+
+  // Approved once the last sign-off landed
+  const completedAt = (status === 'approved' || status === 'final') && signoffs.length > 0 ? signoffs[0].signedAt : undefined;
+  return { ...request, signoffs, ...(completedAt ? { completedAt } : {}) };
+};
+
+export const applyDocumentToScript = (script: Script, doc: ScriptDocument): Script => {
+  const status = doc.status?.value ?? script.status;
+
+  return {
+    ...script,
+    title: doc.title?.value ?? script.title,
+    description: doc.description?.value ?? script.description,
+    status,
+    review: readReview(doc, status) ?? script.review,
+    content: toScriptContent(doc),
+    comments: Array.from(doc.comments.values())
+      .map(comment => readComment(doc, script, comment))
+      .sort(byCreation)
+  };
+};
+
+// Local edits
+const longestCommonIds = (a: string[], b: string[]): Set<string> => {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const getFields = (element: ScriptElement): ElementFields => ({
+  type: element.type,
+  formatting: element.formatting,
+  timing: element.timing,
+  metadata: element.metadata,
+  locked: element.locked
+});
+
+// Operations that turn the document into `next`. They are applied to `doc` as they are made;
+// ones `isAllowed` refuses are neither applied nor returned.
+export const createOperations = (
+  doc: ScriptDocument,
+  actor: string,
+  next: Script,
+  isAllowed: (op: CrdtOperation) => boolean = () => true
+): CrdtOperation[] => {
+  const ops: CrdtOperation[] = [];
+  const emit = (body: OperationBody, charCount = 0): void => {
+    const stamp = { clock: doc.clock + 1, actor };
+    const op = { ...body, id: `${actor}:${stamp.clock}`, stamp } as CrdtOperation;
+    doc.clock += Math.max(1, charCount);
+    if (!isAllowed(op)) return;
+    applyOperation(doc, op);
+    ops.push(op);
+  };
+  const newChars = (text: string): InsertedChar[] => {
+    return Array.from(text).map((value, i) => ({ id: charId({ clock: doc.clock + 1 + i, actor }), value }));
+  };
+
+  // Script fields
+  (['title', 'description'] as const).forEach(field => {
+    if (!doc[field] ? next[field] : doc[field]!.value !== next[field]) {
+      emit({ kind: 'set-script-field', field, value: next[field] });
+    }
+  });
+
+  // Review; a request for changes moves the status itself, so it goes before the status
+  if (next.review) {
+    const { id, requestedBy, requestedAt, reviewerIds } = next.review;
+    const request: ReviewRequest = { id, requestedBy, requestedAt, reviewerIds };
+    if (doc.review?.value.id !== request.id) emit({ kind: 'request-review', review: request });
+
+    next.review.signoffs.forEach(signoff => {
+      const shared = doc.signoffs.get(`${request.id}:${signoff.reviewerId}`)?.value;
+      if (!shared || !sameValue(shared, signoff)) emit({ kind: 'sign-off', reviewId: request.id, signoff });
+    });
+  }
+
+  if (doc.status?.value !== next.status) emit({ kind: 'set-status', status: next.status });
+
+  // Comments
+  next.comments.forEach(comment => {
+    if (!doc.comments.has(comment.id)) {
+      emit({ kind: 'add-comment', comment: { ...comment, resolved: false, replies: [], suggestion: comment.suggestion && { ...comment.suggestion, status: 'pending' } } });
+    }
+
+    const shared = doc.replies.get(comment.id);
+    (comment.replies ?? []).forEach(reply => {
+      if (!shared?.has(reply.id)) emit({ kind: 'add-reply', commentId: comment.id, reply });
+    });
+
+    const suggestion = comment.suggestion;
+    if (suggestion && suggestion.status !== 'pending' && doc.decisions.get(comment.id)?.value.status !== suggestion.status) {
+      emit({
+        kind: 'decide-suggestion',
+        commentId: comment.id,
+        decision: { status: suggestion.status, decidedBy: suggestion.decidedBy ?? actor, decidedAt: suggestion.decidedAt ?? new Date() }
+      });
+    }
+
+    if (comment.resolved && !doc.resolvedComments.has(comment.id)) emit({ kind: 'resolve-comment', commentId: comment.id });
+  });
+
+  // Elements
+  const desired = [...next.content].sort((a, b) => a.order - b.order);
+  const desiredIds = new Set(desired.map(element => element.id));
+
+  visibleElements(doc).forEach(element => {
+    if (!desiredIds.has(element.id)) emit({ kind: 'delete-element', elementId: element.id });
+  });
+
+  const current = visibleElements(doc).map(element => element.id);
+  const stay = longestCommonIds(current, desired.map(element => element.id));
+
+  desired.forEach((element, index) => {
+    const state = doc.elements.get(element.id);
+    const visible = state && !state.deleted.value;
+    if (visible && stay.has(element.id)) return;
+
+    // Between the element now before it and the next one that keeps its place
+    const previous = index > 0 ? doc.elements.get(desired[index - 1].id)?.position.value ?? null : null;
+    const following = desired.slice(index + 1).find(item => stay.has(item.id));
+    const position = positionBetween(previous, following ? doc.elements.get(following.id)!.position.value : null);
+
+    if (visible) {
+      emit({ kind: 'move-element', elementId: element.id, position });
+    } else if (state) {
+      emit({ kind: 'insert-element', elementId: element.id, position, fields: getFields(element), text: [] });
+    } else {
+      const text = newChars(element.content);
+      emit({ kind: 'insert-element', elementId: element.id, position, fields: getFields(element), text }, text.length);
+    }
+  });
+
+  desired.forEach(element => {
+    const state = doc.elements.get(element.id);
+    if (!state || state.deleted.value) return;
+    const fields = getFields(element);
+
+    FIELD_NAMES.forEach(field => {
+      if (!sameValue(state.fields[field].value, fields[field])) {
+        emit({ kind: 'set-element-field', elementId: element.id, field, value: fields[field] });
+      }
+    });
+
+    // Text: replace what lies between the common prefix and suffix
+    const chars = visibleChars(state);
+    const before = chars.map(char => char.value);
+    const after = Array.from(element.content);
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix && suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix++;
+
+    const removed = chars.slice(prefix, chars.length - suffix);
+    if (removed.length > 0) emit({ kind: 'delete-text', elementId: element.id, charIds: removed.map(char => char.id) });
+
+    const inserted = after.slice(prefix, after.length - suffix).join('');
+    if (inserted) {
+      const text = newChars(inserted);
+      emit({ kind: 'insert-text', elementId: element.id, after: prefix > 0 ? chars[prefix - 1].id : null, chars: text }, text.length);
+    }
+  });
+
+  return ops;
+};
+
+// Permissions
+// The relay makes the same decision in server/collabRelay.js; keep the two in step
+export const getRequiredPermission = (op: CrdtOperation): Permission['action'] => {
+  switch (op.kind) {
+    case 'add-comment':
+    case 'resolve-comment':
+    case 'add-reply':
+      return 'comment';
+    case 'set-status':
+      return op.status === 'approved' || op.status === 'final' ? 'approve' : 'write';
+    case 'sign-off':
+      return 'approve';
+    default:
+      return 'write';
+  }
+};
+
+export const toRoomMembers = (collaborators: Collaborator[]): RoomMember[] => collaborators.map(collaborator => ({
+  id: collaborator.id,
+  name: collaborator.name,
+  email: collaborator.email,
+  role: collaborator.role,
+  actions: collaborator.permissions.filter(permission => permission.granted).map(permission => permission.action),
+  ...(collaborator.inviteCode ? { inviteCode: collaborator.inviteCode } : {})
+}));
+
+// Rooms nobody has been invited to are open; otherwise the actor must hold the permission
+export const checkPermission = (op: CrdtOperation, members: RoomMember[]): RejectedOperation | null => {
+  if (members.length === 0) return null;
+
+  const action = getRequiredPermission(op);
+  const member = members.find(item => item.id === op.stamp.actor);
+  // Reviewers sign for themselves only
+  const allowed = member?.actions.includes(action) && (op.kind !== 'sign-off' || op.signoff.reviewerId === op.stamp.actor);
+  return allowed ? null : { operation: op, actorName: member?.name ?? op.stamp.actor, missing: action };
+};
@@ -1,4 +1,34 @@
 import { Script, ScriptElement, StoryboardFrame, VoiceoverSuggestion, TranscriptionSegment, ScriptAnalysis } from '../types/script';
+import { transcribeAudio } from './audioProcessor';
+import { loadTranscriptionSettings } from './transcriptionProviders';
+
+export const createNewScript = (title: string, description: string): Script => ({
+  id: `script-${Date.now()}`,
+  title,
+  description,
+  type: 'documentary',
+  format: 'custom',
+  content: [],
+  metadata: {
+    genre: 'Documentary',
+    targetDuration: 0,
+    estimatedDuration: 0,
+    wordCount: 0,
+    pageCount: 0,
+    readabilityScore: 0,
+    pacingScore: 0,
+    emotionalArc: [],
+    themes: [],
+    characters: [],
+    locations: []
+  },
+  versions: [],
+  collaborators: [],
+  comments: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  status: 'draft'
+});
 
 export const convertStoryboardToScript = async (frames: StoryboardFrame[]): Promise<Script> => {
   await new Promise(resolve => setTimeout(resolve, 1500));
@@ -165,37 +195,18 @@ const estimateVoiceoverDuration = (text: string): number => {
 };
 
 export const processTranscription = async (audioFile: File): Promise<TranscriptionSegment[]> => {
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Simulate transcription processing
-  const mockSegments: TranscriptionSegment[] = [
-    {
-      id: 'seg-1',
-      startTime: 0,
-      endTime: 5.2,
-      speaker: 'Interviewer',
-      text: 'Can you tell me about your experience growing up in this neighborhood?',
-      confidence: 0.95
-    },
-    {
-      id: 'seg-2',
-      startTime: 5.8,
-      endTime: 12.4,
-      speaker: 'Subject',
-      text: 'Well, it was a very different place back then. The community was tight-knit.',
-      confidence: 0.92
-    },
-    {
-      id: 'seg-3',
-      startTime: 13.1,
-      endTime: 18.7,
-      speaker: 'Subject',
-      text: 'Everyone knew each other, and we looked out for one another.',
-      confidence: 0.89
-    }
-  ];
-  
-  return mockSegments;
+  const { options } = loadTranscriptionSettings();
+  const { segments, speakers } = await transcribeAudio(audioFile, options);
+  const speakerNames = new Map(speakers.map(speaker => [speaker.id, speaker.name]));
+  
+  return segments.map(segment => ({
+    id: segment.id,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    speaker: segment.speakerId ? speakerNames.get(segment.speakerId) : undefined,
+    text: segment.text,
+    confidence: segment.confidence
+  }));
 };
 
 export const generateSceneTransitions = (elements: ScriptElement[]): string[] => {
@@ -0,0 +1,161 @@
+import { ElementType, ScriptElement } from '../types/script';
+
+// Two-column audio/visual layout
+// Documentary scripts pair what is on screen (left) with what is heard (right). Scene headings span
+// both columns; screenplay elements without an obvious side go with the audio.
+
+export type AvColumn = 'video' | 'audio';
+
+export interface AvRow {
+  id: string;
+  heading?: ScriptElement;
+  video: ScriptElement[];
+  audio: ScriptElement[];
+  startTime: number; // Seconds from the top of the script
+  duration: number;
+}
+
+export interface AvDropTarget {
+  rowId: string;
+  beforeId?: string; // Appends to the row's column when omitted
+}
+
+const VIDEO_TYPES: ElementType[] = ['action', 'b-roll', 'title-card', 'lower-third', 'transition'];
+
+export const getAvColumn = (type: ElementType): AvColumn | null => {
+  if (type === 'scene-heading') return null;
+  return VIDEO_TYPES.includes(type) ? 'video' : 'audio';
+};
+
+export const getElementDuration = (element: ScriptElement): number => {
+  return element.timing?.estimatedDuration ?? element.timing?.duration ?? 0;
+};
+
+const sumDurations = (elements: ScriptElement[]): number => {
+  return elements.reduce((total, element) => total + getElementDuration(element), 0);
+};
+
+// Elements edited in the two-column view carry the row they sit in. Without one, a row is a run of
+// visuals followed by the audio that plays over them, and the next visual after audio starts a new row.
+export const buildAvRows = (elements: ScriptElement[]): AvRow[] => {
+  const rows: AvRow[] = [];
+  let current: AvRow | null = null;
+  let currentKey: string | undefined;
+
+  [...elements].sort((a, b) => a.order - b.order).forEach(element => {
+    const column = getAvColumn(element.type);
+
+    if (column === null) {
+      current = null;
+      currentKey = undefined;
+      rows.push({ id: element.id, heading: element, video: [], audio: [], startTime: 0, duration: 0 });
+      return;
+    }
+
+    const key = element.metadata?.avRowId;
+    const startsRow = !current || (key || currentKey
+      ? key !== currentKey
+      : column === 'video' && current.audio.length > 0);
+
+    if (!current || startsRow) {
+      // A row ID seen before means the row was split in the linear view; the second part becomes its own row
+      const id = key && !rows.some(row => row.id === key) ? key : element.id;
+      current = { id, video: [], audio: [], startTime: 0, duration: 0 };
+      currentKey = key;
+      rows.push(current);
+    }
+    current[column].push(element);
+  });
+
+  let time = 0;
+  rows.forEach(row => {
+    row.startTime = time;
+    row.duration = Math.max(sumDurations(row.video), sumDurations(row.audio));
+    time += row.duration;
+  });
+
+  return rows;
+};
+
+// Positive when the audio runs longer than the picture under it
+export const getAvRowDrift = (row: AvRow): number => sumDurations(row.audio) - sumDurations(row.video);
+
+// Writes rows back as the linear script: each row's visuals, then its audio, with row membership recorded
+export const flattenAvRows = (rows: AvRow[]): ScriptElement[] => {
+  const elements = rows.flatMap(row => {
+    if (row.heading) return [row.heading];
+    return [...row.video, ...row.audio].map(element => ({
+      ...element,
+      metadata: { ...element.metadata, avRowId: row.id }
+    }));
+  });
+
+  return elements.map((element, index) => ({ ...element, order: index }));
+};
+
+export const moveInAvColumn = (elements: ScriptElement[], elementId: string, target: AvDropTarget): ScriptElement[] => {
+  const rows = buildAvRows(elements);
+  const element = elements.find(item => item.id === elementId);
+  const column = element ? getAvColumn(element.type) : null;
+  const targetRow = rows.find(row => row.id === target.rowId);
+  if (!element || !column || !targetRow || targetRow.heading || target.beforeId === elementId) return elements;
+
+  rows.forEach(row => {
+    row[column] = row[column].filter(item => item.id !== elementId);
+  });
+
+  const insertAt = target.beforeId ? targetRow[column].findIndex(item => item.id === target.beforeId) : -1;
+  if (insertAt === -1) {
+    targetRow[column].push(element);
+  } else {
+    targetRow[column].splice(insertAt, 0, element);
+  }
+
+  return flattenAvRows(rows.filter(row => row.heading || row.video.length > 0 || row.audio.length > 0));
+};
+
+export const insertInAvRow = (elements: ScriptElement[], rowId: string, element: ScriptElement): ScriptElement[] => {
+  const rows = buildAvRows(elements);
+  const column = getAvColumn(element.type);
+  const row = rows.find(item => item.id === rowId);
+  if (!column || !row || row.heading) return elements;
+
+  row[column].push(element);
+  return flattenAvRows(rows);
+};
+
+// Starts a new row after the given one, or at the end of the script
+export const insertAvRow = (elements: ScriptElement[], element: ScriptElement, afterRowId?: string): ScriptElement[] => {
+  const rows = buildAvRows(elements);
+  const column = getAvColumn(element.type);
+  if (!column) return elements;
+
+  const row: AvRow = { id: element.id, video: [], audio: [], startTime: 0, duration: 0 };
+  row[column].push(element);
+
+  const index = afterRowId ? rows.findIndex(item => item.id === afterRowId) : -1;
+  rows.splice(index === -1 ? rows.length : index + 1, 0, row);
+  return flattenAvRows(rows);
+};
+
+// Stretches or trims the row's last visual so picture and sound end together
+export const syncAvRowTiming = (elements: ScriptElement[], rowId: string): ScriptElement[] => {
+  const row = buildAvRows(elements).find(item => item.id === rowId);
+  if (!row || row.video.length === 0 || row.audio.length === 0) return elements;
+
+  const last = row.video[row.video.length - 1];
+  const duration = Math.max(1, getElementDuration(last) + getAvRowDrift(row));
+
+  return elements.map(element => element.id === last.id
+    ? { ...element, timing: { ...element.timing, estimatedDuration: duration } }
+    : element
+  );
+};
+
+export const formatTimecode = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, minutes, secs].map(value => value.toString().padStart(2, '0')).join(':');
+};
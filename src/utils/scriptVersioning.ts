@@ -0,0 +1,306 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ElementDiffRow,
+  Script,
+  ScriptBranch,
+  ScriptElement,
+  ScriptVersion,
+  VersionChange,
+  WordDiff
+} from '../types/script';
+
+export const MAIN_BRANCH = 'main';
+
+interface SaveVersionOptions {
+  description: string;
+  author: string;
+  notes?: string;
+}
+
+// Diffing
+const byOrder = (elements: ScriptElement[]): ScriptElement[] => [...elements].sort((a, b) => a.order - b.order);
+
+// Longest common subsequence of two sequences, as index pairs
+const longestCommonSubsequence = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [number, number][] => {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+const isModified = (before: ScriptElement, after: ScriptElement): boolean => {
+  return before.content !== after.content ||
+    before.type !== after.type ||
+    JSON.stringify(before.formatting) !== JSON.stringify(after.formatting) ||
+    JSON.stringify(before.timing ?? null) !== JSON.stringify(after.timing ?? null);
+};
+
+// Elements that kept their ID but not their place relative to the others
+const findMovedIds = (before: ScriptElement[], after: ScriptElement[]): Set<string> => {
+  const afterIds = new Set(after.map(element => element.id));
+  const beforeIds = new Set(before.map(element => element.id));
+  const common = before.map(element => element.id).filter(id => afterIds.has(id));
+  const reordered = after.map(element => element.id).filter(id => beforeIds.has(id));
+  const stayed = new Set(longestCommonSubsequence(common, reordered, (x, y) => x === y).map(([i]) => common[i]));
+  return new Set(common.filter(id => !stayed.has(id)));
+};
+
+export const diffElements = (before: ScriptElement[], after: ScriptElement[]): VersionChange[] => {
+  const oldElements = byOrder(before);
+  const newElements = byOrder(after);
+  const oldById = new Map(oldElements.map((element, index) => [element.id, { element, index }]));
+  const newById = new Map(newElements.map((element, index) => [element.id, { element, index }]));
+  const moved = findMovedIds(oldElements, newElements);
+  const changes: VersionChange[] = [];
+
+  oldElements.forEach((element, index) => {
+    if (!newById.has(element.id)) {
+      changes.push({ elementId: element.id, type: 'deleted', elementType: element.type, oldContent: element.content, oldIndex: index });
+    }
+  });
+
+  newElements.forEach((element, index) => {
+    const previous = oldById.get(element.id);
+    if (!previous) {
+      changes.push({ elementId: element.id, type: 'added', elementType: element.type, newContent: element.content, newIndex: index });
+      return;
+    }
+
+    if (isModified(previous.element, element)) {
+      changes.push({
+        elementId: element.id,
+        type: 'modified',
+        elementType: element.type,
+        oldContent: previous.element.content,
+        newContent: element.content,
+        oldIndex: previous.index,
+        newIndex: index
+      });
+    }
+    if (moved.has(element.id)) {
+      changes.push({
+        elementId: element.id,
+        type: 'moved',
+        elementType: element.type,
+        newContent: element.content,
+        oldIndex: previous.index,
+        newIndex: index
+      });
+    }
+  });
+
+  return changes;
+};
+
+export const diffWords = (before: string, after: string): WordDiff[] => {
+  const oldWords = before.split(/(\s+)/).filter(Boolean);
+  const newWords = after.split(/(\s+)/).filter(Boolean);
+  const pairs = longestCommonSubsequence(oldWords, newWords, (x, y) => x === y);
+  const parts: WordDiff[] = [];
+  const push = (type: WordDiff['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  [...pairs, [oldWords.length, newWords.length] as [number, number]].forEach(([oldIndex, newIndex]) => {
+    while (i < oldIndex) push('removed', oldWords[i++]);
+    while (j < newIndex) push('added', newWords[j++]);
+    if (oldIndex < oldWords.length) {
+      push('equal', oldWords[oldIndex]);
+      i++;
+      j++;
+    }
+  });
+
+  return parts;
+};
+
+// Pairs up both sides for a side-by-side view, in the newer order with deletions where they used to be
+export const alignVersions = (before: ScriptElement[], after: ScriptElement[]): ElementDiffRow[] => {
+  const oldElements = byOrder(before);
+  const newElements = byOrder(after);
+  const oldById = new Map(oldElements.map(element => [element.id, element]));
+  const newIds = new Set(newElements.map(element => element.id));
+  const moved = findMovedIds(oldElements, newElements);
+
+  const rows: ElementDiffRow[] = newElements.map(element => {
+    const previous = oldById.get(element.id);
+    if (!previous) return { id: element.id, status: 'added', after: element };
+
+    const modified = isModified(previous, element);
+    const status = moved.has(element.id)
+      ? (modified ? 'modified-moved' : 'moved')
+      : (modified ? 'modified' : 'unchanged');
+    return { id: element.id, status, before: previous, after: element };
+  });
+
+  oldElements.forEach((element, index) => {
+    if (newIds.has(element.id)) return;
+
+    // After the nearest earlier element already placed, or at the top
+    const anchor = oldElements.slice(0, index).reverse().find(item => rows.some(row => row.id === item.id));
+    const at = anchor ? rows.findIndex(row => row.id === anchor.id) + 1 : 0;
+    rows.splice(at, 0, { id: element.id, status: 'deleted', before: element });
+  });
+
+  return rows;
+};
+
+// Makes one element in `content` match its state in `source`: brings it in, updates it, moves it or removes it.
+// Cherry-picking a change and reverting one are both this, with a different source.
+export const takeElement = (content: ScriptElement[], elementId: string, source: ScriptElement[]): ScriptElement[] => {
+  const ordered = byOrder(source);
+  const sourceIndex = ordered.findIndex(element => element.id === elementId);
+  const without = byOrder(content).filter(element => element.id !== elementId);
+
+  if (sourceIndex === -1) {
+    return without.map((element, index) => ({ ...element, order: index }));
+  }
+
+  const present = new Set(without.map(element => element.id));
+  const anchor = ordered.slice(0, sourceIndex).reverse().find(element => present.has(element.id));
+  const at = anchor ? without.findIndex(element => element.id === anchor.id) + 1 : 0;
+  without.splice(at, 0, ordered[sourceIndex]);
+
+  return without.map((element, index) => ({ ...element, order: index }));
+};
+
+// Branches & versions
+export const getBranches = (script: Script): ScriptBranch[] => {
+  if (script.branches?.length) return script.branches;
+
+  const mainVersions = script.versions.filter(version => (version.branch ?? MAIN_BRANCH) === MAIN_BRANCH);
+  return [{
+    name: MAIN_BRANCH,
+    headVersionId: mainVersions[mainVersions.length - 1]?.id ?? null,
+    baseVersionId: null,
+    createdAt: script.createdAt
+  }];
+};
+
+export const getCurrentBranch = (script: Script): ScriptBranch => {
+  const branches = getBranches(script);
+  return branches.find(branch => branch.name === (script.currentBranch ?? MAIN_BRANCH)) ?? branches[0];
+};
+
+export const getVersion = (script: Script, versionId: string | null): ScriptVersion | null => {
+  return versionId ? script.versions.find(version => version.id === versionId) ?? null : null;
+};
+
+// Versions reachable from a branch head, newest first
+export const getBranchHistory = (script: Script, branchName: string): ScriptVersion[] => {
+  const branch = getBranches(script).find(item => item.name === branchName);
+  const history: ScriptVersion[] = [];
+  let version = getVersion(script, branch?.headVersionId ?? null);
+
+  while (version) {
+    history.push(version);
+    version = getVersion(script, version.parentId ?? null);
+  }
+  return history;
+};
+
+export const hasUnsavedChanges = (script: Script): boolean => {
+  const head = getVersion(script, getCurrentBranch(script).headVersionId);
+  return diffElements(head?.snapshot ?? [], script.content).length > 0;
+};
+
+export const saveVersion = (script: Script, options: SaveVersionOptions): Script => {
+  const branch = getCurrentBranch(script);
+  const parent = getVersion(script, branch.headVersionId);
+  const changes = diffElements(parent?.snapshot ?? [], script.content);
+  if (parent && changes.length === 0) return script;
+
+  const number = getBranchHistory(script, branch.name).filter(version => (version.branch ?? MAIN_BRANCH) === branch.name).length + 1;
+  const version: ScriptVersion = {
+    id: uuidv4(),
+    version: branch.name === MAIN_BRANCH ? `v${number}` : `${branch.name} v${number}`,
+    description: options.description,
+    changes,
+    createdBy: options.author,
+    createdAt: new Date(),
+    notes: options.notes,
+    branch: branch.name,
+    parentId: parent?.id,
+    snapshot: byOrder(script.content)
+  };
+
+  return {
+    ...script,
+    versions: [...script.versions, version],
+    branches: getBranches(script).map(item => item.name === branch.name ? { ...item, headVersionId: version.id } : item),
+    currentBranch: branch.name,
+    updatedAt: new Date()
+  };
+};
+
+export const restoreVersion = (script: Script, versionId: string, author: string): Script => {
+  const version = getVersion(script, versionId);
+  if (!version?.snapshot) throw new Error('This version has no saved content to restore.');
+
+  return saveVersion(
+    { ...script, content: version.snapshot.map(element => ({ ...element })) },
+    { description: `Restored ${version.version}`, author }
+  );
+};
+
+export const createBranch = (script: Script, name: string, author: string): Script => {
+  const branchName = name.trim();
+  if (!branchName) throw new Error('Branch name is required.');
+  if (getBranches(script).some(branch => branch.name === branchName)) {
+    throw new Error(`A branch named "${branchName}" already exists.`);
+  }
+
+  // Work in progress stays on the branch it was written on
+  const saved = saveVersion(script, { description: `Saved before branching to ${branchName}`, author });
+  const base = getCurrentBranch(saved).headVersionId;
+
+  return {
+    ...saved,
+    branches: [...getBranches(saved), { name: branchName, headVersionId: base, baseVersionId: base, createdAt: new Date() }],
+    currentBranch: branchName,
+    updatedAt: new Date()
+  };
+};
+
+export const switchBranch = (script: Script, name: string, author: string): Script => {
+  const target = getBranches(script).find(branch => branch.name === name);
+  if (!target) throw new Error(`Branch "${name}" does not exist.`);
+  if (target.name === getCurrentBranch(script).name) return script;
+
+  const saved = saveVersion(script, { description: `Saved before switching to ${name}`, author });
+  const head = getVersion(saved, target.headVersionId);
+
+  return {
+    ...saved,
+    content: head?.snapshot?.map(element => ({ ...element })) ?? [],
+    currentBranch: name,
+    updatedAt: new Date()
+  };
+};
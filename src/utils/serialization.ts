@@ -0,0 +1,48 @@
+// Typed JSON for persisted data
+// JSON.stringify turns Dates into strings that JSON.parse leaves as strings. Dates are written as
+// { "$date": "<ISO>" } instead, so they come back as Date objects.
+
+const DATE_TAG = '$date';
+
+// Exactly what Date.prototype.toJSON produces
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+const encodeDates = (value: unknown): unknown => {
+  if (value instanceof Date) return { [DATE_TAG]: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeDates);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, encodeDates(entry)]));
+  }
+  return value;
+};
+
+export const stringifyWithDates = (value: unknown, space?: number): string => {
+  return JSON.stringify(encodeDates(value), null, space);
+};
+
+export const parseWithDates = <T>(json: string): T => {
+  return JSON.parse(json, (_key, value) => {
+    if (isPlainObject(value) && Object.keys(value).length === 1 && typeof value[DATE_TAG] === 'string') {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  }) as T;
+};
+
+// Data saved as plain JSON before tagging existed has Dates as ISO strings; turn them back into Dates
+export const reviveLegacyDates = <T>(value: T): T => {
+  const revive = (entry: unknown): unknown => {
+    if (typeof entry === 'string' && ISO_DATE_PATTERN.test(entry)) return new Date(entry);
+    if (Array.isArray(entry)) return entry.map(revive);
+    if (isPlainObject(entry)) {
+      return Object.fromEntries(Object.entries(entry).map(([key, item]) => [key, revive(item)]));
+    }
+    return entry;
+  };
+
+  return revive(value) as T;
+};
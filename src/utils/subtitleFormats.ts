@@ -0,0 +1,559 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Speaker,
+  SubtitleCueSource,
+  SubtitleFormat,
+  SubtitleIssue,
+  SubtitleOptions,
+  SubtitleSource,
+  TranscriptionSegment
+} from '../types/audio';
+import { estimateWordTimings } from './transcriptAlignment';
+import { CaptionLineOptions, breakCaptionLines } from './captionLineBreaks';
+import { createSpeaker } from './transcriptionProviders';
+
+export interface SubtitleImport {
+  format: SubtitleFormat;
+  segments: TranscriptionSegment[];
+  speakers: Speaker[];
+  source: SubtitleSource;
+  warnings: string[];
+}
+
+type ParsedCue = Omit<SubtitleCueSource, 'text' | 'lines' | 'speakerName'>;
+
+interface ParsedFile {
+  header: string;
+  footer: string;
+  cues: ParsedCue[];
+  warnings: string[];
+}
+
+// Format detection
+export const detectSubtitleFormat = (content: string, fileName = ''): SubtitleFormat => {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(start)) return 'ass';
+
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'ass' || extension === 'ssa') return 'ass';
+  return 'srt';
+};
+
+// Timestamps
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})[ \t]+-->[ \t]+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(?:[ \t]+(.*))?$/;
+
+// SRT and VTT times are [HH:]MM:SS,mmm (VTT uses a dot); fractions shorter than three digits are tolerated
+const parseCueTime = (timestamp: string): number => {
+  const match = timestamp.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) return NaN;
+  return Number(match[1] ?? 0) * 3600 + Number(match[2]) * 60 + Number(match[3]) + Number(match[4].padEnd(3, '0')) / 1000;
+};
+
+const formatCueTime = (seconds: number, format: SubtitleFormat): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  const clock = [hours, minutes, secs].map(value => value.toString().padStart(2, '0')).join(':');
+  return `${clock}${format === 'vtt' ? '.' : ','}${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+// ASS times are H:MM:SS.cc
+const parseAssTime = (timestamp: string): number => {
+  const match = timestamp.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+  const fraction = match[4] ? Number(`0.${match[4]}`) : 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + fraction;
+};
+
+const formatAssTime = (seconds: number): string => {
+  const centiseconds = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// Block parsing
+// Splits the body into blank-line separated blocks and returns the whitespace after the last one
+const splitBlocks = (content: string): { blocks: string[]; trailing: string } => {
+  const trailing = content.match(/\s*$/)?.[0] ?? '';
+  const body = content.slice(0, content.length - trailing.length).replace(/^\n+/, '');
+  return { blocks: body ? body.split(/\n[ \t]*\n\s*/) : [], trailing };
+};
+
+// Reads an optional identifier line and the timing line at the top of a cue block
+const parseCueBlock = (block: string): ParsedCue | null => {
+  const lines = block.split('\n');
+  const timingIndex = lines.findIndex((line, i) => i < 2 && TIMING_PATTERN.test(line.trim()));
+  if (timingIndex === -1) return null;
+
+  const timing = lines[timingIndex];
+  const match = timing.trim().match(TIMING_PATTERN);
+  if (!match) return null;
+
+  return {
+    identifier: timingIndex === 1 ? lines[0] : undefined,
+    timing,
+    startTime: parseCueTime(match[1]),
+    endTime: parseCueTime(match[2]),
+    settings: match[3]?.trim() || undefined,
+    markup: lines.slice(timingIndex + 1).join('\n')
+  };
+};
+
+const parseSrt = (content: string): ParsedFile => {
+  const { blocks, trailing } = splitBlocks(content);
+  const cues: ParsedCue[] = [];
+  const warnings: string[] = [];
+
+  blocks.forEach((block, i) => {
+    const cue = parseCueBlock(block);
+    if (cue) {
+      cues.push(cue);
+    } else {
+      warnings.push(`Skipped block ${i + 1}: no timing line`);
+    }
+  });
+
+  return { header: '', footer: trailing, cues, warnings };
+};
+
+const parseVtt = (content: string): ParsedFile => {
+  const { blocks, trailing } = splitBlocks(content);
+  const headerBlocks = blocks.length > 0 ? [blocks[0]] : [];
+  const cues: ParsedCue[] = [];
+  const warnings: string[] = [];
+  let comments: string[] = [];
+
+  blocks.slice(1).forEach((block, i) => {
+    if (/^NOTE(\s|$)/.test(block)) {
+      comments.push(block);
+      return;
+    }
+
+    // Style sheets and regions are only valid before the first cue
+    if (/^(STYLE|REGION)(\s|$)/.test(block) && cues.length === 0) {
+      headerBlocks.push(...comments, block);
+      comments = [];
+      return;
+    }
+
+    const cue = parseCueBlock(block);
+    if (!cue) {
+      warnings.push(`Skipped block ${i + 2}: no timing line`);
+      return;
+    }
+
+    cues.push({ ...cue, comments: comments.length > 0 ? comments.join('\n\n') : undefined });
+    comments = [];
+  });
+
+  // Notes after the last cue belong to the file
+  const footer = comments.length > 0 ? `\n\n${comments.join('\n\n')}${trailing}` : trailing;
+  return { header: headerBlocks.join('\n\n'), footer, cues, warnings };
+};
+
+const getAssEventFormat = (header: string): string[] => {
+  const formatLine = header
+    .split('\n')
+    .reverse()
+    .find(line => /^Format:/i.test(line));
+  const fields = formatLine?.slice(formatLine.indexOf(':') + 1).split(',').map(field => field.trim());
+  return fields && fields.includes('Text')
+    ? fields
+    : ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+};
+
+const parseAss = (content: string): ParsedFile => {
+  const lines = content.split('\n');
+  const warnings: string[] = [];
+  const eventsIndex = lines.findIndex(line => /^\[Events\]/i.test(line.trim()));
+  if (eventsIndex === -1) {
+    return { header: content, footer: '', cues: [], warnings: ['No [Events] section found'] };
+  }
+
+  // The header runs up to and including the events Format line
+  let bodyStart = eventsIndex + 1;
+  while (bodyStart < lines.length && !/^Format:/i.test(lines[bodyStart])) bodyStart++;
+  bodyStart = Math.min(lines.length, bodyStart + 1);
+
+  const header = lines.slice(0, bodyStart).join('\n');
+  const format = getAssEventFormat(header);
+  const cues: ParsedCue[] = [];
+  let comments: string[] = [];
+  let lastEventLine = bodyStart - 1;
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\[.+\]\s*$/.test(line.trim())) break; // Fonts, graphics and other sections after the events
+
+    if (/^Comment:/i.test(line)) {
+      comments.push(line); // Comments after the last dialogue stay in the footer
+      continue;
+    }
+    if (!/^Dialogue:/i.test(line)) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = line.slice(line.indexOf(':') + 1).replace(/^ /, '').split(',');
+    const text = values.splice(format.length - 1).join(',');
+    const fields: Record<string, string> = {};
+    format.slice(0, -1).forEach((name, index) => {
+      fields[name] = values[index] ?? '';
+    });
+
+    const startTime = parseAssTime(fields.Start ?? '');
+    const endTime = parseAssTime(fields.End ?? '');
+    if (Number.isNaN(startTime) || Number.isNaN(endTime)) {
+      warnings.push(`Skipped line ${i + 1}: unreadable times`);
+      continue;
+    }
+
+    const { Start, End, ...rest } = fields;
+    cues.push({
+      timing: `${Start},${End}`,
+      startTime,
+      endTime,
+      fields: rest,
+      markup: text,
+      comments: comments.length > 0 ? comments.join('\n') : undefined
+    });
+    comments = [];
+    lastEventLine = i;
+  }
+
+  // Keeps the final line break too, so an untouched file ends the way it came in
+  const footer = lines.slice(lastEventLine + 1);
+  return { header, footer: footer.length > 0 ? `\n${footer.join('\n')}` : '', cues, warnings };
+};
+
+// Plain text
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': ''
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(amp|lt|gt|quot|apos|nbsp|lrm|rlm);/g, entity => ENTITIES[entity]);
+};
+
+const getMarkupLines = (markup: string, format: SubtitleFormat): string[] => {
+  if (format === 'ass') {
+    return markup
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\h/g, ' ')
+      .split(/\\[Nn]/)
+      .map(line => line.trim());
+  }
+
+  return markup
+    .split('\n')
+    .map(line => decodeEntities(line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '')).trim());
+};
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Speaker labels
+// <v Name> voice spans, "[Name]:" or "[Name]" prefixes, ALL-CAPS "NAME:" prefixes and "Speaker 2:" prefixes
+const VOICE_PATTERN = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+const LABEL_PATTERN = /^(?:\[([^\]]{1,40})\]:?|(Speaker \d+|[A-Z][A-Z0-9'.-]+(?: [A-Z][A-Z0-9'.-]*){0,2}):)\s+/;
+
+const extractSpeaker = (
+  cue: ParsedCue,
+  format: SubtitleFormat,
+  text: string
+): { speakerName?: string; text: string } => {
+  const fieldName = format === 'ass' ? cue.fields?.Name?.trim() : undefined;
+  const voiceName = format === 'vtt' ? cue.markup.match(VOICE_PATTERN)?.[1].trim() : undefined;
+  const label = text.match(LABEL_PATTERN);
+
+  if (label) {
+    return { speakerName: fieldName || voiceName || (label[1] ?? label[2]).trim(), text: text.slice(label[0].length) };
+  }
+  return { speakerName: fieldName || voiceName || undefined, text };
+};
+
+// Import
+export const importSubtitles = (
+  content: string,
+  fileName: string,
+  existingSpeakers: Speaker[] = []
+): SubtitleImport => {
+  const byteOrderMark = content.startsWith('\uFEFF');
+  const raw = byteOrderMark ? content.slice(1) : content;
+  const lineEnding = raw.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = raw.replace(/\r\n?/g, '\n');
+  const format = detectSubtitleFormat(normalized, fileName);
+
+  const parsed = format === 'vtt' ? parseVtt(normalized) : format === 'ass' ? parseAss(normalized) : parseSrt(normalized);
+  const speakers: Speaker[] = [];
+
+  const getSpeaker = (name: string): Speaker => {
+    const key = name.toLowerCase();
+    let speaker = speakers.find(s => s.name.toLowerCase() === key);
+    if (!speaker) {
+      const existing = existingSpeakers.find(s => s.name.toLowerCase() === key);
+      speaker = existing
+        ? { ...existing, segments: [], totalDuration: 0 }
+        : createSpeaker(name, existingSpeakers.length + speakers.length);
+      speakers.push(speaker);
+    }
+    return speaker;
+  };
+
+  const segments = parsed.cues.map((cue): TranscriptionSegment => {
+    const lines = getMarkupLines(cue.markup, format);
+    const { speakerName, text } = extractSpeaker(cue, format, collapseWhitespace(lines.join(' ')));
+    const speaker = speakerName ? getSpeaker(speakerName) : undefined;
+    const id = uuidv4();
+
+    if (speaker) {
+      speaker.segments.push(id);
+      speaker.totalDuration += Math.max(0, cue.endTime - cue.startTime);
+    }
+
+    return {
+      id,
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text,
+      speakerId: speaker?.id,
+      confidence: 1,
+      words: estimateWordTimings(text, cue.startTime, cue.endTime, 1),
+      edited: false,
+      subtitle: { ...cue, text, lines: lines.filter(Boolean), speakerName }
+    };
+  });
+
+  return {
+    format,
+    segments,
+    speakers,
+    source: {
+      format,
+      fileName,
+      header: parsed.header,
+      footer: parsed.footer,
+      lineEnding,
+      byteOrderMark
+    },
+    warnings: parsed.warnings
+  };
+};
+
+// Line layout
+// Lines a segment will display with: the imported lines while the text is untouched, otherwise re-broken
+export const getCaptionLines = (segment: TranscriptionSegment, options: CaptionLineOptions): string[] => {
+  const source = segment.subtitle;
+  if (source && source.text === segment.text) return source.lines;
+  return breakCaptionLines(segment.text, options);
+};
+
+// Serialization
+const escapeMarkup = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const buildMarkup = (lines: string[], format: SubtitleFormat, speakerName?: string): string => {
+  switch (format) {
+    case 'vtt':
+      return speakerName
+        ? `<v ${speakerName}>${lines.map(escapeMarkup).join('\n')}</v>`
+        : lines.map(escapeMarkup).join('\n');
+    case 'ass':
+      return lines.join('\\N'); // The speaker goes in the Name field
+    default:
+      return speakerName ? [`[${speakerName}]: ${lines[0] ?? ''}`, ...lines.slice(1)].join('\n') : lines.join('\n');
+  }
+};
+
+// Override blocks at the very start style the whole event, so they can be kept when the text changes.
+// Blocks inside the text belong to words that may no longer exist and are dropped.
+const ASS_LEADING_OVERRIDES = /^(?:\{[^}]*\})+/;
+
+const hasInlineOverrides = (markup: string): boolean =>
+  /\{[^}]*\}/.test(markup.replace(ASS_LEADING_OVERRIDES, ''));
+
+// Edited ASS cues whose inline styling will be lost on export
+export const getDroppedStyling = (segments: TranscriptionSegment[], source: SubtitleSource): TranscriptionSegment[] => {
+  if (source.format !== 'ass') return [];
+  return segments.filter(segment =>
+    segment.subtitle && segment.subtitle.text !== segment.text && hasInlineOverrides(segment.subtitle.markup)
+  );
+};
+
+const isRetimed = (segment: TranscriptionSegment, source: SubtitleCueSource, format: SubtitleFormat): boolean => {
+  // ASS only stores centiseconds, so smaller differences cannot be written anyway
+  const tolerance = format === 'ass' ? 0.005 : 0.0005;
+  return Math.abs(segment.startTime - source.startTime) >= tolerance ||
+    Math.abs(segment.endTime - source.endTime) >= tolerance;
+};
+
+// Writes segments back in the imported file's format. Cues that were not edited keep their original
+// identifiers, timing lines and markup, so an untouched import round-trips byte for byte. Edited ASS
+// cues keep their leading override block; see getDroppedStyling for what else is lost.
+export const serializeSubtitles = (
+  segments: TranscriptionSegment[],
+  speakers: Speaker[],
+  source: SubtitleSource,
+  options: Pick<SubtitleOptions, 'maxLineLength' | 'maxLinesPerCaption'> = { maxLineLength: 42, maxLinesPerCaption: 2 }
+): string => {
+  const { format } = source;
+  const eventFormat = format === 'ass' ? getAssEventFormat(source.header) : [];
+
+  // SRT cues keep their numbers, gaps and all, where those are still unique. New and split cues take the
+  // next number after the cue before them that nothing else uses.
+  const srtIdentifiers: string[] = [];
+  if (format === 'srt') {
+    const kept = new Set<number>();
+    const imported = segments.map(segment => {
+      const identifier = segment.subtitle?.identifier;
+      const number = identifier && /^\d+$/.test(identifier.trim()) ? Number(identifier) : null;
+      if (number === null || kept.has(number)) return null;
+      kept.add(number);
+      return number;
+    });
+
+    const used = new Set(kept);
+    let last = 0;
+    imported.forEach((number, index) => {
+      if (number !== null) {
+        srtIdentifiers.push(segments[index].subtitle!.identifier!);
+        last = number;
+        return;
+      }
+
+      let next = last + 1;
+      while (used.has(next)) next++;
+      used.add(next);
+      srtIdentifiers.push(String(next));
+      last = next;
+    });
+  }
+
+  const cues = segments.map((segment, index) => {
+    const cue = segment.subtitle;
+    const speakerName = speakers.find(speaker => speaker.id === segment.speakerId)?.name;
+    const retimed = !cue || isRetimed(segment, cue, format);
+    const rewritten = !cue || cue.text !== segment.text || cue.speakerName !== speakerName;
+    // ASS keeps the speaker in the Name field, so only a text edit touches its markup
+    const markup = rewritten && !(format === 'ass' && cue?.text === segment.text)
+      ? buildMarkup(
+        breakCaptionLines(segment.text, { maxLineLength: options.maxLineLength, maxLines: options.maxLinesPerCaption }),
+        format,
+        speakerName
+      )
+      : cue!.markup;
+
+    if (format === 'ass') {
+      const [start, end] = retimed
+        ? [formatAssTime(segment.startTime), formatAssTime(segment.endTime)]
+        : cue.timing.split(',');
+      const fields: Record<string, string> = {
+        Layer: '0',
+        Style: 'Default',
+        MarginL: '0',
+        MarginR: '0',
+        MarginV: '0',
+        Effect: '',
+        ...cue?.fields,
+        Start: start,
+        End: end,
+        Text: markup === cue?.markup ? markup : `${cue?.markup.match(ASS_LEADING_OVERRIDES)?.[0] ?? ''}${markup}`
+      };
+      if (rewritten) fields.Name = speakerName ?? '';
+
+      const dialogue = `Dialogue: ${eventFormat.map(name => fields[name] ?? '').join(',')}`;
+      return cue?.comments ? `${cue.comments}\n${dialogue}` : dialogue;
+    }
+
+    const settings = cue?.settings ? ` ${cue.settings}` : '';
+    const timing = retimed
+      ? `${formatCueTime(segment.startTime, format)} --> ${formatCueTime(segment.endTime, format)}${settings}`
+      : cue.timing;
+    // VTT identifiers are optional names
+    const identifier = format === 'srt' ? srtIdentifiers[index] : cue?.identifier;
+    const block = [identifier, timing, markup].filter(part => part !== undefined).join('\n');
+    return cue?.comments ? `${cue.comments}\n\n${block}` : block;
+  });
+
+  const separator = format === 'ass' ? '\n' : '\n\n';
+  const body = [source.header, cues.join(separator)].filter(Boolean).join(separator);
+  const output = `${body}${source.footer}`.replace(/\n/g, source.lineEnding);
+  return source.byteOrderMark ? `\uFEFF${output}` : output;
+};
+
+// Validation
+export const DEFAULT_SUBTITLE_LIMITS = {
+  maxLineLength: 42,
+  maxLinesPerCaption: 2,
+  minDuration: 1,
+  maxDuration: 7,
+  maxCharsPerSecond: 20
+};
+
+export const validateSubtitles = (
+  segments: TranscriptionSegment[],
+  options: Partial<SubtitleOptions> = {}
+): SubtitleIssue[] => {
+  const limits = { ...DEFAULT_SUBTITLE_LIMITS, ...options };
+  const issues: SubtitleIssue[] = [];
+
+  const addIssue = (segmentId: string, type: SubtitleIssue['type'], severity: SubtitleIssue['severity'], message: string) => {
+    issues.push({ id: uuidv4(), segmentId, type, severity, message });
+  };
+
+  const sorted = [...segments].sort((a, b) => a.startTime - b.startTime);
+
+  sorted.forEach((segment, index) => {
+    const duration = segment.endTime - segment.startTime;
+    const previous = sorted[index - 1];
+    const lines = getCaptionLines(segment, { maxLineLength: limits.maxLineLength, maxLines: limits.maxLinesPerCaption });
+    const characters = lines.join(' ').length;
+
+    if (!segment.text.trim()) {
+      addIssue(segment.id, 'empty', 'error', 'Caption has no text');
+    }
+
+    if (duration <= 0) {
+      addIssue(segment.id, 'invalid-timing', 'error', 'Caption ends before it starts');
+      return;
+    }
+
+    if (previous && segment.startTime < previous.endTime - 0.0005) {
+      addIssue(segment.id, 'overlap', 'error', `Overlaps the previous caption by ${(previous.endTime - segment.startTime).toFixed(3)}s`);
+    }
+
+    if (duration < limits.minDuration) {
+      addIssue(segment.id, 'min-duration', 'warning', `On screen for ${duration.toFixed(2)}s, minimum is ${Number(limits.minDuration.toFixed(2))}s`);
+    } else if (duration > limits.maxDuration) {
+      addIssue(segment.id, 'max-duration', 'warning', `On screen for ${duration.toFixed(2)}s, maximum is ${Number(limits.maxDuration.toFixed(2))}s`);
+    }
+
+    const charsPerSecond = characters / duration;
+    if (charsPerSecond > limits.maxCharsPerSecond) {
+      addIssue(segment.id, 'reading-speed', 'warning', `${charsPerSecond.toFixed(1)} characters per second, maximum is ${limits.maxCharsPerSecond}`);
+    }
+
+    if (lines.length > limits.maxLinesPerCaption) {
+      addIssue(segment.id, 'line-count', 'warning', `${lines.length} lines, maximum is ${limits.maxLinesPerCaption}`);
+    }
+
+    lines.forEach((line, lineIndex) => {
+      if (line.length > limits.maxLineLength) {
+        addIssue(segment.id, 'line-length', 'warning', `Line ${lineIndex + 1} has ${line.length} characters, maximum is ${limits.maxLineLength}`);
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,194 @@
+import { TranscriptionSegment, TranscriptionWord } from '../types/audio';
+import { PcmAudio, computeRmsEnvelope } from './audioDsp';
+
+// Frame levels used to place words that have no recognizer timing
+export interface AlignmentEnvelope {
+  frameDuration: number; // seconds
+  levels: Float32Array; // dBFS per frame
+  noiseFloor: number; // dBFS
+}
+
+const FRAME_DURATION = 0.01;
+const VOICED_MARGIN_DB = 9;
+const MIN_WORD_DURATION = 0.05;
+
+export const createAlignmentEnvelope = (audio: PcmAudio): AlignmentEnvelope => {
+  const levels = computeRmsEnvelope(audio, Math.max(1, Math.round(audio.sampleRate * FRAME_DURATION)));
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  // The quietest tenth of the recording approximates room tone
+  const noiseFloor = sorted.length > 0 ? sorted[Math.floor(sorted.length * 0.1)] : -100;
+
+  return { frameDuration: FRAME_DURATION, levels, noiseFloor };
+};
+
+// Tokenizing
+export const tokenizeTranscript = (text: string): string[] => {
+  return text.trim().split(/\s+/).filter(Boolean);
+};
+
+const normalizeToken = (token: string): string => {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+};
+
+// Levenshtein alignment of tokens; returns the old index paired with each new token, or -1 for insertions
+const alignTokens = (oldTokens: string[], newTokens: string[]): number[] => {
+  const rows = oldTokens.length + 1;
+  const cols = newTokens.length + 1;
+  const cost = Array.from({ length: rows }, () => new Uint32Array(cols));
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = oldTokens[i - 1] === newTokens[j - 1] ? 0 : 1;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution,
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const pairs = new Array<number>(newTokens.length).fill(-1);
+  let i = oldTokens.length;
+  let j = newTokens.length;
+  while (i > 0 && j > 0) {
+    const substitution = oldTokens[i - 1] === newTokens[j - 1] ? 0 : 1;
+    if (cost[i][j] === cost[i - 1][j - 1] + substitution) {
+      pairs[j - 1] = i - 1;
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return pairs;
+};
+
+// Placement of unanchored words
+// Spreads words evenly across a time range when there are no word timestamps
+export const estimateWordTimings = (text: string, startTime: number, endTime: number, confidence: number): TranscriptionWord[] => {
+  const tokens = tokenizeTranscript(text);
+  const step = tokens.length > 0 ? (endTime - startTime) / tokens.length : 0;
+
+  return tokens.map((token, i) => ({
+    text: token,
+    startTime: startTime + i * step,
+    endTime: startTime + (i + 1) * step,
+    confidence
+  }));
+};
+
+const getCharacterWeight = (token: string): number => Math.max(1, normalizeToken(token).length);
+
+// Splits [startTime, endTime] between tokens by character count, counting only voiced frames when available
+const placeTokens = (
+  tokens: string[],
+  startTime: number,
+  endTime: number,
+  envelope?: AlignmentEnvelope
+): { startTime: number; endTime: number }[] => {
+  const weights = tokens.map(getCharacterWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Cumulative time function: maps a 0-1 share of the speech to a position in the window
+  let timeAt = (share: number): number => startTime + share * (endTime - startTime);
+
+  if (envelope) {
+    const firstFrame = Math.max(0, Math.floor(startTime / envelope.frameDuration));
+    const lastFrame = Math.min(envelope.levels.length, Math.ceil(endTime / envelope.frameDuration));
+    const threshold = envelope.noiseFloor + VOICED_MARGIN_DB;
+    const voicedFrames: number[] = [];
+    for (let frame = firstFrame; frame < lastFrame; frame++) {
+      if (envelope.levels[frame] > threshold) voicedFrames.push(frame);
+    }
+
+    // Fall back to even spacing when too little of the window is voiced to trust
+    if (voicedFrames.length * envelope.frameDuration >= MIN_WORD_DURATION * tokens.length) {
+      timeAt = (share: number): number => {
+        if (share <= 0) return Math.max(startTime, voicedFrames[0] * envelope.frameDuration);
+        const index = Math.min(voicedFrames.length - 1, Math.ceil(share * voicedFrames.length) - 1);
+        return Math.min(endTime, (voicedFrames[index] + 1) * envelope.frameDuration);
+      };
+    }
+  }
+
+  let cumulative = 0;
+  return weights.map(weight => {
+    const start = timeAt(cumulative / totalWeight);
+    cumulative += weight;
+    return { startTime: start, endTime: Math.max(start, timeAt(cumulative / totalWeight)) };
+  });
+};
+
+// Aligns edited segment text to the audio. Words the recognizer heard keep their timings; corrected
+// words inherit the timing of the word they replace; inserted words are placed in the voiced audio
+// between their neighbours.
+export const alignSegmentText = (
+  segment: TranscriptionSegment,
+  text: string,
+  envelope?: AlignmentEnvelope
+): TranscriptionWord[] => {
+  const newTokens = tokenizeTranscript(text);
+  const pairs = alignTokens(
+    segment.words.map(word => normalizeToken(word.text)),
+    newTokens.map(normalizeToken)
+  );
+
+  const words: (TranscriptionWord | null)[] = newTokens.map((token, index) => {
+    const oldIndex = pairs[index];
+    if (oldIndex === -1) return null;
+
+    const old = segment.words[oldIndex];
+    const unchanged = normalizeToken(old.text) === normalizeToken(token);
+    return {
+      ...old,
+      text: token,
+      confidence: unchanged ? old.confidence : 1 // A human correction is certain
+    };
+  });
+
+  // Place each run of inserted words between the anchored words around it
+  let index = 0;
+  while (index < words.length) {
+    if (words[index]) {
+      index++;
+      continue;
+    }
+
+    let runStart = index;
+    let runEnd = index;
+    while (runEnd < words.length && !words[runEnd]) runEnd++;
+
+    // Re-place the neighbours too when the gap is too short to hold the run
+    const minimumSpan = (runEnd - runStart) * MIN_WORD_DURATION;
+    const gapStart = (i: number) => words[i - 1]?.endTime ?? segment.startTime;
+    const gapEnd = (i: number) => words[i]?.startTime ?? segment.endTime;
+    if (gapEnd(runEnd) - gapStart(runStart) < minimumSpan) {
+      if (runStart > 0) runStart--;
+      if (runEnd < words.length) runEnd++;
+    }
+
+    const windowStart = gapStart(runStart);
+    const windowEnd = gapEnd(runEnd);
+    const placed = placeTokens(newTokens.slice(runStart, runEnd), windowStart, Math.max(windowStart, windowEnd), envelope);
+
+    placed.forEach((timing, offset) => {
+      const existing = words[runStart + offset];
+      words[runStart + offset] = {
+        text: newTokens[runStart + offset],
+        confidence: existing?.confidence ?? 1,
+        deleted: existing?.deleted,
+        ...timing
+      };
+    });
+
+    index = runEnd;
+  }
+
+  return words.filter((word): word is TranscriptionWord => word !== null);
+};
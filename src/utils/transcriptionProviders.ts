@@ -0,0 +1,484 @@
+import { v4 as uuidv4 } from 'uuid';
+import SpeechSDK from 'web-speech-cognitive-services/lib/SpeechServices/SpeechSDK';
+import { ConversationTranscriber } from 'microsoft-cognitiveservices-speech-sdk';
+import {
+  TranscriptionSegment,
+  Speaker,
+  TranscriptionOptions,
+  TranscriptionSettings
+} from '../types/audio';
+import { decodeAudio, downmixToMono, encodeWav, getDuration } from './audioDsp';
+import { estimateWordTimings } from './transcriptAlignment';
+
+// Provider output before ids, speakers and option post-processing are applied
+export interface RawWord {
+  text: string;
+  startTime: number; // seconds
+  endTime: number; // seconds
+  confidence: number; // 0-1
+}
+
+export interface RawUtterance {
+  text: string;
+  startTime: number;
+  endTime: number;
+  speakerLabel?: string;
+  confidence?: number;
+  words: RawWord[];
+}
+
+export interface RawTranscript {
+  language: string;
+  utterances: RawUtterance[];
+}
+
+export interface TranscriptionProviderCapabilities {
+  diarization: boolean;
+  punctuationControl: boolean; // Provider can omit punctuation itself
+  profanityFilter: boolean; // Provider can mask profanity itself
+}
+
+export interface TranscriptionProvider {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: TranscriptionProviderCapabilities;
+  isConfigured: () => boolean;
+  transcribe: (
+    file: Blob,
+    options: TranscriptionOptions,
+    onProgress?: (progress: number) => void // 0-1
+  ) => Promise<RawTranscript>;
+}
+
+export interface TranscriptionOutput {
+  segments: TranscriptionSegment[];
+  speakers: Speaker[];
+  language: string;
+}
+
+// Settings
+const SETTINGS_STORAGE_KEY = 'transcription-settings';
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  providerId: 'whisper-http',
+  options: {
+    language: 'en',
+    speakerDiarization: true,
+    punctuation: true,
+    filterProfanity: false
+  },
+  whisper: {
+    endpoint: 'http://localhost:8000/v1/audio/transcriptions',
+    model: 'whisper-1'
+  },
+  cognitiveServices: {
+    region: '',
+    subscriptionKey: ''
+  }
+};
+
+export const loadTranscriptionSettings = (): TranscriptionSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_TRANSCRIPTION_SETTINGS;
+
+    const parsed = JSON.parse(saved) as Partial<TranscriptionSettings>;
+    return {
+      providerId: parsed.providerId ?? DEFAULT_TRANSCRIPTION_SETTINGS.providerId,
+      options: { ...DEFAULT_TRANSCRIPTION_SETTINGS.options, ...parsed.options },
+      whisper: { ...DEFAULT_TRANSCRIPTION_SETTINGS.whisper, ...parsed.whisper },
+      cognitiveServices: { ...DEFAULT_TRANSCRIPTION_SETTINGS.cognitiveServices, ...parsed.cognitiveServices }
+    };
+  } catch (error) {
+    console.error('Failed to load transcription settings:', error);
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Post-processing shared by all providers
+const SPEAKER_COLORS = [
+  '#3B82F6', // blue
+  '#10B981', // green
+  '#F59E0B', // amber
+  '#EF4444', // red
+  '#8B5CF6', // purple
+  '#EC4899', // pink
+  '#14B8A6', // teal
+  '#F97316'  // orange
+];
+
+export const createSpeaker = (name: string, index: number): Speaker => ({
+  id: uuidv4(),
+  name,
+  gender: 'unknown',
+  segments: [],
+  totalDuration: 0,
+  color: SPEAKER_COLORS[index % SPEAKER_COLORS.length]
+});
+
+const PROFANITY_PATTERN = /\b(fuck\w*|shit\w*|bitch\w*|bastard\w*|asshole\w*|cunt\w*|dick\w*|piss\w*|damn\w*|crap\w*)\b/gi;
+
+const stripPunctuation = (text: string): string => {
+  return text
+    .replace(/[.,!?;:"“”„()[\]{}…¿¡]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const maskProfanity = (text: string): string => {
+  return text.replace(PROFANITY_PATTERN, word => word[0] + '*'.repeat(word.length - 1));
+};
+
+export const buildTranscription = (
+  raw: RawTranscript,
+  options: TranscriptionOptions,
+  capabilities: TranscriptionProviderCapabilities
+): TranscriptionOutput => {
+  const removePunctuation = options.punctuation === false && !capabilities.punctuationControl;
+  const removeProfanity = options.filterProfanity === true && !capabilities.profanityFilter;
+  const clean = (text: string): string => {
+    let result = text.trim();
+    if (removePunctuation) result = stripPunctuation(result);
+    if (removeProfanity) result = maskProfanity(result);
+    return result;
+  };
+
+  const speakersByLabel = new Map<string, Speaker>();
+  const getSpeaker = (label: string): Speaker => {
+    let speaker = speakersByLabel.get(label);
+    if (!speaker) {
+      const index = speakersByLabel.size;
+      speaker = createSpeaker(`Speaker ${index + 1}`, index);
+      speakersByLabel.set(label, speaker);
+    }
+    return speaker;
+  };
+
+  const segments: TranscriptionSegment[] = [];
+  raw.utterances.forEach(utterance => {
+    const words = utterance.words
+      .map(word => ({ ...word, text: clean(word.text) }))
+      .filter(word => word.text.length > 0);
+    const text = clean(utterance.text) || words.map(word => word.text).join(' ');
+    if (!text) return;
+
+    const confidence = utterance.confidence ?? (
+      words.length > 0 ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length : 0
+    );
+    const label = options.speakerDiarization ? utterance.speakerLabel ?? 'default' : 'default';
+    const speaker = getSpeaker(label);
+    const segment: TranscriptionSegment = {
+      id: uuidv4(),
+      startTime: utterance.startTime,
+      endTime: utterance.endTime,
+      text,
+      speakerId: speaker.id,
+      confidence,
+      words,
+      edited: false
+    };
+
+    segments.push(segment);
+    speaker.segments.push(segment.id);
+    speaker.totalDuration += segment.endTime - segment.startTime;
+  });
+
+  return {
+    segments,
+    speakers: Array.from(speakersByLabel.values()),
+    language: raw.language
+  };
+};
+
+// Whisper-compatible HTTP endpoint (OpenAI /v1/audio/transcriptions, faster-whisper-server, whisper.cpp server)
+interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  speaker?: string; // Only from servers that diarize on their own, such as WhisperX
+  words?: WhisperWord[];
+}
+
+interface WhisperResponse {
+  language?: string;
+  text: string;
+  duration?: number;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
+}
+
+export const createWhisperHttpProvider = (config: TranscriptionSettings['whisper']): TranscriptionProvider => ({
+  id: 'whisper-http',
+  name: 'Whisper (HTTP endpoint)',
+  description: 'A local or hosted server exposing the OpenAI-compatible transcription API',
+  // The OpenAI transcription API does not return speakers
+  capabilities: { diarization: false, punctuationControl: false, profanityFilter: false },
+  isConfigured: () => Boolean(config.endpoint),
+  transcribe: async (file, options) => {
+    const form = new FormData();
+    form.append('file', file, file instanceof File ? file.name : 'audio');
+    form.append('model', config.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('timestamp_granularities[]', 'segment');
+    if (options.language) form.append('language', options.language.split('-')[0]);
+
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+      body: form
+    });
+    if (!response.ok) {
+      throw new Error(`Whisper endpoint returned ${response.status}: ${await response.text()}`);
+    }
+
+    const result = await response.json() as WhisperResponse;
+    const segments = result.segments ?? [{ start: 0, end: result.duration ?? 0, text: result.text }];
+    const toWord = (word: WhisperWord, fallbackConfidence: number): RawWord => ({
+      text: word.word,
+      startTime: word.start,
+      endTime: word.end,
+      confidence: word.probability ?? fallbackConfidence
+    });
+
+    return {
+      language: options.language ?? result.language ?? 'en',
+      utterances: segments.map(segment => {
+        // avg_logprob is the mean token log-probability, so exp() gives a 0-1 confidence
+        const confidence = segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : 0.8;
+        const topLevelWords = (result.words ?? []).filter(word => word.start >= segment.start && word.start < segment.end);
+        const words = segment.words ?? (topLevelWords.length > 0 ? topLevelWords : undefined);
+
+        return {
+          text: segment.text,
+          startTime: segment.start,
+          endTime: segment.end,
+          speakerLabel: segment.speaker,
+          words: words
+            ? words.map(word => toWord(word, confidence))
+            : estimateWordTimings(segment.text, segment.start, segment.end, confidence)
+        };
+      })
+    };
+  }
+});
+
+// Azure Speech through the SDK bundled with web-speech-cognitive-services
+interface DetailedWord {
+  Word: string;
+  Offset: number; // 100 ns ticks
+  Duration: number;
+  Confidence?: number;
+}
+
+interface DetailedResult {
+  Offset: number;
+  Duration: number;
+  NBest?: {
+    Confidence: number;
+    Lexical: string;
+    Display: string;
+    Words?: DetailedWord[];
+  }[];
+}
+
+const TICKS_PER_SECOND = 10000000;
+
+const LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  pt: 'pt-BR',
+  nl: 'nl-NL',
+  ja: 'ja-JP',
+  ko: 'ko-KR',
+  zh: 'zh-CN',
+  ar: 'ar-SA',
+  hi: 'hi-IN',
+  ru: 'ru-RU'
+};
+
+const toLocale = (language: string): string => {
+  if (language.includes('-')) return language;
+  return LOCALES[language] ?? `${language}-${language.toUpperCase()}`;
+};
+
+const parseDetailedResult = (json: string, punctuation: boolean): RawUtterance | null => {
+  const result = JSON.parse(json) as DetailedResult;
+  const best = result.NBest?.[0];
+  if (!best) return null;
+
+  // Word entries are lexical; reuse the display tokens when they line up one-to-one
+  const text = punctuation ? best.Display : best.Lexical;
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const detailedWords = best.Words ?? [];
+  const words = detailedWords.map((word, i) => ({
+    text: tokens.length === detailedWords.length ? tokens[i] : word.Word,
+    startTime: word.Offset / TICKS_PER_SECOND,
+    endTime: (word.Offset + word.Duration) / TICKS_PER_SECOND,
+    confidence: word.Confidence ?? best.Confidence
+  }));
+
+  return {
+    text,
+    startTime: result.Offset / TICKS_PER_SECOND,
+    endTime: (result.Offset + result.Duration) / TICKS_PER_SECOND,
+    confidence: best.Confidence,
+    words
+  };
+};
+
+export const createCognitiveServicesProvider = (
+  config: TranscriptionSettings['cognitiveServices']
+): TranscriptionProvider => ({
+  id: 'cognitive-services',
+  name: 'Azure Cognitive Services',
+  description: 'Azure Speech continuous recognition with word-level timestamps',
+  // Speakers come from conversation transcription, used instead of plain recognition when asked for
+  capabilities: { diarization: true, punctuationControl: true, profanityFilter: true },
+  isConfigured: () => Boolean(config.region && config.subscriptionKey),
+  transcribe: async (file, options, onProgress) => {
+    const { AudioConfig, OutputFormat, ResultReason, SpeechConfig, SpeechRecognizer } = SpeechSDK;
+
+    // The SDK reads 16 kHz mono PCM WAV most reliably
+    const audio = downmixToMono(await decodeAudio(file, 16000));
+    const duration = getDuration(audio);
+    const wavFile = new File([encodeWav(audio)], 'audio.wav', { type: 'audio/wav' });
+
+    const language = toLocale(options.language ?? 'en');
+    const speechConfig = SpeechConfig.fromSubscription(config.subscriptionKey, config.region);
+    speechConfig.speechRecognitionLanguage = language;
+    speechConfig.outputFormat = OutputFormat.Detailed;
+    speechConfig.requestWordLevelTimestamps();
+    speechConfig.setProperty('SpeechServiceResponse_ProfanityOption', options.filterProfanity ? 'Masked' : 'Raw');
+
+    const audioConfig = AudioConfig.fromWavFileInput(wavFile);
+    const utterances: RawUtterance[] = [];
+    const collect = (result: { reason: number; json: string }, speakerLabel?: string) => {
+      if (result.reason !== ResultReason.RecognizedSpeech) return;
+
+      const utterance = parseDetailedResult(result.json, options.punctuation !== false);
+      if (utterance) {
+        utterances.push(speakerLabel ? { ...utterance, speakerLabel } : utterance);
+        if (duration > 0) onProgress?.(Math.min(1, utterance.endTime / duration));
+      }
+    };
+
+    if (options.speakerDiarization) {
+      const transcriber = new ConversationTranscriber(speechConfig, audioConfig);
+      try {
+        await new Promise<void>((resolve, reject) => {
+          // Speech the service could not attribute comes back as 'Unknown'
+          transcriber.transcribed = (_sender, event) => {
+            collect(event.result, event.result.speakerId && event.result.speakerId !== 'Unknown' ? event.result.speakerId : undefined);
+          };
+          transcriber.canceled = (_sender, event) => {
+            if (event.errorDetails) reject(new Error(event.errorDetails));
+          };
+          transcriber.sessionStopped = () => resolve();
+          transcriber.startTranscribingAsync(undefined, error => reject(new Error(error)));
+        });
+      } finally {
+        transcriber.close();
+      }
+
+      return { language, utterances };
+    }
+
+    const recognizer = new SpeechRecognizer(speechConfig, audioConfig);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        recognizer.recognized = (_sender, event) => collect(event.result);
+        recognizer.canceled = (_sender, event) => {
+          if (event.errorDetails) reject(new Error(event.errorDetails));
+        };
+        recognizer.sessionStopped = () => resolve();
+        recognizer.startContinuousRecognitionAsync(undefined, error => reject(new Error(error)));
+      });
+    } finally {
+      recognizer.close();
+    }
+
+    return { language, utterances };
+  }
+});
+
+// Deterministic provider for tests and offline demos; ignores the audio
+const SAMPLE_UTTERANCES: { speakerLabel: string; startTime: number; endTime: number; text: string }[] = [
+  { speakerLabel: 'interviewer', startTime: 0, endTime: 5.2, text: 'Can you tell me about your experience growing up in this neighborhood?' },
+  { speakerLabel: 'subject', startTime: 5.8, endTime: 12.4, text: 'Well, it was a very different place back then. The community was tight-knit.' },
+  { speakerLabel: 'subject', startTime: 13.1, endTime: 18.7, text: 'Everyone knew each other, and we looked out for one another.' }
+];
+
+export const SAMPLE_TRANSCRIPT: RawTranscript = {
+  language: 'en',
+  utterances: SAMPLE_UTTERANCES.map(utterance => ({
+    ...utterance,
+    words: estimateWordTimings(utterance.text, utterance.startTime, utterance.endTime, 0.95)
+  }))
+};
+
+export const createFixtureProvider = (fixture: RawTranscript = SAMPLE_TRANSCRIPT): TranscriptionProvider => ({
+  id: 'fixture',
+  name: 'Sample transcript (offline)',
+  description: 'Returns a fixed transcript without sending audio anywhere',
+  capabilities: { diarization: true, punctuationControl: false, profanityFilter: false },
+  isConfigured: () => true,
+  transcribe: async (_file, options, onProgress) => {
+    onProgress?.(1);
+    return { ...fixture, language: options.language ?? fixture.language };
+  }
+});
+
+// Registry
+const providers = new Map<string, TranscriptionProvider>();
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getTranscriptionProvider = (id: string): TranscriptionProvider | undefined => {
+  return providers.get(id);
+};
+
+export const getTranscriptionProviders = (): TranscriptionProvider[] => {
+  return Array.from(providers.values());
+};
+
+// Re-registers the configurable providers so they pick up edited settings
+export const configureTranscriptionProviders = (settings: TranscriptionSettings): void => {
+  registerTranscriptionProvider(createWhisperHttpProvider(settings.whisper));
+  registerTranscriptionProvider(createCognitiveServicesProvider(settings.cognitiveServices));
+};
+
+export const getActiveTranscriptionProvider = (settings: TranscriptionSettings): TranscriptionProvider => {
+  configureTranscriptionProviders(settings);
+
+  const provider = getTranscriptionProvider(settings.providerId);
+  if (!provider) {
+    throw new Error(`Unknown transcription provider: ${settings.providerId}`);
+  }
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.name} is not configured. Add its connection details in the transcription settings.`);
+  }
+
+  return provider;
+};
+
+configureTranscriptionProviders(DEFAULT_TRANSCRIPTION_SETTINGS);
+registerTranscriptionProvider(createFixtureProvider());
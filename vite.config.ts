@@ -4,6 +4,16 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      output: {
+        // OCR language data is fetched by file name from its folder, so it can't carry a hash
+        assetFileNames: asset => asset.name?.endsWith('.traineddata.gz')
+          ? 'assets/tesseract/[name][extname]'
+          : 'assets/[name]-[hash][extname]'
+      }
+    }
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },